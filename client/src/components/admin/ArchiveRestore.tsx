@@ -0,0 +1,191 @@
+import { useState } from 'react'
+import * as adminApi from '../../services/adminApi'
+
+export default function ArchiveRestore() {
+  const [file, setFile] = useState<File | null>(null)
+  const [report, setReport] = useState<adminApi.RestoreReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [inputKey, setInputKey] = useState(0)
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] ?? null)
+    setReport(null)
+    setError('')
+  }
+
+  const runRestore = async (dryRun: boolean) => {
+    if (!file) return
+    if (!dryRun && !confirm('Restore this archive? Groups, accounts and files will be added to the database.')) return
+
+    try {
+      setLoading(true)
+      setError('')
+      setReport(await adminApi.restoreArchive(file, dryRun))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read archive')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDone = () => {
+    setFile(null)
+    setReport(null)
+    setError('')
+    setInputKey(key => key + 1)
+  }
+
+  const restoring = report?.groups.filter(g => g.action === 'restore') ?? []
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">Restore from Archive</h3>
+      <p className="text-gray-600 mb-4">
+        Bring groups back from an archive downloaded before a reset. Groups that already exist are skipped,
+        students are matched to existing accounts by email, and models are matched to templates by name.
+      </p>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      {!report?.restored && (
+        <div className="flex items-center gap-4 mb-4">
+          <input
+            key={inputKey}
+            type="file"
+            accept=".zip"
+            onChange={handleFileChange}
+            className="text-sm text-gray-700"
+          />
+          <button
+            onClick={() => runRestore(true)}
+            disabled={!file || loading}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading && !report ? 'Checking...' : 'Check Archive'}
+          </button>
+        </div>
+      )}
+
+      {report && (
+        <div className="space-y-4">
+          <div className="text-sm text-gray-600">
+            Format {report.formatVersion} archive
+            {report.exportedAt && <> exported {new Date(report.exportedAt).toLocaleString()}</>}
+          </div>
+
+          {report.restored ? (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+              <h4 className="font-semibold text-green-800 mb-3">Restore Complete</h4>
+              <ul className="space-y-1 text-sm text-green-700">
+                <li>Groups: {report.restored.groups}</li>
+                <li>Accounts Created: {report.restored.users} ({report.restored.invited} invitations sent)</li>
+                <li>Submissions: {report.restored.submissions} ({report.restored.versions} versions)</li>
+                <li>Literature: {report.restored.literature}</li>
+                <li>Messages: {report.restored.messages}</li>
+                <li>Files Written: {report.restored.files}</li>
+              </ul>
+            </div>
+          ) : (
+            <div className="overflow-hidden border border-gray-200 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Group</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Members</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Models</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Literature</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Messages</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {report.groups.map((group, index) => (
+                    <tr key={index} className={group.action === 'skip' ? 'text-gray-400' : 'text-gray-700'}>
+                      <td className="px-4 py-2">{group.name} ({group.proteinPdbId})</td>
+                      <td className="px-4 py-2 text-right">{group.members}</td>
+                      <td className="px-4 py-2 text-right">{group.submissions} ({group.versions} versions)</td>
+                      <td className="px-4 py-2 text-right">{group.literature}</td>
+                      <td className="px-4 py-2 text-right">{group.messages}</td>
+                      <td className="px-4 py-2">
+                        {group.action === 'restore' ? (
+                          <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">Restore</span>
+                        ) : (
+                          <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-600" title={group.reason ?? undefined}>
+                            Skip
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.groups.length === 0 && (
+                <div className="p-4 text-center text-gray-500">The archive contains no groups.</div>
+              )}
+            </div>
+          )}
+
+          {!report.restored && (
+            <div className="text-sm text-gray-600">
+              {report.users.existing} existing account{report.users.existing === 1 ? '' : 's'} will be reused
+              and {report.users.toCreate} will be created.
+              {report.templatesToCreate.length > 0 && (
+                <> Missing templates will be created inactive: {report.templatesToCreate.join(', ')}.</>
+              )}
+            </div>
+          )}
+
+          {report.conflicts.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <h4 className="font-semibold text-yellow-800 mb-2">Conflicts</h4>
+              <ul className="list-disc list-inside space-y-1 text-sm text-yellow-800">
+                {report.conflicts.map((conflict, index) => <li key={index}>{conflict}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {report.warnings.length > 0 && (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <h4 className="font-semibold text-gray-800 mb-2">Warnings</h4>
+              <ul className="list-disc list-inside space-y-1 text-sm text-gray-600">
+                {report.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            {report.restored ? (
+              <button
+                onClick={handleDone}
+                className="bg-gray-600 text-white px-6 py-2 rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                Done
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={handleDone}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => runRestore(false)}
+                  disabled={loading || restoring.length === 0}
+                  className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                  {loading ? 'Restoring...' : `Restore ${restoring.length} Group${restoring.length === 1 ? '' : 's'}`}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import * as adminApi from '../../services/adminApi'
+import { courseLabel } from '../../utils/courses'
+
+interface Props {
+  terms: adminApi.Term[]
+  // Course id, or '' for no course
+  value: string
+  onChange: (value: string) => void
+  // Shown before the courses, e.g. an "All courses" filter option
+  extraOptions?: { value: string; label: string }[]
+  className?: string
+}
+
+export default function CourseSelect({ terms, value, onChange, extraOptions = [], className = '' }: Props) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={`px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm ${className}`}
+    >
+      {extraOptions.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+      <option value="">No course</option>
+      {terms.filter(term => term.courses.length > 0).map(term => (
+        <optgroup key={term.id} label={term.name}>
+          {term.courses.map(course => (
+            <option key={course.id} value={course.id}>{courseLabel(course)}</option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,538 @@
+import { useState, useEffect } from 'react'
+import * as adminApi from '../../services/adminApi'
+import { courseLabel } from '../../utils/courses'
+
+const emptyTermForm = { name: '', startsAt: '', endsAt: '' }
+const emptyCourseForm = { name: '', section: '' }
+
+export default function CoursesTab() {
+  const [terms, setTerms] = useState<adminApi.Term[]>([])
+  const [unassigned, setUnassigned] = useState({ groups: 0, modelTemplates: 0 })
+  const [instructors, setInstructors] = useState<adminApi.User[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [showTermForm, setShowTermForm] = useState(false)
+  const [editingTermId, setEditingTermId] = useState<string | null>(null)
+  const [termForm, setTermForm] = useState(emptyTermForm)
+  const [courseFormTermId, setCourseFormTermId] = useState<string | null>(null)
+  const [editingCourseId, setEditingCourseId] = useState<string | null>(null)
+  const [courseForm, setCourseForm] = useState(emptyCourseForm)
+  const [instructorsCourse, setInstructorsCourse] = useState<adminApi.Course | null>(null)
+  const [selectedInstructorIds, setSelectedInstructorIds] = useState<string[]>([])
+  const [copyCourse, setCopyCourse] = useState<adminApi.Course | null>(null)
+  const [copySourceId, setCopySourceId] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const [termsData, usersData] = await Promise.all([
+        adminApi.getTerms(),
+        adminApi.getUsers()
+      ])
+      setTerms(termsData.terms)
+      setUnassigned(termsData.unassigned)
+      setInstructors(usersData.filter(u => u.role === 'INSTRUCTOR' || u.role === 'TA'))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load courses')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Term dates are whole days, stored as UTC midnight
+  const toDateInput = (dateStr: string | null) => dateStr ? dateStr.split('T')[0] : ''
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      timeZone: 'UTC'
+    })
+  }
+
+  const handleTermSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      const data = {
+        name: termForm.name,
+        startsAt: termForm.startsAt || null,
+        endsAt: termForm.endsAt || null
+      }
+      if (editingTermId) {
+        await adminApi.updateTerm(editingTermId, data)
+      } else {
+        await adminApi.createTerm(data)
+      }
+      setShowTermForm(false)
+      setEditingTermId(null)
+      setTermForm(emptyTermForm)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save term')
+    }
+  }
+
+  const handleEditTerm = (term: adminApi.Term) => {
+    setTermForm({
+      name: term.name,
+      startsAt: toDateInput(term.startsAt),
+      endsAt: toDateInput(term.endsAt)
+    })
+    setEditingTermId(term.id)
+    setShowTermForm(true)
+  }
+
+  const handleDeleteTerm = async (term: adminApi.Term) => {
+    if (!confirm(`Delete the term "${term.name}"?`)) return
+    try {
+      await adminApi.deleteTerm(term.id)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete term')
+    }
+  }
+
+  const handleCourseSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!courseFormTermId) return
+    try {
+      if (editingCourseId) {
+        await adminApi.updateCourse(editingCourseId, courseForm)
+      } else {
+        await adminApi.createCourse({ termId: courseFormTermId, ...courseForm })
+      }
+      setCourseFormTermId(null)
+      setEditingCourseId(null)
+      setCourseForm(emptyCourseForm)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save course')
+    }
+  }
+
+  const handleEditCourse = (course: adminApi.Course) => {
+    setCourseForm({ name: course.name, section: course.section || '' })
+    setEditingCourseId(course.id)
+    setCourseFormTermId(course.termId)
+  }
+
+  const handleDeleteCourse = async (course: adminApi.Course) => {
+    const templateNote = course._count.modelTemplates > 0
+      ? ` Its ${course._count.modelTemplates} model template${course._count.modelTemplates !== 1 ? 's' : ''} will be deleted too.`
+      : ''
+    if (!confirm(`Delete the course "${courseLabel(course)}"?${templateNote}`)) return
+    try {
+      await adminApi.deleteCourse(course.id)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete course')
+    }
+  }
+
+  const openInstructors = (course: adminApi.Course) => {
+    setSelectedInstructorIds(course.instructors.map(i => i.userId))
+    setInstructorsCourse(course)
+  }
+
+  const toggleInstructor = (userId: string) => {
+    setSelectedInstructorIds(prev =>
+      prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]
+    )
+  }
+
+  const handleSaveInstructors = async () => {
+    if (!instructorsCourse) return
+    try {
+      setSaving(true)
+      await adminApi.setCourseInstructors(instructorsCourse.id, selectedInstructorIds)
+      setInstructorsCourse(null)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update instructors')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const openCopy = (course: adminApi.Course) => {
+    setCopySourceId('')
+    setCopyCourse(course)
+  }
+
+  const handleCopyTemplates = async () => {
+    if (!copyCourse) return
+    try {
+      setSaving(true)
+      const result = await adminApi.copyCourseTemplates(copyCourse.id, copySourceId || null)
+      setMessage(`Copied ${result.copied} model template${result.copied !== 1 ? 's' : ''} into ${courseLabel(copyCourse)}.`)
+      setCopyCourse(null)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to copy templates')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAdoptUnassigned = async (course: adminApi.Course) => {
+    if (!confirm(`Move all ${unassigned.groups} groups and ${unassigned.modelTemplates} model templates that aren't in a course into ${courseLabel(course)}?`)) return
+    try {
+      const result = await adminApi.adoptUnassigned(course.id)
+      setMessage(`Moved ${result.groups} groups and ${result.modelTemplates} model templates into ${courseLabel(course)}.`)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to move groups and templates')
+    }
+  }
+
+  if (loading) {
+    return <div className="text-gray-500">Loading courses...</div>
+  }
+
+  const allCourses = terms.flatMap(term => term.courses.map(course => ({ course, term })))
+  const hasUnassigned = unassigned.groups > 0 || unassigned.modelTemplates > 0
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Terms & Courses</h2>
+          <p className="text-sm text-gray-500">
+            Each course has its own groups, model templates and instructors
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setTermForm(emptyTermForm)
+            setEditingTermId(null)
+            setShowTermForm(true)
+          }}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+        >
+          New Term
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-3 rounded-md mb-4">
+          {error}
+          <button onClick={() => setError('')} className="ml-2 underline">Dismiss</button>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 text-green-700 p-3 rounded-md mb-4">
+          {message}
+          <button onClick={() => setMessage('')} className="ml-2 underline">Dismiss</button>
+        </div>
+      )}
+
+      {hasUnassigned && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 p-4 rounded-md mb-6 text-sm">
+          {unassigned.groups} group{unassigned.groups !== 1 ? 's' : ''} and {unassigned.modelTemplates} model
+          template{unassigned.modelTemplates !== 1 ? 's' : ''} aren't in a course yet. Every instructor can see
+          those groups. Use <span className="font-medium">Move unassigned here</span> on a course to bring them in.
+        </div>
+      )}
+
+      {/* Term Form Modal */}
+      {showTermForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h3 className="text-lg font-semibold mb-4">
+              {editingTermId ? 'Edit Term' : 'New Term'}
+            </h3>
+            <form onSubmit={handleTermSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={termForm.name}
+                  onChange={(e) => setTermForm({ ...termForm, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g., Fall 2025"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+                  <input
+                    type="date"
+                    value={termForm.startsAt}
+                    onChange={(e) => setTermForm({ ...termForm, startsAt: e.target.value })}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+                  <input
+                    type="date"
+                    value={termForm.endsAt}
+                    onChange={(e) => setTermForm({ ...termForm, endsAt: e.target.value })}
+                    className="w-full px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowTermForm(false)
+                    setEditingTermId(null)
+                  }}
+                  className="px-4 py-2 text-gray-600 hover:text-gray-800"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+                >
+                  {editingTermId ? 'Update' : 'Create'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Course Form Modal */}
+      {courseFormTermId && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h3 className="text-lg font-semibold mb-4">
+              {editingCourseId ? 'Edit Course' : 'New Course'}
+            </h3>
+            <form onSubmit={handleCourseSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={courseForm.name}
+                  onChange={(e) => setCourseForm({ ...courseForm, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g., BIOC 301"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Section (optional)</label>
+                <input
+                  type="text"
+                  value={courseForm.section}
+                  onChange={(e) => setCourseForm({ ...courseForm, section: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g., Section 02"
+                />
+              </div>
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setCourseFormTermId(null)
+                    setEditingCourseId(null)
+                  }}
+                  className="px-4 py-2 text-gray-600 hover:text-gray-800"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+                >
+                  {editingCourseId ? 'Update' : 'Create'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Instructors Modal */}
+      {instructorsCourse && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h3 className="text-lg font-semibold mb-1">Instructors</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Who teaches {courseLabel(instructorsCourse)}. They only see this course's groups.
+            </p>
+            {instructors.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-4">There are no instructor accounts yet.</p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md mb-4">
+                {instructors.map(instructor => (
+                  <label key={instructor.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selectedInstructorIds.includes(instructor.id)}
+                      onChange={() => toggleInstructor(instructor.id)}
+                    />
+                    <span className="text-gray-800">{instructor.firstName} {instructor.lastName}</span>
+                    {instructor.role === 'TA' && (
+                      <span className="text-xs bg-teal-100 text-teal-700 px-1.5 py-0.5 rounded">TA</span>
+                    )}
+                    <span className="text-gray-400 truncate">{instructor.email}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setInstructorsCourse(null)}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveInstructors}
+                disabled={saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Copy Templates Modal */}
+      {copyCourse && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h3 className="text-lg font-semibold mb-1">Copy Model Templates</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Copies every model template and its rubric into {courseLabel(copyCourse)}. Deadlines are not
+              copied - set them for the new term afterwards.
+            </p>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Copy from</label>
+            <select
+              value={copySourceId}
+              onChange={(e) => setCopySourceId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm mb-4"
+            >
+              <option value="">Templates not in a course</option>
+              {allCourses.filter(({ course }) => course.id !== copyCourse.id).map(({ course, term }) => (
+                <option key={course.id} value={course.id}>
+                  {term.name} - {courseLabel(course)} ({course._count.modelTemplates})
+                </option>
+              ))}
+            </select>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setCopyCourse(null)}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCopyTemplates}
+                disabled={saving}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                {saving ? 'Copying...' : 'Copy'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Terms List */}
+      {terms.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+          No terms yet. Create one, then add its courses.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {terms.map(term => (
+            <div key={term.id} className="bg-white rounded-lg shadow p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-800">{term.name}</h3>
+                  {(term.startsAt || term.endsAt) && (
+                    <p className="text-sm text-gray-500">
+                      {term.startsAt ? formatDate(term.startsAt) : '?'} - {term.endsAt ? formatDate(term.endsAt) : '?'}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-3 text-sm">
+                  <button
+                    onClick={() => {
+                      setCourseForm(emptyCourseForm)
+                      setEditingCourseId(null)
+                      setCourseFormTermId(term.id)
+                    }}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    + Add Course
+                  </button>
+                  <button onClick={() => handleEditTerm(term)} className="text-blue-600 hover:text-blue-800">
+                    Edit
+                  </button>
+                  <button onClick={() => handleDeleteTerm(term)} className="text-red-600 hover:text-red-800">
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {term.courses.length === 0 ? (
+                <p className="text-sm text-gray-400 border-t pt-4">No courses in this term yet</p>
+              ) : (
+                <div className="border-t divide-y divide-gray-100">
+                  {term.courses.map(course => (
+                    <div key={course.id} className="py-3 flex justify-between items-start gap-4">
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-800">{courseLabel(course)}</div>
+                        <div className="text-xs text-gray-500">
+                          {course._count.groups} group{course._count.groups !== 1 ? 's' : ''} ·{' '}
+                          {course._count.modelTemplates} model template{course._count.modelTemplates !== 1 ? 's' : ''}
+                        </div>
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {course.instructors.length === 0 ? (
+                            <span className="text-xs text-amber-600">No instructors assigned</span>
+                          ) : (
+                            course.instructors.map(({ user }) => (
+                              <span key={user.id} className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full">
+                                {user.firstName} {user.lastName}
+                              </span>
+                            ))
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap justify-end gap-x-3 gap-y-1 text-sm shrink-0">
+                        <button onClick={() => openInstructors(course)} className="text-blue-600 hover:text-blue-800">
+                          Instructors
+                        </button>
+                        <button onClick={() => openCopy(course)} className="text-blue-600 hover:text-blue-800">
+                          Copy Templates
+                        </button>
+                        {hasUnassigned && (
+                          <button onClick={() => handleAdoptUnassigned(course)} className="text-amber-600 hover:text-amber-800">
+                            Move unassigned here
+                          </button>
+                        )}
+                        <button onClick={() => handleEditCourse(course)} className="text-blue-600 hover:text-blue-800">
+                          Edit
+                        </button>
+                        <button onClick={() => handleDeleteCourse(course)} className="text-red-600 hover:text-red-800">
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,7 @@
 import { useState } from 'react'
 import * as adminApi from '../../services/adminApi'
+import ArchiveRestore from './ArchiveRestore'
+import TermArchival from './TermArchival'
 
 type Step = 'initial' | 'preview' | 'download' | 'confirm' | 'complete'
 
@@ -88,6 +90,7 @@ export default function DangerZoneTab() {
             <p className="mt-1 text-sm text-red-700">
               The nuclear reset will permanently delete all student data, groups, submissions, messages, and literature.
               Only admin accounts, instructor accounts, and model templates will be preserved.
+              To close out a term without losing anything, archive it instead.
             </p>
           </div>
         </div>
@@ -99,6 +102,9 @@ export default function DangerZoneTab() {
         </div>
       )}
 
+      {/* Archive a term instead of deleting it */}
+      {step === 'initial' && <TermArchival />}
+
       {/* Step: Initial */}
       {step === 'initial' && (
         <div className="bg-white rounded-lg shadow p-6">
@@ -320,6 +326,9 @@ export default function DangerZoneTab() {
           </button>
         </div>
       )}
+
+      {/* Restore an earlier archive (outside the reset steps) */}
+      {(step === 'initial' || step === 'complete') && <ArchiveRestore />}
     </div>
   )
 }
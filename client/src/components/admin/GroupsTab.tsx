@@ -1,34 +1,63 @@
 import { useState, useEffect } from 'react'
 import * as adminApi from '../../services/adminApi'
+import CourseSelect from './CourseSelect'
+import RosterImportModal from './RosterImportModal'
+import { courseLabel } from '../../utils/courses'
+
+const importActionStyles: Record<adminApi.GroupImportRow['action'], string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+  error: 'bg-red-100 text-red-700'
+}
+
+const importActionLabels: Record<adminApi.GroupImportRow['action'], string> = {
+  create: 'Create',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  error: 'Error'
+}
 
 export default function GroupsTab() {
   const [groups, setGroups] = useState<adminApi.Group[]>([])
   const [users, setUsers] = useState<adminApi.User[]>([])
+  const [instructors, setInstructors] = useState<adminApi.User[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [showForm, setShowForm] = useState(false)
   const [showCsvModal, setShowCsvModal] = useState(false)
   const [csvData, setCsvData] = useState('')
   const [csvUploading, setCsvUploading] = useState(false)
-  const [csvResult, setCsvResult] = useState<adminApi.CsvUploadResult | null>(null)
+  const [csvPlan, setCsvPlan] = useState<adminApi.GroupImportPlan | null>(null)
   const [editingId, setEditingId] = useState<string | null>(null)
-  const [formData, setFormData] = useState({ name: '', proteinPdbId: '', proteinName: '' })
+  const [formData, setFormData] = useState({ name: '', proteinPdbId: '', proteinName: '', courseId: '' })
   const [addingMemberTo, setAddingMemberTo] = useState<string | null>(null)
   const [selectedUserId, setSelectedUserId] = useState('')
+  const [terms, setTerms] = useState<adminApi.Term[]>([])
+  const [courseFilter, setCourseFilter] = useState('all')
+  const [csvCourseId, setCsvCourseId] = useState('')
+  const [showArchived, setShowArchived] = useState(false)
+  const [showRosterModal, setShowRosterModal] = useState(false)
+  const [instructorsGroup, setInstructorsGroup] = useState<adminApi.Group | null>(null)
+  const [selectedInstructorIds, setSelectedInstructorIds] = useState<string[]>([])
+  const [savingInstructors, setSavingInstructors] = useState(false)
 
   useEffect(() => {
     loadData()
-  }, [])
+  }, [showArchived])
 
   const loadData = async () => {
     try {
       setLoading(true)
-      const [groupsData, usersData] = await Promise.all([
-        adminApi.getGroups(),
-        adminApi.getUsers()
+      const [groupsData, usersData, termsData] = await Promise.all([
+        adminApi.getGroups(showArchived),
+        adminApi.getUsers(),
+        adminApi.getTerms()
       ])
       setGroups(groupsData)
       setUsers(usersData.filter(u => u.role === 'STUDENT'))
+      setInstructors(usersData.filter(u => u.role === 'INSTRUCTOR' || u.role === 'TA'))
+      setTerms(termsData.terms)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load data')
     } finally {
@@ -39,12 +68,13 @@ export default function GroupsTab() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     try {
+      const data = { ...formData, courseId: formData.courseId || null }
       if (editingId) {
-        await adminApi.updateGroup(editingId, formData)
+        await adminApi.updateGroup(editingId, data)
       } else {
-        await adminApi.createGroup(formData)
+        await adminApi.createGroup(data)
       }
-      setFormData({ name: '', proteinPdbId: '', proteinName: '' })
+      setFormData({ name: '', proteinPdbId: '', proteinName: '', courseId: '' })
       setShowForm(false)
       setEditingId(null)
       loadData()
@@ -57,7 +87,8 @@ export default function GroupsTab() {
     setFormData({
       name: group.name,
       proteinPdbId: group.proteinPdbId,
-      proteinName: group.proteinName
+      proteinName: group.proteinName,
+      courseId: group.courseId ?? ''
     })
     setEditingId(group.id)
     setShowForm(true)
@@ -95,18 +126,71 @@ export default function GroupsTab() {
     }
   }
 
-  const handleCsvUpload = async () => {
+  const handleGenerateJoinCode = async (group: adminApi.Group) => {
+    if (group.joinCode && !confirm('Replace the join code? The old code stops working.')) return
+    try {
+      await adminApi.generateJoinCode(group.id)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate join code')
+    }
+  }
+
+  const handleRemoveJoinCode = async (groupId: string) => {
+    if (!confirm('Turn off the join code? Students can no longer use it to register.')) return
+    try {
+      await adminApi.removeJoinCode(groupId)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove join code')
+    }
+  }
+
+  const openInstructors = (group: adminApi.Group) => {
+    setSelectedInstructorIds(group.instructors.map(i => i.userId))
+    setInstructorsGroup(group)
+  }
+
+  const toggleInstructor = (userId: string) => {
+    setSelectedInstructorIds(prev =>
+      prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]
+    )
+  }
+
+  const handleSaveInstructors = async () => {
+    if (!instructorsGroup) return
+    try {
+      setSavingInstructors(true)
+      await adminApi.setGroupInstructors(instructorsGroup.id, selectedInstructorIds)
+      setInstructorsGroup(null)
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update instructors')
+    } finally {
+      setSavingInstructors(false)
+    }
+  }
+
+  const handleCsvPreview = async () => {
     if (!csvData.trim()) return
     try {
       setCsvUploading(true)
-      setCsvResult(null)
-      const result = await adminApi.uploadGroupsCsv(csvData)
-      setCsvResult(result)
-      if (result.success) {
-        loadData()
-      }
+      setCsvPlan(null)
+      setCsvPlan(await adminApi.uploadGroupsCsv(csvData, csvCourseId || null, true))
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to upload CSV')
+      setError(err instanceof Error ? err.message : 'Failed to read CSV')
+    } finally {
+      setCsvUploading(false)
+    }
+  }
+
+  const handleCsvApply = async () => {
+    try {
+      setCsvUploading(true)
+      setCsvPlan(await adminApi.uploadGroupsCsv(csvData, csvCourseId || null, false))
+      loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import groups')
     } finally {
       setCsvUploading(false)
     }
@@ -120,6 +204,7 @@ export default function GroupsTab() {
     reader.onload = (event) => {
       const text = event.target?.result as string
       setCsvData(text)
+      setCsvPlan(null)
     }
     reader.readAsText(file)
   }
@@ -127,7 +212,7 @@ export default function GroupsTab() {
   const closeCsvModal = () => {
     setShowCsvModal(false)
     setCsvData('')
-    setCsvResult(null)
+    setCsvPlan(null)
   }
 
   // Get users not already in a group
@@ -141,30 +226,67 @@ export default function GroupsTab() {
     return <div className="text-gray-500">Loading groups...</div>
   }
 
+  const hasCourses = terms.some(term => term.courses.length > 0)
+  const filteredGroups = courseFilter === 'all'
+    ? groups
+    : groups.filter(g => (g.courseId ?? '') === courseFilter)
+  // New groups start in the course being viewed
+  const defaultCourseId = courseFilter === 'all' ? '' : courseFilter
+
   return (
     <div>
       <div className="flex justify-between items-center mb-6">
         <div>
-          <h2 className="text-lg font-semibold text-gray-800">Groups</h2>
+          <h2 className="text-lg font-semibold text-gray-800">{showArchived ? 'Archived Groups' : 'Groups'}</h2>
           <p className="text-sm text-gray-500">Manage student groups and their protein assignments</p>
         </div>
         <div className="flex gap-2">
-          <button
-            onClick={() => setShowCsvModal(true)}
-            className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
-          >
-            Upload CSV
-          </button>
-          <button
-            onClick={() => {
-              setFormData({ name: '', proteinPdbId: '', proteinName: '' })
-              setEditingId(null)
-              setShowForm(true)
-            }}
-            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
-          >
-            Create Group
-          </button>
+          <label className="flex items-center gap-2 text-sm text-gray-600 mr-2">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Show archived
+          </label>
+          {hasCourses && (
+            <CourseSelect
+              terms={terms}
+              value={courseFilter}
+              onChange={setCourseFilter}
+              extraOptions={[{ value: 'all', label: 'All courses' }]}
+            />
+          )}
+          {!showArchived && (
+            <>
+              <button
+                onClick={() => {
+                  setCsvCourseId(defaultCourseId)
+                  setShowCsvModal(true)
+                }}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
+              >
+                Upload CSV
+              </button>
+              <button
+                onClick={() => setShowRosterModal(true)}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 transition-colors"
+              >
+                Import Roster
+              </button>
+              <button
+                onClick={() => {
+                  setFormData({ name: '', proteinPdbId: '', proteinName: '', courseId: defaultCourseId })
+                  setEditingId(null)
+                  setShowForm(true)
+                }}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Create Group
+              </button>
+            </>
+          )}
         </div>
       </div>
 
@@ -178,79 +300,153 @@ export default function GroupsTab() {
       {/* CSV Upload Modal */}
       {showCsvModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 w-full max-w-lg">
+          <div className={`bg-white rounded-lg p-6 w-full ${csvPlan ? 'max-w-4xl' : 'max-w-lg'} max-h-[90vh] overflow-y-auto`}>
             <h3 className="text-lg font-semibold mb-2">Upload Groups from CSV</h3>
-            <p className="text-sm text-gray-500 mb-4">
-              Upload a CSV file with group information. This creates groups only - students will select their group when they register.
-            </p>
+            {csvPlan ? (
+              <>
+                <p className="text-sm text-gray-600 mb-4">
+                  {csvPlan.applied ? 'Imported: ' : 'Preview: '}
+                  {csvPlan.creates} to create, {csvPlan.updates} to update, {csvPlan.unchanged} unchanged
+                  {csvPlan.errors > 0 && <span className="text-red-600">, {csvPlan.errors} row{csvPlan.errors === 1 ? '' : 's'} with errors (skipped)</span>}.
+                </p>
 
-            <div className="bg-gray-50 p-3 rounded-md mb-4 text-sm">
-              <p className="font-medium text-gray-700 mb-1">Expected CSV format:</p>
-              <code className="text-xs text-gray-600">
-                name,proteinPdbId,proteinName<br />
-                Ridgefield High,1HHO,Hemoglobin<br />
-                Westbrook Academy,1MBO,Myoglobin
-              </code>
-            </div>
+                <div className="overflow-hidden border border-gray-200 rounded-lg mb-4">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Group</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Protein</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {csvPlan.rows.map((row) => (
+                        <tr key={row.line} className="align-top">
+                          <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                          <td className="px-3 py-2 text-gray-800">{row.name || '-'}</td>
+                          <td className="px-3 py-2 text-gray-700">
+                            {row.proteinName || '-'}
+                            {row.proteinPdbId && <span className="text-xs text-gray-500 ml-1">({row.proteinPdbId})</span>}
+                          </td>
+                          <td className="px-3 py-2">
+                            <span className={`px-2 py-0.5 text-xs rounded-full ${importActionStyles[row.action]}`}>
+                              {importActionLabels[row.action]}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-xs text-gray-600">
+                            {row.error ?? row.changes.join('; ')}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
 
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Choose a file or paste CSV data:
-              </label>
-              <input
-                type="file"
-                accept=".csv"
-                onChange={handleFileUpload}
-                className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 mb-2"
-              />
-              <textarea
-                value={csvData}
-                onChange={(e) => setCsvData(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono"
-                rows={6}
-                placeholder="name,proteinPdbId,proteinName&#10;Ridgefield High,1HHO,Hemoglobin"
-              />
-            </div>
+                <div className="flex justify-end gap-3">
+                  {csvPlan.applied ? (
+                    <button
+                      onClick={closeCsvModal}
+                      className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+                    >
+                      Done
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => setCsvPlan(null)}
+                        className="px-4 py-2 text-gray-600 hover:text-gray-800"
+                      >
+                        Back
+                      </button>
+                      <button
+                        onClick={handleCsvApply}
+                        disabled={csvUploading || csvPlan.creates + csvPlan.updates === 0}
+                        className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                      >
+                        {csvUploading
+                          ? 'Importing...'
+                          : `Apply ${csvPlan.creates + csvPlan.updates} Change${csvPlan.creates + csvPlan.updates === 1 ? '' : 's'}`}
+                      </button>
+                    </>
+                  )}
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-gray-500 mb-4">
+                  Upload a CSV file with group information. This creates groups only - students join one with its join code when they register.
+                  A group with the same name in the course has its protein updated. You can review every change before it is applied.
+                </p>
 
-            {csvResult && (
-              <div className={`p-3 rounded-md mb-4 ${csvResult.success ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-600'}`}>
-                {csvResult.success ? (
-                  <p>Successfully created {csvResult.created} of {csvResult.total} groups.</p>
-                ) : (
-                  <p>Upload failed.</p>
-                )}
-                {csvResult.errors && csvResult.errors.length > 0 && (
-                  <ul className="mt-2 text-sm">
-                    {csvResult.errors.map((err, i) => (
-                      <li key={i}>{err}</li>
-                    ))}
-                  </ul>
+                <div className="bg-gray-50 p-3 rounded-md mb-4 text-sm">
+                  <p className="font-medium text-gray-700 mb-1">Expected CSV format (quote names that contain commas):</p>
+                  <code className="text-xs text-gray-600">
+                    name,proteinPdbId,proteinName<br />
+                    Ridgefield High,1HHO,Hemoglobin<br />
+                    "Westbrook Academy, Team 2",1MBO,Myoglobin
+                  </code>
+                </div>
+
+                {hasCourses && (
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Course</label>
+                    <CourseSelect terms={terms} value={csvCourseId} onChange={setCsvCourseId} className="w-full" />
+                  </div>
                 )}
-              </div>
-            )}
 
-            <div className="flex justify-end gap-3">
-              <button
-                type="button"
-                onClick={closeCsvModal}
-                className="px-4 py-2 text-gray-600 hover:text-gray-800"
-              >
-                {csvResult?.success ? 'Close' : 'Cancel'}
-              </button>
-              {!csvResult?.success && (
-                <button
-                  onClick={handleCsvUpload}
-                  disabled={csvUploading || !csvData.trim()}
-                  className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
-                >
-                  {csvUploading ? 'Uploading...' : 'Upload'}
-                </button>
-              )}
-            </div>
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Choose a file or paste CSV data:
+                  </label>
+                  <input
+                    type="file"
+                    accept=".csv"
+                    onChange={handleFileUpload}
+                    className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 mb-2"
+                  />
+                  <textarea
+                    value={csvData}
+                    onChange={(e) => setCsvData(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono"
+                    rows={6}
+                    placeholder="name,proteinPdbId,proteinName&#10;Ridgefield High,1HHO,Hemoglobin"
+                  />
+                </div>
+
+                <div className="flex justify-end gap-3">
+                  <button
+                    type="button"
+                    onClick={closeCsvModal}
+                    className="px-4 py-2 text-gray-600 hover:text-gray-800"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleCsvPreview}
+                    disabled={csvUploading || !csvData.trim()}
+                    className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                  >
+                    {csvUploading ? 'Checking...' : 'Preview'}
+                  </button>
+                </div>
+              </>
+            )}
           </div>
         </div>
       )}
 
+      {showRosterModal && (
+        <RosterImportModal
+          terms={terms}
+          defaultCourseId={defaultCourseId}
+          onClose={() => setShowRosterModal(false)}
+          onImported={loadData}
+        />
+      )}
+
       {/* Form Modal */}
       {showForm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -292,6 +488,22 @@ export default function GroupsTab() {
                   required
                 />
               </div>
+              {hasCourses && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Course</label>
+                  <CourseSelect
+                    terms={terms}
+                    value={formData.courseId}
+                    onChange={(courseId) => setFormData({ ...formData, courseId })}
+                    className="w-full"
+                  />
+                  {editingId && formData.courseId !== (groups.find(g => g.id === editingId)?.courseId ?? '') && (
+                    <p className="text-xs text-amber-600 mt-1">
+                      The group will see the new course's model templates. Submissions for the old ones are kept but hidden.
+                    </p>
+                  )}
+                </div>
+              )}
               <div className="flex justify-end gap-3">
                 <button
                   type="button"
@@ -315,29 +527,134 @@ export default function GroupsTab() {
         </div>
       )}
 
+      {/* Instructors Modal */}
+      {instructorsGroup && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h3 className="text-lg font-semibold mb-1">Instructors</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Who looks after {instructorsGroup.name}. Its review requests and student messages go only to them.
+              With nobody selected they go to {instructorsGroup.course ? 'everyone teaching the course' : 'all instructors'}.
+            </p>
+            {instructors.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-4">There are no instructor accounts yet.</p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-md mb-4">
+                {instructors.map(instructor => (
+                  <label key={instructor.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selectedInstructorIds.includes(instructor.id)}
+                      onChange={() => toggleInstructor(instructor.id)}
+                    />
+                    <span className="text-gray-800">{instructor.firstName} {instructor.lastName}</span>
+                    {instructor.role === 'TA' && (
+                      <span className="text-xs bg-teal-100 text-teal-700 px-1.5 py-0.5 rounded">TA</span>
+                    )}
+                    <span className="text-gray-400 truncate">{instructor.email}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setInstructorsGroup(null)}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveInstructors}
+                disabled={savingInstructors}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                {savingInstructors ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Groups List */}
-      {groups.length === 0 ? (
+      {filteredGroups.length === 0 ? (
         <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
-          No groups yet. Create one or upload a CSV to get started.
+          {showArchived ? 'No archived groups.' : 'No groups yet. Create one or upload a CSV to get started.'}
         </div>
       ) : (
         <div className="space-y-4">
-          {groups.map((group) => (
+          {filteredGroups.map((group) => (
             <div key={group.id} className="bg-white rounded-lg shadow p-6">
               <div className="flex justify-between items-start mb-4">
                 <div>
-                  <h3 className="text-lg font-semibold text-gray-800">{group.name}</h3>
+                  <h3 className="text-lg font-semibold text-gray-800">
+                    {group.name}
+                    {group.archivedAt && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600 align-middle">
+                        Archived {new Date(group.archivedAt).toLocaleDateString()}
+                      </span>
+                    )}
+                  </h3>
                   <p className="text-sm text-gray-500">
                     Protein: {group.proteinName} ({group.proteinPdbId})
                   </p>
+                  {hasCourses && (
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {group.course ? `${group.course.term.name} · ${courseLabel(group.course)}` : 'No course'}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    Instructors:{' '}
+                    {group.instructors.length === 0
+                      ? <span className="text-gray-400">{group.course ? 'everyone teaching the course' : 'all instructors'}</span>
+                      : group.instructors.map(({ user }) => `${user.firstName} ${user.lastName}`).join(', ')}
+                  </p>
+                  {!group.archivedAt && (
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      Join code:{' '}
+                      {group.joinCode ? (
+                        <>
+                          <span className="font-mono font-medium text-gray-800">{group.joinCode}</span>
+                          <button
+                            onClick={() => handleGenerateJoinCode(group)}
+                            className="ml-2 text-blue-600 hover:text-blue-800"
+                          >
+                            New code
+                          </button>
+                          <button
+                            onClick={() => handleRemoveJoinCode(group.id)}
+                            className="ml-2 text-red-600 hover:text-red-800"
+                          >
+                            Turn off
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => handleGenerateJoinCode(group)}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Generate
+                        </button>
+                      )}
+                    </p>
+                  )}
                 </div>
                 <div className="flex gap-2">
-                  <button
-                    onClick={() => handleEdit(group)}
-                    className="text-blue-600 hover:text-blue-800 text-sm"
-                  >
-                    Edit
-                  </button>
+                  {!group.archivedAt && (
+                    <>
+                      <button
+                        onClick={() => openInstructors(group)}
+                        className="text-blue-600 hover:text-blue-800 text-sm"
+                      >
+                        Instructors
+                      </button>
+                      <button
+                        onClick={() => handleEdit(group)}
+                        className="text-blue-600 hover:text-blue-800 text-sm"
+                      >
+                        Edit
+                      </button>
+                    </>
+                  )}
                   <button
                     onClick={() => handleDelete(group.id)}
                     className="text-red-600 hover:text-red-800 text-sm"
@@ -351,12 +668,14 @@ export default function GroupsTab() {
               <div className="border-t pt-4">
                 <div className="flex justify-between items-center mb-2">
                   <h4 className="text-sm font-medium text-gray-700">Members ({group.members.length})</h4>
-                  <button
-                    onClick={() => setAddingMemberTo(addingMemberTo === group.id ? null : group.id)}
-                    className="text-blue-600 hover:text-blue-800 text-sm"
-                  >
-                    {addingMemberTo === group.id ? 'Cancel' : '+ Add Member'}
-                  </button>
+                  {!group.archivedAt && (
+                    <button
+                      onClick={() => setAddingMemberTo(addingMemberTo === group.id ? null : group.id)}
+                      className="text-blue-600 hover:text-blue-800 text-sm"
+                    >
+                      {addingMemberTo === group.id ? 'Cancel' : '+ Add Member'}
+                    </button>
+                  )}
                 </div>
 
                 {addingMemberTo === group.id && (
@@ -393,12 +712,14 @@ export default function GroupsTab() {
                         className="inline-flex items-center gap-1 bg-gray-100 text-gray-700 px-3 py-1 rounded-full text-sm"
                       >
                         {member.user.firstName} {member.user.lastName}
-                        <button
-                          onClick={() => handleRemoveMember(group.id, member.user.id)}
-                          className="text-gray-400 hover:text-red-600 ml-1"
-                        >
-                          &times;
-                        </button>
+                        {!group.archivedAt && (
+                          <button
+                            onClick={() => handleRemoveMember(group.id, member.user.id)}
+                            className="text-gray-400 hover:text-red-600 ml-1"
+                          >
+                            &times;
+                          </button>
+                        )}
                       </span>
                     ))}
                   </div>
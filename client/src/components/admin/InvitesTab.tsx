@@ -0,0 +1,319 @@
+import { useState, useEffect } from 'react'
+import * as adminApi from '../../services/adminApi'
+
+const emptyForm = { role: 'STUDENT' as adminApi.User['role'], email: '', maxUses: '', expiresInDays: '14' }
+
+const roleLabels: Record<adminApi.User['role'], string> = {
+  ADMIN: 'Admin',
+  INSTRUCTOR: 'Instructor',
+  TA: 'Teaching Assistant',
+  STUDENT: 'Student'
+}
+
+export default function InvitesTab() {
+  const [invites, setInvites] = useState<adminApi.Invite[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [created, setCreated] = useState<adminApi.Invite | null>(null)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [showInactive, setShowInactive] = useState(false)
+
+  useEffect(() => {
+    loadInvites()
+  }, [])
+
+  const loadInvites = async () => {
+    try {
+      setLoading(true)
+      setInvites(await adminApi.getInvites())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load invites')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setSaving(true)
+      const invite = await adminApi.createInvite({
+        role: formData.role,
+        email: formData.email.trim() || null,
+        maxUses: formData.maxUses ? Number(formData.maxUses) : null,
+        expiresInDays: formData.expiresInDays ? Number(formData.expiresInDays) : null
+      })
+      setCreated(invite)
+      setShowForm(false)
+      setFormData(emptyForm)
+      loadInvites()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create invite')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRevoke = async (id: string) => {
+    if (!confirm('Revoke this invite? Accounts already created with it are kept.')) return
+    try {
+      await adminApi.revokeInvite(id)
+      if (created?.id === id) setCreated(null)
+      loadInvites()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke invite')
+    }
+  }
+
+  const handleCopy = async (invite: adminApi.Invite) => {
+    try {
+      await navigator.clipboard.writeText(invite.url)
+      setCopiedId(invite.id)
+      setTimeout(() => setCopiedId(current => (current === invite.id ? null : current)), 2000)
+    } catch {
+      setError('Could not copy the link; select it and copy it manually')
+    }
+  }
+
+  const inviteStatus = (invite: adminApi.Invite) => {
+    if (invite.revokedAt) return <span className="text-gray-500 text-sm">Revoked</span>
+    if (invite.usable) return <span className="text-green-600 text-sm">Active</span>
+    if (invite.maxUses !== null && invite.useCount >= invite.maxUses) return <span className="text-gray-500 text-sm">Used up</span>
+    return <span className="text-gray-500 text-sm">Expired</span>
+  }
+
+  const inactiveCount = invites.filter(i => !i.usable).length
+  const visibleInvites = showInactive ? invites : invites.filter(i => i.usable)
+
+  if (loading) {
+    return <div className="text-gray-500">Loading invites...</div>
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Invites</h2>
+          <p className="text-sm text-gray-500">
+            Accounts created from an invite link get its role and are approved straight away.
+            Students can also register with their group's join code from the Groups tab.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 shrink-0"
+        >
+          + New Invite
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-3 rounded-md mb-4">
+          {error}
+          <button onClick={() => setError('')} className="ml-2 underline">Dismiss</button>
+        </div>
+      )}
+
+      {created && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4">
+          <p className="text-sm text-green-800 mb-2">
+            Invite created. Send this link to {created.email ?? `the ${roleLabels[created.role].toLowerCase()}s you want to invite`}:
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={created.url}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono bg-white"
+            />
+            <button
+              onClick={() => handleCopy(created)}
+              className="bg-blue-600 text-white px-3 py-2 rounded-md hover:bg-blue-700 text-sm"
+            >
+              {copiedId === created.id ? 'Copied' : 'Copy'}
+            </button>
+            <button
+              onClick={() => setCreated(null)}
+              className="px-3 py-2 text-gray-600 hover:text-gray-800 text-sm"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Create Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md">
+            <h3 className="text-lg font-semibold mb-4">New Invite</h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                <select
+                  value={formData.role}
+                  onChange={(e) => setFormData({ ...formData, role: e.target.value as adminApi.User['role'] })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="STUDENT">Student</option>
+                  <option value="TA">Teaching Assistant</option>
+                  <option value="INSTRUCTOR">Instructor</option>
+                  <option value="ADMIN">Admin</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Email <span className="text-gray-400 font-normal">(optional, limits the invite to one person)</span>
+                </label>
+                <input
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="name@example.com"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Max uses</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={formData.email ? '1' : formData.maxUses}
+                    onChange={(e) => setFormData({ ...formData, maxUses: e.target.value })}
+                    disabled={!!formData.email}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                    placeholder="Unlimited"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Expires after (days)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={365}
+                    value={formData.expiresInDays}
+                    onChange={(e) => setFormData({ ...formData, expiresInDays: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Never"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowForm(false)
+                    setFormData(emptyForm)
+                  }}
+                  className="px-4 py-2 text-gray-600 hover:text-gray-800"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                >
+                  {saving ? 'Creating...' : 'Create Link'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {inactiveCount > 0 && (
+        <label className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+          <input
+            type="checkbox"
+            checked={showInactive}
+            onChange={(e) => setShowInactive(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Show used, expired and revoked invites ({inactiveCount})
+        </label>
+      )}
+
+      {/* Invites Table */}
+      {visibleInvites.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+          No active invites. Create one to invite instructors, TAs or students.
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Role
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  For
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Uses
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Expires
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleInvites.map((invite) => (
+                <tr key={invite.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {roleLabels[invite.role]}
+                    <div className="text-xs text-gray-400">
+                      by {invite.createdBy.firstName} {invite.createdBy.lastName}, {new Date(invite.createdAt).toLocaleDateString()}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {invite.email ?? 'Anyone with the link'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {invite.useCount}{invite.maxUses !== null && ` / ${invite.maxUses}`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {invite.expiresAt ? new Date(invite.expiresAt).toLocaleDateString() : 'Never'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {inviteStatus(invite)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    {invite.usable && (
+                      <>
+                        <button
+                          onClick={() => handleCopy(invite)}
+                          className="text-blue-600 hover:text-blue-800 mr-3"
+                        >
+                          {copiedId === invite.id ? 'Copied' : 'Copy Link'}
+                        </button>
+                        <button
+                          onClick={() => handleRevoke(invite.id)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Revoke
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,11 @@
 import { useState, useEffect } from 'react'
 import * as adminApi from '../../services/adminApi'
+import RubricEditor from './RubricEditor'
+import ViewerPresetEditor from './ViewerPresetEditor'
+import CourseSelect from './CourseSelect'
+import { formatDeadline, fromDateTimeInput, toDateTimeInput } from '../../utils/deadlines'
+
+const emptyForm = { name: '', description: '', opensAt: '', dueAt: '', closesAt: '' }
 
 export default function ModelTemplatesTab() {
   const [templates, setTemplates] = useState<adminApi.ModelTemplate[]>([])
@@ -7,12 +13,31 @@ export default function ModelTemplatesTab() {
   const [error, setError] = useState('')
   const [showForm, setShowForm] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
-  const [formData, setFormData] = useState({ name: '', description: '' })
+  const [formData, setFormData] = useState(emptyForm)
+  const [rubricTemplate, setRubricTemplate] = useState<adminApi.ModelTemplate | null>(null)
+  const [presetTemplate, setPresetTemplate] = useState<adminApi.ModelTemplate | null>(null)
+  const [terms, setTerms] = useState<adminApi.Term[]>([])
+  const [courseFilter, setCourseFilter] = useState('')
 
   useEffect(() => {
     loadTemplates()
+    loadTerms()
   }, [])
 
+  const loadTerms = async () => {
+    try {
+      const data = await adminApi.getTerms()
+      setTerms(data.terms)
+      // Start on the first course once no templates are left outside a course
+      const firstCourse = data.terms.flatMap(term => term.courses)[0]
+      if (firstCourse && data.unassigned.modelTemplates === 0) {
+        setCourseFilter(firstCourse.id)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load courses')
+    }
+  }
+
   const loadTemplates = async () => {
     try {
       setLoading(true)
@@ -28,12 +53,19 @@ export default function ModelTemplatesTab() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     try {
+      const data = {
+        name: formData.name,
+        description: formData.description,
+        opensAt: fromDateTimeInput(formData.opensAt),
+        dueAt: fromDateTimeInput(formData.dueAt),
+        closesAt: fromDateTimeInput(formData.closesAt)
+      }
       if (editingId) {
-        await adminApi.updateModelTemplate(editingId, formData)
+        await adminApi.updateModelTemplate(editingId, data)
       } else {
-        await adminApi.createModelTemplate(formData)
+        await adminApi.createModelTemplate({ ...data, courseId: courseFilter || null })
       }
-      setFormData({ name: '', description: '' })
+      setFormData(emptyForm)
       setShowForm(false)
       setEditingId(null)
       loadTemplates()
@@ -43,7 +75,13 @@ export default function ModelTemplatesTab() {
   }
 
   const handleEdit = (template: adminApi.ModelTemplate) => {
-    setFormData({ name: template.name, description: template.description || '' })
+    setFormData({
+      name: template.name,
+      description: template.description || '',
+      opensAt: toDateTimeInput(template.opensAt),
+      dueAt: toDateTimeInput(template.dueAt),
+      closesAt: toDateTimeInput(template.closesAt)
+    })
     setEditingId(template.id)
     setShowForm(true)
   }
@@ -71,23 +109,31 @@ export default function ModelTemplatesTab() {
     return <div className="text-gray-500">Loading templates...</div>
   }
 
+  const hasCourses = terms.some(term => term.courses.length > 0)
+  const courseTemplates = templates.filter(t => (t.courseId ?? '') === courseFilter)
+
   return (
     <div>
-      <div className="flex justify-between items-center mb-6">
+      <div className="flex justify-between items-center mb-6 gap-4">
         <div>
           <h2 className="text-lg font-semibold text-gray-800">Model Templates</h2>
           <p className="text-sm text-gray-500">Define the model submissions students must complete</p>
         </div>
-        <button
-          onClick={() => {
-            setFormData({ name: '', description: '' })
-            setEditingId(null)
-            setShowForm(true)
-          }}
-          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
-        >
-          Add Template
-        </button>
+        <div className="flex items-center gap-2">
+          {hasCourses && (
+            <CourseSelect terms={terms} value={courseFilter} onChange={setCourseFilter} />
+          )}
+          <button
+            onClick={() => {
+              setFormData(emptyForm)
+              setEditingId(null)
+              setShowForm(true)
+            }}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Add Template
+          </button>
+        </div>
       </div>
 
       {error && (
@@ -126,6 +172,27 @@ export default function ModelTemplatesTab() {
                   rows={3}
                 />
               </div>
+              <div className="space-y-3">
+                {([
+                  ['opensAt', 'Opens'],
+                  ['dueAt', 'Due'],
+                  ['closesAt', 'Closes']
+                ] as const).map(([field, label]) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                    <input
+                      type="datetime-local"
+                      value={formData[field]}
+                      onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+                      className="w-full px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">
+                All optional. Uploads are blocked before the open date and after the close date;
+                uploads after the due date are marked late.
+              </p>
               <div className="flex justify-end gap-3">
                 <button
                   type="button"
@@ -149,10 +216,36 @@ export default function ModelTemplatesTab() {
         </div>
       )}
 
+      {/* Rubric Editor */}
+      {rubricTemplate && (
+        <RubricEditor
+          template={rubricTemplate}
+          onClose={() => setRubricTemplate(null)}
+          onSaved={() => {
+            setRubricTemplate(null)
+            loadTemplates()
+          }}
+        />
+      )}
+
+      {/* Viewer Preset Editor */}
+      {presetTemplate && (
+        <ViewerPresetEditor
+          template={presetTemplate}
+          onClose={() => setPresetTemplate(null)}
+          onSaved={() => {
+            setPresetTemplate(null)
+            loadTemplates()
+          }}
+        />
+      )}
+
       {/* Templates List */}
-      {templates.length === 0 ? (
+      {courseTemplates.length === 0 ? (
         <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
-          No model templates yet. Create one to get started.
+          {courseFilter
+            ? 'No model templates in this course yet. Create one, or copy another course\'s templates from the Courses tab.'
+            : 'No model templates yet. Create one to get started.'}
         </div>
       ) : (
         <div className="bg-white rounded-lg shadow overflow-hidden">
@@ -168,6 +261,12 @@ export default function ModelTemplatesTab() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Description
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Deadlines
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rubric
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
@@ -177,7 +276,7 @@ export default function ModelTemplatesTab() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {templates.map((template, index) => (
+              {courseTemplates.map((template, index) => (
                 <tr key={template.id}>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {index + 1}
@@ -188,6 +287,22 @@ export default function ModelTemplatesTab() {
                   <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">
                     {template.description || '-'}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-xs text-gray-500">
+                    {!template.opensAt && !template.dueAt && !template.closesAt && '-'}
+                    {template.opensAt && <div>Opens {formatDeadline(template.opensAt)}</div>}
+                    {template.dueAt && <div className="text-gray-700">Due {formatDeadline(template.dueAt)}</div>}
+                    {template.closesAt && <div>Closes {formatDeadline(template.closesAt)}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {template.rubricCriteriaCount
+                      ? `${template.rubricCriteriaCount} criteri${template.rubricCriteriaCount === 1 ? 'on' : 'a'}`
+                      : 'None'}
+                    {!!template.viewerPresetCount && (
+                      <div className="text-xs">
+                        {template.viewerPresetCount} viewer preset{template.viewerPresetCount === 1 ? '' : 's'}
+                      </div>
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <button
                       onClick={() => handleToggleActive(template)}
@@ -201,6 +316,18 @@ export default function ModelTemplatesTab() {
                     </button>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    <button
+                      onClick={() => setRubricTemplate(template)}
+                      className="text-blue-600 hover:text-blue-800 mr-3"
+                    >
+                      Rubric
+                    </button>
+                    <button
+                      onClick={() => setPresetTemplate(template)}
+                      className="text-blue-600 hover:text-blue-800 mr-3"
+                    >
+                      Presets
+                    </button>
                     <button
                       onClick={() => handleEdit(template)}
                       className="text-blue-600 hover:text-blue-800 mr-3"
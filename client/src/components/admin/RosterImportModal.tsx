@@ -0,0 +1,231 @@
+import { useState } from 'react'
+import * as adminApi from '../../services/adminApi'
+import CourseSelect from './CourseSelect'
+
+interface Props {
+  terms: adminApi.Term[]
+  defaultCourseId: string
+  onClose: () => void
+  // Called after an import so the group list shows the new members
+  onImported: () => void
+}
+
+export default function RosterImportModal({ terms, defaultCourseId, onClose, onImported }: Props) {
+  const [csvData, setCsvData] = useState('')
+  const [courseId, setCourseId] = useState(defaultCourseId)
+  const [autoPair, setAutoPair] = useState(true)
+  const [groupSize, setGroupSize] = useState(2)
+  const [sendInvites, setSendInvites] = useState(true)
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState('')
+  const [report, setReport] = useState<adminApi.RosterImportReport | null>(null)
+
+  const hasCourses = terms.some(term => term.courses.length > 0)
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = (event) => {
+      setCsvData(event.target?.result as string)
+    }
+    reader.readAsText(file)
+  }
+
+  const handleImport = async () => {
+    if (!csvData.trim()) return
+    try {
+      setImporting(true)
+      setError('')
+      const result = await adminApi.importRoster({
+        csvData,
+        courseId: courseId || null,
+        groupSize: autoPair ? groupSize : null,
+        sendInvites
+      })
+      setReport(result)
+      onImported()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import roster')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const statusStyles: Record<adminApi.RosterRowResult['status'], string> = {
+    created: 'bg-green-100 text-green-800',
+    existing: 'bg-blue-100 text-blue-800',
+    error: 'bg-red-100 text-red-700'
+  }
+
+  const placementLabels: Record<NonNullable<adminApi.RosterRowResult['placement']>, string> = {
+    csv: 'from CSV',
+    auto: 'auto-paired',
+    already: 'already a member'
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className={`bg-white rounded-lg p-6 w-full ${report ? 'max-w-4xl' : 'max-w-lg'} max-h-[90vh] overflow-y-auto`}>
+        <h3 className="text-lg font-semibold mb-2">Import Student Roster</h3>
+
+        {error && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-md mb-4">
+            {error}
+            <button onClick={() => setError('')} className="ml-2 underline">Dismiss</button>
+          </div>
+        )}
+
+        {report ? (
+          <>
+            <p className="text-sm text-gray-600 mb-4">
+              {report.created} account{report.created === 1 ? '' : 's'} created, {report.existing} existing,
+              {' '}{report.placed} placed in groups, {report.invited} invitation{report.invited === 1 ? '' : 's'} sent
+              {report.errors > 0 && <span className="text-red-600">, {report.errors} row{report.errors === 1 ? '' : 's'} failed</span>}.
+            </p>
+
+            <div className="overflow-hidden border border-gray-200 rounded-lg mb-4">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Student</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Account</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Group</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {report.rows.map((row) => (
+                    <tr key={row.line} className="align-top">
+                      <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                      <td className="px-3 py-2">
+                        <div className="text-gray-800">{row.name || '-'}</div>
+                        <div className="text-xs text-gray-500">{row.email || '-'}</div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 text-xs rounded-full ${statusStyles[row.status]}`}>
+                          {row.status === 'created' ? 'Created' : row.status === 'existing' ? 'Existing' : 'Error'}
+                        </span>
+                        {row.invited && <div className="text-xs text-gray-500 mt-1">Invited</div>}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">
+                        {row.group ?? <span className="text-gray-400">-</span>}
+                        {row.placement && (
+                          <div className="text-xs text-gray-500">{placementLabels[row.placement]}</div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-xs text-gray-600">
+                        {row.messages.join('; ')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                onClick={onClose}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+              >
+                Done
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 mb-4">
+              Creates approved student accounts, adds them to groups and emails each new student a link to set their password.
+              Students who already have an account are only added to a group.
+            </p>
+
+            <div className="bg-gray-50 p-3 rounded-md mb-4 text-sm">
+              <p className="font-medium text-gray-700 mb-1">Expected CSV format (group is optional):</p>
+              <code className="text-xs text-gray-600">
+                email,name,group<br />
+                jdoe@example.com,Jane Doe,Ridgefield High<br />
+                asmith@example.com,Alex Smith,
+              </code>
+            </div>
+
+            {hasCourses && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Course</label>
+                <CourseSelect terms={terms} value={courseId} onChange={setCourseId} className="w-full" />
+                <p className="text-xs text-gray-500 mt-1">Group names are matched against this course's groups.</p>
+              </div>
+            )}
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Choose a file or paste CSV data:
+              </label>
+              <input
+                type="file"
+                accept=".csv"
+                onChange={handleFileUpload}
+                className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100 mb-2"
+              />
+              <textarea
+                value={csvData}
+                onChange={(e) => setCsvData(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono"
+                rows={6}
+                placeholder="email,name,group&#10;jdoe@example.com,Jane Doe,Ridgefield High"
+              />
+            </div>
+
+            <div className="space-y-2 mb-4 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={autoPair}
+                  onChange={(e) => setAutoPair(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Auto-pair students without a group into groups of
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={groupSize}
+                  onChange={(e) => setGroupSize(Number(e.target.value))}
+                  disabled={!autoPair}
+                  className="w-16 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={sendInvites}
+                  onChange={(e) => setSendInvites(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Email invitations to new students
+              </label>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={importing || !csvData.trim()}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                {importing ? 'Importing...' : 'Import'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
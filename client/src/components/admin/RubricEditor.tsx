@@ -0,0 +1,248 @@
+import { useState, useEffect } from 'react'
+import * as adminApi from '../../services/adminApi'
+
+interface RubricEditorProps {
+  template: adminApi.ModelTemplate
+  onClose: () => void
+  onSaved: () => void
+}
+
+type CriterionDraft = adminApi.RubricCriterionInput
+type LevelDraft = CriterionDraft['levels'][number]
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm'
+
+export default function RubricEditor({ template, onClose, onSaved }: RubricEditorProps) {
+  const [criteria, setCriteria] = useState<CriterionDraft[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const loadRubric = async () => {
+      try {
+        setLoading(true)
+        const data = await adminApi.getRubric(template.id)
+        setCriteria(data.map(c => ({
+          id: c.id,
+          title: c.title,
+          description: c.description,
+          maxPoints: c.maxPoints,
+          levels: c.levels.map(l => ({ id: l.id, label: l.label, points: l.points, description: l.description }))
+        })))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load rubric')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadRubric()
+  }, [template.id])
+
+  const updateCriterion = (index: number, changes: Partial<CriterionDraft>) => {
+    setCriteria(criteria.map((c, i) => (i === index ? { ...c, ...changes } : c)))
+  }
+
+  const updateLevel = (criterionIndex: number, levelIndex: number, changes: Partial<LevelDraft>) => {
+    const levels = criteria[criterionIndex].levels.map((l, i) => (i === levelIndex ? { ...l, ...changes } : l))
+    updateCriterion(criterionIndex, { levels })
+  }
+
+  const addCriterion = () => {
+    setCriteria([...criteria, { title: '', description: '', maxPoints: 4, levels: [] }])
+  }
+
+  const removeCriterion = (index: number) => {
+    setCriteria(criteria.filter((_, i) => i !== index))
+  }
+
+  const moveCriterion = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= criteria.length) return
+    const reordered = [...criteria]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(target, 0, moved)
+    setCriteria(reordered)
+  }
+
+  const addLevel = (criterionIndex: number) => {
+    const criterion = criteria[criterionIndex]
+    // Suggest one point below the last level, starting from full marks
+    const lastPoints = criterion.levels[criterion.levels.length - 1]?.points
+    const points = lastPoints === undefined ? criterion.maxPoints : Math.max(0, lastPoints - 1)
+    updateCriterion(criterionIndex, { levels: [...criterion.levels, { label: '', points, description: '' }] })
+  }
+
+  const removeLevel = (criterionIndex: number, levelIndex: number) => {
+    updateCriterion(criterionIndex, { levels: criteria[criterionIndex].levels.filter((_, i) => i !== levelIndex) })
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError('')
+      await adminApi.updateRubric(template.id, criteria)
+      onSaved()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rubric')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const totalPoints = criteria.reduce((sum, c) => sum + (c.maxPoints || 0), 0)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b">
+          <h3 className="text-lg font-semibold">Rubric: {template.name}</h3>
+          <p className="text-sm text-gray-500">
+            Instructors score each criterion; students see the total once the grade is released.
+          </p>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md">
+              {error}
+              <button onClick={() => setError('')} className="ml-2 underline">Dismiss</button>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-gray-500">Loading rubric...</div>
+          ) : criteria.length === 0 ? (
+            <div className="text-center text-gray-500 py-6">
+              No criteria yet. Submissions for this template can only be reviewed by status.
+            </div>
+          ) : (
+            criteria.map((criterion, index) => (
+              <div key={criterion.id ?? `new-${index}`} className="border rounded-md p-4">
+                <div className="flex gap-3 items-start">
+                  <div className="flex-1 space-y-2">
+                    <input
+                      type="text"
+                      value={criterion.title}
+                      onChange={(e) => updateCriterion(index, { title: e.target.value })}
+                      className={`${inputClass} w-full`}
+                      placeholder="Criterion, e.g. Active site residues shown"
+                    />
+                    <textarea
+                      value={criterion.description ?? ''}
+                      onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                      className={`${inputClass} w-full`}
+                      placeholder="What instructors should look for (optional)"
+                      rows={2}
+                    />
+                  </div>
+                  <div className="w-24">
+                    <label className="block text-xs text-gray-500 mb-1">Max points</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={criterion.maxPoints}
+                      onChange={(e) => updateCriterion(index, { maxPoints: parseInt(e.target.value) || 0 })}
+                      className={`${inputClass} w-full`}
+                    />
+                  </div>
+                  <div className="flex flex-col text-sm">
+                    <button
+                      onClick={() => moveCriterion(index, -1)}
+                      disabled={index === 0}
+                      className="text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => moveCriterion(index, 1)}
+                      disabled={index === criteria.length - 1}
+                      className="text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                  </div>
+                </div>
+
+                {/* Level descriptors */}
+                <div className="mt-3 space-y-2">
+                  {criterion.levels.map((level, levelIndex) => (
+                    <div key={level.id ?? `new-${levelIndex}`} className="flex gap-2 items-center">
+                      <input
+                        type="text"
+                        value={level.label}
+                        onChange={(e) => updateLevel(index, levelIndex, { label: e.target.value })}
+                        className={`${inputClass} w-40`}
+                        placeholder="Level, e.g. Proficient"
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        max={criterion.maxPoints}
+                        value={level.points}
+                        onChange={(e) => updateLevel(index, levelIndex, { points: parseInt(e.target.value) || 0 })}
+                        className={`${inputClass} w-20`}
+                      />
+                      <input
+                        type="text"
+                        value={level.description ?? ''}
+                        onChange={(e) => updateLevel(index, levelIndex, { description: e.target.value })}
+                        className={`${inputClass} flex-1`}
+                        placeholder="Descriptor (optional)"
+                      />
+                      <button
+                        onClick={() => removeLevel(index, levelIndex)}
+                        className="text-red-600 hover:text-red-800 text-sm"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex justify-between mt-3 text-sm">
+                  <button onClick={() => addLevel(index)} className="text-blue-600 hover:text-blue-800">
+                    + Add Level
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (criterion.id && !confirm('Delete this criterion? Scores already given for it will be removed.')) return
+                      removeCriterion(index)
+                    }}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    Delete Criterion
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+
+          {!loading && (
+            <button onClick={addCriterion} className="text-blue-600 hover:text-blue-800 text-sm">
+              + Add Criterion
+            </button>
+          )}
+        </div>
+
+        <div className="p-6 border-t flex justify-between items-center">
+          <span className="text-sm text-gray-600">Total: {totalPoints} points</span>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={loading || saving}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Rubric'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
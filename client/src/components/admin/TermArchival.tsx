@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react'
+import * as adminApi from '../../services/adminApi'
+
+// Value of the scope select that archives every active group
+const ALL_ACTIVE = 'all'
+
+export default function TermArchival() {
+  const [terms, setTerms] = useState<adminApi.Term[]>([])
+  const [status, setStatus] = useState<adminApi.ArchivalStatus | null>(null)
+  const [scope, setScope] = useState('')
+  const [preview, setPreview] = useState<adminApi.ArchivalCounts | null>(null)
+  const [result, setResult] = useState<adminApi.ArchivalCounts | null>(null)
+  const [purged, setPurged] = useState<adminApi.ArchivalCounts | null>(null)
+  const [purgeBefore, setPurgeBefore] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      const [termData, statusData] = await Promise.all([
+        adminApi.getTerms(),
+        adminApi.getArchivalStatus()
+      ])
+      setTerms(termData.terms.filter(t => !t.archivedAt))
+      setStatus(statusData)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load archival status')
+    }
+  }
+
+  const termId = scope === ALL_ACTIVE ? null : scope
+
+  const handleScopeChange = (value: string) => {
+    setScope(value)
+    setPreview(null)
+    setResult(null)
+  }
+
+  const handlePreview = async () => {
+    try {
+      setLoading(true)
+      setError('')
+      setPreview(await adminApi.previewArchival(termId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview archival')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleArchive = async () => {
+    if (!confirm('Archive these groups? They become read-only and their files move to cold storage.')) return
+
+    try {
+      setLoading(true)
+      setError('')
+      setResult(await adminApi.archiveTerm(termId))
+      setPreview(null)
+      setScope('')
+      await loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to archive groups')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handlePurge = async () => {
+    if (!purgeBefore) return
+    if (!confirm(`Permanently delete every group archived before ${new Date(purgeBefore).toLocaleDateString()}? This cannot be undone.`)) return
+
+    try {
+      setLoading(true)
+      setError('')
+      setPurged(await adminApi.purgeArchived(new Date(purgeBefore).toISOString()))
+      setPurgeBefore('')
+      await loadData()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to purge archived groups')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-2">Archive a Term</h3>
+      <p className="text-gray-600 mb-4">
+        The non-destructive way to wrap up a term. Its groups and students become read-only and leave the active
+        dashboards, and their files move to cold storage. Instructors can still find them under Past Terms.
+      </p>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center gap-4 mb-4">
+        <select
+          value={scope}
+          onChange={(e) => handleScopeChange(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Select a term...</option>
+          {terms.map(term => (
+            <option key={term.id} value={term.id}>{term.name}</option>
+          ))}
+          <option value={ALL_ACTIVE}>All active groups</option>
+        </select>
+        <button
+          onClick={handlePreview}
+          disabled={!scope || loading}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Preview
+        </button>
+      </div>
+
+      {preview && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
+          <ul className="space-y-1 text-sm text-yellow-800 mb-4">
+            <li>Groups: {preview.groups}</li>
+            <li>Students: {preview.students}</li>
+            <li>Files: {preview.files}</li>
+          </ul>
+          <div className="flex gap-4">
+            <button
+              onClick={() => setPreview(null)}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleArchive}
+              disabled={loading || preview.groups === 0}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading ? 'Archiving...' : `Archive ${preview.groups} Group${preview.groups === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4 text-sm text-green-700">
+          Archived {result.groups} groups and {result.students} students, and moved {result.files} files to cold storage.
+        </div>
+      )}
+
+      {status && (
+        <div className="border-t border-gray-200 pt-4">
+          <h4 className="font-semibold text-gray-800 mb-2">Archived Data</h4>
+          <p className="text-sm text-gray-600 mb-4">
+            {status.archivedGroups} archived group{status.archivedGroups === 1 ? '' : 's'} and {status.archivedStudents} student{status.archivedStudents === 1 ? '' : 's'}
+            {status.oldestArchivedAt && <>, the oldest archived {new Date(status.oldestArchivedAt).toLocaleDateString()}</>}.{' '}
+            {status.retentionDays === null
+              ? 'Archived groups are kept until purged here.'
+              : `Groups are purged automatically ${status.retentionDays} days after archival (${status.purgeDue} due).`}
+          </p>
+
+          {purged && (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4 text-sm text-gray-700">
+              Purged {purged.groups} groups, {purged.students} students and {purged.files} files.
+            </div>
+          )}
+
+          {status.archivedGroups > 0 && (
+            <div className="flex items-center gap-4">
+              <label className="text-sm text-gray-700">Purge groups archived before</label>
+              <input
+                type="date"
+                value={purgeBefore}
+                onChange={(e) => setPurgeBefore(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              />
+              <button
+                onClick={handlePurge}
+                disabled={!purgeBefore || loading}
+                className="bg-red-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+              >
+                Purge
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import * as adminApi from '../../services/adminApi'
 export default function UsersTab() {
   const { user: currentUser } = useAuth()
   const [users, setUsers] = useState<adminApi.User[]>([])
+  const [archivedUsers, setArchivedUsers] = useState<adminApi.User[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [editingUser, setEditingUser] = useState<adminApi.User | null>(null)
@@ -12,10 +13,10 @@ export default function UsersTab() {
     email: '',
     firstName: '',
     lastName: '',
-    role: 'STUDENT' as 'ADMIN' | 'INSTRUCTOR' | 'STUDENT',
+    role: 'STUDENT' as 'ADMIN' | 'INSTRUCTOR' | 'TA' | 'STUDENT',
     password: ''
   })
-  const [filter, setFilter] = useState<'all' | 'pending'>('all')
+  const [filter, setFilter] = useState<'all' | 'pending' | 'archived'>('all')
 
   useEffect(() => {
     loadUsers()
@@ -24,8 +25,12 @@ export default function UsersTab() {
   const loadUsers = async () => {
     try {
       setLoading(true)
-      const data = await adminApi.getUsers()
+      const [data, archivedData] = await Promise.all([
+        adminApi.getUsers(),
+        adminApi.getUsers(true)
+      ])
       setUsers(data)
+      setArchivedUsers(archivedData)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load users')
     } finally {
@@ -88,13 +93,14 @@ export default function UsersTab() {
 
   const filteredUsers = filter === 'pending'
     ? users.filter(u => !u.isApproved)
-    : users
+    : filter === 'archived' ? archivedUsers : users
 
   const pendingCount = users.filter(u => !u.isApproved).length
 
   const roleColors = {
     ADMIN: 'bg-purple-100 text-purple-800',
     INSTRUCTOR: 'bg-green-100 text-green-800',
+    TA: 'bg-teal-100 text-teal-800',
     STUDENT: 'bg-blue-100 text-blue-800'
   }
 
@@ -130,6 +136,18 @@ export default function UsersTab() {
           >
             Pending Approval {pendingCount > 0 && `(${pendingCount})`}
           </button>
+          {archivedUsers.length > 0 && (
+            <button
+              onClick={() => setFilter('archived')}
+              className={`px-4 py-2 rounded-md text-sm transition-colors ${
+                filter === 'archived'
+                  ? 'bg-gray-600 text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              Archived ({archivedUsers.length})
+            </button>
+          )}
         </div>
       </div>
 
@@ -187,6 +205,7 @@ export default function UsersTab() {
                 >
                   <option value="STUDENT">Student</option>
                   <option value="INSTRUCTOR">Instructor</option>
+                  <option value="TA">Teaching Assistant</option>
                   <option value="ADMIN">Admin</option>
                 </select>
               </div>
@@ -225,7 +244,7 @@ export default function UsersTab() {
       {/* Users Table */}
       {filteredUsers.length === 0 ? (
         <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
-          {filter === 'pending' ? 'No pending approvals' : 'No users found'}
+          {filter === 'pending' ? 'No pending approvals' : filter === 'archived' ? 'No archived users' : 'No users found'}
         </div>
       ) : (
         <div className="bg-white rounded-lg shadow overflow-hidden">
@@ -269,7 +288,9 @@ export default function UsersTab() {
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    {user.isApproved ? (
+                    {user.archivedAt ? (
+                      <span className="text-gray-500 text-sm">Archived</span>
+                    ) : user.isApproved ? (
                       <span className="text-green-600 text-sm">Approved</span>
                     ) : (
                       <span className="text-yellow-600 text-sm font-medium">Pending</span>
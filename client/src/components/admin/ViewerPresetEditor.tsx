@@ -0,0 +1,217 @@
+import { useState, useEffect } from 'react'
+import * as adminApi from '../../services/adminApi'
+
+interface ViewerPresetEditorProps {
+  template: adminApi.ModelTemplate
+  onClose: () => void
+  onSaved: () => void
+}
+
+type PresetDraft = adminApi.ViewerPresetInput
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm'
+
+// Starting points for new presets
+const EXAMPLES: PresetDraft[] = [
+  {
+    name: 'Secondary structure',
+    description: 'Cartoon colored by helix, sheet and loop',
+    script: 'cartoon only;\ncolor structure;'
+  },
+  {
+    name: 'Active site',
+    description: 'Ligands and the residues within 5 Å of them as sticks',
+    script: [
+      'cartoon only;',
+      'color structure;',
+      'select within(5.0, ligand) and not water;',
+      'wireframe 0.15; spacefill 23%; color cpk;',
+      'select ligand;',
+      'spacefill; color green;',
+      'select none;'
+    ].join('\n')
+  },
+  {
+    name: 'Hydrophobic side chains',
+    description: 'Hydrophobic side chains as spacefill',
+    script: [
+      'cartoon only;',
+      'color grey;',
+      'select hydrophobic and not backbone;',
+      'spacefill; color orange;',
+      'select none;'
+    ].join('\n')
+  }
+]
+
+export default function ViewerPresetEditor({ template, onClose, onSaved }: ViewerPresetEditorProps) {
+  const [presets, setPresets] = useState<PresetDraft[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const loadPresets = async () => {
+      try {
+        setLoading(true)
+        const data = await adminApi.getViewerPresets(template.id)
+        setPresets(data.map(p => ({ id: p.id, name: p.name, description: p.description, script: p.script })))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load viewer presets')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadPresets()
+  }, [template.id])
+
+  const updatePreset = (index: number, changes: Partial<PresetDraft>) => {
+    setPresets(presets.map((p, i) => (i === index ? { ...p, ...changes } : p)))
+  }
+
+  const addPreset = (example?: PresetDraft) => {
+    setPresets([...presets, example ? { ...example } : { name: '', description: '', script: '' }])
+  }
+
+  const removePreset = (index: number) => {
+    setPresets(presets.filter((_, i) => i !== index))
+  }
+
+  const movePreset = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= presets.length) return
+    const reordered = [...presets]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(target, 0, moved)
+    setPresets(reordered)
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError('')
+      await adminApi.updateViewerPresets(template.id, presets)
+      onSaved()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save viewer presets')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b">
+          <h3 className="text-lg font-semibold">Viewer Presets: {template.name}</h3>
+          <p className="text-sm text-gray-500">
+            Jmol scripts students and instructors can apply in the 3D viewer with one click. Presets run as
+            written and should only restyle the loaded model; statements starting with load, zap, write or
+            javascript are refused.
+          </p>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md">
+              {error}
+              <button onClick={() => setError('')} className="ml-2 underline">Dismiss</button>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-gray-500">Loading presets...</div>
+          ) : presets.length === 0 ? (
+            <div className="text-center text-gray-500 py-6">
+              No presets yet. The viewer opens with the display saved in each model.
+            </div>
+          ) : (
+            presets.map((preset, index) => (
+              <div key={preset.id ?? `new-${index}`} className="border rounded-md p-4">
+                <div className="flex gap-3 items-start">
+                  <div className="flex-1 space-y-2">
+                    <input
+                      type="text"
+                      value={preset.name}
+                      onChange={(e) => updatePreset(index, { name: e.target.value })}
+                      className={`${inputClass} w-full`}
+                      placeholder="Name, e.g. Active site"
+                      maxLength={80}
+                    />
+                    <input
+                      type="text"
+                      value={preset.description ?? ''}
+                      onChange={(e) => updatePreset(index, { description: e.target.value })}
+                      className={`${inputClass} w-full`}
+                      placeholder="What the preset shows (optional)"
+                    />
+                    <textarea
+                      value={preset.script}
+                      onChange={(e) => updatePreset(index, { script: e.target.value })}
+                      className={`${inputClass} w-full font-mono`}
+                      placeholder="Jmol script, e.g. cartoon only; color structure;"
+                      rows={4}
+                    />
+                  </div>
+                  <div className="flex flex-col text-sm">
+                    <button
+                      onClick={() => movePreset(index, -1)}
+                      disabled={index === 0}
+                      className="text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => movePreset(index, 1)}
+                      disabled={index === presets.length - 1}
+                      className="text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                  </div>
+                </div>
+                <div className="flex justify-end mt-3 text-sm">
+                  <button onClick={() => removePreset(index)} className="text-red-600 hover:text-red-800">
+                    Delete Preset
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+
+          {!loading && (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+              <button onClick={() => addPreset()} className="text-blue-600 hover:text-blue-800">
+                + Add Preset
+              </button>
+              {EXAMPLES.map(example => (
+                <button
+                  key={example.name}
+                  onClick={() => addPreset(example)}
+                  className="text-gray-500 hover:text-gray-800"
+                >
+                  + {example.name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-800">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={loading || saving}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Presets'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import * as instructorApi from '../../services/instructorApi'
+import { formatDeadline, fromDateTimeInput, getDeadlinePhase, toDateTimeInput } from '../../utils/deadlines'
+
+interface Props {
+  groupId: string
+  model: instructorApi.ModelTemplate
+  // Called after the extension is saved or removed so the submission list refreshes
+  onChange: () => void
+  // Shows the dates without the extension controls
+  readOnly?: boolean
+}
+
+export default function DeadlineExtensionEditor({ groupId, model, onChange, readOnly = false }: Props) {
+  const [editing, setEditing] = useState(false)
+  const [dueAt, setDueAt] = useState('')
+  const [closesAt, setClosesAt] = useState('')
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const { deadlines, extension } = model
+  const phase = getDeadlinePhase(deadlines)
+
+  const startEditing = () => {
+    // Start from the group's current dates so a small push is a small edit
+    setDueAt(toDateTimeInput(deadlines.dueAt))
+    setClosesAt(toDateTimeInput(deadlines.closesAt))
+    setReason(extension?.reason ?? '')
+    setError('')
+    setEditing(true)
+  }
+
+  const handleSave = async () => {
+    if (!dueAt && !closesAt) {
+      setError('Set a new due date or close date')
+      return
+    }
+    try {
+      setSaving(true)
+      setError('')
+      await instructorApi.saveDeadlineExtension(groupId, model.id, {
+        dueAt: fromDateTimeInput(dueAt),
+        closesAt: fromDateTimeInput(closesAt),
+        reason: reason.trim() || undefined
+      })
+      setEditing(false)
+      onChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save extension')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!confirm(`Remove this group's extension for "${model.name}"?`)) return
+    try {
+      setSaving(true)
+      setError('')
+      await instructorApi.removeDeadlineExtension(groupId, model.id)
+      setEditing(false)
+      onChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove extension')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (phase === 'none' && !extension) {
+    return null
+  }
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-gray-600">
+        {deadlines.opensAt && <span>Opens {formatDeadline(deadlines.opensAt)}</span>}
+        {deadlines.dueAt && <span>Due {formatDeadline(deadlines.dueAt)}</span>}
+        {deadlines.closesAt && <span>Closes {formatDeadline(deadlines.closesAt)}</span>}
+        {extension && (
+          <span
+            className="text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-700"
+            title={[
+              extension.reason,
+              extension.grantedBy && `Granted by ${extension.grantedBy.firstName} ${extension.grantedBy.lastName}`
+            ].filter(Boolean).join(' - ') || undefined}
+          >
+            Extended
+          </span>
+        )}
+        {!editing && !readOnly && (
+          <button onClick={startEditing} className="text-blue-600 hover:text-blue-700">
+            {extension ? 'Edit extension' : 'Grant extension'}
+          </button>
+        )}
+        {!editing && !readOnly && extension && (
+          <button onClick={handleRemove} disabled={saving} className="text-red-600 hover:text-red-700 disabled:text-gray-400">
+            Remove
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-2 rounded-md mt-2">
+          {error}
+          <button onClick={() => setError('')} className="ml-2 underline">Dismiss</button>
+        </div>
+      )}
+
+      {editing && (
+        <div className="bg-gray-50 rounded-md p-3 mt-2 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">New due date</label>
+              <input
+                type="datetime-local"
+                value={dueAt}
+                onChange={(e) => setDueAt(e.target.value)}
+                className="w-full px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">New close date</label>
+              <input
+                type="datetime-local"
+                value={closesAt}
+                onChange={(e) => setClosesAt(e.target.value)}
+                className="w-full px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+            className="w-full px-3 py-1.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setEditing(false)}
+              className="px-3 py-1.5 text-gray-700 hover:bg-gray-200 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-blue-600 text-white px-3 py-1.5 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              {saving ? 'Saving...' : 'Save Extension'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,13 +2,15 @@ import { useState, useEffect, useCallback } from 'react'
 import * as messageApi from '../../services/messageApi'
 import CommentThread from '../shared/CommentThread'
 import { useAuth } from '../../context/AuthContext'
+import { useRealtime, useTypingUsers, appendMessage, applyReadStatus } from '../../context/RealtimeContext'
 
 interface Props {
   groupId: string
   onMessagesRead?: () => void
+  readOnly?: boolean
 }
 
-export default function DiscussionTab({ groupId, onMessagesRead }: Props) {
+export default function DiscussionTab({ groupId, onMessagesRead, readOnly = false }: Props) {
   const { user } = useAuth()
   const [messages, setMessages] = useState<messageApi.Message[]>([])
   const [readStatuses, setReadStatuses] = useState<messageApi.ReadStatus[]>([])
@@ -17,11 +19,20 @@ export default function DiscussionTab({ groupId, onMessagesRead }: Props) {
 
   useEffect(() => {
     loadMessages()
-    // Poll for new messages every 10 seconds
-    const interval = setInterval(loadMessages, 10000)
-    return () => clearInterval(interval)
   }, [groupId])
 
+  // New messages and read receipts arrive over the live event stream
+  useRealtime(event => {
+    if (event.type === 'resync') {
+      loadMessages()
+    } else if (event.type === 'message' && event.groupId === groupId && !event.submissionId) {
+      setMessages(prev => appendMessage(prev, event.message))
+    } else if (event.type === 'read' && event.groupId === groupId && !event.submissionId) {
+      setReadStatuses(prev => applyReadStatus(prev, event))
+    }
+  })
+  const typingIn = useTypingUsers(groupId)
+
   const loadMessages = useCallback(async () => {
     try {
       setLoading(messages.length === 0)
@@ -73,6 +84,9 @@ export default function DiscussionTab({ groupId, onMessagesRead }: Props) {
           currentUserId={user?.id}
           onMarkRead={markAsRead}
           readStatuses={readStatuses}
+          typingUsers={typingIn(null)}
+          onTyping={() => messageApi.sendGroupTyping(groupId).catch(() => {})}
+          readOnly={readOnly}
         />
       </div>
     </div>
@@ -10,12 +10,29 @@ export default function LiteratureTab({ groupId }: Props) {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
   const [previewId, setPreviewId] = useState<string | null>(null)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
 
   useEffect(() => {
     setPreviewId(null)
     loadLiterature()
   }, [groupId])
 
+  // File links expire after a few minutes, so get a new one for each preview
+  useEffect(() => {
+    setPreviewUrl(null)
+    if (!previewId) return
+
+    let cancelled = false
+    instructorApi.getLiteratureFileUrl(previewId)
+      .then(url => {
+        if (!cancelled) setPreviewUrl(url)
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to open PDF'))
+    return () => {
+      cancelled = true
+    }
+  }, [previewId])
+
   const loadLiterature = async () => {
     try {
       setLoading(true)
@@ -125,14 +142,16 @@ export default function LiteratureTab({ groupId }: Props) {
               {literature.find(l => l.id === previewId)?.title}
             </span>
             <div className="flex items-center gap-2">
-              <a
-                href={instructorApi.getLiteratureFileUrl(previewId)}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-blue-600 hover:text-blue-800 text-sm"
-              >
-                Open in new tab
-              </a>
+              {previewUrl && (
+                <a
+                  href={previewUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:text-blue-800 text-sm"
+                >
+                  Open in new tab
+                </a>
+              )}
               <button
                 onClick={() => setPreviewId(null)}
                 className="text-gray-400 hover:text-gray-600"
@@ -143,11 +162,15 @@ export default function LiteratureTab({ groupId }: Props) {
               </button>
             </div>
           </div>
-          <iframe
-            src={instructorApi.getLiteratureFileUrl(previewId)}
-            className="w-full h-[calc(100vh-220px)]"
-            title="PDF Preview"
-          />
+          {previewUrl ? (
+            <iframe
+              src={previewUrl}
+              className="w-full h-[calc(100vh-220px)]"
+              title="PDF Preview"
+            />
+          ) : (
+            <div className="p-6 text-gray-500">Loading PDF...</div>
+          )}
         </div>
       )}
     </div>
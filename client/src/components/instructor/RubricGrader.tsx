@@ -0,0 +1,244 @@
+import { useState, useEffect } from 'react'
+import * as instructorApi from '../../services/instructorApi'
+import { useAuth } from '../../context/AuthContext'
+import { hasPermission } from '../../utils/roles'
+
+interface Props {
+  submissionId: string
+  summary: instructorApi.GradeTotals
+  releasedAt: string | null
+  // Called after scores are saved or released so the submission list refreshes
+  onChange: () => void
+  // Shows the scores without letting them be changed
+  readOnly?: boolean
+}
+
+interface ScoreDraft {
+  levelId: string | null
+  points: string
+  comment: string
+}
+
+export default function RubricGrader({ submissionId, summary, releasedAt, onChange, readOnly = false }: Props) {
+  const { user } = useAuth()
+  const [expanded, setExpanded] = useState(false)
+  const [grade, setGrade] = useState<instructorApi.SubmissionGrade | null>(null)
+  const [drafts, setDrafts] = useState<Record<string, ScoreDraft>>({})
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  // Released grades are visible to students; TAs can no longer change them
+  const canRelease = hasPermission(user?.role, 'releaseGrades')
+  const locked = readOnly || (!!grade?.releasedAt && !canRelease)
+
+  const applyGrade = (data: instructorApi.SubmissionGrade) => {
+    setGrade(data)
+    setDrafts(Object.fromEntries(data.criteria.map(c => [c.id, {
+      levelId: c.score?.levelId ?? null,
+      points: c.score ? String(c.score.points) : '',
+      comment: c.score?.comment ?? ''
+    }])))
+  }
+
+  useEffect(() => {
+    if (!expanded) return
+    const loadGrade = async () => {
+      try {
+        setLoading(true)
+        setError('')
+        applyGrade(await instructorApi.getSubmissionGrade(submissionId))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load grade')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadGrade()
+  }, [expanded, submissionId])
+
+  const updateDraft = (criterionId: string, changes: Partial<ScoreDraft>) => {
+    setDrafts(prev => ({ ...prev, [criterionId]: { ...prev[criterionId], ...changes } }))
+  }
+
+  const selectLevel = (criterionId: string, level: instructorApi.RubricLevel) => {
+    updateDraft(criterionId, { levelId: level.id, points: String(level.points) })
+  }
+
+  const handleSave = async () => {
+    if (!grade) return
+    try {
+      setSaving(true)
+      setError('')
+      const scores = grade.criteria.map(c => {
+        const draft = drafts[c.id]
+        // An empty points box clears the score, even if a level was picked
+        const cleared = draft.points.trim() === ''
+        return {
+          criterionId: c.id,
+          levelId: cleared ? null : draft.levelId,
+          points: cleared ? null : Number(draft.points),
+          comment: draft.comment
+        }
+      })
+      applyGrade(await instructorApi.saveSubmissionGrade(submissionId, scores))
+      onChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save grade')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRelease = async (released: boolean) => {
+    if (released && grade && grade.gradedCount < grade.criteriaCount &&
+        !confirm('Not every criterion has been scored. Release the grade anyway?')) {
+      return
+    }
+    try {
+      setSaving(true)
+      setError('')
+      applyGrade(await instructorApi.releaseSubmissionGrade(submissionId, released))
+      onChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update grade')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-2 text-sm font-medium text-gray-700 hover:text-blue-600"
+        >
+          <svg
+            className={`w-4 h-4 transition-transform ${expanded ? 'rotate-90' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          Grade
+          <span className="font-mono text-xs bg-gray-100 text-gray-700 px-1.5 py-0.5 rounded">
+            {summary.totalPoints}/{summary.maxPoints}
+          </span>
+        </button>
+        {summary.gradedCount < summary.criteriaCount && (
+          <span className="text-xs text-gray-500">
+            {summary.gradedCount} of {summary.criteriaCount} criteria scored
+          </span>
+        )}
+        {releasedAt ? (
+          <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-700">Released</span>
+        ) : (
+          <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">Not released</span>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">
+              {error}
+              <button onClick={() => setError('')} className="ml-2 underline">Dismiss</button>
+            </div>
+          )}
+
+          {loading || !grade ? (
+            <div className="text-sm text-gray-500">Loading rubric...</div>
+          ) : (
+            <>
+              {grade.criteria.map(criterion => {
+                const draft = drafts[criterion.id]
+                return (
+                  <div key={criterion.id} className="bg-gray-50 rounded-md p-3">
+                    <div className="flex justify-between items-start gap-3">
+                      <div>
+                        <div className="text-sm font-medium text-gray-800">{criterion.title}</div>
+                        {criterion.description && (
+                          <p className="text-xs text-gray-500 mt-0.5">{criterion.description}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 text-sm whitespace-nowrap">
+                        <input
+                          type="number"
+                          min={0}
+                          max={criterion.maxPoints}
+                          value={draft.points}
+                          onChange={(e) => updateDraft(criterion.id, { points: e.target.value })}
+                          disabled={locked}
+                          className="w-16 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <span className="text-gray-500">/ {criterion.maxPoints}</span>
+                      </div>
+                    </div>
+
+                    {criterion.levels.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {criterion.levels.map(level => (
+                          <button
+                            key={level.id}
+                            onClick={() => selectLevel(criterion.id, level)}
+                            disabled={locked}
+                            title={level.description || undefined}
+                            className={`text-xs px-2 py-1 rounded-md border ${
+                              draft.levelId === level.id
+                                ? 'bg-blue-600 text-white border-blue-600'
+                                : 'bg-white text-gray-700 border-gray-300 hover:border-blue-400'
+                            }`}
+                          >
+                            {level.label} ({level.points})
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    <input
+                      type="text"
+                      value={draft.comment}
+                      onChange={(e) => updateDraft(criterion.id, { comment: e.target.value })}
+                      disabled={locked}
+                      placeholder="Comment for students (optional)"
+                      className="w-full mt-2 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                )
+              })}
+
+              {!readOnly && locked && (
+                <p className="text-xs text-gray-500">
+                  This grade has been released to students. Only an instructor can change it.
+                </p>
+              )}
+
+              {!locked && (
+                <div className="flex justify-end gap-3">
+                  {canRelease && (
+                    <button
+                      onClick={() => handleRelease(!grade.releasedAt)}
+                      disabled={saving}
+                      className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                    >
+                      {grade.releasedAt ? 'Hide from Students' : 'Release to Students'}
+                    </button>
+                  )}
+                  <button
+                    onClick={handleSave}
+                    disabled={saving}
+                    className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 text-sm disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save Scores'}
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,11 +4,20 @@ import * as messageApi from '../../services/messageApi'
 import JSmolViewer from '../shared/JSmolViewer'
 import CommentThread from '../shared/CommentThread'
 import DiscussionModal from '../shared/DiscussionModal'
+import VersionHistory from '../shared/VersionHistory'
+import SignedImage from '../shared/SignedImage'
+import RubricGrader from './RubricGrader'
+import DeadlineExtensionEditor from './DeadlineExtensionEditor'
 import { useAuth } from '../../context/AuthContext'
+import { hasPermission } from '../../utils/roles'
+import { useRealtime, useTypingUsers, appendMessage, applyReadStatus } from '../../context/RealtimeContext'
+import { getDeadlinePhase } from '../../utils/deadlines'
 
 interface Props {
   groupId: string
   proteinPdbId: string
+  // Archived groups can be reviewed but not changed
+  readOnly?: boolean
 }
 
 interface ViewerState {
@@ -16,6 +25,16 @@ interface ViewerState {
   fileUrl: string
   modelName: string
   proteinPdbId?: string
+  compare?: {
+    fileUrl: string
+    label: string
+    currentLabel: string
+  }
+  // Where comments pinned in the viewer are posted
+  submissionId?: string
+  versionId?: string
+  // Pinned comment to show once the model loads
+  focus?: messageApi.MessageAnnotation | null
 }
 
 interface CommentsState {
@@ -29,8 +48,9 @@ interface CommentsState {
   }
 }
 
-export default function SubmissionsTab({ groupId, proteinPdbId }: Props) {
+export default function SubmissionsTab({ groupId, proteinPdbId, readOnly = false }: Props) {
   const { user } = useAuth()
+  const canApprove = hasPermission(user?.role, 'approveSubmissions')
   const [models, setModels] = useState<instructorApi.ModelWithSubmission[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
@@ -42,9 +62,10 @@ export default function SubmissionsTab({ groupId, proteinPdbId }: Props) {
     loadSubmissions()
   }, [groupId])
 
-  const loadSubmissions = async () => {
+  // Live updates reload without the loading placeholder so open panels stay put
+  const loadSubmissions = async (showLoading = true) => {
     try {
-      setLoading(true)
+      if (showLoading) setLoading(true)
       setError('')
       const data = await instructorApi.getGroupSubmissions(groupId)
       setModels(data)
@@ -55,13 +76,120 @@ export default function SubmissionsTab({ groupId, proteinPdbId }: Props) {
     }
   }
 
-  const openViewer = (submissionId: string, modelName: string) => {
-    setViewer({
-      isOpen: true,
-      fileUrl: instructorApi.getSubmissionFileUrl(submissionId),
-      modelName,
-      proteinPdbId
-    })
+  // Live comments, read receipts and status changes for this group
+  useRealtime(event => {
+    if (event.type === 'resync') {
+      loadSubmissions(false)
+      Object.keys(comments).forEach(submissionId => loadComments(submissionId))
+      return
+    }
+    if (event.type === 'notification' || event.groupId !== groupId) return
+
+    if (event.type === 'submission') {
+      loadSubmissions(false)
+    } else if (event.type === 'message' && event.submissionId) {
+      receiveComment(event.submissionId, event.message)
+    } else if (event.type === 'read' && event.submissionId) {
+      const submissionId = event.submissionId
+      setComments(prev => prev[submissionId]
+        ? { ...prev, [submissionId]: { ...prev[submissionId], readStatuses: applyReadStatus(prev[submissionId].readStatuses, event) } }
+        : prev)
+    }
+  })
+  const typingIn = useTypingUsers(groupId)
+
+  // Adds a pushed comment to a loaded thread, or flags the submission as unread
+  const receiveComment = (submissionId: string, message: messageApi.Message) => {
+    const isOwn = message.userId === user?.id
+    if (comments[submissionId]) {
+      setComments(prev => ({
+        ...prev,
+        [submissionId]: {
+          ...prev[submissionId],
+          messages: appendMessage(prev[submissionId].messages, message),
+          unreadCount: prev[submissionId].unreadCount + (isOwn ? 0 : 1)
+        }
+      }))
+    } else if (!isOwn) {
+      setModels(prev => prev.map(m => m.submission?.id === submissionId
+        ? { ...m, submission: { ...m.submission, unreadCount: (m.submission.unreadCount ?? 0) + 1 } }
+        : m))
+    }
+  }
+
+  const openViewer = async (submissionId: string, modelName: string) => {
+    try {
+      setViewer({
+        isOpen: true,
+        fileUrl: await instructorApi.getSubmissionFileUrl(submissionId),
+        modelName,
+        proteinPdbId,
+        submissionId
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open model')
+    }
+  }
+
+  const openVersionViewer = async (version: instructorApi.SubmissionVersion, modelName: string) => {
+    try {
+      setViewer({
+        isOpen: true,
+        fileUrl: await instructorApi.getVersionFileUrl(version.id),
+        modelName: `${modelName} (v${version.versionNumber})`,
+        proteinPdbId,
+        submissionId: version.submissionId,
+        versionId: version.id
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open model')
+    }
+  }
+
+  // Opens the version a pinned comment was written on, turned to its target
+  const openAnnotation = async (submissionId: string, modelName: string, message: messageApi.Message) => {
+    try {
+      setDiscussionModal(null)
+      setViewer({
+        isOpen: true,
+        fileUrl: message.version
+          ? await instructorApi.getVersionFileUrl(message.version.id)
+          : await instructorApi.getSubmissionFileUrl(submissionId),
+        modelName: message.version ? `${modelName} (v${message.version.versionNumber})` : modelName,
+        proteinPdbId,
+        submissionId,
+        versionId: message.version?.id,
+        focus: message.annotation
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open model')
+    }
+  }
+
+  const openCompareViewer = async (
+    version: instructorApi.SubmissionVersion,
+    current: instructorApi.SubmissionVersion,
+    modelName: string
+  ) => {
+    try {
+      const [currentUrl, versionUrl] = await Promise.all([
+        instructorApi.getVersionFileUrl(current.id),
+        instructorApi.getVersionFileUrl(version.id)
+      ])
+      setViewer({
+        isOpen: true,
+        fileUrl: currentUrl,
+        modelName,
+        proteinPdbId,
+        compare: {
+          fileUrl: versionUrl,
+          label: `v${version.versionNumber}`,
+          currentLabel: `v${current.versionNumber} (current)`
+        }
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open models')
+    }
   }
 
   const closeViewer = () => {
@@ -132,8 +260,13 @@ export default function SubmissionsTab({ groupId, proteinPdbId }: Props) {
     }
   }
 
-  const postComment = async (submissionId: string, content: string) => {
-    await messageApi.postSubmissionComment(submissionId, content)
+  const postComment = async (
+    submissionId: string,
+    content: string,
+    versionId?: string,
+    annotation?: messageApi.MessageAnnotation
+  ) => {
+    await messageApi.postSubmissionComment(submissionId, content, versionId, annotation)
     await loadComments(submissionId)
   }
 
@@ -238,22 +371,43 @@ export default function SubmissionsTab({ groupId, proteinPdbId }: Props) {
                       <div className="flex items-center gap-3">
                         <h4 className="text-lg font-semibold text-gray-800">{model.name}</h4>
                         {model.submission && getStatusBadge(model.submission.status)}
+                        {model.submission?.isLate && (
+                          <span className="text-xs px-2 py-1 rounded-full bg-orange-100 text-orange-700">Late</span>
+                        )}
+                        {model.submission?.latestVersion?.proteinMatch === 'MISMATCH' && (
+                          <span
+                            className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-red-100 text-red-700"
+                            title={model.submission.latestVersion.proteinMatchDetail || undefined}
+                          >
+                            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                            </svg>
+                            Protein mismatch
+                          </span>
+                        )}
                       </div>
                       {model.description && (
                         <p className="text-sm text-gray-600 mt-1">{model.description}</p>
                       )}
+                      <div className="mt-2">
+                        <DeadlineExtensionEditor groupId={groupId} model={model} onChange={loadSubmissions} readOnly={readOnly} />
+                      </div>
                     </div>
 
                     {/* Status Dropdown */}
-                    {model.submission && (
+                    {model.submission && !readOnly && (
                       <select
                         value={model.submission.status}
                         onChange={(e) => handleStatusChange(model.submission!.id, e.target.value)}
-                        className="text-sm border border-gray-300 rounded-md px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        disabled={!canApprove && model.submission.status === 'APPROVED'}
+                        title={!canApprove && model.submission.status === 'APPROVED' ? 'Only instructors can change an approved model' : undefined}
+                        className="text-sm border border-gray-300 rounded-md px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
                       >
                         <option value="SUBMITTED">Submitted</option>
                         <option value="NEEDS_REVISION">Needs Revision</option>
-                        <option value="APPROVED">Approved</option>
+                        {(canApprove || model.submission.status === 'APPROVED') && (
+                          <option value="APPROVED">Approved</option>
+                        )}
                       </select>
                     )}
                   </div>
@@ -267,12 +421,36 @@ export default function SubmissionsTab({ groupId, proteinPdbId }: Props) {
                           {model.submission.submittedBy.firstName} {model.submission.submittedBy.lastName}
                         </span>
                         {' '}on {formatDate(model.submission.createdAt)}
+                        {(model.submission.versionCount ?? 0) > 1 && (
+                          <span className="ml-2 font-mono text-xs bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">
+                            v{model.submission.versionCount}
+                          </span>
+                        )}
+                        {model.submission.latestVersion?.atomCount != null && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            {model.submission.latestVersion.atomCount.toLocaleString()} atoms
+                            {model.submission.latestVersion.embeddedPdbId && ` · PDB ${model.submission.latestVersion.embeddedPdbId}`}
+                          </span>
+                        )}
                       </div>
 
+                      {model.submission.latestVersion?.proteinMatch === 'MISMATCH' && (
+                        <div className="mb-4 text-sm bg-red-50 text-red-700 px-3 py-2 rounded-md">
+                          This model may not contain {proteinPdbId}: {model.submission.latestVersion.proteinMatchDetail}
+                        </div>
+                      )}
+
+                      {model.submission.latestVersion?.hasStructure === false && (
+                        <div className="mb-4 text-sm bg-amber-50 text-amber-700 px-3 py-2 rounded-md">
+                          No embedded structure was found in this PNGJ - it only references an external file.
+                        </div>
+                      )}
+
                       {/* Image and Viewer */}
                       <div className="flex gap-4 items-start mb-4">
-                        <img
-                          src={`${instructorApi.getSubmissionFileUrl(model.submission.id)}&t=${new Date(model.submission.updatedAt).getTime()}`}
+                        <SignedImage
+                          getUrl={() => instructorApi.getSubmissionFileUrl(model.submission!.id)}
+                          cacheKey={`${model.submission.id}-${model.submission.updatedAt}`}
                           alt={model.name}
                           className="max-w-md h-auto rounded-md border border-gray-200 cursor-pointer hover:opacity-90 transition-opacity"
                           style={{ maxHeight: '300px' }}
@@ -294,6 +472,40 @@ export default function SubmissionsTab({ groupId, proteinPdbId }: Props) {
                         </div>
                       </div>
 
+                      {/* Version History Section */}
+                      {(model.submission.versionCount ?? 0) > 1 && (
+                        <div className="border-t pt-4 mb-4">
+                          <VersionHistory
+                            versionCount={model.submission.versionCount!}
+                            loadVersions={() => instructorApi.getSubmissionVersions(model.submission!.id)}
+                            onView={(version) => openVersionViewer(version, model.name)}
+                            refreshKey={model.submission.updatedAt}
+                            renderActions={(version, versions) => version.id !== versions[0].id && (
+                              <button
+                                onClick={() => openCompareViewer(version, versions[0], model.name)}
+                                className="text-blue-600 hover:text-blue-800 hover:underline"
+                                title="Compare side by side with the current version"
+                              >
+                                Compare
+                              </button>
+                            )}
+                          />
+                        </div>
+                      )}
+
+                      {/* Rubric Grading Section */}
+                      {model.submission.grade && (
+                        <div className="border-t pt-4 mb-4">
+                          <RubricGrader
+                            submissionId={model.submission.id}
+                            summary={model.submission.grade}
+                            releasedAt={model.submission.gradeReleasedAt}
+                            onChange={loadSubmissions}
+                            readOnly={readOnly}
+                          />
+                        </div>
+                      )}
+
                       {/* Comments Section */}
                       <div className="border-t pt-4">
                         <div className="flex items-center gap-2">
@@ -346,6 +558,10 @@ export default function SubmissionsTab({ groupId, proteinPdbId }: Props) {
                               currentUserId={user?.id}
                               onMarkRead={(lastReadAt) => markCommentsRead(model.submission!.id, lastReadAt)}
                               readStatuses={comments[model.submission.id]?.readStatuses || []}
+                              typingUsers={typingIn(model.submission.id)}
+                              onTyping={() => messageApi.sendSubmissionTyping(model.submission!.id).catch(() => {})}
+                              readOnly={readOnly}
+                              onShowAnnotation={(message) => openAnnotation(model.submission!.id, model.name, message)}
                             />
                           </div>
                         )}
@@ -365,16 +581,24 @@ export default function SubmissionsTab({ groupId, proteinPdbId }: Props) {
               </h3>
               <div className="grid gap-3">
                 {pendingModels.map((model) => (
-                  <div key={model.id} className="bg-white rounded-lg shadow p-4 opacity-60">
-                    <div className="flex items-center gap-3">
-                      <svg className="w-5 h-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <div key={model.id} className="bg-white rounded-lg shadow p-4">
+                    <div className="flex items-start gap-3">
+                      <svg className="w-5 h-5 text-gray-400 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                       </svg>
-                      <div>
-                        <h4 className="font-medium text-gray-700">{model.name}</h4>
+                      <div className="flex-1">
+                        <div className="flex items-center gap-3">
+                          <h4 className="font-medium text-gray-700">{model.name}</h4>
+                          {['overdue', 'closed'].includes(getDeadlinePhase(model.deadlines)) && (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-red-50 text-red-600">Missing</span>
+                          )}
+                        </div>
                         {model.description && (
                           <p className="text-sm text-gray-500">{model.description}</p>
                         )}
+                        <div className="mt-2">
+                          <DeadlineExtensionEditor groupId={groupId} model={model} onChange={loadSubmissions} readOnly={readOnly} />
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -392,6 +616,13 @@ export default function SubmissionsTab({ groupId, proteinPdbId }: Props) {
         fileUrl={viewer.fileUrl}
         modelName={viewer.modelName}
         proteinPdbId={viewer.proteinPdbId}
+        compare={viewer.compare}
+        onPinComment={viewer.submissionId && !readOnly
+          ? (annotation, content) => postComment(viewer.submissionId!, content, viewer.versionId, annotation)
+          : undefined}
+        focus={viewer.focus}
+        submissionId={viewer.submissionId}
+        canSaveViews={!readOnly}
       />
 
       {/* Discussion Modal */}
@@ -408,6 +639,10 @@ export default function SubmissionsTab({ groupId, proteinPdbId }: Props) {
           currentUserId={user?.id}
           onMarkRead={(lastReadAt) => markCommentsRead(discussionModal.submissionId, lastReadAt)}
           readStatuses={comments[discussionModal.submissionId]?.readStatuses || []}
+          typingUsers={typingIn(discussionModal.submissionId)}
+          onTyping={() => messageApi.sendSubmissionTyping(discussionModal.submissionId).catch(() => {})}
+          readOnly={readOnly}
+          onShowAnnotation={(message) => openAnnotation(discussionModal.submissionId, discussionModal.modelName, message)}
         />
       )}
     </div>
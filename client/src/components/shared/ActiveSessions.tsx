@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react'
+import * as api from '../../services/api'
+
+// A readable "Firefox on Windows" from the user agent
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device'
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Unknown browser'
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null
+
+  return os ? `${browser} on ${os}` : browser
+}
+
+// The devices the user is logged in on, each of which can be logged out
+export default function ActiveSessions() {
+  const [sessions, setSessions] = useState<api.Session[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadSessions()
+  }, [])
+
+  const loadSessions = async () => {
+    try {
+      setLoading(true)
+      setSessions(await api.getSessions())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sessions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRevoke = async (id: string) => {
+    try {
+      setRevokingId(id)
+      await api.revokeSession(id)
+      setSessions(prev => prev.filter(s => s.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log out session')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const handleRevokeOthers = async () => {
+    if (!confirm('Log out every other device? You stay logged in here.')) return
+    try {
+      setRevokingId('others')
+      await api.revokeOtherSessions()
+      setSessions(prev => prev.filter(s => s.current))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log out sessions')
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const otherCount = sessions.filter(s => !s.current).length
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-start gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Active Sessions</h2>
+          <p className="text-sm text-gray-500">
+            Browsers and devices you are logged in on. Logging one out ends it right away.
+          </p>
+        </div>
+        {otherCount > 0 && (
+          <button
+            onClick={handleRevokeOthers}
+            disabled={revokingId !== null}
+            className="text-sm text-red-600 hover:text-red-800 disabled:text-gray-400 shrink-0"
+          >
+            Log out all other devices
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-3 rounded-md mb-4">
+          {error}
+          <button onClick={() => setError('')} className="ml-2 underline">Dismiss</button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-gray-500">Loading sessions...</div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {sessions.map(session => (
+            <div key={session.id} className="py-3 flex items-center justify-between gap-4">
+              <div>
+                <div className="text-sm font-medium text-gray-800">
+                  {describeDevice(session.userAgent)}
+                  {session.current && (
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">This browser</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {session.ipAddress && `${session.ipAddress} · `}
+                  Logged in {new Date(session.createdAt).toLocaleDateString()}
+                  {' · '}Last active {new Date(session.lastUsedAt).toLocaleString()}
+                </div>
+              </div>
+              {!session.current && (
+                <button
+                  onClick={() => handleRevoke(session.id)}
+                  disabled={revokingId !== null}
+                  className="text-sm text-red-600 hover:text-red-800 disabled:text-gray-400 shrink-0"
+                >
+                  {revokingId === session.id ? 'Logging out...' : 'Log out'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
-import type { Message, ReadStatus } from '../../services/messageApi'
+import type { Message, MessageUser, ReadStatus } from '../../services/messageApi'
+import { describeTarget } from '../../utils/jmolAnnotation'
 
 interface Props {
   messages: Message[]
@@ -12,8 +13,18 @@ interface Props {
   currentUserId?: string
   onMarkRead?: (lastReadAt: string) => void
   readStatuses?: ReadStatus[]
+  // Other users typing in this thread, and a callback to announce our own typing
+  typingUsers?: MessageUser[]
+  onTyping?: () => void
+  // Archived threads can be read but not posted to
+  readOnly?: boolean
+  // Opens the 3D viewer on the atom or residue a comment is pinned to
+  onShowAnnotation?: (message: Message) => void
 }
 
+// Minimum gap between typing announcements while the user keeps typing
+const TYPING_THROTTLE_MS = 3000
+
 export default function CommentThread({
   messages,
   loading,
@@ -24,7 +35,11 @@ export default function CommentThread({
   emptyMessage = 'No comments yet. Be the first to comment!',
   currentUserId,
   onMarkRead,
-  readStatuses = []
+  readStatuses = [],
+  typingUsers = [],
+  onTyping,
+  readOnly = false,
+  onShowAnnotation
 }: Props) {
   const [newMessage, setNewMessage] = useState('')
   const [posting, setPosting] = useState(false)
@@ -33,6 +48,7 @@ export default function CommentThread({
   const containerRef = useRef<HTMLDivElement>(null)
   const lastMarkedReadRef = useRef<string | null>(null)
   const shouldScrollRef = useRef(false)
+  const lastTypingSentRef = useRef(0)
 
   // Scroll to bottom within the messages container only (not the page)
   const scrollToBottom = useCallback(() => {
@@ -91,6 +107,14 @@ export default function CommentThread({
     }
   }, [messages, markAsRead, onMarkRead])
 
+  const handleInputChange = (value: string) => {
+    setNewMessage(value)
+    if (onTyping && value.trim() && Date.now() - lastTypingSentRef.current > TYPING_THROTTLE_MS) {
+      lastTypingSentRef.current = Date.now()
+      onTyping()
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!newMessage.trim() || posting) return
@@ -101,6 +125,7 @@ export default function CommentThread({
     try {
       await onPost(newMessage.trim())
       setNewMessage('')
+      lastTypingSentRef.current = 0
       // Flag to scroll to bottom after messages update
       shouldScrollRef.current = true
     } catch (err) {
@@ -138,6 +163,13 @@ export default function CommentThread({
         </span>
       )
     }
+    if (role === 'TA') {
+      return (
+        <span className="ml-2 text-xs bg-teal-100 text-teal-700 px-1.5 py-0.5 rounded">
+          TA
+        </span>
+      )
+    }
     if (role === 'ADMIN') {
       return (
         <span className="ml-2 text-xs bg-purple-100 text-purple-700 px-1.5 py-0.5 rounded">
@@ -235,7 +267,34 @@ export default function CommentThread({
                     {!isOwn && getRoleBadge(message.user.role)}
                     <span className="mx-1.5">·</span>
                     <span>{formatTime(message.createdAt)}</span>
+                    {message.version && (
+                      <span
+                        className={`ml-2 px-1.5 py-0.5 rounded font-mono ${
+                          isOwn ? 'bg-blue-500 text-blue-50' : 'bg-gray-200 text-gray-600'
+                        }`}
+                        title={`Written on version ${message.version.versionNumber}`}
+                      >
+                        v{message.version.versionNumber}
+                      </span>
+                    )}
                   </div>
+                  {message.annotation && (
+                    <button
+                      type="button"
+                      onClick={() => onShowAnnotation?.(message)}
+                      disabled={!onShowAnnotation}
+                      className={`mb-1 inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-mono ${
+                        isOwn ? 'bg-blue-500 text-blue-50 hover:bg-blue-400' : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200'
+                      } disabled:cursor-default`}
+                      title={onShowAnnotation ? 'Show in the 3D viewer' : undefined}
+                    >
+                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                      </svg>
+                      {describeTarget(message.annotation.target)}
+                    </button>
+                  )}
                   <div className="text-sm whitespace-pre-wrap break-all">
                     {message.content}
                   </div>
@@ -252,38 +311,55 @@ export default function CommentThread({
         )}
       </div>
 
+      {/* Typing indicator */}
+      {typingUsers.length > 0 && (
+        <div className="text-xs text-gray-500 italic mb-1 shrink-0">
+          {typingUsers.length === 1
+            ? `${typingUsers[0].firstName} is typing...`
+            : typingUsers.length === 2
+              ? `${typingUsers[0].firstName} and ${typingUsers[1].firstName} are typing...`
+              : 'Several people are typing...'}
+        </div>
+      )}
+
       {/* Input form */}
-      <form onSubmit={handleSubmit} className="flex gap-2 shrink-0">
-        <input
-          type="text"
-          value={newMessage}
-          onChange={(e) => setNewMessage(e.target.value)}
-          placeholder={placeholder}
-          disabled={posting}
-          className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
-        />
-        <button
-          type="submit"
-          disabled={!newMessage.trim() || posting}
-          className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center gap-1"
-        >
-          {posting ? (
-            <>
-              <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-              </svg>
-            </>
-          ) : (
-            <>
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-              </svg>
-              Send
-            </>
-          )}
-        </button>
-      </form>
+      {readOnly ? (
+        <div className="text-sm text-gray-500 italic text-center py-2 shrink-0">
+          This discussion is archived and read-only.
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="flex gap-2 shrink-0">
+          <input
+            type="text"
+            value={newMessage}
+            onChange={(e) => handleInputChange(e.target.value)}
+            placeholder={placeholder}
+            disabled={posting}
+            className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+          />
+          <button
+            type="submit"
+            disabled={!newMessage.trim() || posting}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center gap-1"
+          >
+            {posting ? (
+              <>
+                <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                </svg>
+              </>
+            ) : (
+              <>
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                </svg>
+                Send
+              </>
+            )}
+          </button>
+        </form>
+      )}
 
       {/* Post error */}
       {postError && (
@@ -1,6 +1,6 @@
 import { useEffect } from 'react'
 import CommentThread from './CommentThread'
-import type { Message, ReadStatus } from '../../services/messageApi'
+import type { Message, MessageUser, ReadStatus } from '../../services/messageApi'
 
 interface Props {
   isOpen: boolean
@@ -14,6 +14,10 @@ interface Props {
   currentUserId?: string
   onMarkRead?: (lastReadAt: string) => void
   readStatuses?: ReadStatus[]
+  typingUsers?: MessageUser[]
+  onTyping?: () => void
+  readOnly?: boolean
+  onShowAnnotation?: (message: Message) => void
 }
 
 export default function DiscussionModal({
@@ -27,7 +31,11 @@ export default function DiscussionModal({
   onRefresh,
   currentUserId,
   onMarkRead,
-  readStatuses = []
+  readStatuses = [],
+  typingUsers,
+  onTyping,
+  readOnly,
+  onShowAnnotation
 }: Props) {
   // Handle Escape key to close modal
   useEffect(() => {
@@ -96,6 +104,10 @@ export default function DiscussionModal({
               currentUserId={currentUserId}
               onMarkRead={onMarkRead}
               readStatuses={readStatuses}
+              typingUsers={typingUsers}
+              onTyping={onTyping}
+              readOnly={readOnly}
+              onShowAnnotation={onShowAnnotation}
             />
           </div>
         </div>
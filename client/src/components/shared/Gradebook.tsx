@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react'
+import * as gradebookApi from '../../services/gradebookApi'
+import { courseLabel } from '../../utils/courses'
+
+export default function Gradebook() {
+  const [gradebook, setGradebook] = useState<gradebookApi.Gradebook | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [layout, setLayout] = useState<gradebookApi.GradebookLayout>('lms')
+  const [downloading, setDownloading] = useState<gradebookApi.GradebookFormat | null>(null)
+  const [filter, setFilter] = useState('')
+  const [courses, setCourses] = useState<gradebookApi.GradebookCourses | null>(null)
+  const [courseId, setCourseId] = useState('')
+
+  useEffect(() => {
+    loadCourses()
+  }, [])
+
+  const loadCourses = async () => {
+    try {
+      const data = await gradebookApi.getGradebookCourses()
+      setCourses(data)
+      // Start on the first course unless some groups aren't in a course yet
+      const initialCourseId = data.hasUnassigned || data.courses.length === 0 ? '' : data.courses[0].id
+      setCourseId(initialCourseId)
+      loadGradebook(initialCourseId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load courses')
+      setLoading(false)
+    }
+  }
+
+  const handleCourseChange = (value: string) => {
+    setCourseId(value)
+    loadGradebook(value)
+  }
+
+  const loadGradebook = async (selectedCourseId: string) => {
+    try {
+      setLoading(true)
+      setError('')
+      setGradebook(await gradebookApi.getGradebook(selectedCourseId || null))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load gradebook')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDownload = async (format: gradebookApi.GradebookFormat) => {
+    try {
+      setDownloading(format)
+      await gradebookApi.downloadGradebook(format, layout, courseId || null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download gradebook')
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric'
+    })
+  }
+
+  const getStatusBadge = (status: string | null) => {
+    const styles: Record<string, string> = {
+      DRAFT: 'bg-gray-100 text-gray-600',
+      SUBMITTED: 'bg-blue-100 text-blue-700',
+      NEEDS_REVISION: 'bg-amber-100 text-amber-700',
+      APPROVED: 'bg-green-100 text-green-700'
+    }
+    const labels: Record<string, string> = {
+      DRAFT: 'Draft',
+      SUBMITTED: 'Submitted',
+      NEEDS_REVISION: 'Needs Revision',
+      APPROVED: 'Approved'
+    }
+    if (!status) {
+      return <span className="text-xs px-2 py-0.5 rounded-full bg-red-50 text-red-600">Missing</span>
+    }
+    return (
+      <span className={`text-xs px-2 py-0.5 rounded-full ${styles[status] || styles.DRAFT}`}>
+        {labels[status] || status}
+      </span>
+    )
+  }
+
+  if (loading) {
+    return <div className="text-gray-500">Loading gradebook...</div>
+  }
+
+  const search = filter.trim().toLowerCase()
+  const rows = (gradebook?.rows ?? []).filter(row =>
+    !search ||
+    `${row.firstName} ${row.lastName}`.toLowerCase().includes(search) ||
+    row.email.toLowerCase().includes(search) ||
+    row.groupName.toLowerCase().includes(search)
+  )
+
+  return (
+    <div>
+      <div className="flex justify-between items-start mb-6 gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Gradebook</h2>
+          <p className="text-sm text-gray-500">
+            Every student's status and rubric score for each active model template
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {courses && courses.courses.length > 0 && (
+            <select
+              value={courseId}
+              onChange={(e) => handleCourseChange(e.target.value)}
+              className="text-sm border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              title="Course"
+            >
+              {courses.hasUnassigned && <option value="">No course</option>}
+              {courses.courses.map(course => (
+                <option key={course.id} value={course.id}>
+                  {course.term.name} - {courseLabel(course)}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={layout}
+            onChange={(e) => setLayout(e.target.value as gradebookApi.GradebookLayout)}
+            className="text-sm border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            title="Export layout"
+          >
+            <option value="lms">LMS import (scores only)</option>
+            <option value="full">Full (status, score, date)</option>
+          </select>
+          <button
+            onClick={() => handleDownload('csv')}
+            disabled={downloading !== null}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors text-sm"
+          >
+            {downloading === 'csv' ? 'Exporting...' : 'Export CSV'}
+          </button>
+          <button
+            onClick={() => handleDownload('xlsx')}
+            disabled={downloading !== null}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors text-sm"
+          >
+            {downloading === 'xlsx' ? 'Exporting...' : 'Export XLSX'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-3 rounded-md mb-4">
+          {error}
+          <button onClick={() => setError('')} className="ml-2 underline">Dismiss</button>
+        </div>
+      )}
+
+      {layout === 'lms' && gradebook && gradebook.columns.some(c => c.maxPoints === null) && (
+        <div className="bg-amber-50 text-amber-700 text-sm p-3 rounded-md mb-4">
+          Templates without a rubric have no score and are left out of the LMS export.
+        </div>
+      )}
+
+      {layout === 'lms' && gradebook && gradebook.rows.some(r => r.cells.some(c => c.totalPoints !== null && !c.released)) && (
+        <div className="bg-amber-50 text-amber-700 text-sm p-3 rounded-md mb-4">
+          Scores not yet released to students are left blank in the LMS export.
+        </div>
+      )}
+
+      {!gradebook || gradebook.rows.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+          No students are assigned to groups yet.
+        </div>
+      ) : (
+        <>
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by student, email or group..."
+            className="w-full max-w-sm mb-4 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          />
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="sticky left-0 bg-gray-50 px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Student
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Group
+                  </th>
+                  {gradebook.columns.map(column => (
+                    <th
+                      key={column.templateId}
+                      className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap"
+                    >
+                      {column.name}
+                      {column.maxPoints !== null && (
+                        <span className="ml-1 normal-case font-normal">({column.maxPoints} pts)</span>
+                      )}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.map(row => (
+                  <tr key={row.userId}>
+                    <td className="sticky left-0 bg-white px-4 py-3 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{row.lastName}, {row.firstName}</div>
+                      <div className="text-xs text-gray-500">{row.email}</div>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">{row.groupName}</td>
+                    {row.cells.map(cell => (
+                      <td key={cell.templateId} className="px-4 py-3 whitespace-nowrap">
+                        <div className="flex items-center gap-2">
+                          {getStatusBadge(cell.status)}
+                          {cell.isLate && (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-orange-100 text-orange-700">Late</span>
+                          )}
+                          {cell.totalPoints !== null && (
+                            <span
+                              className={`text-sm font-mono ${cell.released ? 'text-gray-900' : 'text-gray-400'}`}
+                              title={cell.released ? 'Released to students' : 'Not released to students yet'}
+                            >
+                              {cell.totalPoints}
+                            </span>
+                          )}
+                        </div>
+                        {cell.submittedAt && (
+                          <div className="text-xs text-gray-500 mt-1">{formatDate(cell.submittedAt)}</div>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,21 @@
 import { useEffect, useRef, useState } from 'react'
 import { createPortal } from 'react-dom'
+import { fetchStateScript, extractDisplayCommands, diffLines, type DiffLine } from '../../utils/jmolState'
+import { captureFile } from '../../utils/jmolCapture'
+import { atomTarget, captureOrientation, describeTarget, focusScript, highlightScript } from '../../utils/jmolAnnotation'
+import type { AnnotationTarget, MessageAnnotation } from '../../services/messageApi'
+import ViewerViewsPanel from './ViewerViewsPanel'
+import MeasurementPanel from './MeasurementPanel'
+import SequencePanel from './SequencePanel'
+import { MEASURE_MODES, measurementsToCsv, readMeasurements, type Measurement, type MeasureMode } from '../../utils/jmolMeasure'
+import {
+  readSelectedResidues,
+  readSequence,
+  residueOfAtom,
+  selectResiduesScript,
+  type SequenceChain,
+  type SequenceResidue
+} from '../../utils/jmolSequence'
 
 // Declare Jmol as a global variable (loaded from local files)
 declare global {
@@ -12,6 +28,7 @@ declare global {
       evaluateVar: (applet: JmolApplet, variable: string) => unknown;
       getPropertyAsString: (applet: JmolApplet, property: string, params?: string) => string;
       getPropertyAsArray: (applet: JmolApplet, property: string, params?: string) => number[];
+      getPropertyAsJSON: (applet: JmolApplet, property: string, params?: string) => string;
     };
   }
 }
@@ -28,6 +45,9 @@ interface JmolInfo {
   disableInitialConsole?: boolean;
   allowJavaScript?: boolean;
   readyFunction?: (applet: JmolApplet) => void;
+  pickCallback?: (appletId: string, info: string, atomIndex: number) => void;
+  measureCallback?: () => void;
+  loadStructCallback?: () => void;
   console?: string;
 }
 
@@ -42,17 +62,39 @@ interface JSmolViewerProps {
   modelName: string;
   proteinPdbId?: string;
   templateId?: string;
-  onSubmit?: (templateId: string, file: File) => Promise<void>;
+  // onProgress gets the fraction of the upload sent so far
+  onSubmit?: (templateId: string, file: File, onProgress: (fraction: number) => void) => Promise<void>;
+  // Split mode: loads a second file beside the main one for comparison
+  compare?: CompareOptions;
+  // Lets the user click an atom and post a comment pinned to it
+  onPinComment?: (annotation: MessageAnnotation, content: string) => Promise<void>;
+  // A pinned comment to turn to and highlight once the model has loaded
+  focus?: MessageAnnotation | null;
+  // Shows the template's presets and the submission's saved views
+  submissionId?: string;
+  canSaveViews?: boolean;
+}
+
+interface CompareOptions {
+  fileUrl: string;      // Shown on the left, treated as "before" in the script diff
+  label: string;
+  currentLabel: string; // Label for the main fileUrl on the right
 }
 
 type DisplayStyle = 'cartoon' | 'ribbon' | 'trace' | 'wireframe' | 'spacefill' | 'ball+stick';
 type ColorScheme = 'structure' | 'chain' | 'cpk' | 'amino' | 'temperature' | 'group';
 
-export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, proteinPdbId, templateId, onSubmit }: JSmolViewerProps) {
+export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, proteinPdbId, templateId, onSubmit, compare, onPinComment, focus, submissionId, canSaveViews = false }: JSmolViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null)
+  const compareContainerRef = useRef<HTMLDivElement>(null)
   const consoleRef = useRef<HTMLDivElement>(null)
   const appletRef = useRef<JmolApplet | null>(null)
-  const originalStateRef = useRef<{ stateCommands: string | null }>({ stateCommands: null })
+  const compareAppletRef = useRef<JmolApplet | null>(null)
+  const originalStateRef = useRef<{ stateCommands: string | null; compareStateCommands: string | null }>({
+    stateCommands: null,
+    compareStateCommands: null
+  })
+  const compareFileUrl = compare?.fileUrl
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isSpinning, setIsSpinning] = useState(false)
@@ -69,11 +111,48 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submitProgress, setSubmitProgress] = useState({ percent: 0, status: '' })
 
+  // Split mode script diff state
+  const [showDiff, setShowDiff] = useState(false)
+  const [scriptDiff, setScriptDiff] = useState<DiffLine[] | null>(null)
+  const [diffError, setDiffError] = useState('')
+
+  // Pinned comment state. The pick callback is registered once per applet,
+  // so it reads pin mode from a ref.
+  const [isPinning, setIsPinning] = useState(false)
+  const isPinningRef = useRef(false)
+  const [pinTarget, setPinTarget] = useState<AnnotationTarget | null>(null)
+  const [pinError, setPinError] = useState('')
+  const [pinContent, setPinContent] = useState('')
+  const [isPostingPin, setIsPostingPin] = useState(false)
+  const focusRef = useRef(focus)
+  focusRef.current = focus
+
+  // Measurement state, read back from Jmol whenever a measurement changes
+  const [measureMode, setMeasureMode] = useState<MeasureMode | null>(null)
+  const measureModeRef = useRef<MeasureMode | null>(null)
+  const [measurements, setMeasurements] = useState<Measurement[]>([])
+
+  // Sequence panel state. The applet's selection is the source of truth;
+  // selectedResidues mirrors it by residue (atom index of each CA or P).
+  const [showSequence, setShowSequence] = useState(false)
+  const showSequenceRef = useRef(false)
+  const [sequence, setSequence] = useState<SequenceChain[]>([])
+  const residueCountRef = useRef(0)
+  const [selectedResidues, setSelectedResidues] = useState<Set<number>>(new Set())
+  const lastResidueRef = useRef<number | null>(null)
+
   useEffect(() => {
     if (!isOpen || !containerRef.current) return
 
-    // Clear console log when viewer opens
+    // Clear console log, any unfinished pin, the measurement table and the
+    // sequence when viewer opens
     setConsoleLog([])
+    cancelPin()
+    setMeasureMode(null)
+    measureModeRef.current = null
+    setMeasurements([])
+    setSequence([])
+    setSelectedResidues(new Set())
 
     const initJSmol = async () => {
       if (!window.Jmol) {
@@ -89,6 +168,12 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
         if (containerRef.current) {
           containerRef.current.innerHTML = ''
         }
+        if (compareContainerRef.current) {
+          compareContainerRef.current.innerHTML = ''
+        }
+
+        // In split mode, wait for both applets before hiding the spinner
+        let pendingApplets = compareFileUrl ? 2 : 1
 
         // Configure JSmol with local paths
         const Info: JmolInfo = {
@@ -101,7 +186,17 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
           disableInitialConsole: true,
           allowJavaScript: true,
           readyFunction: () => {
-            setLoading(false)
+            pendingApplets--
+            if (pendingApplets <= 0) {
+              setLoading(false)
+            }
+          },
+          pickCallback: (_appletId, _info, atomIndex) => handleAtomPicked(Number(atomIndex)),
+          // PNGJ files can bring measurements with them
+          measureCallback: () => refreshMeasurements(),
+          loadStructCallback: () => {
+            refreshMeasurements()
+            refreshSequence()
           }
         }
 
@@ -110,6 +205,11 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
         const appletName = 'jsmolViewer_' + Date.now()
         appletRef.current = window.Jmol.getApplet(appletName, Info)
 
+        if (compareFileUrl && compareContainerRef.current) {
+          compareAppletRef.current = window.Jmol.getApplet(appletName + '_compare', Info)
+          compareContainerRef.current.innerHTML = window.Jmol.getAppletHtml(compareAppletRef.current)
+        }
+
         if (containerRef.current && appletRef.current) {
           containerRef.current.innerHTML = window.Jmol.getAppletHtml(appletRef.current)
 
@@ -126,11 +226,26 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
               window.Jmol.script(appletRef.current!, `
                 ${baseSettings}
                 load "${fileUrl}";
+                ${focusRef.current ? focusScript(focusRef.current) : ''}
               `)
 
+              if (compareAppletRef.current && compareFileUrl) {
+                window.Jmol.script(compareAppletRef.current, `
+                  ${baseSettings}
+                  load "${compareFileUrl}";
+                `)
+
+                // Link rotation and zoom: mouse actions in either applet are mirrored in the other
+                window.Jmol.script(appletRef.current!, 'sync * on; set syncMouse true;')
+                window.Jmol.script(compareAppletRef.current, 'sync * on; set syncMouse true;')
+              }
+
               // Store that we loaded from a file (for reset functionality)
               setHasOriginalState(true)
-              originalStateRef.current = { stateCommands: `load "${fileUrl}";` }
+              originalStateRef.current = {
+                stateCommands: `load "${fileUrl}";`,
+                compareStateCommands: compareFileUrl ? `load "${compareFileUrl}";` : null
+              }
             }
           }, 500)
         }
@@ -161,14 +276,49 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
 
       return () => clearInterval(checkInterval)
     }
-  }, [isOpen, fileUrl, proteinPdbId])
+  }, [isOpen, fileUrl, compareFileUrl, proteinPdbId])
 
   useEffect(() => {
     if (!isOpen && appletRef.current) {
+      if (compareAppletRef.current && window.Jmol) {
+        window.Jmol.script(appletRef.current, 'sync * off')
+        window.Jmol.script(compareAppletRef.current, 'sync * off')
+      }
       appletRef.current = null
+      compareAppletRef.current = null
     }
   }, [isOpen])
 
+  // Diff the display commands of the two embedded state scripts
+  useEffect(() => {
+    if (!isOpen || !compareFileUrl) {
+      setScriptDiff(null)
+      setDiffError('')
+      setShowDiff(false)
+      return
+    }
+
+    let cancelled = false
+    setScriptDiff(null)
+    setDiffError('')
+
+    Promise.all([fetchStateScript(compareFileUrl), fetchStateScript(fileUrl)])
+      .then(([before, after]) => {
+        if (!cancelled) {
+          setScriptDiff(diffLines(extractDisplayCommands(before), extractDisplayCommands(after)))
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setDiffError(err instanceof Error ? err.message : 'Failed to compare state scripts')
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, fileUrl, compareFileUrl])
+
   // Auto-scroll console to bottom when new entries are added
   useEffect(() => {
     if (consoleRef.current) {
@@ -176,10 +326,14 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
     }
   }, [consoleLog])
 
+  // Runs on both applets in split mode so display changes apply to each side
   const runScript = (script: string) => {
     if (appletRef.current && window.Jmol) {
       window.Jmol.script(appletRef.current, script)
     }
+    if (compareAppletRef.current && window.Jmol) {
+      window.Jmol.script(compareAppletRef.current, script)
+    }
   }
 
   const handleLoadFromPDB = () => {
@@ -199,7 +353,10 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
   const handleResetToStudentView = () => {
     if (originalStateRef.current.stateCommands && appletRef.current && window.Jmol) {
       console.log('Resetting to student view')
-      runScript(originalStateRef.current.stateCommands)
+      window.Jmol.script(appletRef.current, originalStateRef.current.stateCommands)
+      if (compareAppletRef.current && originalStateRef.current.compareStateCommands) {
+        window.Jmol.script(compareAppletRef.current, originalStateRef.current.compareStateCommands)
+      }
       setIsSpinning(false)
     }
   }
@@ -248,6 +405,168 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
     runScript(direction === 'in' ? 'zoom *1.2' : 'zoom /1.2')
   }
 
+  // Pinned comments
+  const startPin = () => {
+    if (measureMode) handleMeasureModeChange(null)
+    isPinningRef.current = true
+    setIsPinning(true)
+    setPinTarget(null)
+    setPinError('')
+  }
+
+  const cancelPin = () => {
+    isPinningRef.current = false
+    setIsPinning(false)
+    setPinTarget(null)
+    setPinError('')
+    setPinContent('')
+  }
+
+  // Clicking an atom picks a pin target, or selects its residue while the
+  // sequence is shown
+  const handleAtomPicked = (atomIndex: number) => {
+    if (!appletRef.current || compareAppletRef.current || !Number.isFinite(atomIndex)) return
+    if (!isPinningRef.current) {
+      if (showSequenceRef.current && !measureModeRef.current) toggleResidueOfAtom(atomIndex)
+      return
+    }
+
+    const target = atomTarget(appletRef.current, atomIndex)
+    if (!target) {
+      setPinError('This atom is not part of a residue and cannot be pinned.')
+      return
+    }
+    setPinError('')
+    setPinTarget(target)
+    window.Jmol.script(appletRef.current, highlightScript(target))
+  }
+
+  const handlePinScopeChange = (scope: AnnotationTarget['scope']) => {
+    if (!pinTarget || !appletRef.current) return
+    const target = { ...pinTarget, scope }
+    setPinTarget(target)
+    window.Jmol.script(appletRef.current, highlightScript(target))
+  }
+
+  const handlePostPin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!pinTarget || !pinContent.trim() || !appletRef.current || !onPinComment) return
+
+    setIsPostingPin(true)
+    try {
+      await onPinComment(
+        { target: pinTarget, orientation: captureOrientation(appletRef.current) },
+        pinContent.trim()
+      )
+      cancelPin()
+    } catch (err) {
+      setPinError(err instanceof Error ? err.message : 'Failed to post comment')
+    } finally {
+      setIsPostingPin(false)
+    }
+  }
+
+  // Measurements
+  const refreshMeasurements = () => {
+    if (appletRef.current && window.Jmol) {
+      setMeasurements(readMeasurements(appletRef.current))
+    }
+  }
+
+  // Jmol picks the atoms itself in its measure picking modes
+  const handleMeasureModeChange = (mode: MeasureMode | null) => {
+    if (!appletRef.current || !window.Jmol) return
+    if (mode) cancelPin()
+    setMeasureMode(mode)
+    measureModeRef.current = mode
+    window.Jmol.script(appletRef.current, mode ? `set picking measure ${MEASURE_MODES[mode].picking}` : 'set picking ident')
+  }
+
+  const runMeasureScript = (script: string) => {
+    if (appletRef.current && window.Jmol) {
+      window.Jmol.script(appletRef.current, script)
+      // Scripts run asynchronously; read the table once this one has
+      setTimeout(refreshMeasurements, 200)
+    }
+  }
+
+  const handleExportMeasurements = () => {
+    const blob = new Blob([measurementsToCsv(measurements)], { type: 'text/csv' })
+    downloadFile(blob, `${modelName.replace(/[^a-zA-Z0-9]/g, '_')}_measurements.csv`)
+  }
+
+  // Sequence
+  const refreshSequence = () => {
+    if (!appletRef.current || !window.Jmol) return
+    const chains = readSequence(appletRef.current)
+    residueCountRef.current = chains.reduce((sum, c) => sum + c.residues.length, 0)
+    setSequence(chains)
+    setSelectedResidues(readSelectedResidues(appletRef.current, residueCountRef.current))
+  }
+
+  // Picks up selections made by the highlight buttons or the console
+  const syncSelection = () => {
+    if (appletRef.current && window.Jmol) {
+      setSelectedResidues(readSelectedResidues(appletRef.current, residueCountRef.current))
+    }
+  }
+
+  const applySelection = (residues: Set<number>) => {
+    if (!appletRef.current || !window.Jmol) return
+    window.Jmol.script(appletRef.current, selectResiduesScript(residues))
+    setSelectedResidues(residues)
+  }
+
+  const toggleResidueOfAtom = (atomIndex: number) => {
+    if (!appletRef.current) return
+    const residue = residueOfAtom(appletRef.current, atomIndex)
+    if (residue === null) return
+
+    // Read from the applet, as this runs from a Jmol callback
+    const next = readSelectedResidues(appletRef.current, residueCountRef.current)
+    if (next.has(residue)) {
+      next.delete(residue)
+    } else {
+      next.add(residue)
+    }
+    lastResidueRef.current = residue
+    applySelection(next)
+  }
+
+  const handleResidueClick = (residue: SequenceResidue, chain: SequenceChain, extend: boolean) => {
+    const next = new Set(selectedResidues)
+    const anchor = chain.residues.findIndex(r => r.atomIndex === lastResidueRef.current)
+
+    if (extend && anchor !== -1) {
+      const position = chain.residues.indexOf(residue)
+      chain.residues
+        .slice(Math.min(anchor, position), Math.max(anchor, position) + 1)
+        .forEach(r => next.add(r.atomIndex))
+    } else if (next.has(residue.atomIndex)) {
+      next.delete(residue.atomIndex)
+    } else {
+      next.add(residue.atomIndex)
+    }
+    lastResidueRef.current = residue.atomIndex
+    applySelection(next)
+  }
+
+  const toggleSequence = () => {
+    showSequenceRef.current = !showSequence
+    setShowSequence(!showSequence)
+  }
+
+  const runHighlight = (script: string) => {
+    runScript(script)
+    setTimeout(syncSelection, 200)
+  }
+
+  const handleShowFocus = () => {
+    if (focus && appletRef.current && window.Jmol) {
+      window.Jmol.script(appletRef.current, focusScript(focus))
+    }
+  }
+
 
   // Command console handlers
   const handleCommandSubmit = (e: React.FormEvent) => {
@@ -264,7 +583,7 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
 
     if (appletRef.current && window.Jmol) {
       // Run the command
-      window.Jmol.script(appletRef.current, cmd)
+      runScript(cmd)
 
       // Try to get meaningful output after command executes
       setTimeout(() => {
@@ -312,6 +631,9 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
           if (output) {
             setConsoleLog(prev => [...prev, { type: isError ? 'error' : 'output', text: output }])
           }
+
+          // The command may have changed the selection
+          syncSelection()
         }
       }, 200)
     }
@@ -338,157 +660,49 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
     }
   }
 
-  // Export current view as PNGJ file (triggers download)
-  const handleExportPngj = () => {
-    if (!appletRef.current || !window.Jmol) return
-
-    // Generate filename with model name and timestamp
-    const timestamp = new Date().toISOString().slice(0, 10)
-    const safeName = modelName.replace(/[^a-zA-Z0-9]/g, '_')
-    const filename = `${safeName}_${timestamp}.png`
-
-    window.Jmol.script(appletRef.current, `write "${filename}" as pngj`)
+  const downloadFile = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = fileName
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
   }
 
-  // Helper to animate progress with variable speed
-  const animateProgress = (from: number, to: number, duration: number): Promise<void> => {
-    return new Promise((resolve) => {
-      const startTime = Date.now()
-      const animate = () => {
-        const elapsed = Date.now() - startTime
-        const progress = Math.min(elapsed / duration, 1)
-        // Ease out cubic for natural feel
-        const eased = 1 - Math.pow(1 - progress, 3)
-        const current = from + (to - from) * eased
-        setSubmitProgress(prev => ({ ...prev, percent: Math.round(current) }))
-
-        if (progress < 1) {
-          requestAnimationFrame(animate)
-        } else {
-          resolve()
-        }
-      }
-      animate()
-    })
+  // Export current view as PNGJ file (triggers download)
+  const handleExportPngj = async () => {
+    if (!appletRef.current) return
+
+    try {
+      const file = await captureFile(appletRef.current, modelName)
+      downloadFile(file, file.name)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to export PNGJ')
+    }
   }
 
-  // Submit current view as PNGJ to the server by intercepting the download
+  // Submit current view as PNGJ to the server. Capturing is quick, so most
+  // of the bar is the upload; the rest waits for the server to check the file.
   const handleSubmitPngj = async () => {
-    if (!appletRef.current || !window.Jmol || !templateId || !onSubmit) return
+    if (!appletRef.current || !templateId || !onSubmit) return
 
     setIsSubmitting(true)
-    setSubmitProgress({ percent: 0, status: 'Preparing export...' })
+    setSubmitProgress({ percent: 0, status: 'Capturing current view...' })
 
     try {
-      // Animate initial progress
-      await animateProgress(0, 15, 300 + Math.random() * 200)
-      setSubmitProgress(prev => ({ ...prev, status: 'Generating PNGJ image...' }))
-
-      // Set up interception BEFORE triggering the write
-      const originalClick = HTMLAnchorElement.prototype.click
-      let captured = false
-      let resolveBlob: (blob: Blob) => void
-      let rejectBlob: (err: Error) => void
-
-      const blobPromise = new Promise<Blob>((resolve, reject) => {
-        resolveBlob = resolve
-        rejectBlob = reject
+      const file = await captureFile(appletRef.current, modelName)
+
+      setSubmitProgress({ percent: 10, status: 'Uploading to server...' })
+      await onSubmit(templateId, file, (fraction) => {
+        const percent = 10 + Math.round(fraction * 80)
+        setSubmitProgress({
+          percent,
+          status: fraction < 1 ? 'Uploading to server...' : 'Checking the model...'
+        })
       })
 
-      const timeoutId = setTimeout(() => {
-        HTMLAnchorElement.prototype.click = originalClick
-        if (!captured) {
-          rejectBlob(new Error('Timeout waiting for PNGJ download from JSmol'))
-        }
-      }, 5000)
-
-      HTMLAnchorElement.prototype.click = function(this: HTMLAnchorElement) {
-        // Check for data URL (base64 encoded) - this is what JSmol uses
-        if (this.download && this.href && this.href.startsWith('data:image/png;base64,') && !captured) {
-          // Convert data URL to Blob
-          fetch(this.href)
-            .then(response => response.blob())
-            .then(fetchedBlob => {
-              captured = true
-              clearTimeout(timeoutId)
-              HTMLAnchorElement.prototype.click = originalClick
-              resolveBlob(fetchedBlob)
-            })
-            .catch(err => {
-              HTMLAnchorElement.prototype.click = originalClick
-              rejectBlob(err)
-            })
-
-          // DON'T call originalClick - prevent the download since we captured the data
-          // This should also prevent the JSmol error
-          return
-        }
-
-        // Also check for blob URLs as fallback
-        if (this.download && this.href && this.href.startsWith('blob:') && !captured) {
-          fetch(this.href)
-            .then(response => response.blob())
-            .then(fetchedBlob => {
-              captured = true
-              clearTimeout(timeoutId)
-              HTMLAnchorElement.prototype.click = originalClick
-              resolveBlob(fetchedBlob)
-            })
-            .catch(err => {
-              HTMLAnchorElement.prototype.click = originalClick
-              rejectBlob(err)
-            })
-
-          return
-        }
-
-        originalClick.call(this)
-      }
-
-      // Trigger JSmol to write the PNGJ
-      const filename = `export_${Date.now()}.png`
-
-      // Intercept window.prompt to auto-respond to JSmol's filename dialog
-      const originalPrompt = window.prompt
-      window.prompt = () => {
-        return filename
-      }
-
-      try {
-        window.Jmol.script(appletRef.current!, `write "${filename}" as pngj`)
-      } catch (scriptErr) {
-        HTMLAnchorElement.prototype.click = originalClick
-        window.prompt = originalPrompt
-        throw scriptErr
-      } finally {
-        // Restore original prompt after a short delay to ensure JSmol has finished
-        setTimeout(() => {
-          window.prompt = originalPrompt
-        }, 100)
-      }
-
-      await animateProgress(15, 35, 400 + Math.random() * 300)
-
-      const blob = await blobPromise
-
-      setSubmitProgress(prev => ({ ...prev, status: 'Processing image data...' }))
-      await animateProgress(35, 55, 300 + Math.random() * 200)
-
-      // Create File from Blob
-      const timestamp = new Date().toISOString().slice(0, 19).replace(/[:-]/g, '')
-      const safeName = modelName.replace(/[^a-zA-Z0-9]/g, '_')
-      const filename2 = `${safeName}_${timestamp}.png`
-      const file = new File([blob], filename2, { type: 'image/png' })
-
-      setSubmitProgress(prev => ({ ...prev, status: 'Uploading to server...' }))
-      await animateProgress(55, 85, 500 + Math.random() * 400)
-
-      // Call the onSubmit callback
-      await onSubmit(templateId, file)
-
-      setSubmitProgress(prev => ({ ...prev, status: 'Finalizing...' }))
-      await animateProgress(85, 100, 200 + Math.random() * 100)
-
       setSubmitProgress({ percent: 100, status: 'Complete!' })
       await new Promise(resolve => setTimeout(resolve, 300))
     } catch (err) {
@@ -503,14 +717,41 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
   return (
     <>
     <div className="fixed inset-0 bg-gray-900/50 backdrop-blur-sm flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full mx-4 overflow-hidden max-h-[95vh] flex flex-col isolate">
+      <div className={`bg-white rounded-lg shadow-xl ${compare ? 'max-w-7xl' : 'max-w-5xl'} w-full mx-4 overflow-hidden max-h-[95vh] flex flex-col isolate`}>
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b bg-gray-50 shrink-0">
           <div>
             <h3 className="text-lg font-semibold text-gray-800">{modelName}</h3>
-            <p className="text-sm text-gray-500">3D Molecular Viewer {proteinPdbId && `• ${proteinPdbId}`}</p>
+            <p className="text-sm text-gray-500">
+              {compare ? `Comparing ${compare.label} with ${compare.currentLabel}` : '3D Molecular Viewer'}
+              {proteinPdbId && ` • ${proteinPdbId}`}
+            </p>
           </div>
           <div className="flex items-center gap-2">
+            {!compare && (
+              <button
+                onClick={toggleSequence}
+                className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+                  showSequence
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {showSequence ? 'Hide Sequence' : 'Show Sequence'}
+              </button>
+            )}
+            {compare && (
+              <button
+                onClick={() => setShowDiff(!showDiff)}
+                className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+                  showDiff
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {showDiff ? 'Hide Script Diff' : 'Show Script Diff'}
+              </button>
+            )}
             <button
               onClick={() => setShowControls(!showControls)}
               className="text-gray-500 hover:text-gray-700 p-2"
@@ -530,8 +771,23 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
 
         {/* Main content */}
         <div className="flex flex-1 overflow-hidden">
+          {/* Comparison viewer (split mode, left side) */}
+          {compare && (
+            <div className="flex-1 relative bg-[#111827] border-r border-gray-700">
+              <div className="absolute top-2 left-2 z-10 bg-gray-800/80 text-white text-xs px-2 py-1 rounded">
+                {compare.label}
+              </div>
+              <div ref={compareContainerRef} className="absolute inset-0" />
+            </div>
+          )}
+
           {/* Viewer */}
           <div className="flex-1 relative bg-[#111827]">
+            {compare && (
+              <div className="absolute top-2 left-2 z-10 bg-gray-800/80 text-white text-xs px-2 py-1 rounded">
+                {compare.currentLabel}
+              </div>
+            )}
             {loading && (
               <div className="absolute inset-0 flex items-center justify-center bg-gray-900 bg-opacity-75 z-10">
                 <div className="text-center">
@@ -639,30 +895,49 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
                   )}
                 </div>
 
+                {/* Template presets and saved views */}
+                {submissionId && (
+                  <ViewerViewsPanel
+                    submissionId={submissionId}
+                    canSave={canSaveViews}
+                    runScript={runScript}
+                    captureOrientation={() => (appletRef.current ? captureOrientation(appletRef.current) : null)}
+                  />
+                )}
+
                 {/* Quick Selections */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Highlight</label>
                   <div className="flex flex-wrap gap-1">
                     <button
-                      onClick={() => runScript('select helix; color red')}
+                      onClick={() => runHighlight('select helix; color red')}
                       className="px-2 py-1 bg-red-100 text-red-700 rounded text-xs hover:bg-red-200"
                     >
                       Helix
                     </button>
                     <button
-                      onClick={() => runScript('select sheet; color yellow')}
+                      onClick={() => runHighlight('select sheet; color yellow')}
                       className="px-2 py-1 bg-yellow-100 text-yellow-700 rounded text-xs hover:bg-yellow-200"
                     >
                       Sheet
                     </button>
                     <button
-                      onClick={() => runScript('select ligand; color green; spacefill')}
+                      onClick={() => runHighlight('select ligand; color green; spacefill')}
                       className="px-2 py-1 bg-green-100 text-green-700 rounded text-xs hover:bg-green-200"
                     >
                       Ligand
                     </button>
+                    {selectedResidues.size > 0 && (
+                      <button
+                        onClick={() => runScript('color yellow')}
+                        className="px-2 py-1 bg-blue-100 text-blue-700 rounded text-xs hover:bg-blue-200"
+                        title="Color the residues selected in the sequence"
+                      >
+                        Selection
+                      </button>
+                    )}
                     <button
-                      onClick={() => runScript('select all; color structure')}
+                      onClick={() => runHighlight('select all; color structure; set selectionHalos off')}
                       className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
                     >
                       Clear
@@ -670,22 +945,36 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
                   </div>
                 </div>
 
+                {/* Measurements */}
+                {!compare && (
+                  <MeasurementPanel
+                    mode={measureMode}
+                    onModeChange={handleMeasureModeChange}
+                    measurements={measurements}
+                    onDelete={(measurement) => runMeasureScript(`measure delete ${measurement.number}`)}
+                    onClear={() => runMeasureScript('measure delete')}
+                    onExportCsv={handleExportMeasurements}
+                  />
+                )}
+
                 {/* Export PNGJ */}
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Export View</label>
-                  <button
-                    onClick={handleExportPngj}
-                    className="w-full px-3 py-2 bg-orange-600 text-white rounded text-sm font-medium hover:bg-orange-700 flex items-center justify-center gap-2"
-                  >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                    </svg>
-                    Download PNGJ
-                  </button>
-                  <p className="text-xs text-gray-500 mt-1">
-                    Download current view as a PNGJ file to re-upload.
-                  </p>
-                </div>
+                {!compare && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Export View</label>
+                    <button
+                      onClick={handleExportPngj}
+                      className="w-full px-3 py-2 bg-orange-600 text-white rounded text-sm font-medium hover:bg-orange-700 flex items-center justify-center gap-2"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                      </svg>
+                      Download PNGJ
+                    </button>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Download current view as a PNGJ file to re-upload.
+                    </p>
+                  </div>
+                )}
 
                 {/* Submit to Server */}
                 {templateId && onSubmit && (
@@ -707,8 +996,118 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
                   </div>
                 )}
 
+                {/* Pinned comment being viewed */}
+                {focus && !compare && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Pinned Comment</label>
+                    <button
+                      onClick={handleShowFocus}
+                      className="w-full px-3 py-2 bg-white border border-gray-300 rounded text-sm font-medium text-gray-700 hover:bg-gray-50"
+                    >
+                      Show {describeTarget(focus.target)} again
+                    </button>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Return to the view the comment was written from.
+                    </p>
+                  </div>
+                )}
+
+                {/* Pin a comment to an atom or residue */}
+                {onPinComment && !compare && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Pin a Comment</label>
+                    {!isPinning ? (
+                      <>
+                        <button
+                          onClick={startPin}
+                          className="w-full px-3 py-2 bg-indigo-600 text-white rounded text-sm font-medium hover:bg-indigo-700 flex items-center justify-center gap-2"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+                          </svg>
+                          Pin Comment
+                        </button>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Comment on an atom or residue, saved with the current view.
+                        </p>
+                      </>
+                    ) : !pinTarget ? (
+                      <div className="space-y-2">
+                        <p className="text-xs text-gray-600 bg-indigo-50 border border-indigo-200 rounded p-2">
+                          Click an atom in the viewer to pin the comment to it.
+                        </p>
+                        {pinError && <p className="text-xs text-red-600">{pinError}</p>}
+                        <button
+                          onClick={cancelPin}
+                          className="w-full px-3 py-1.5 bg-white border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <form onSubmit={handlePostPin} className="space-y-2">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="font-mono text-indigo-700">{describeTarget(pinTarget)}</span>
+                          <button
+                            type="button"
+                            onClick={startPin}
+                            className="text-xs text-gray-500 hover:text-gray-700"
+                          >
+                            Pick again
+                          </button>
+                        </div>
+                        <div className="flex gap-3 text-xs text-gray-700">
+                          <label className="flex items-center gap-1">
+                            <input
+                              type="radio"
+                              checked={pinTarget.scope === 'atom'}
+                              disabled={!pinTarget.atomName}
+                              onChange={() => handlePinScopeChange('atom')}
+                            />
+                            Atom
+                          </label>
+                          <label className="flex items-center gap-1">
+                            <input
+                              type="radio"
+                              checked={pinTarget.scope === 'residue'}
+                              onChange={() => handlePinScopeChange('residue')}
+                            />
+                            Whole residue
+                          </label>
+                        </div>
+                        <textarea
+                          value={pinContent}
+                          onChange={(e) => setPinContent(e.target.value)}
+                          placeholder="Write a comment..."
+                          rows={3}
+                          className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                        />
+                        {pinError && <p className="text-xs text-red-600">{pinError}</p>}
+                        <p className="text-xs text-gray-500">Turn the model to the view you want saved, then post.</p>
+                        <div className="flex gap-2">
+                          <button
+                            type="button"
+                            onClick={cancelPin}
+                            className="flex-1 px-3 py-1.5 bg-white border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            type="submit"
+                            disabled={isPostingPin || !pinContent.trim()}
+                            className="flex-1 px-3 py-1.5 bg-indigo-600 text-white rounded text-sm font-medium hover:bg-indigo-700 disabled:bg-gray-400"
+                          >
+                            {isPostingPin ? 'Posting...' : 'Post'}
+                          </button>
+                        </div>
+                      </form>
+                    )}
+                  </div>
+                )}
+
                 {/* Load from PDB */}
-                {proteinPdbId && (
+                {proteinPdbId && !compare && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">Load Structure</label>
                     <button
@@ -727,6 +1126,53 @@ export default function JSmolViewer({ isOpen, onClose, fileUrl, modelName, prote
           )}
         </div>
 
+        {/* Sequence */}
+        {!compare && showSequence && (
+          <div className="border-t bg-white max-h-48 overflow-y-auto shrink-0">
+            <SequencePanel
+              chains={sequence}
+              selected={selectedResidues}
+              onResidueClick={handleResidueClick}
+              onClear={() => applySelection(new Set())}
+            />
+          </div>
+        )}
+
+        {/* State Script Diff (split mode) */}
+        {compare && showDiff && (
+          <div className="border-t bg-white max-h-56 overflow-y-auto shrink-0">
+            <div className="px-4 py-2 text-xs text-gray-500 border-b bg-gray-50 flex gap-4 sticky top-0">
+              <span>Display commands from the embedded Jmol state</span>
+              <span className="text-red-600">- only in {compare.label}</span>
+              <span className="text-green-700">+ only in {compare.currentLabel}</span>
+            </div>
+            {diffError ? (
+              <div className="px-4 py-3 text-sm text-red-600">{diffError}</div>
+            ) : !scriptDiff ? (
+              <div className="px-4 py-3 text-sm text-gray-500">Reading state scripts...</div>
+            ) : scriptDiff.every(line => line.type === 'same') ? (
+              <div className="px-4 py-3 text-sm text-gray-500">No differences in display commands.</div>
+            ) : (
+              <div className="px-4 py-2 font-mono text-xs">
+                {scriptDiff.map((line, index) => (
+                  <div
+                    key={index}
+                    className={`whitespace-pre-wrap break-all ${
+                      line.type === 'added'
+                        ? 'bg-green-50 text-green-800'
+                        : line.type === 'removed'
+                          ? 'bg-red-50 text-red-700'
+                          : 'text-gray-500'
+                    }`}
+                  >
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Script Console Footer */}
         <div className="border-t bg-gray-900 shrink-0">
           {consoleLog.length > 0 && (
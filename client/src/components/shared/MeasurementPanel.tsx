@@ -0,0 +1,97 @@
+import { MEASURE_MODES, type Measurement, type MeasureMode } from '../../utils/jmolMeasure'
+
+interface Props {
+  // Kind of measurement being picked, or null when clicks don't measure
+  mode: MeasureMode | null
+  onModeChange: (mode: MeasureMode | null) => void
+  measurements: Measurement[]
+  onDelete: (measurement: Measurement) => void
+  onClear: () => void
+  onExportCsv: () => void
+}
+
+const MODE_LABELS: Record<MeasureMode, string> = {
+  distance: 'Distance',
+  angle: 'Angle',
+  dihedral: 'Dihedral'
+}
+
+// Atom descriptions from Jmol end with the atom number, e.g. [HIS]64:A.NE2 #512
+function shortAtom(atom: string) {
+  return atom.replace(/\s*#\d+$/, '')
+}
+
+// Measurement mode and table in the 3D viewer's controls
+export default function MeasurementPanel({ mode, onModeChange, measurements, onDelete, onClear, onExportCsv }: Props) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Measure</label>
+      <div className="grid grid-cols-3 gap-1">
+        {(Object.keys(MODE_LABELS) as MeasureMode[]).map(m => (
+          <button
+            key={m}
+            onClick={() => onModeChange(mode === m ? null : m)}
+            className={`px-2 py-1.5 rounded text-xs font-medium transition-colors ${
+              mode === m
+                ? 'bg-blue-600 text-white'
+                : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {MODE_LABELS[m]}
+          </button>
+        ))}
+      </div>
+      {mode && (
+        <p className="text-xs text-gray-600 bg-blue-50 border border-blue-200 rounded p-2 mt-2">
+          Click {MEASURE_MODES[mode].atoms} atoms in the viewer to measure the {mode}.
+        </p>
+      )}
+
+      {measurements.length > 0 && (
+        <>
+          <table className="w-full mt-2 text-xs">
+            <tbody className="divide-y divide-gray-200">
+              {measurements.map(measurement => (
+                <tr key={measurement.number}>
+                  <td className="py-1 pr-1 text-gray-600" title={measurement.atoms.join('\n')}>
+                    <div className="font-medium text-gray-700">{MODE_LABELS[measurement.type]}</div>
+                    <div className="truncate max-w-[8rem]">{measurement.atoms.map(shortAtom).join(' – ')}</div>
+                  </td>
+                  <td className="py-1 text-right font-mono whitespace-nowrap">{measurement.label}</td>
+                  <td className="py-1 pl-1 text-right">
+                    <button
+                      onClick={() => onDelete(measurement)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete measurement"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex gap-2 mt-2">
+            <button
+              onClick={onExportCsv}
+              className="flex-1 px-2 py-1.5 bg-white border border-gray-300 rounded text-xs font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={onClear}
+              className="flex-1 px-2 py-1.5 bg-white border border-gray-300 rounded text-xs font-medium text-red-600 hover:bg-red-50"
+            >
+              Clear All
+            </button>
+          </div>
+        </>
+      )}
+      <p className="text-xs text-gray-500 mt-1">
+        Measurements are kept in downloaded and submitted PNGJ files.
+      </p>
+    </div>
+  )
+}
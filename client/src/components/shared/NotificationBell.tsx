@@ -0,0 +1,161 @@
+import { useState, useEffect, useRef } from 'react'
+import * as notificationApi from '../../services/notificationApi'
+import { useRealtime } from '../../context/RealtimeContext'
+
+interface Props {
+  // Called when a notification is clicked, so the dashboard can open what it's about
+  onSelect?: (notification: notificationApi.Notification) => void
+}
+
+export default function NotificationBell({ onSelect }: Props) {
+  const [notifications, setNotifications] = useState<notificationApi.Notification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [open, setOpen] = useState(false)
+  const [error, setError] = useState('')
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    loadNotifications()
+  }, [])
+
+  // Close the menu when clicking anywhere else
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  useRealtime(event => {
+    if (event.type === 'resync') {
+      loadNotifications()
+    } else if (event.type === 'notification') {
+      const incoming = event.notification
+      // A merged notification replaces the unread entry for its thread
+      const wasUnread = notifications.some(n => n.id === incoming.id && !n.readAt)
+      setNotifications(prev => [incoming, ...prev.filter(n => n.id !== incoming.id)])
+      if (!wasUnread) setUnreadCount(prev => prev + 1)
+    }
+  })
+
+  const loadNotifications = async () => {
+    try {
+      const response = await notificationApi.getNotifications()
+      setNotifications(response.notifications)
+      setUnreadCount(response.unreadCount)
+      setError('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notifications')
+    }
+  }
+
+  const handleSelect = async (notification: notificationApi.Notification) => {
+    setOpen(false)
+    onSelect?.(notification)
+    if (notification.readAt) return
+    try {
+      const updated = await notificationApi.markNotificationRead(notification.id)
+      setNotifications(prev => prev.map(n => n.id === updated.id ? updated : n))
+      setUnreadCount(prev => Math.max(0, prev - 1))
+    } catch (err) {
+      console.error('Failed to mark notification as read:', err)
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationApi.markAllNotificationsRead()
+      const now = new Date().toISOString()
+      setNotifications(prev => prev.map(n => n.readAt ? n : { ...n, readAt: now }))
+      setUnreadCount(0)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to mark notifications as read')
+    }
+  }
+
+  const formatTime = (dateStr: string) => {
+    const diffMins = Math.floor((Date.now() - new Date(dateStr).getTime()) / 60000)
+    if (diffMins < 1) return 'Just now'
+    if (diffMins < 60) return `${diffMins}m ago`
+    if (diffMins < 24 * 60) return `${Math.floor(diffMins / 60)}h ago`
+    if (diffMins < 7 * 24 * 60) return `${Math.floor(diffMins / (24 * 60))}d ago`
+    return new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+        title="Notifications"
+      >
+        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute top-0 right-0 bg-red-500 text-white text-xs font-medium min-w-[1.25rem] h-5 px-1 rounded-full flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+            <h3 className="font-semibold text-gray-800">Notifications</h3>
+            {unreadCount > 0 && (
+              <button onClick={handleMarkAllRead} className="text-sm text-blue-600 hover:text-blue-700">
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 text-red-600 text-sm px-4 py-2">
+              {error}
+              <button onClick={() => setError('')} className="ml-2 underline">Dismiss</button>
+            </div>
+          )}
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {notifications.length === 0 ? (
+              <div className="px-4 py-8 text-center text-sm text-gray-500">
+                You're all caught up.
+              </div>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleSelect(notification)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 flex gap-3 ${notification.readAt ? '' : 'bg-blue-50'}`}
+                >
+                  <span
+                    className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${notification.readAt ? 'bg-transparent' : 'bg-blue-600'}`}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-800 truncate">{notification.title}</span>
+                      {notification.count > 1 && (
+                        <span className="text-xs bg-gray-200 text-gray-600 px-1.5 py-0.5 rounded-full shrink-0">
+                          {notification.count}
+                        </span>
+                      )}
+                    </div>
+                    {notification.body && (
+                      <p className="text-sm text-gray-600 truncate">{notification.body}</p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-0.5">{formatTime(notification.createdAt)}</p>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+import type { SecondaryStructure, SequenceChain, SequenceResidue } from '../../utils/jmolSequence'
+
+interface Props {
+  chains: SequenceChain[]
+  // Atom indexes of the selected residues
+  selected: Set<number>
+  // Shift extends the selection from the last residue clicked
+  onResidueClick: (residue: SequenceResidue, chain: SequenceChain, extend: boolean) => void
+  onClear: () => void
+}
+
+const STRUCTURE_STYLES: Record<SecondaryStructure, string> = {
+  helix: 'border-red-400',
+  sheet: 'border-yellow-400',
+  turn: 'border-blue-300',
+  none: 'border-transparent'
+}
+
+// Residues per block, with the number of the block's first residue above it
+const BLOCK_SIZE = 10
+
+// One-letter sequence of each chain under the 3D viewer, with secondary
+// structure underlined
+export default function SequencePanel({ chains, selected, onResidueClick, onClear }: Props) {
+  if (chains.length === 0) {
+    return <div className="px-4 py-3 text-sm text-gray-500">No protein or nucleic acid chains in this model.</div>
+  }
+
+  return (
+    <div>
+      <div className="px-4 py-2 text-xs text-gray-500 border-b bg-gray-50 flex items-center gap-4 sticky top-0">
+        <span>Click residues to select them; shift-click selects a range</span>
+        <span className="flex items-center gap-1"><span className="w-3 border-b-2 border-red-400" /> Helix</span>
+        <span className="flex items-center gap-1"><span className="w-3 border-b-2 border-yellow-400" /> Sheet</span>
+        <span className="flex items-center gap-1"><span className="w-3 border-b-2 border-blue-300" /> Turn</span>
+        {selected.size > 0 && (
+          <button onClick={onClear} className="ml-auto text-blue-600 hover:text-blue-800">
+            Clear selection ({selected.size})
+          </button>
+        )}
+      </div>
+      <div className="px-4 py-2 space-y-2">
+        {chains.map(chain => (
+          <div key={chain.chain || 'none'} className="flex gap-3">
+            <div className="w-16 shrink-0 text-xs font-medium text-gray-600 pt-3">
+              {chain.chain ? `Chain ${chain.chain}` : 'No chain'}
+            </div>
+            <div className="flex flex-wrap gap-x-2 gap-y-1 font-mono text-xs">
+              {Array.from({ length: Math.ceil(chain.residues.length / BLOCK_SIZE) }, (_, block) => {
+                const residues = chain.residues.slice(block * BLOCK_SIZE, (block + 1) * BLOCK_SIZE)
+                return (
+                  <div key={block}>
+                    <div className="text-[10px] text-gray-400 h-3">{residues[0].residueNumber}</div>
+                    <div className="flex">
+                      {residues.map(residue => (
+                        <button
+                          key={residue.atomIndex}
+                          onClick={(e) => onResidueClick(residue, chain, e.shiftKey)}
+                          title={`${residue.residueName}${residue.residueNumber}${residue.insertionCode}${chain.chain ? `:${chain.chain}` : ''}`}
+                          className={`w-[1.1em] text-center border-b-2 ${STRUCTURE_STYLES[residue.structure]} ${
+                            selected.has(residue.atomIndex) ? 'bg-blue-600 text-white' : 'text-gray-800 hover:bg-blue-100'
+                          }`}
+                        >
+                          {residue.code}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+import { useState, useEffect, ImgHTMLAttributes } from 'react'
+
+interface SignedImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  // Fetches a signed link to the image
+  getUrl: () => Promise<string>
+  // A new key fetches a new link, e.g. after the file was replaced
+  cacheKey: string
+}
+
+// An <img> for an uploaded file, which needs a signed link before it can load
+export default function SignedImage({ getUrl, cacheKey, alt, ...imgProps }: SignedImageProps) {
+  const [src, setSrc] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    getUrl()
+      .then(url => {
+        if (!cancelled) setSrc(url)
+      })
+      .catch(err => console.error('Failed to load image link:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [cacheKey])
+
+  if (!src) {
+    return <div className="w-48 h-36 rounded-md border border-gray-200 bg-gray-100 animate-pulse" />
+  }
+
+  return <img src={src} alt={alt} {...imgProps} />
+}
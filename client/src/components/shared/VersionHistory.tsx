@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react'
+import type { SubmissionVersion } from '../../services/studentApi'
+
+interface Props {
+  versionCount: number
+  loadVersions: () => Promise<SubmissionVersion[]>
+  onView: (version: SubmissionVersion) => void
+  // Changes whenever a new version is uploaded so an open list reloads
+  refreshKey?: string
+  renderActions?: (version: SubmissionVersion, versions: SubmissionVersion[]) => React.ReactNode
+}
+
+export default function VersionHistory({
+  versionCount,
+  loadVersions,
+  onView,
+  refreshKey,
+  renderActions
+}: Props) {
+  const [expanded, setExpanded] = useState(false)
+  const [versions, setVersions] = useState<SubmissionVersion[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchVersions = async () => {
+    try {
+      setLoading(true)
+      setError('')
+      setVersions(await loadVersions())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load versions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (expanded) {
+      fetchVersions()
+    }
+  }, [expanded, refreshKey])
+
+  const formatFileSize = (bytes: number | null) => {
+    if (!bytes) return 'Unknown size'
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  }
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  const getStatusBadge = (status: string) => {
+    const styles: Record<string, string> = {
+      DRAFT: 'bg-gray-100 text-gray-600',
+      SUBMITTED: 'bg-blue-100 text-blue-700',
+      NEEDS_REVISION: 'bg-amber-100 text-amber-700',
+      APPROVED: 'bg-green-100 text-green-700'
+    }
+    const labels: Record<string, string> = {
+      DRAFT: 'Draft',
+      SUBMITTED: 'Submitted',
+      NEEDS_REVISION: 'Needs Revision',
+      APPROVED: 'Approved'
+    }
+    return (
+      <span className={`text-xs px-2 py-0.5 rounded-full ${styles[status] || styles.DRAFT}`}>
+        {labels[status] || status}
+      </span>
+    )
+  }
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-2 text-sm font-medium text-gray-700 hover:text-blue-600"
+      >
+        <svg
+          className={`w-4 h-4 transition-transform ${expanded ? 'rotate-90' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        Version History
+        <span className="bg-gray-100 text-gray-600 text-xs px-2 py-0.5 rounded-full">
+          {versionCount}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="mt-3">
+          {error && (
+            <div className="bg-red-50 text-red-600 px-3 py-2 text-sm rounded-md mb-2">
+              {error}
+              <button onClick={fetchVersions} className="ml-2 underline">Retry</button>
+            </div>
+          )}
+
+          {loading && versions.length === 0 ? (
+            <div className="text-sm text-gray-500">Loading versions...</div>
+          ) : (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {versions.map((version, index) => (
+                <div key={version.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <div className="flex items-center gap-3 text-gray-600 min-w-0">
+                    <span className="font-mono font-medium text-gray-800">v{version.versionNumber}</span>
+                    {index === 0 && (
+                      <span className="text-xs bg-blue-600 text-white px-1.5 py-0.5 rounded">Current</span>
+                    )}
+                    {getStatusBadge(version.status)}
+                    {version.proteinMatch === 'MISMATCH' && (
+                      <span className="text-xs bg-red-100 text-red-700 px-1.5 py-0.5 rounded" title={version.proteinMatchDetail || undefined}>
+                        Protein mismatch
+                      </span>
+                    )}
+                    {version.hasStructure === false && (
+                      <span className="text-xs bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded" title="No embedded structure in this PNGJ">
+                        No structure
+                      </span>
+                    )}
+                    <span className="truncate" title={version.fileName}>{version.fileName}</span>
+                    <span className="text-gray-400">{formatFileSize(version.fileSize)}</span>
+                    <span className="text-gray-400">
+                      {version.uploadedBy.firstName} {version.uploadedBy.lastName} · {formatDate(version.createdAt)}
+                    </span>
+                    {version.commentCount > 0 && (
+                      <span className="text-xs text-gray-500" title="Comments written on this version">
+                        {version.commentCount} comment{version.commentCount === 1 ? '' : 's'}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 ml-3 shrink-0">
+                    {renderActions?.(version, versions)}
+                    <button
+                      onClick={() => onView(version)}
+                      className="text-purple-600 hover:text-purple-800 hover:underline"
+                    >
+                      View
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
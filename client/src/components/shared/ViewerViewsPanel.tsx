@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react'
+import * as viewApi from '../../services/viewApi'
+import { useAuth } from '../../context/AuthContext'
+import { orientationScript } from '../../utils/jmolAnnotation'
+
+interface Props {
+  submissionId: string
+  // Archived groups can use presets and views but not save new ones
+  canSave: boolean
+  runScript: (script: string) => void
+  captureOrientation: () => viewApi.SavedView['orientation'] | null
+}
+
+// Template presets and saved camera views, shown in the 3D viewer's controls
+export default function ViewerViewsPanel({ submissionId, canSave, runScript, captureOrientation }: Props) {
+  const { user } = useAuth()
+  const [data, setData] = useState<viewApi.SubmissionViews | null>(null)
+  const [error, setError] = useState('')
+  const [viewName, setViewName] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    setData(null)
+    setError('')
+    viewApi.getSubmissionViews(submissionId)
+      .then(result => {
+        if (!cancelled) setData(result)
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load saved views')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [submissionId])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!viewName.trim()) return
+
+    const orientation = captureOrientation()
+    if (!orientation) {
+      setError('Could not read the current view')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+      const view = await viewApi.saveView(submissionId, viewName.trim(), orientation)
+      setData(prev => prev && { ...prev, views: [...prev.views, view] })
+      setViewName('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save view')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (view: viewApi.SavedView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return
+    try {
+      setError('')
+      await viewApi.deleteView(view.id)
+      setData(prev => prev && { ...prev, views: prev.views.filter(v => v.id !== view.id) })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete view')
+    }
+  }
+
+  const canDelete = (view: viewApi.SavedView) =>
+    canSave && (view.createdById === user?.id || (!!user && user.role !== 'STUDENT'))
+
+  if (!data) {
+    return error ? <p className="text-xs text-red-600">{error}</p> : null
+  }
+
+  return (
+    <>
+      {/* Template presets */}
+      {data.presets.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Presets</label>
+          <div className="space-y-1">
+            {data.presets.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => runScript(preset.script)}
+                title={preset.description ?? undefined}
+                className="w-full px-3 py-1.5 bg-white border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50 text-left"
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Saved camera views */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Saved Views</label>
+        {data.views.length === 0 ? (
+          <p className="text-xs text-gray-500 mb-2">No saved views yet.</p>
+        ) : (
+          <div className="space-y-1 mb-2">
+            {data.views.map(view => (
+              <div key={view.id} className="flex items-center gap-1">
+                <button
+                  onClick={() => runScript(orientationScript(view.orientation))}
+                  title={`Saved by ${view.createdBy.firstName} ${view.createdBy.lastName}`}
+                  className="flex-1 min-w-0 px-3 py-1.5 bg-white border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50 text-left truncate"
+                >
+                  {view.name}
+                </button>
+                {canDelete(view) && (
+                  <button
+                    onClick={() => handleDelete(view)}
+                    className="text-gray-400 hover:text-red-600 p-1"
+                    title="Delete view"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {canSave && (
+          <form onSubmit={handleSave} className="flex gap-1">
+            <input
+              type="text"
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              placeholder="Name this view"
+              maxLength={80}
+              className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={saving || !viewName.trim()}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded text-sm font-medium hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              {saving ? '...' : 'Save'}
+            </button>
+          </form>
+        )}
+        {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      </div>
+    </>
+  )
+}
@@ -3,8 +3,13 @@ import * as studentApi from '../../services/studentApi'
 import * as messageApi from '../../services/messageApi'
 import CommentThread from '../shared/CommentThread'
 import { useAuth } from '../../context/AuthContext'
+import { useRealtime, useTypingUsers, appendMessage, applyReadStatus } from '../../context/RealtimeContext'
 
-export default function ChatTab() {
+interface Props {
+  readOnly?: boolean
+}
+
+export default function ChatTab({ readOnly = false }: Props) {
   const { user } = useAuth()
   const [group, setGroup] = useState<studentApi.Group | null>(null)
   const [messages, setMessages] = useState<messageApi.Message[]>([])
@@ -20,12 +25,22 @@ export default function ChatTab() {
   useEffect(() => {
     if (group) {
       loadMessages()
-      // Poll for new messages every 10 seconds
-      const interval = setInterval(loadMessages, 10000)
-      return () => clearInterval(interval)
     }
   }, [group?.id])
 
+  // New messages and read receipts arrive over the live event stream
+  useRealtime(event => {
+    if (!group) return
+    if (event.type === 'resync') {
+      loadMessages()
+    } else if (event.type === 'message' && event.groupId === group.id && !event.submissionId) {
+      setMessages(prev => appendMessage(prev, event.message))
+    } else if (event.type === 'read' && event.groupId === group.id && !event.submissionId) {
+      setReadStatuses(prev => applyReadStatus(prev, event))
+    }
+  })
+  const typingIn = useTypingUsers(group?.id)
+
   const loadGroup = async () => {
     try {
       setLoading(true)
@@ -106,6 +121,9 @@ export default function ChatTab() {
           currentUserId={user?.id}
           onMarkRead={markAsRead}
           readStatuses={readStatuses}
+          typingUsers={typingIn(null)}
+          onTyping={() => messageApi.sendGroupTyping(group.id).catch(() => {})}
+          readOnly={readOnly}
         />
       </div>
     </div>
@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react'
+import * as studentApi from '../../services/studentApi'
+
+interface Props {
+  submissionId: string
+  summary: studentApi.GradeTotals
+}
+
+export default function GradeBreakdown({ submissionId, summary }: Props) {
+  const [expanded, setExpanded] = useState(false)
+  const [grade, setGrade] = useState<studentApi.SubmissionGrade | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!expanded) return
+    const loadGrade = async () => {
+      try {
+        setLoading(true)
+        setError('')
+        setGrade(await studentApi.getGrade(submissionId))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load grade')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadGrade()
+  }, [expanded, submissionId, summary.totalPoints])
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-2 text-sm font-medium text-gray-700 hover:text-blue-600"
+      >
+        <svg
+          className={`w-4 h-4 transition-transform ${expanded ? 'rotate-90' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        Grade
+        <span className="font-mono text-xs bg-green-100 text-green-700 px-1.5 py-0.5 rounded">
+          {summary.totalPoints}/{summary.maxPoints}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="mt-3">
+          {error ? (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md text-sm">{error}</div>
+          ) : loading || !grade ? (
+            <div className="text-sm text-gray-500">Loading grade...</div>
+          ) : (
+            <table className="min-w-full text-sm">
+              <tbody className="divide-y divide-gray-100">
+                {grade.criteria.map(criterion => {
+                  const level = criterion.levels.find(l => l.id === criterion.score?.levelId)
+                  return (
+                    <tr key={criterion.id}>
+                      <td className="py-2 pr-4 align-top">
+                        <div className="font-medium text-gray-800">{criterion.title}</div>
+                        {level && (
+                          <div className="text-xs text-gray-500">
+                            {level.label}{level.description && ` - ${level.description}`}
+                          </div>
+                        )}
+                        {criterion.score?.comment && (
+                          <div className="text-xs text-gray-600 mt-1 italic">{criterion.score.comment}</div>
+                        )}
+                      </td>
+                      <td className="py-2 text-right align-top whitespace-nowrap text-gray-700">
+                        {criterion.score ? criterion.score.points : '-'} / {criterion.maxPoints}
+                      </td>
+                    </tr>
+                  )
+                })}
+                <tr>
+                  <td className="py-2 pr-4 font-semibold text-gray-800">Total</td>
+                  <td className="py-2 text-right font-semibold text-gray-800 whitespace-nowrap">
+                    {grade.totalPoints} / {grade.maxPoints}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,11 @@
 import { useState, useEffect, useRef } from 'react'
 import * as studentApi from '../../services/studentApi'
 
-export default function LiteratureTab() {
+interface Props {
+  readOnly?: boolean
+}
+
+export default function LiteratureTab({ readOnly = false }: Props) {
   const [literature, setLiterature] = useState<studentApi.Literature[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
@@ -10,12 +14,29 @@ export default function LiteratureTab() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [formData, setFormData] = useState({ title: '', description: '' })
   const [previewId, setPreviewId] = useState<string | null>(null)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   useEffect(() => {
     loadLiterature()
   }, [])
 
+  // File links expire after a few minutes, so get a new one for each preview
+  useEffect(() => {
+    setPreviewUrl(null)
+    if (!previewId) return
+
+    let cancelled = false
+    studentApi.getLiteratureFileUrl(previewId)
+      .then(url => {
+        if (!cancelled) setPreviewUrl(url)
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to open PDF'))
+    return () => {
+      cancelled = true
+    }
+  }, [previewId])
+
   const loadLiterature = async () => {
     try {
       setLoading(true)
@@ -107,12 +128,14 @@ export default function LiteratureTab() {
             <h2 className="text-lg font-semibold text-gray-800">Literature</h2>
             <p className="text-sm text-gray-500">Upload and manage research papers and references</p>
           </div>
-          <button
-            onClick={() => setShowUploadModal(true)}
-            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
-          >
-            Upload PDF
-          </button>
+          {!readOnly && (
+            <button
+              onClick={() => setShowUploadModal(true)}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Upload PDF
+            </button>
+          )}
         </div>
 
         {error && (
@@ -155,18 +178,20 @@ export default function LiteratureTab() {
                       </div>
                     </div>
                   </div>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      handleDelete(item.id)
-                    }}
-                    className="text-gray-400 hover:text-red-600 p-1"
-                    title="Delete"
-                  >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                    </svg>
-                  </button>
+                  {!readOnly && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleDelete(item.id)
+                      }}
+                      className="text-gray-400 hover:text-red-600 p-1"
+                      title="Delete"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
@@ -182,14 +207,16 @@ export default function LiteratureTab() {
               {literature.find(l => l.id === previewId)?.title}
             </span>
             <div className="flex items-center gap-2">
-              <a
-                href={studentApi.getLiteratureFileUrl(previewId)}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-blue-600 hover:text-blue-800 text-sm"
-              >
-                Open in new tab
-              </a>
+              {previewUrl && (
+                <a
+                  href={previewUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:text-blue-800 text-sm"
+                >
+                  Open in new tab
+                </a>
+              )}
               <button
                 onClick={() => setPreviewId(null)}
                 className="text-gray-400 hover:text-gray-600"
@@ -200,11 +227,15 @@ export default function LiteratureTab() {
               </button>
             </div>
           </div>
-          <iframe
-            src={studentApi.getLiteratureFileUrl(previewId)}
-            className="w-full h-[calc(100vh-220px)]"
-            title="PDF Preview"
-          />
+          {previewUrl ? (
+            <iframe
+              src={previewUrl}
+              className="w-full h-[calc(100vh-220px)]"
+              title="PDF Preview"
+            />
+          ) : (
+            <div className="p-6 text-gray-500">Loading PDF...</div>
+          )}
         </div>
       )}
 
@@ -4,7 +4,12 @@ import * as messageApi from '../../services/messageApi'
 import JSmolViewer from '../shared/JSmolViewer'
 import CommentThread from '../shared/CommentThread'
 import DiscussionModal from '../shared/DiscussionModal'
+import VersionHistory from '../shared/VersionHistory'
+import SignedImage from '../shared/SignedImage'
+import GradeBreakdown from './GradeBreakdown'
 import { useAuth } from '../../context/AuthContext'
+import { useRealtime, useTypingUsers, appendMessage, applyReadStatus } from '../../context/RealtimeContext'
+import { formatDeadline, formatTimeRemaining, getDeadlinePhase, Deadlines } from '../../utils/deadlines'
 
 interface ViewerState {
   isOpen: boolean
@@ -12,6 +17,11 @@ interface ViewerState {
   modelName: string
   proteinPdbId?: string
   templateId?: string
+  // Where comments pinned in the viewer are posted
+  submissionId?: string
+  versionId?: string
+  // Pinned comment to show once the model loads
+  focus?: messageApi.MessageAnnotation | null
 }
 
 interface CommentsState {
@@ -25,7 +35,12 @@ interface CommentsState {
   }
 }
 
-export default function ModelsTab() {
+interface Props {
+  // Archived groups can still see their work but not change it
+  readOnly?: boolean
+}
+
+export default function ModelsTab({ readOnly = false }: Props) {
   const { user } = useAuth()
   const [data, setData] = useState<studentApi.ModelsResponse | null>(null)
   const [loading, setLoading] = useState(true)
@@ -41,6 +56,7 @@ export default function ModelsTab() {
   const [editingProtein, setEditingProtein] = useState(false)
   const [proteinForm, setProteinForm] = useState({ pdbId: '', name: '' })
   const [savingProtein, setSavingProtein] = useState(false)
+  const [now, setNow] = useState(Date.now())
 
   useEffect(() => {
     loadModels()
@@ -61,9 +77,16 @@ export default function ModelsTab() {
     }
   }, [reviewStatus?.cooldownEndsAt])
 
-  const loadModels = async () => {
+  // Keep deadline countdowns current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Live updates reload without the loading placeholder so open panels stay put
+  const loadModels = async (showLoading = true) => {
     try {
-      setLoading(true)
+      if (showLoading) setLoading(true)
       const response = await studentApi.getModels()
       setData(response)
     } catch (err) {
@@ -142,11 +165,11 @@ export default function ModelsTab() {
     }
   }
 
-  const handleFileSelect = async (templateId: string, file: File) => {
+  const handleFileSelect = async (templateId: string, file: File, onProgress?: (fraction: number) => void) => {
     try {
       setUploading(templateId)
       setError('')
-      await studentApi.uploadModel(templateId, file)
+      await studentApi.uploadModel(templateId, file, onProgress)
       await loadModels()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to upload model')
@@ -159,22 +182,109 @@ export default function ModelsTab() {
     fileInputRefs.current[templateId]?.click()
   }
 
-  const openViewer = (submissionId: string, modelName: string, templateId: string) => {
-    setViewer({
-      isOpen: true,
-      fileUrl: studentApi.getModelFileUrl(submissionId),
-      modelName,
-      proteinPdbId: data?.group.proteinPdbId,
-      templateId
-    })
+  // Live comments, read receipts and status changes for this group
+  useRealtime(event => {
+    if (!data) return
+    if (event.type === 'resync') {
+      loadModels(false)
+      Object.keys(comments).forEach(submissionId => loadComments(submissionId))
+      return
+    }
+    if (event.type === 'notification' || event.groupId !== data.group.id) return
+
+    if (event.type === 'submission') {
+      loadModels(false)
+    } else if (event.type === 'message' && event.submissionId) {
+      receiveComment(event.submissionId, event.message)
+    } else if (event.type === 'read' && event.submissionId) {
+      const submissionId = event.submissionId
+      setComments(prev => prev[submissionId]
+        ? { ...prev, [submissionId]: { ...prev[submissionId], readStatuses: applyReadStatus(prev[submissionId].readStatuses, event) } }
+        : prev)
+    }
+  })
+  const typingIn = useTypingUsers(data?.group.id)
+
+  // Adds a pushed comment to a loaded thread, or flags the submission as unread
+  const receiveComment = (submissionId: string, message: messageApi.Message) => {
+    const isOwn = message.userId === user?.id
+    if (comments[submissionId]) {
+      setComments(prev => ({
+        ...prev,
+        [submissionId]: {
+          ...prev[submissionId],
+          messages: appendMessage(prev[submissionId].messages, message),
+          unreadCount: prev[submissionId].unreadCount + (isOwn ? 0 : 1)
+        }
+      }))
+    } else if (!isOwn) {
+      setData(prev => prev ? {
+        ...prev,
+        models: prev.models.map(m => m.submission?.id === submissionId
+          ? { ...m, submission: { ...m.submission, unreadCount: (m.submission.unreadCount ?? 0) + 1 } }
+          : m)
+      } : null)
+    }
+  }
+
+  const openViewer = async (submissionId: string, modelName: string, templateId: string) => {
+    try {
+      setViewer({
+        isOpen: true,
+        fileUrl: await studentApi.getModelFileUrl(submissionId),
+        modelName,
+        proteinPdbId: data?.group.proteinPdbId,
+        templateId,
+        submissionId
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open model')
+    }
+  }
+
+  const openVersionViewer = async (version: studentApi.SubmissionVersion, modelName: string, templateId: string) => {
+    try {
+      setViewer({
+        isOpen: true,
+        fileUrl: await studentApi.getVersionFileUrl(version.id),
+        modelName: `${modelName} (v${version.versionNumber})`,
+        proteinPdbId: data?.group.proteinPdbId,
+        templateId,
+        submissionId: version.submissionId,
+        versionId: version.id
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open model')
+    }
+  }
+
+  // Opens the version a pinned comment was written on, turned to its target
+  const openAnnotation = async (submissionId: string, modelName: string, message: messageApi.Message) => {
+    try {
+      setDiscussionModal(null)
+      setViewer({
+        isOpen: true,
+        fileUrl: message.version
+          ? await studentApi.getVersionFileUrl(message.version.id)
+          : await studentApi.getModelFileUrl(submissionId),
+        modelName: message.version ? `${modelName} (v${message.version.versionNumber})` : modelName,
+        proteinPdbId: data?.group.proteinPdbId,
+        templateId: data?.models.find(m => m.submission?.id === submissionId)?.id,
+        submissionId,
+        versionId: message.version?.id,
+        focus: message.annotation
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open model')
+    }
   }
 
   const closeViewer = () => {
     setViewer({ isOpen: false, fileUrl: '', modelName: '' })
   }
 
-  const handleViewerSubmit = async (templateId: string, file: File) => {
-    await handleFileSelect(templateId, file)
+  const handleViewerSubmit = async (templateId: string, file: File, onProgress: (fraction: number) => void) => {
+    await handleFileSelect(templateId, file, onProgress)
     // Close the viewer after successful submission
     closeViewer()
   }
@@ -249,8 +359,13 @@ export default function ModelsTab() {
     }
   }
 
-  const postComment = async (submissionId: string, content: string) => {
-    await messageApi.postSubmissionComment(submissionId, content)
+  const postComment = async (
+    submissionId: string,
+    content: string,
+    versionId?: string,
+    annotation?: messageApi.MessageAnnotation
+  ) => {
+    await messageApi.postSubmissionComment(submissionId, content, versionId, annotation)
     await loadComments(submissionId)
   }
 
@@ -310,6 +425,44 @@ export default function ModelsTab() {
     )
   }
 
+  const renderDeadline = (deadlines: Deadlines) => {
+    const phase = getDeadlinePhase(deadlines, now)
+    if (phase === 'none') return null
+
+    let text = ''
+    let style = 'bg-blue-50 text-blue-700'
+    if (phase === 'not-open') {
+      text = `Opens ${formatDeadline(deadlines.opensAt!)} (in ${formatTimeRemaining(deadlines.opensAt!, now)})`
+      style = 'bg-gray-100 text-gray-600'
+    } else if (phase === 'open' && deadlines.dueAt) {
+      text = `Due ${formatDeadline(deadlines.dueAt)} · ${formatTimeRemaining(deadlines.dueAt, now)} left`
+      // Highlight the last day
+      if (new Date(deadlines.dueAt).getTime() - now < 24 * 60 * 60 * 1000) {
+        style = 'bg-amber-50 text-amber-700'
+      }
+    } else if (phase === 'open') {
+      text = `Closes ${formatDeadline(deadlines.closesAt!)} · ${formatTimeRemaining(deadlines.closesAt!, now)} left`
+    } else if (phase === 'overdue') {
+      text = deadlines.closesAt
+        ? `Past due - late uploads accepted for ${formatTimeRemaining(deadlines.closesAt, now)}`
+        : 'Past due - new uploads will be marked late'
+      style = 'bg-red-50 text-red-700'
+    } else {
+      text = `Closed ${formatDeadline(deadlines.closesAt!)}`
+      style = 'bg-gray-100 text-gray-600'
+    }
+
+    return (
+      <div className={`inline-flex items-center gap-2 text-xs px-2 py-1 rounded mb-3 ${style}`}>
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        {text}
+        {deadlines.extended && <span className="font-medium">(extended for your group)</span>}
+      </div>
+    )
+  }
+
   if (loading) {
     return <div className="text-gray-500">Loading models...</div>
   }
@@ -366,52 +519,56 @@ export default function ModelsTab() {
           ) : (
             <p className="text-sm text-gray-500">
               Group: {data.group.name} | Protein: {data.group.proteinName} ({data.group.proteinPdbId})
-              <button
-                onClick={startEditingProtein}
-                className="ml-2 text-blue-600 hover:text-blue-800 hover:underline"
-                title="Edit protein info"
-              >
-                <svg className="w-4 h-4 inline" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
-                </svg>
-              </button>
+              {!readOnly && (
+                <button
+                  onClick={startEditingProtein}
+                  className="ml-2 text-blue-600 hover:text-blue-800 hover:underline"
+                  title="Edit protein info"
+                >
+                  <svg className="w-4 h-4 inline" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                  </svg>
+                </button>
+              )}
             </p>
           )}
         </div>
 
         {/* Request Review Section */}
-        <div className="flex flex-col items-end gap-2">
-          <button
-            onClick={handleRequestReview}
-            disabled={requestingReview || !reviewStatus?.canRequest}
-            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
-              reviewStatus?.canRequest
-                ? 'bg-green-600 text-white hover:bg-green-700'
-                : 'bg-gray-200 text-gray-500 cursor-not-allowed'
-            }`}
-            title={reviewStatus?.canRequest ? 'Send an email to instructors with your current submissions' : 'Please wait before requesting another review'}
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
-            </svg>
-            {requestingReview ? 'Sending...' : 'Request Review'}
-          </button>
-          {reviewStatus?.cooldownEndsAt && formatCooldownTime(reviewStatus.cooldownEndsAt) && (
-            <span className="text-xs text-gray-500">
-              Available again in {formatCooldownTime(reviewStatus.cooldownEndsAt)}
-            </span>
-          )}
-          {reviewStatus?.lastReviewRequestedAt && reviewStatus.canRequest && (
-            <span className="text-xs text-gray-500">
-              Last requested: {new Date(reviewStatus.lastReviewRequestedAt).toLocaleDateString('en-US', {
-                month: 'short',
-                day: 'numeric',
-                hour: '2-digit',
-                minute: '2-digit'
-              })}
-            </span>
-          )}
-        </div>
+        {!readOnly && (
+          <div className="flex flex-col items-end gap-2">
+            <button
+              onClick={handleRequestReview}
+              disabled={requestingReview || !reviewStatus?.canRequest}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
+                reviewStatus?.canRequest
+                  ? 'bg-green-600 text-white hover:bg-green-700'
+                  : 'bg-gray-200 text-gray-500 cursor-not-allowed'
+              }`}
+              title={reviewStatus?.canRequest ? 'Send an email to instructors with your current submissions' : 'Please wait before requesting another review'}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+              </svg>
+              {requestingReview ? 'Sending...' : 'Request Review'}
+            </button>
+            {reviewStatus?.cooldownEndsAt && formatCooldownTime(reviewStatus.cooldownEndsAt) && (
+              <span className="text-xs text-gray-500">
+                Available again in {formatCooldownTime(reviewStatus.cooldownEndsAt)}
+              </span>
+            )}
+            {reviewStatus?.lastReviewRequestedAt && reviewStatus.canRequest && (
+              <span className="text-xs text-gray-500">
+                Last requested: {new Date(reviewStatus.lastReviewRequestedAt).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit'
+                })}
+              </span>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Review Request Message */}
@@ -444,10 +601,14 @@ export default function ModelsTab() {
                   <div className="flex items-center gap-3 mb-2">
                     <h3 className="text-lg font-semibold text-gray-800">{model.name}</h3>
                     {model.submission && getStatusBadge(model.submission.status)}
+                    {model.submission?.isLate && (
+                      <span className="text-xs px-2 py-1 rounded-full bg-orange-100 text-orange-700">Late</span>
+                    )}
                   </div>
                   {model.description && (
                     <p className="text-sm text-gray-600 mb-3">{model.description}</p>
                   )}
+                  {renderDeadline(model.deadlines)}
 
                   {model.submission ? (
                     <div className="bg-gray-50 rounded-md p-3 text-sm">
@@ -456,46 +617,76 @@ export default function ModelsTab() {
                         <span>{formatFileSize(model.submission.fileSize)}</span>
                         <span>Uploaded {formatDate(model.submission.createdAt)}</span>
                       </div>
+                      {model.submission.latestVersion?.atomCount != null && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {model.submission.latestVersion.atomCount.toLocaleString()} atoms
+                          {model.submission.latestVersion.embeddedPdbId && ` · PDB ${model.submission.latestVersion.embeddedPdbId}`}
+                        </div>
+                      )}
+                      {model.submission.latestVersion?.proteinMatch === 'MISMATCH' && (
+                        <div className="mt-2 text-xs bg-red-50 text-red-700 px-2 py-1 rounded">
+                          This model doesn't appear to contain your group's protein ({data.group.proteinPdbId}).
+                          {model.submission.latestVersion.proteinMatchDetail && ` ${model.submission.latestVersion.proteinMatchDetail}.`}
+                        </div>
+                      )}
+                      {model.submission.latestVersion?.hasStructure === false && (
+                        <div className="mt-2 text-xs bg-amber-50 text-amber-700 px-2 py-1 rounded">
+                          This PNGJ doesn't embed a structure file, so it may not open in the 3D viewer.
+                          Re-export it from Jmol with the structure loaded.
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <p className="text-sm text-gray-400 italic">No submission yet</p>
                   )}
                 </div>
 
-                <div className="ml-4">
-                  <input
-                    type="file"
-                    accept=".jpg,.jpeg,.png"
-                    ref={(el) => { fileInputRefs.current[model.id] = el }}
-                    onChange={(e) => {
-                      const file = e.target.files?.[0]
-                      if (file) {
-                        handleFileSelect(model.id, file)
-                        e.target.value = ''
-                      }
-                    }}
-                    className="hidden"
-                  />
-                  <button
-                    onClick={() => handleUploadClick(model.id)}
-                    disabled={uploading === model.id}
-                    className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors text-sm"
-                  >
-                    {uploading === model.id
-                      ? 'Uploading...'
-                      : model.submission
-                        ? 'Replace'
-                        : 'Upload'}
-                  </button>
-                </div>
+                {!readOnly && (
+                  <div className="ml-4">
+                    <input
+                      type="file"
+                      accept=".png,image/png"
+                      ref={(el) => { fileInputRefs.current[model.id] = el }}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0]
+                        if (file) {
+                          handleFileSelect(model.id, file)
+                          e.target.value = ''
+                        }
+                      }}
+                      className="hidden"
+                    />
+                    {['not-open', 'closed'].includes(getDeadlinePhase(model.deadlines, now)) ? (
+                      <button
+                        disabled
+                        className="bg-gray-400 text-white px-4 py-2 rounded-md text-sm"
+                      >
+                        {getDeadlinePhase(model.deadlines, now) === 'closed' ? 'Closed' : 'Not Open Yet'}
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleUploadClick(model.id)}
+                        disabled={uploading === model.id}
+                        className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors text-sm"
+                      >
+                        {uploading === model.id
+                          ? 'Uploading...'
+                          : model.submission
+                            ? 'Upload New Version'
+                            : 'Upload'}
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
 
               {model.submission && (
                 <>
                   <div className="mt-4 pt-4 border-t border-gray-100">
                     <div className="flex gap-4 items-start">
-                      <img
-                        src={`${studentApi.getModelFileUrl(model.submission.id)}&t=${new Date(model.submission.updatedAt).getTime()}`}
+                      <SignedImage
+                        getUrl={() => studentApi.getModelFileUrl(model.submission!.id)}
+                        cacheKey={`${model.submission.id}-${model.submission.updatedAt}`}
                         alt={model.name}
                         className="max-w-sm h-auto rounded-md border border-gray-200 cursor-pointer hover:opacity-90 transition-opacity"
                         style={{ maxHeight: '250px' }}
@@ -518,6 +709,25 @@ export default function ModelsTab() {
                     </div>
                   </div>
 
+                  {/* Version History Section */}
+                  {(model.submission.versionCount ?? 0) > 1 && (
+                    <div className="mt-4 pt-4 border-t border-gray-100">
+                      <VersionHistory
+                        versionCount={model.submission.versionCount!}
+                        loadVersions={() => studentApi.getSubmissionVersions(model.submission!.id)}
+                        onView={(version) => openVersionViewer(version, model.name, model.id)}
+                        refreshKey={model.submission.updatedAt}
+                      />
+                    </div>
+                  )}
+
+                  {/* Released Grade Section */}
+                  {model.submission.grade && (
+                    <div className="mt-4 pt-4 border-t border-gray-100">
+                      <GradeBreakdown submissionId={model.submission.id} summary={model.submission.grade} />
+                    </div>
+                  )}
+
                   {/* Comments Section */}
                   <div className="mt-4 pt-4 border-t border-gray-100">
                     <div className="flex items-center gap-2">
@@ -570,6 +780,10 @@ export default function ModelsTab() {
                           currentUserId={user?.id}
                           onMarkRead={(lastReadAt) => markCommentsRead(model.submission!.id, lastReadAt)}
                           readStatuses={comments[model.submission.id]?.readStatuses || []}
+                          typingUsers={typingIn(model.submission.id)}
+                          onTyping={() => messageApi.sendSubmissionTyping(model.submission!.id).catch(() => {})}
+                          readOnly={readOnly}
+                          onShowAnnotation={(message) => openAnnotation(model.submission!.id, model.name, message)}
                         />
                       </div>
                     )}
@@ -589,7 +803,13 @@ export default function ModelsTab() {
         modelName={viewer.modelName}
         proteinPdbId={viewer.proteinPdbId}
         templateId={viewer.templateId}
-        onSubmit={handleViewerSubmit}
+        onSubmit={readOnly ? undefined : handleViewerSubmit}
+        onPinComment={viewer.submissionId && !readOnly
+          ? (annotation, content) => postComment(viewer.submissionId!, content, viewer.versionId, annotation)
+          : undefined}
+        focus={viewer.focus}
+        submissionId={viewer.submissionId}
+        canSaveViews={!readOnly}
       />
 
       {/* Discussion Modal */}
@@ -606,6 +826,10 @@ export default function ModelsTab() {
           currentUserId={user?.id}
           onMarkRead={(lastReadAt) => markCommentsRead(discussionModal.submissionId, lastReadAt)}
           readStatuses={comments[discussionModal.submissionId]?.readStatuses || []}
+          typingUsers={typingIn(discussionModal.submissionId)}
+          onTyping={() => messageApi.sendSubmissionTyping(discussionModal.submissionId).catch(() => {})}
+          readOnly={readOnly}
+          onShowAnnotation={(message) => openAnnotation(discussionModal.submissionId, discussionModal.modelName, message)}
         />
       )}
     </div>
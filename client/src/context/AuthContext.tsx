@@ -1,7 +1,8 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
 import * as api from '../services/api'
+import * as session from '../services/session'
 
-export type Role = 'ADMIN' | 'INSTRUCTOR' | 'STUDENT'
+export type Role = 'ADMIN' | 'INSTRUCTOR' | 'TA' | 'STUDENT'
 
 export interface User {
   id: string
@@ -25,8 +26,8 @@ interface RegisterData {
   password: string
   firstName: string
   lastName: string
-  role?: Role
-  groupId?: string
+  inviteToken?: string
+  joinCode?: string
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -36,29 +37,37 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
-    const token = localStorage.getItem('token')
-    if (token) {
+    if (session.hasSession()) {
       api.getCurrentUser()
         .then(data => setUser(data.user))
-        .catch(() => localStorage.removeItem('token'))
+        .catch(() => session.clearTokens())
         .finally(() => setLoading(false))
     } else {
       setLoading(false)
     }
+
+    // Logged out from another device, or the account was removed
+    return session.onSessionEnded(() => setUser(null))
   }, [])
 
+  // Keeps the token in the event stream URL valid
+  useEffect(() => {
+    if (!user) return
+    return session.keepAccessTokenFresh()
+  }, [user?.id])
+
   const login = async (email: string, password: string) => {
     const data = await api.login(email, password)
-    localStorage.setItem('token', data.token)
+    session.setTokens(data)
     setUser(data.user)
   }
 
   const register = async (registerData: RegisterData): Promise<{ needsApproval: boolean }> => {
     const data = await api.register(registerData)
 
-    // If we got a token, the user was auto-approved (admin)
-    if (data.token) {
-      localStorage.setItem('token', data.token)
+    // If we got tokens, the user was approved through an invite or join code
+    if (data.token && data.refreshToken) {
+      session.setTokens({ token: data.token, refreshToken: data.refreshToken })
       setUser(data.user)
       return { needsApproval: false }
     }
@@ -68,8 +77,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   const logout = () => {
-    localStorage.removeItem('token')
+    const token = session.getAccessToken()
+    session.clearTokens()
     setUser(null)
+    // Ending the session on the server is best effort; this browser has forgotten it either way
+    if (token) {
+      api.logout(token).catch(() => {})
+    }
   }
 
   return (
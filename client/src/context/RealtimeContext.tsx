@@ -0,0 +1,167 @@
+import { createContext, useContext, useEffect, useRef, useState, useCallback, ReactNode } from 'react'
+import * as messageApi from '../services/messageApi'
+import { useAuth } from './AuthContext'
+import { refreshAccessToken } from '../services/session'
+
+// 'resync' is sent after the stream reconnects - anything published while it
+// was down was missed, so listeners should reload
+export type StreamEvent = messageApi.RealtimeEvent | { type: 'resync' }
+
+type Listener = (event: StreamEvent) => void
+
+interface TypingEntry {
+  submissionId: string | null
+  user: messageApi.MessageUser
+  expiresAt: number
+}
+
+interface RealtimeContextType {
+  subscribe: (listener: Listener) => () => void
+}
+
+// How long a typing indicator stays up without another keystroke
+const TYPING_TIMEOUT_MS = 5000
+// Wait before reopening a stream the server turned away
+const RECONNECT_DELAY_MS = 5000
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined)
+
+// Holds one event stream per tab while a user is logged in
+export function RealtimeProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth()
+  const listenersRef = useRef(new Set<Listener>())
+
+  useEffect(() => {
+    if (!user) return
+
+    const dispatch = (event: StreamEvent) => {
+      listenersRef.current.forEach(listener => listener(event))
+    }
+
+    let source: EventSource
+    let closed = false
+    // EventSource reconnects on its own after a dropped connection
+    let hasConnected = false
+
+    const handleEvent = (e: MessageEvent) => {
+      try {
+        dispatch(JSON.parse(e.data))
+      } catch (err) {
+        console.error('Failed to parse live update:', err)
+      }
+    }
+
+    const connect = () => {
+      source = messageApi.openEventStream()
+
+      source.onopen = () => {
+        if (hasConnected) dispatch({ type: 'resync' })
+        hasConnected = true
+      }
+
+      // It gives up when the server rejects the token in the URL, e.g. after
+      // the token expired; open a new stream once the token is renewed
+      source.onerror = () => {
+        if (source.readyState !== EventSource.CLOSED) return
+        refreshAccessToken().then(token => {
+          if (token) setTimeout(() => !closed && connect(), RECONNECT_DELAY_MS)
+        })
+      }
+
+      messageApi.REALTIME_EVENT_TYPES.forEach(type => source.addEventListener(type, handleEvent))
+    }
+
+    connect()
+
+    return () => {
+      closed = true
+      source.close()
+    }
+  }, [user?.id])
+
+  const subscribe = useCallback((listener: Listener) => {
+    listenersRef.current.add(listener)
+    return () => {
+      listenersRef.current.delete(listener)
+    }
+  }, [])
+
+  return (
+    <RealtimeContext.Provider value={{ subscribe }}>
+      {children}
+    </RealtimeContext.Provider>
+  )
+}
+
+// Calls the listener for every live event. The latest listener is always
+// used, so it can read current state without resubscribing.
+export function useRealtime(listener: Listener) {
+  const context = useContext(RealtimeContext)
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider')
+  }
+
+  const listenerRef = useRef(listener)
+  listenerRef.current = listener
+
+  const { subscribe } = context
+  useEffect(() => subscribe(event => listenerRef.current(event)), [subscribe])
+}
+
+// Tracks other users typing in a group's threads. Returns a lookup for one
+// thread - pass null for group chat or a submission id for its comments.
+export function useTypingUsers(groupId: string | undefined): (submissionId: string | null) => messageApi.MessageUser[] {
+  const [typing, setTyping] = useState<TypingEntry[]>([])
+
+  useRealtime(event => {
+    if (event.type === 'resync' || event.type === 'notification' || event.groupId !== groupId) return
+
+    if (event.type === 'typing') {
+      setTyping(prev => [
+        ...prev.filter(t => !(t.user.id === event.user.id && t.submissionId === event.submissionId)),
+        { submissionId: event.submissionId, user: event.user, expiresAt: Date.now() + TYPING_TIMEOUT_MS }
+      ])
+    } else if (event.type === 'message') {
+      // Their message arrived, so they've stopped typing
+      setTyping(prev => prev.filter(t =>
+        !(t.user.id === event.message.userId && t.submissionId === event.submissionId)
+      ))
+    }
+  })
+
+  // Drop indicators that have timed out
+  const hasTyping = typing.length > 0
+  useEffect(() => {
+    if (!hasTyping) return
+    const interval = setInterval(() => {
+      const now = Date.now()
+      setTyping(prev => prev.filter(t => t.expiresAt > now))
+    }, 1000)
+    return () => clearInterval(interval)
+  }, [hasTyping])
+
+  // Reset when switching groups
+  useEffect(() => {
+    setTyping([])
+  }, [groupId])
+
+  return (submissionId: string | null) =>
+    typing.filter(t => t.submissionId === submissionId).map(t => t.user)
+}
+
+// Appends a pushed message unless it's already listed (e.g. our own post
+// after the list was reloaded)
+export function appendMessage(messages: messageApi.Message[], message: messageApi.Message): messageApi.Message[] {
+  return messages.some(m => m.id === message.id) ? messages : [...messages, message]
+}
+
+// Replaces a user's read status with a pushed one
+export function applyReadStatus(
+  statuses: messageApi.ReadStatus[],
+  event: { userId: string; lastReadAt: string; user: messageApi.MessageUser }
+): messageApi.ReadStatus[] {
+  return [
+    ...statuses.filter(rs => rs.userId !== event.userId),
+    { userId: event.userId, lastReadAt: event.lastReadAt, user: event.user }
+  ]
+}
@@ -1,11 +1,14 @@
 import { useState } from 'react'
 import { useAuth } from '../context/AuthContext'
+import CoursesTab from '../components/admin/CoursesTab'
 import ModelTemplatesTab from '../components/admin/ModelTemplatesTab'
 import GroupsTab from '../components/admin/GroupsTab'
 import UsersTab from '../components/admin/UsersTab'
+import InvitesTab from '../components/admin/InvitesTab'
 import DangerZoneTab from '../components/admin/DangerZoneTab'
+import Gradebook from '../components/shared/Gradebook'
 
-type TabId = 'models' | 'groups' | 'users' | 'danger'
+type TabId = 'courses' | 'models' | 'groups' | 'users' | 'invites' | 'gradebook' | 'danger'
 
 interface Tab {
   id: TabId
@@ -14,9 +17,12 @@ interface Tab {
 }
 
 const tabs: Tab[] = [
+  { id: 'courses', label: 'Courses' },
   { id: 'models', label: 'Model Templates' },
   { id: 'groups', label: 'Groups' },
   { id: 'users', label: 'Users' },
+  { id: 'invites', label: 'Invites' },
+  { id: 'gradebook', label: 'Gradebook' },
   { id: 'danger', label: 'Danger Zone', danger: true },
 ]
 
@@ -85,9 +91,12 @@ export default function Admin() {
 
       {/* Tab Content */}
       <main className="max-w-7xl mx-auto px-4 py-6">
+        {activeTab === 'courses' && <CoursesTab />}
         {activeTab === 'models' && <ModelTemplatesTab />}
         {activeTab === 'groups' && <GroupsTab />}
         {activeTab === 'users' && <UsersTab />}
+        {activeTab === 'invites' && <InvitesTab />}
+        {activeTab === 'gradebook' && <Gradebook />}
         {activeTab === 'danger' && <DangerZoneTab />}
       </main>
     </div>
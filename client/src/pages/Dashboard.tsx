@@ -1,9 +1,16 @@
 import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
 import { useAuth } from '../context/AuthContext'
+import { hasPermission } from '../utils/roles'
+import { useRealtime } from '../context/RealtimeContext'
 import * as instructorApi from '../services/instructorApi'
 import InstructorSubmissionsTab from '../components/instructor/SubmissionsTab'
 import InstructorLiteratureTab from '../components/instructor/LiteratureTab'
 import InstructorDiscussionTab from '../components/instructor/DiscussionTab'
+import Gradebook from '../components/shared/Gradebook'
+import NotificationBell from '../components/shared/NotificationBell'
+import type { Notification } from '../services/notificationApi'
+import { courseLabel } from '../utils/courses'
 
 type TabType = 'submissions' | 'literature' | 'discussion'
 
@@ -12,8 +19,16 @@ export default function Dashboard() {
   const [groups, setGroups] = useState<instructorApi.Group[]>([])
   const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState<TabType>('submissions')
+  const [showGradebook, setShowGradebook] = useState(false)
+  const [courseFilter, setCourseFilter] = useState('all')
+  const [showAllGroups, setShowAllGroups] = useState(false)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
+  // Past-term search; an archived group opened from it replaces the selected group
+  const [archiveQuery, setArchiveQuery] = useState('')
+  const [archiveResults, setArchiveResults] = useState<instructorApi.ArchivedGroup[] | null>(null)
+  const [archiveSearching, setArchiveSearching] = useState(false)
+  const [archivedGroup, setArchivedGroup] = useState<instructorApi.ArchivedGroup | null>(null)
 
   useEffect(() => {
     loadGroups()
@@ -24,8 +39,10 @@ export default function Dashboard() {
       setLoading(true)
       const data = await instructorApi.getGroups()
       setGroups(data)
-      if (data.length > 0) {
-        setSelectedGroupId(data[0].id)
+      const mine = data.filter(g => g.assignedToMe)
+      const initial = mine.length > 0 ? mine : data
+      if (initial.length > 0) {
+        setSelectedGroupId(initial[0].id)
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load groups')
@@ -34,9 +51,74 @@ export default function Dashboard() {
     }
   }
 
+  // Keep sidebar counts current without changing the selected group
+  const refreshGroups = async () => {
+    try {
+      setGroups(await instructorApi.getGroups())
+    } catch (err) {
+      console.error('Failed to refresh groups:', err)
+    }
+  }
+
+  useRealtime(event => {
+    if (event.type === 'resync' || event.type === 'submission') {
+      refreshGroups()
+    } else if (event.type === 'message' && event.message.userId !== user?.id) {
+      refreshGroups()
+    }
+  })
+
+  const handleArchiveSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setArchiveSearching(true)
+      setArchiveResults(await instructorApi.searchArchivedGroups(archiveQuery.trim()))
+    } catch (err) {
+      console.error('Failed to search past terms:', err)
+      setArchiveResults([])
+    } finally {
+      setArchiveSearching(false)
+    }
+  }
+
+  const selectGroup = (groupId: string) => {
+    setSelectedGroupId(groupId)
+    setArchivedGroup(null)
+    setShowGradebook(false)
+  }
+
+  const selectArchivedGroup = (group: instructorApi.ArchivedGroup) => {
+    setArchivedGroup(group)
+    setShowGradebook(false)
+    setActiveTab('submissions')
+  }
+
+  // Open the group and tab a notification is about
+  const handleNotificationSelect = (notification: Notification) => {
+    if (!notification.groupId) return
+    selectGroup(notification.groupId)
+    setActiveTab(notification.type === 'NEW_GROUP_MESSAGE' ? 'discussion' : 'submissions')
+  }
+
   if (!user) return null
 
-  const selectedGroup = groups.find(g => g.id === selectedGroupId)
+  const selectedGroup = archivedGroup ?? groups.find(g => g.id === selectedGroupId)
+
+  // Courses the instructor's groups belong to ('' for groups without a course)
+  const courseOptions = groups.reduce<{ value: string; label: string }[]>((options, group) => {
+    const value = group.course?.id ?? ''
+    if (!options.some(o => o.value === value)) {
+      options.push({ value, label: group.course ? `${group.course.term.name} - ${courseLabel(group.course)}` : 'No course' })
+    }
+    return options
+  }, [])
+  // "My groups" are the ones an admin assigned to this instructor; without any
+  // assignments every group in their courses is theirs
+  const myGroups = groups.filter(g => g.assignedToMe)
+  const scopedGroups = showAllGroups || myGroups.length === 0 ? groups : myGroups
+  const visibleGroups = courseFilter === 'all'
+    ? scopedGroups
+    : scopedGroups.filter(g => (g.course?.id ?? '') === courseFilter)
 
   const tabs: { id: TabType; label: string; icon: JSX.Element }[] = [
     {
@@ -75,10 +157,21 @@ export default function Dashboard() {
         <div className="max-w-full mx-auto px-4 py-4 flex justify-between items-center">
           <h1 className="text-xl font-bold text-gray-800">Protein Model Organizer</h1>
           <div className="flex items-center gap-4">
+            <NotificationBell onSelect={handleNotificationSelect} />
             <span className="text-gray-600">{user.firstName} {user.lastName}</span>
             <span className="bg-green-600 text-white text-sm px-3 py-1 rounded-full">
               {user.role}
             </span>
+            <Link
+              to="/settings"
+              className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+              title="Settings"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </Link>
             <button
               onClick={logout}
               className="bg-red-500 text-white px-4 py-2 rounded-md hover:bg-red-600 transition-colors"
@@ -93,10 +186,57 @@ export default function Dashboard() {
       <div className="flex flex-1 overflow-hidden">
         {/* Sidebar */}
         <aside className="w-64 bg-white shadow-lg shrink-0 flex flex-col">
+          {/* The gradebook exports grades, so it's left to instructors */}
+          {hasPermission(user?.role, 'releaseGrades') && (
+            <button
+              onClick={() => {
+                setShowGradebook(true)
+                setArchivedGroup(null)
+              }}
+              className={`flex items-center gap-2 w-full text-left px-4 py-3 border-b text-sm font-medium transition-colors ${
+                showGradebook
+                  ? 'bg-blue-50 border-l-4 border-l-blue-600 text-blue-700'
+                  : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18m-9-4v8m-7 0h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+              </svg>
+              Gradebook
+            </button>
+          )}
           <div className="p-4 border-b">
             <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">
               Your Groups
             </h2>
+            {myGroups.length > 0 && (
+              <div className="mt-2 flex rounded-md border border-gray-300 overflow-hidden text-sm">
+                <button
+                  onClick={() => setShowAllGroups(false)}
+                  className={`flex-1 px-2 py-1 ${!showAllGroups ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                >
+                  My groups ({myGroups.length})
+                </button>
+                <button
+                  onClick={() => setShowAllGroups(true)}
+                  className={`flex-1 px-2 py-1 border-l border-gray-300 ${showAllGroups ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                >
+                  All ({groups.length})
+                </button>
+              </div>
+            )}
+            {courseOptions.length > 1 && (
+              <select
+                value={courseFilter}
+                onChange={(e) => setCourseFilter(e.target.value)}
+                className="mt-2 w-full text-sm border border-gray-300 rounded-md px-2 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="all">All courses</option>
+                {courseOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            )}
           </div>
 
           {loading ? (
@@ -109,12 +249,12 @@ export default function Dashboard() {
             </div>
           ) : (
             <nav className="flex-1 overflow-y-auto">
-              {groups.map((group) => (
+              {visibleGroups.map((group) => (
                 <button
                   key={group.id}
-                  onClick={() => setSelectedGroupId(group.id)}
+                  onClick={() => selectGroup(group.id)}
                   className={`w-full text-left px-4 py-3 border-b border-gray-100 transition-colors ${
-                    selectedGroupId === group.id
+                    !showGradebook && !archivedGroup && selectedGroupId === group.id
                       ? 'bg-blue-50 border-l-4 border-l-blue-600'
                       : 'hover:bg-gray-50'
                   }`}
@@ -130,7 +270,7 @@ export default function Dashboard() {
                   <div className="text-xs text-gray-500 mt-1 truncate">
                     {group.proteinName} ({group.proteinPdbId})
                   </div>
-                  <div className="flex gap-3 mt-2 text-xs">
+                  <div className="flex flex-wrap gap-x-3 mt-2 text-xs">
                     <span className="text-gray-500">
                       {group.submissionCount} submissions
                     </span>
@@ -139,23 +279,92 @@ export default function Dashboard() {
                         {group.pendingCount} pending
                       </span>
                     )}
+                    {group.lateCount > 0 && (
+                      <span className="text-orange-600 font-medium">
+                        {group.lateCount} late
+                      </span>
+                    )}
+                    {group.missingCount > 0 && (
+                      <span className="text-red-600 font-medium">
+                        {group.missingCount} missing
+                      </span>
+                    )}
                   </div>
                 </button>
               ))}
             </nav>
           )}
+
+          {/* Past Terms */}
+          <div className="border-t p-4 shrink-0">
+            <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">
+              Past Terms
+            </h2>
+            <form onSubmit={handleArchiveSearch} className="flex gap-2 mt-2">
+              <input
+                type="text"
+                value={archiveQuery}
+                onChange={(e) => setArchiveQuery(e.target.value)}
+                placeholder="Group, protein or student"
+                className="flex-1 min-w-0 text-sm border border-gray-300 rounded-md px-2 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={archiveSearching}
+                className="text-sm bg-gray-100 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200 disabled:opacity-50 transition-colors"
+              >
+                Search
+              </button>
+            </form>
+            {archiveResults && (
+              archiveResults.length === 0 ? (
+                <div className="mt-2 text-xs text-gray-500">No archived groups found.</div>
+              ) : (
+                <div className="mt-2 max-h-48 overflow-y-auto">
+                  {archiveResults.map((group) => (
+                    <button
+                      key={group.id}
+                      onClick={() => selectArchivedGroup(group)}
+                      className={`w-full text-left px-2 py-2 rounded-md text-sm transition-colors ${
+                        archivedGroup?.id === group.id ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="font-medium truncate">{group.name}</div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {group.course ? `${group.course.term.name} - ${courseLabel(group.course)}` : group.proteinName}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )
+            )}
+          </div>
         </aside>
 
         {/* Main Panel */}
         <main className="flex-1 overflow-hidden flex flex-col">
-          {selectedGroup ? (
+          {showGradebook ? (
+            <div className="flex-1 overflow-y-auto p-6">
+              <Gradebook />
+            </div>
+          ) : selectedGroup ? (
             <>
               {/* Group Header */}
               <div className="bg-white shadow-sm px-6 py-4 shrink-0">
-                <h2 className="text-xl font-semibold text-gray-800">{selectedGroup.name}</h2>
+                <h2 className="text-xl font-semibold text-gray-800">
+                  {selectedGroup.name}
+                  {archivedGroup && (
+                    <span className="ml-3 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600 align-middle">
+                      Archived {new Date(archivedGroup.archivedAt).toLocaleDateString()} &middot; read-only
+                    </span>
+                  )}
+                </h2>
                 <p className="text-sm text-gray-500">
                   Protein: {selectedGroup.proteinName} ({selectedGroup.proteinPdbId})
                   &bull; {selectedGroup.memberCount} members
+                  {selectedGroup.course && (
+                    <> &bull; {selectedGroup.course.term.name} - {courseLabel(selectedGroup.course)}</>
+                  )}
                 </p>
               </div>
 
@@ -185,13 +394,14 @@ export default function Dashboard() {
                   <InstructorSubmissionsTab
                     groupId={selectedGroup.id}
                     proteinPdbId={selectedGroup.proteinPdbId}
+                    readOnly={!!archivedGroup}
                   />
                 )}
                 {activeTab === 'literature' && (
                   <InstructorLiteratureTab groupId={selectedGroup.id} />
                 )}
                 {activeTab === 'discussion' && (
-                  <InstructorDiscussionTab groupId={selectedGroup.id} onMessagesRead={loadGroups} />
+                  <InstructorDiscussionTab groupId={selectedGroup.id} onMessagesRead={loadGroups} readOnly={!!archivedGroup} />
                 )}
               </div>
             </>
@@ -1,29 +1,80 @@
 import { useState, useEffect, FormEvent } from 'react'
-import { Link } from 'react-router-dom'
+import { Link, useSearchParams } from 'react-router-dom'
 import { useAuth, Role } from '../context/AuthContext'
-import { getPublicGroups, PublicGroup } from '../services/api'
+import {
+  getInvite,
+  getJoinCodeGroup,
+  getRegistrationSettings,
+  InviteInfo,
+  JoinCodeGroup,
+  RegistrationSettings
+} from '../services/api'
+
+const inviteRoleLabels: Record<Role, string> = {
+  ADMIN: 'an administrator',
+  INSTRUCTOR: 'an instructor',
+  TA: 'a teaching assistant',
+  STUDENT: 'a student'
+}
 
 export default function Register() {
+  const [searchParams] = useSearchParams()
+  // Invite links look like /register?invite=<token>; ?code= fills in a join code
+  const inviteToken = searchParams.get('invite')
   const [formData, setFormData] = useState({
     email: '',
     password: '',
     firstName: '',
     lastName: '',
-    role: 'STUDENT' as Role,
-    groupId: ''
+    joinCode: searchParams.get('code') ?? ''
   })
   const [showPassword, setShowPassword] = useState(false)
-  const [groups, setGroups] = useState<PublicGroup[]>([])
+  const [settings, setSettings] = useState<RegistrationSettings | null>(null)
+  const [invite, setInvite] = useState<InviteInfo | null>(null)
+  const [inviteError, setInviteError] = useState('')
+  const [joinGroup, setJoinGroup] = useState<JoinCodeGroup | null>(null)
+  const [joinCodeError, setJoinCodeError] = useState('')
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
   const [pendingApproval, setPendingApproval] = useState(false)
   const { register } = useAuth()
 
   useEffect(() => {
-    getPublicGroups()
-      .then(setGroups)
-      .catch(err => console.error('Failed to load groups:', err))
-  }, [])
+    getRegistrationSettings()
+      .then(setSettings)
+      .catch(err => console.error('Failed to load registration settings:', err))
+
+    if (inviteToken) {
+      getInvite(inviteToken)
+        .then(data => {
+          setInvite(data)
+          if (data.email) {
+            setFormData(prev => ({ ...prev, email: data.email! }))
+          }
+        })
+        .catch(err => setInviteError(err instanceof Error ? err.message : 'This invitation link is invalid'))
+    }
+
+    if (formData.joinCode) {
+      checkJoinCode(formData.joinCode)
+    }
+  }, [inviteToken])
+
+  // Without an invite (or with a student one) the account is a student's
+  const isStudent = !invite || invite.role === 'STUDENT'
+  const joinCodeRequired = !invite && isStudent && settings?.selfRegistration === 'closed'
+
+  const checkJoinCode = async (code: string) => {
+    setJoinGroup(null)
+    setJoinCodeError('')
+    if (!code.trim()) return
+
+    try {
+      setJoinGroup(await getJoinCodeGroup(code.trim()))
+    } catch (err) {
+      setJoinCodeError(err instanceof Error ? err.message : 'Invalid join code')
+    }
+  }
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     setFormData(prev => ({
@@ -38,7 +89,14 @@ export default function Register() {
     setLoading(true)
 
     try {
-      const result = await register(formData)
+      const result = await register({
+        email: formData.email,
+        password: formData.password,
+        firstName: formData.firstName,
+        lastName: formData.lastName,
+        inviteToken: invite ? inviteToken! : undefined,
+        joinCode: isStudent && formData.joinCode.trim() ? formData.joinCode.trim() : undefined
+      })
       if (result.needsApproval) {
         setPendingApproval(true)
       }
@@ -51,7 +109,6 @@ export default function Register() {
   }
 
   const inputClasses = "w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white transition-colors"
-  const selectClasses = "w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white transition-colors"
 
   // Show success message for pending approval
   if (pendingApproval) {
@@ -165,6 +222,22 @@ export default function Register() {
                 </div>
               )}
 
+              {invite && (
+                <div className="mb-6 p-4 bg-blue-50 border-l-4 border-blue-500 rounded-r-lg">
+                  <p className="text-blue-800 text-sm">
+                    You've been invited to join as {inviteRoleLabels[invite.role]}. Your account can be used as soon as it is created.
+                  </p>
+                </div>
+              )}
+
+              {inviteError && (
+                <div className="mb-6 p-4 bg-amber-50 border-l-4 border-amber-500 rounded-r-lg">
+                  <p className="text-amber-800 text-sm">
+                    {inviteError}. Ask for a new link, or register below as a student.
+                  </p>
+                </div>
+              )}
+
               <form onSubmit={handleSubmit} className="space-y-5">
                 <div className="grid grid-cols-2 gap-4">
                   <div>
@@ -207,8 +280,9 @@ export default function Register() {
                     name="email"
                     value={formData.email}
                     onChange={handleChange}
-                    className={inputClasses}
+                    className={`${inputClasses} read-only:bg-gray-100`}
                     placeholder="you@example.com"
+                    readOnly={!!invite?.email}
                     required
                   />
                 </div>
@@ -248,56 +322,41 @@ export default function Register() {
                   </div>
                 </div>
 
-                <div>
-                  <label htmlFor="role" className="block text-sm font-medium text-gray-700 mb-2">
-                    Role
-                  </label>
-                  <select
-                    id="role"
-                    name="role"
-                    value={formData.role}
-                    onChange={(e) => {
-                      setFormData(prev => ({
-                        ...prev,
-                        role: e.target.value as Role,
-                        groupId: e.target.value !== 'STUDENT' ? '' : prev.groupId
-                      }))
-                    }}
-                    className={selectClasses}
-                  >
-                    <option value="STUDENT">Student</option>
-                    <option value="INSTRUCTOR">Instructor</option>
-                  </select>
-                  <p className="text-xs text-gray-500 mt-2">
-                    Your account will need to be approved by an administrator.
-                  </p>
-                </div>
-
-                {formData.role === 'STUDENT' && (
+                {isStudent && (
                   <div>
-                    <label htmlFor="groupId" className="block text-sm font-medium text-gray-700 mb-2">
-                      Group
+                    <label htmlFor="joinCode" className="block text-sm font-medium text-gray-700 mb-2">
+                      Group Join Code{!joinCodeRequired && <span className="text-gray-400 font-normal"> (optional)</span>}
                     </label>
-                    <select
-                      id="groupId"
-                      name="groupId"
-                      value={formData.groupId}
-                      onChange={handleChange}
-                      className={selectClasses}
-                      required
-                    >
-                      <option value="">Select your group...</option>
-                      {groups.map((group) => (
-                        <option key={group.id} value={group.id}>
-                          {group.name} - {group.proteinName} ({group.proteinPdbId})
-                        </option>
-                      ))}
-                    </select>
-                    {groups.length === 0 && (
-                      <p className="text-xs text-amber-600 mt-2">
-                        No groups available. Please contact an administrator.
+                    <input
+                      type="text"
+                      id="joinCode"
+                      name="joinCode"
+                      value={formData.joinCode}
+                      onChange={(e) => {
+                        handleChange(e)
+                        setJoinGroup(null)
+                        setJoinCodeError('')
+                      }}
+                      onBlur={() => checkJoinCode(formData.joinCode)}
+                      className={`${inputClasses} font-mono uppercase`}
+                      placeholder="e.g. K7PQ2MZX"
+                      required={joinCodeRequired}
+                    />
+                    {joinGroup && (
+                      <p className="text-xs text-green-700 mt-2">
+                        Joining {joinGroup.name} - {joinGroup.proteinName} ({joinGroup.proteinPdbId})
                       </p>
                     )}
+                    {joinCodeError && (
+                      <p className="text-xs text-red-600 mt-2">{joinCodeError}</p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-2">
+                      {invite
+                        ? "Your instructor can give you your group's code; you can also be added to a group later."
+                        : joinCodeRequired
+                          ? "Registration needs your group's join code. Ask your instructor for it."
+                          : "Ask your instructor for your group's join code. Without one, an administrator has to approve your account."}
+                    </p>
                   </div>
                 )}
 
@@ -6,6 +6,8 @@ export default function ResetPassword() {
   const [searchParams] = useSearchParams()
   const navigate = useNavigate()
   const token = searchParams.get('token')
+  // Roster invitations reuse the reset flow to set a first password
+  const isInvite = searchParams.get('invite') === '1'
 
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
@@ -79,7 +81,7 @@ export default function ResetPassword() {
             <div className="bg-white rounded-2xl shadow-2xl overflow-hidden">
               <div className="bg-blue-800 px-6 py-5">
                 <h1 className="text-2xl font-bold text-white text-center">
-                  Password Reset Complete
+                  {isInvite ? 'Password Set' : 'Password Reset Complete'}
                 </h1>
               </div>
               <div className="p-8 text-center">
@@ -89,7 +91,9 @@ export default function ResetPassword() {
                   </svg>
                 </div>
                 <p className="text-gray-600 mb-6 leading-relaxed">
-                  Your password has been successfully reset. You can now sign in with your new password.
+                  {isInvite
+                    ? 'Your account is ready. You can now sign in with your email and new password.'
+                    : 'Your password has been successfully reset. You can now sign in with your new password.'}
                 </p>
                 <button
                   onClick={() => navigate('/login')}
@@ -149,9 +153,11 @@ export default function ResetPassword() {
             {/* Blue Header */}
             <div className="bg-blue-800 px-6 py-5">
               <h1 className="text-2xl font-bold text-white text-center">
-                Create New Password
+                {isInvite ? 'Welcome' : 'Create New Password'}
               </h1>
-              <p className="text-blue-200 text-center text-sm mt-1">Enter your new password below</p>
+              <p className="text-blue-200 text-center text-sm mt-1">
+                {isInvite ? 'Choose a password for your new account' : 'Enter your new password below'}
+              </p>
             </div>
 
             {/* Form Content */}
@@ -242,7 +248,7 @@ export default function ResetPassword() {
                         <span>Resetting password...</span>
                       </div>
                     ) : (
-                      'Reset Password'
+                      isInvite ? 'Set Password' : 'Reset Password'
                     )}
                   </button>
                 </form>
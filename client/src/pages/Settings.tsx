@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { useAuth } from '../context/AuthContext'
+import ActiveSessions from '../components/shared/ActiveSessions'
+import * as notificationApi from '../services/notificationApi'
+
+const TYPE_LABELS: Record<notificationApi.NotificationType, { label: string; description: string }> = {
+  STATUS_CHANGED: {
+    label: 'Model status changes',
+    description: 'An instructor approves a model or asks for a revision'
+  },
+  NEW_COMMENT: {
+    label: 'Model comments',
+    description: 'Someone comments on a submitted model'
+  },
+  NEW_GROUP_MESSAGE: {
+    label: 'Group chat messages',
+    description: 'Someone posts in the group chat'
+  },
+  REVIEW_REQUESTED: {
+    label: 'Review requests',
+    description: 'A group asks for their models to be reviewed'
+  },
+  ACCOUNT_APPROVED: {
+    label: 'Account approval',
+    description: 'Your account is approved'
+  }
+}
+
+const DELIVERY_OPTIONS: { value: notificationApi.EmailDelivery; label: string }[] = [
+  { value: 'IMMEDIATE', label: 'Immediately' },
+  { value: 'DIGEST', label: 'Daily digest' },
+  { value: 'OFF', label: 'Off' }
+]
+
+export default function Settings() {
+  const { user, logout } = useAuth()
+  const [preferences, setPreferences] = useState<notificationApi.EmailPreference[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    loadPreferences()
+  }, [])
+
+  const loadPreferences = async () => {
+    try {
+      setLoading(true)
+      setPreferences(await notificationApi.getEmailPreferences())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updatePreference = (type: notificationApi.NotificationType, email: notificationApi.EmailDelivery) => {
+    setPreferences(prev => prev.map(p => p.type === type ? { ...p, email } : p))
+    setSaved(false)
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError('')
+      setPreferences(await notificationApi.updateEmailPreferences(preferences))
+      setSaved(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!user) return null
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="bg-white shadow">
+        <div className="max-w-3xl mx-auto px-4 py-4 flex justify-between items-center">
+          <div>
+            <h1 className="text-xl font-bold text-gray-800">Settings</h1>
+            <p className="text-sm text-gray-500">Protein Model Organizer</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <Link to="/" className="text-blue-600 hover:text-blue-800 font-medium transition-colors">
+              Back to Dashboard
+            </Link>
+            <button
+              onClick={logout}
+              className="bg-red-500 text-white px-4 py-2 rounded-md hover:bg-red-600 transition-colors"
+            >
+              Logout
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-6 space-y-6">
+        {/* Profile */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">Profile</h2>
+          <dl className="grid grid-cols-3 gap-y-2 text-sm">
+            <dt className="text-gray-500">Name</dt>
+            <dd className="col-span-2 text-gray-800">{user.firstName} {user.lastName}</dd>
+            <dt className="text-gray-500">Email</dt>
+            <dd className="col-span-2 text-gray-800">{user.email}</dd>
+            <dt className="text-gray-500">Role</dt>
+            <dd className="col-span-2 text-gray-800">{user.role}</dd>
+          </dl>
+        </div>
+
+        {/* Email Notifications */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-800">Email Notifications</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Everything still shows up in the notification bell. Choose which events are also emailed to {user.email}.
+            The daily digest collects anything you haven't read yet into one email each morning.
+          </p>
+
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-md mb-4">
+              {error}
+              <button onClick={() => setError('')} className="ml-2 underline">Dismiss</button>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-gray-500">Loading settings...</div>
+          ) : preferences.length === 0 ? (
+            <div className="text-sm text-gray-500">There are no email notifications for your role.</div>
+          ) : (
+            <>
+              <div className="divide-y divide-gray-200">
+                {preferences.map(preference => (
+                  <div key={preference.type} className="py-3 flex items-center justify-between gap-4">
+                    <div>
+                      <div className="text-sm font-medium text-gray-800">{TYPE_LABELS[preference.type].label}</div>
+                      <div className="text-xs text-gray-500">{TYPE_LABELS[preference.type].description}</div>
+                    </div>
+                    <div className="flex rounded-md border border-gray-300 overflow-hidden shrink-0">
+                      {DELIVERY_OPTIONS.map(option => (
+                        <button
+                          key={option.value}
+                          onClick={() => updatePreference(preference.type, option.value)}
+                          className={`px-3 py-1.5 text-sm transition-colors ${
+                            preference.email === option.value
+                              ? 'bg-blue-600 text-white'
+                              : 'bg-white text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end items-center gap-3 mt-4">
+                {saved && <span className="text-sm text-green-600">Saved</span>}
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Active Sessions */}
+        <ActiveSessions />
+      </main>
+    </div>
+  )
+}
@@ -1,14 +1,35 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
 import { useAuth } from '../context/AuthContext'
+import * as studentApi from '../services/studentApi'
 import ModelsTab from '../components/student/ModelsTab'
 import ChatTab from '../components/student/ChatTab'
 import LiteratureTab from '../components/student/LiteratureTab'
+import NotificationBell from '../components/shared/NotificationBell'
+import type { Notification } from '../services/notificationApi'
 
 type TabType = 'models' | 'chat' | 'literature'
 
 export default function StudentDashboard() {
   const { user, logout } = useAuth()
   const [activeTab, setActiveTab] = useState<TabType>('models')
+  const [archivedAt, setArchivedAt] = useState<string | null>(null)
+
+  useEffect(() => {
+    // The tabs show their own message when there is no group
+    studentApi.getGroup()
+      .then(group => setArchivedAt(group.archivedAt))
+      .catch(() => {})
+  }, [])
+
+  // Open the tab a notification is about
+  const handleNotificationSelect = (notification: Notification) => {
+    if (notification.type === 'NEW_GROUP_MESSAGE') {
+      setActiveTab('chat')
+    } else if (notification.type === 'NEW_COMMENT' || notification.type === 'STATUS_CHANGED') {
+      setActiveTab('models')
+    }
+  }
 
   if (!user) return null
 
@@ -48,10 +69,21 @@ export default function StudentDashboard() {
         <div className="max-w-7xl mx-auto px-4 py-4 flex justify-between items-center">
           <h1 className="text-xl font-bold text-gray-800">Protein Model Organizer</h1>
           <div className="flex items-center gap-4">
+            <NotificationBell onSelect={handleNotificationSelect} />
             <span className="text-gray-600">{user.firstName} {user.lastName}</span>
             <span className="bg-blue-600 text-white text-sm px-3 py-1 rounded-full">
               {user.role}
             </span>
+            <Link
+              to="/settings"
+              className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+              title="Settings"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </Link>
             <button
               onClick={logout}
               className="bg-red-500 text-white px-4 py-2 rounded-md hover:bg-red-600 transition-colors"
@@ -63,6 +95,13 @@ export default function StudentDashboard() {
       </header>
 
       <div className="max-w-7xl mx-auto px-4 py-6">
+        {archivedAt && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg mb-6">
+            Your group was archived on {new Date(archivedAt).toLocaleDateString()}. You can still view your models,
+            chat and literature, but nothing can be changed.
+          </div>
+        )}
+
         {/* Tab Navigation */}
         <div className="bg-white rounded-lg shadow mb-6">
           <nav className="flex border-b border-gray-200">
@@ -85,9 +124,9 @@ export default function StudentDashboard() {
 
         {/* Tab Content */}
         <div className="min-h-[calc(100vh-220px)]">
-          {activeTab === 'models' && <ModelsTab />}
-          {activeTab === 'chat' && <ChatTab />}
-          {activeTab === 'literature' && <LiteratureTab />}
+          {activeTab === 'models' && <ModelsTab readOnly={!!archivedAt} />}
+          {activeTab === 'chat' && <ChatTab readOnly={!!archivedAt} />}
+          {activeTab === 'literature' && <LiteratureTab readOnly={!!archivedAt} />}
         </div>
       </div>
     </div>
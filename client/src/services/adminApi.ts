@@ -1,18 +1,14 @@
+import { authFetch } from './session';
+
 const API_BASE = '/modeling/api/admin';
 
 async function request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-  const token = localStorage.getItem('token');
-
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
     ...options.headers
   };
 
-  if (token) {
-    (headers as Record<string, string>)['Authorization'] = `Bearer ${token}`;
-  }
-
-  const response = await fetch(`${API_BASE}${endpoint}`, {
+  const response = await authFetch(`${API_BASE}${endpoint}`, {
     ...options,
     headers
   });
@@ -29,13 +25,110 @@ async function request<T>(endpoint: string, options: RequestInit = {}): Promise<
 // Types
 // ============================================
 
+export interface Term {
+  id: string;
+  name: string;
+  startsAt: string | null;
+  endsAt: string | null;
+  archivedAt: string | null;
+  createdAt: string;
+  courses: Course[];
+}
+
+export interface Course {
+  id: string;
+  termId: string;
+  name: string;
+  section: string | null;
+  createdAt: string;
+  instructors: {
+    id: string;
+    userId: string;
+    user: {
+      id: string;
+      email: string;
+      firstName: string;
+      lastName: string;
+    };
+  }[];
+  _count: {
+    groups: number;
+    modelTemplates: number;
+  };
+}
+
+// Course summary shown next to a group
+export interface CourseRef {
+  id: string;
+  name: string;
+  section: string | null;
+  term: { id: string; name: string };
+}
+
 export interface ModelTemplate {
   id: string;
   name: string;
   description: string | null;
+  courseId: string | null;
   orderIndex: number;
   isActive: boolean;
   createdAt: string;
+  opensAt: string | null;
+  dueAt: string | null;
+  closesAt: string | null;
+  rubricCriteriaCount?: number;
+  viewerPresetCount?: number;
+}
+
+export interface RubricLevel {
+  id: string;
+  label: string;
+  points: number;
+  description: string | null;
+  orderIndex: number;
+}
+
+export interface RubricCriterion {
+  id: string;
+  modelTemplateId: string;
+  title: string;
+  description: string | null;
+  maxPoints: number;
+  orderIndex: number;
+  levels: RubricLevel[];
+}
+
+// Criteria and levels without an id are created; existing ones missing from
+// the list are deleted
+export interface RubricCriterionInput {
+  id?: string;
+  title: string;
+  description?: string | null;
+  maxPoints: number;
+  levels: {
+    id?: string;
+    label: string;
+    points: number;
+    description?: string | null;
+  }[];
+}
+
+export interface ViewerPreset {
+  id: string;
+  modelTemplateId: string;
+  name: string;
+  description: string | null;
+  script: string;
+  orderIndex: number;
+}
+
+// Presets without an id are created; existing ones missing from the list
+// are deleted
+export interface ViewerPresetInput {
+  id?: string;
+  name: string;
+  description?: string | null;
+  script: string;
 }
 
 export interface GroupMember {
@@ -50,13 +143,29 @@ export interface GroupMember {
   };
 }
 
+export interface GroupInstructor {
+  id: string;
+  userId: string;
+  user: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
 export interface Group {
   id: string;
   name: string;
   proteinPdbId: string;
   proteinName: string;
+  courseId: string | null;
+  course: CourseRef | null;
+  archivedAt: string | null;
+  joinCode: string | null;
   createdAt: string;
   members: GroupMember[];
+  instructors: GroupInstructor[];
 }
 
 export interface User {
@@ -64,14 +173,87 @@ export interface User {
   email: string;
   firstName: string;
   lastName: string;
-  role: 'ADMIN' | 'INSTRUCTOR' | 'STUDENT';
+  role: 'ADMIN' | 'INSTRUCTOR' | 'TA' | 'STUDENT';
   isApproved: boolean;
   createdAt: string;
+  archivedAt?: string | null;
   groupMemberships?: {
     group: { id: string; name: string };
   }[];
 }
 
+// ============================================
+// Terms & Courses
+// ============================================
+
+export interface TermsResponse {
+  terms: Term[];
+  // Groups and templates from before courses existed
+  unassigned: {
+    groups: number;
+    modelTemplates: number;
+  };
+}
+
+export function getTerms(): Promise<TermsResponse> {
+  return request('/terms');
+}
+
+export function createTerm(data: { name: string; startsAt?: string | null; endsAt?: string | null }): Promise<Term> {
+  return request('/terms', {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
+}
+
+export function updateTerm(id: string, data: { name?: string; startsAt?: string | null; endsAt?: string | null }): Promise<Term> {
+  return request(`/terms/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(data)
+  });
+}
+
+export function deleteTerm(id: string): Promise<{ success: boolean }> {
+  return request(`/terms/${id}`, { method: 'DELETE' });
+}
+
+export function createCourse(data: { termId: string; name: string; section?: string }): Promise<Course> {
+  return request('/courses', {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
+}
+
+export function updateCourse(id: string, data: { name?: string; section?: string }): Promise<Course> {
+  return request(`/courses/${id}`, {
+    method: 'PUT',
+    body: JSON.stringify(data)
+  });
+}
+
+export function deleteCourse(id: string): Promise<{ success: boolean }> {
+  return request(`/courses/${id}`, { method: 'DELETE' });
+}
+
+export function setCourseInstructors(id: string, userIds: string[]): Promise<Course> {
+  return request(`/courses/${id}/instructors`, {
+    method: 'PUT',
+    body: JSON.stringify({ userIds })
+  });
+}
+
+// fromCourseId null copies the templates that aren't in a course
+export function copyCourseTemplates(id: string, fromCourseId: string | null): Promise<{ success: boolean; copied: number }> {
+  return request(`/courses/${id}/copy-templates`, {
+    method: 'POST',
+    body: JSON.stringify({ fromCourseId })
+  });
+}
+
+export function adoptUnassigned(id: string): Promise<{ success: boolean; groups: number; modelTemplates: number }> {
+  return request(`/courses/${id}/adopt-unassigned`, { method: 'POST' });
+}
+
 // ============================================
 // Model Templates
 // ============================================
@@ -80,7 +262,14 @@ export function getModelTemplates(): Promise<ModelTemplate[]> {
   return request('/model-templates');
 }
 
-export function createModelTemplate(data: { name: string; description?: string }): Promise<ModelTemplate> {
+export function createModelTemplate(data: {
+  name: string;
+  description?: string;
+  courseId?: string | null;
+  opensAt?: string | null;
+  dueAt?: string | null;
+  closesAt?: string | null;
+}): Promise<ModelTemplate> {
   return request('/model-templates', {
     method: 'POST',
     body: JSON.stringify(data)
@@ -105,15 +294,37 @@ export function reorderModelTemplates(orderedIds: string[]): Promise<{ success:
   });
 }
 
+export function getRubric(templateId: string): Promise<RubricCriterion[]> {
+  return request(`/model-templates/${templateId}/rubric`);
+}
+
+export function updateRubric(templateId: string, criteria: RubricCriterionInput[]): Promise<RubricCriterion[]> {
+  return request(`/model-templates/${templateId}/rubric`, {
+    method: 'PUT',
+    body: JSON.stringify({ criteria })
+  });
+}
+
+export function getViewerPresets(templateId: string): Promise<ViewerPreset[]> {
+  return request(`/model-templates/${templateId}/viewer-presets`);
+}
+
+export function updateViewerPresets(templateId: string, presets: ViewerPresetInput[]): Promise<ViewerPreset[]> {
+  return request(`/model-templates/${templateId}/viewer-presets`, {
+    method: 'PUT',
+    body: JSON.stringify({ presets })
+  });
+}
+
 // ============================================
 // Groups
 // ============================================
 
-export function getGroups(): Promise<Group[]> {
-  return request('/groups');
+export function getGroups(archived = false): Promise<Group[]> {
+  return request(archived ? '/groups?archived=true' : '/groups');
 }
 
-export function createGroup(data: { name: string; proteinPdbId: string; proteinName: string }): Promise<Group> {
+export function createGroup(data: { name: string; proteinPdbId: string; proteinName: string; courseId?: string | null }): Promise<Group> {
   return request('/groups', {
     method: 'POST',
     body: JSON.stringify(data)
@@ -131,17 +342,64 @@ export function deleteGroup(id: string): Promise<{ success: boolean }> {
   return request(`/groups/${id}`, { method: 'DELETE' });
 }
 
-export interface CsvUploadResult {
-  success: boolean;
-  created: number;
-  total: number;
-  errors?: string[];
+export interface GroupImportRow {
+  line: number;
+  name: string;
+  proteinPdbId: string;
+  proteinName: string;
+  action: 'create' | 'update' | 'unchanged' | 'error';
+  groupId: string | null;
+  changes: string[];
+  error: string | null;
+}
+
+export interface GroupImportPlan {
+  rows: GroupImportRow[];
+  creates: number;
+  updates: number;
+  unchanged: number;
+  errors: number;
+  applied: boolean;
 }
 
-export function uploadGroupsCsv(csvData: string): Promise<CsvUploadResult> {
+// With dryRun the plan is returned without writing anything
+export function uploadGroupsCsv(csvData: string, courseId: string | null, dryRun: boolean): Promise<GroupImportPlan> {
   return request('/groups/upload-csv', {
     method: 'POST',
-    body: JSON.stringify({ csvData })
+    body: JSON.stringify({ csvData, courseId, dryRun })
+  });
+}
+
+export interface RosterRowResult {
+  line: number;
+  email: string;
+  name: string;
+  status: 'created' | 'existing' | 'error';
+  group: string | null;
+  placement: 'csv' | 'auto' | 'already' | null;
+  invited: boolean;
+  messages: string[];
+}
+
+export interface RosterImportReport {
+  rows: RosterRowResult[];
+  created: number;
+  existing: number;
+  errors: number;
+  placed: number;
+  invited: number;
+}
+
+// groupSize auto-pairs students the CSV doesn't put in a group; null leaves them unplaced
+export function importRoster(data: {
+  csvData: string;
+  courseId: string | null;
+  groupSize: number | null;
+  sendInvites: boolean;
+}): Promise<RosterImportReport> {
+  return request('/groups/import-roster', {
+    method: 'POST',
+    body: JSON.stringify(data)
   });
 }
 
@@ -156,12 +414,28 @@ export function removeGroupMember(groupId: string, userId: string): Promise<{ su
   return request(`/groups/${groupId}/members/${userId}`, { method: 'DELETE' });
 }
 
+export function generateJoinCode(groupId: string): Promise<{ joinCode: string }> {
+  return request(`/groups/${groupId}/join-code`, { method: 'POST' });
+}
+
+export function removeJoinCode(groupId: string): Promise<{ success: boolean }> {
+  return request(`/groups/${groupId}/join-code`, { method: 'DELETE' });
+}
+
+// An empty list sends the group's notifications to its course's instructors
+export function setGroupInstructors(groupId: string, userIds: string[]): Promise<GroupInstructor[]> {
+  return request(`/groups/${groupId}/instructors`, {
+    method: 'PUT',
+    body: JSON.stringify({ userIds })
+  });
+}
+
 // ============================================
 // Users
 // ============================================
 
-export function getUsers(): Promise<User[]> {
-  return request('/users');
+export function getUsers(archived = false): Promise<User[]> {
+  return request(archived ? '/users?archived=true' : '/users');
 }
 
 export function getPendingUsers(): Promise<User[]> {
@@ -183,6 +457,88 @@ export function deleteUser(id: string): Promise<{ success: boolean }> {
   return request(`/users/${id}`, { method: 'DELETE' });
 }
 
+// ============================================
+// Invites
+// ============================================
+
+export interface Invite {
+  id: string;
+  token: string;
+  url: string;
+  role: User['role'];
+  email: string | null;
+  maxUses: number | null;
+  useCount: number;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  usable: boolean;
+  createdAt: string;
+  createdBy: { id: string; firstName: string; lastName: string };
+}
+
+export interface InviteInput {
+  role: User['role'];
+  email?: string | null;
+  maxUses?: number | null;
+  expiresInDays?: number | null; // null = never expires
+}
+
+export function getInvites(): Promise<Invite[]> {
+  return request('/invites');
+}
+
+export function createInvite(data: InviteInput): Promise<Invite> {
+  return request('/invites', {
+    method: 'POST',
+    body: JSON.stringify(data)
+  });
+}
+
+export function revokeInvite(id: string): Promise<{ success: boolean }> {
+  return request(`/invites/${id}`, { method: 'DELETE' });
+}
+
+// ============================================
+// Term Archival
+// ============================================
+
+export interface ArchivalCounts {
+  groups: number;
+  students: number;
+  files: number;
+}
+
+export interface ArchivalStatus {
+  archivedGroups: number;
+  archivedStudents: number;
+  oldestArchivedAt: string | null;
+  retentionDays: number | null;
+  purgeDue: number;
+}
+
+export function getArchivalStatus(): Promise<ArchivalStatus> {
+  return request('/archival');
+}
+
+// Without a termId, every active group is covered
+export function previewArchival(termId: string | null): Promise<ArchivalCounts> {
+  return request(termId ? `/archival/preview?termId=${encodeURIComponent(termId)}` : '/archival/preview');
+}
+
+export function archiveTerm(termId: string | null): Promise<ArchivalCounts> {
+  return request('/archival/archive', {
+    method: 'POST',
+    body: JSON.stringify({ termId })
+  });
+}
+
+export function purgeArchived(before: string): Promise<ArchivalCounts> {
+  return request('/archival/purge', {
+    method: 'POST',
+    body: JSON.stringify({ before })
+  });
+}
+
 // ============================================
 // Nuclear Reset
 // ============================================
@@ -216,6 +572,38 @@ export interface ResetResult {
   };
 }
 
+export interface RestoreGroupSummary {
+  name: string;
+  proteinPdbId: string;
+  action: 'restore' | 'skip';
+  reason: string | null;
+  members: number;
+  submissions: number;
+  versions: number;
+  literature: number;
+  messages: number;
+}
+
+export interface RestoreReport {
+  formatVersion: number;
+  exportedAt: string | null;
+  groups: RestoreGroupSummary[];
+  users: { existing: number; toCreate: number };
+  templatesToCreate: string[];
+  conflicts: string[];
+  warnings: string[];
+  restored: {
+    groups: number;
+    users: number;
+    submissions: number;
+    versions: number;
+    literature: number;
+    messages: number;
+    files: number;
+    invited: number;
+  } | null;
+}
+
 export function getResetPreview(): Promise<ResetPreview> {
   return request('/nuclear-reset/preview');
 }
@@ -228,12 +616,7 @@ export function executeReset(confirmationCode: string): Promise<ResetResult> {
 }
 
 export async function downloadArchive(): Promise<void> {
-  const token = localStorage.getItem('token');
-  const response = await fetch(`${API_BASE}/nuclear-reset/archive`, {
-    headers: {
-      'Authorization': `Bearer ${token}`
-    }
-  });
+  const response = await authFetch(`${API_BASE}/nuclear-reset/archive`);
 
   if (!response.ok) {
     throw new Error('Failed to download archive');
@@ -249,3 +632,22 @@ export async function downloadArchive(): Promise<void> {
   document.body.removeChild(a);
   URL.revokeObjectURL(url);
 }
+
+// With dryRun the archive is only checked; the report says what a restore would do
+export async function restoreArchive(file: File, dryRun: boolean): Promise<RestoreReport> {
+  const formData = new FormData();
+  formData.append('archive', file);
+  formData.append('dryRun', String(dryRun));
+
+  const response = await authFetch(`${API_BASE}/nuclear-reset/restore`, {
+    method: 'POST',
+    body: formData
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || 'Failed to restore archive');
+  }
+
+  return response.json();
+}
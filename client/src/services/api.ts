@@ -1,18 +1,14 @@
+import { authFetch } from './session'
+
 const API_BASE = '/modeling/api'
 
 async function request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-  const token = localStorage.getItem('token')
-
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
     ...options.headers
   }
 
-  if (token) {
-    (headers as Record<string, string>)['Authorization'] = `Bearer ${token}`
-  }
-
-  const response = await fetch(`${API_BASE}${endpoint}`, {
+  const response = await authFetch(`${API_BASE}${endpoint}`, {
     ...options,
     headers
   })
@@ -30,32 +26,56 @@ export interface User {
   email: string
   firstName: string
   lastName: string
-  role: 'ADMIN' | 'INSTRUCTOR' | 'STUDENT'
+  role: 'ADMIN' | 'INSTRUCTOR' | 'TA' | 'STUDENT'
   isApproved?: boolean
 }
 
 export interface AuthResponse {
   user: User
   token: string
+  refreshToken: string
 }
 
 export interface RegisterResponse {
   user: User
+  // Only set when the account was approved straight away
   token?: string
+  refreshToken?: string
   message?: string
 }
 
+// One device or browser the user is logged in on
+export interface Session {
+  id: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: string
+  lastUsedAt: string
+  expiresAt: string
+  current: boolean
+}
+
 export interface RegisterData {
   email: string
   password: string
   firstName: string
   lastName: string
-  role?: 'ADMIN' | 'INSTRUCTOR' | 'STUDENT'
-  groupId?: string
+  inviteToken?: string
+  joinCode?: string
 }
 
-export interface PublicGroup {
-  id: string
+export interface RegistrationSettings {
+  // 'closed' turns away registrations without an invite or join code
+  selfRegistration: 'pending' | 'closed'
+}
+
+export interface InviteInfo {
+  role: User['role']
+  email: string | null
+  expiresAt: string | null
+}
+
+export interface JoinCodeGroup {
   name: string
   proteinPdbId: string
   proteinName: string
@@ -79,8 +99,37 @@ export function getCurrentUser(): Promise<{ user: User }> {
   return request('/auth/me')
 }
 
-export function getPublicGroups(): Promise<PublicGroup[]> {
-  return request('/auth/groups')
+// Takes the token explicitly because it is cleared from storage first
+export function logout(token: string): Promise<{ success: boolean }> {
+  return request('/auth/logout', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` }
+  })
+}
+
+export function getSessions(): Promise<Session[]> {
+  return request('/auth/sessions')
+}
+
+export function revokeSession(id: string): Promise<{ success: boolean }> {
+  return request(`/auth/sessions/${id}`, { method: 'DELETE' })
+}
+
+// Logs out everywhere except this browser
+export function revokeOtherSessions(): Promise<{ count: number }> {
+  return request('/auth/sessions', { method: 'DELETE' })
+}
+
+export function getRegistrationSettings(): Promise<RegistrationSettings> {
+  return request('/auth/registration')
+}
+
+export function getInvite(token: string): Promise<InviteInfo> {
+  return request(`/auth/invites/${encodeURIComponent(token)}`)
+}
+
+export function getJoinCodeGroup(code: string): Promise<JoinCodeGroup> {
+  return request(`/auth/join-codes/${encodeURIComponent(code)}`)
 }
 
 export function forgotPassword(email: string): Promise<{ message: string }> {
@@ -0,0 +1,109 @@
+import { authFetch } from './session';
+
+const API_BASE = '/modeling/api/gradebook';
+
+async function request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+    ...options.headers
+  };
+
+  const response = await authFetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || 'Request failed');
+  }
+
+  return response.json();
+}
+
+// ============================================
+// Types
+// ============================================
+
+export type GradebookFormat = 'csv' | 'xlsx';
+
+// 'lms' - LMS import layout (scores only, "Points Possible" row)
+// 'full' - status, score and submission date for every template
+export type GradebookLayout = 'lms' | 'full';
+
+export interface GradebookColumn {
+  templateId: string;
+  name: string;
+  maxPoints: number | null;
+}
+
+export interface GradebookCell {
+  templateId: string;
+  submissionId: string | null;
+  status: 'DRAFT' | 'SUBMITTED' | 'NEEDS_REVISION' | 'APPROVED' | null;
+  isLate: boolean;
+  totalPoints: number | null;
+  released: boolean;
+  submittedAt: string | null;
+}
+
+export interface GradebookRow {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  groupId: string;
+  groupName: string;
+  cells: GradebookCell[];
+}
+
+export interface Gradebook {
+  generatedAt: string;
+  columns: GradebookColumn[];
+  rows: GradebookRow[];
+}
+
+export interface GradebookCourse {
+  id: string;
+  name: string;
+  section: string | null;
+  term: { id: string; name: string };
+}
+
+export interface GradebookCourses {
+  courses: GradebookCourse[];
+  // Whether any groups aren't in a course yet
+  hasUnassigned: boolean;
+}
+
+// ============================================
+// Gradebook
+// ============================================
+
+export function getGradebookCourses(): Promise<GradebookCourses> {
+  return request('/courses');
+}
+
+// courseId null shows the groups that aren't in a course
+export function getGradebook(courseId: string | null): Promise<Gradebook> {
+  return request(courseId ? `/?courseId=${courseId}` : '/');
+}
+
+export async function downloadGradebook(format: GradebookFormat, layout: GradebookLayout, courseId: string | null): Promise<void> {
+  const course = courseId ? `&courseId=${courseId}` : '';
+  const response = await authFetch(`${API_BASE}/export?format=${format}&layout=${layout}${course}`);
+
+  if (!response.ok) {
+    throw new Error('Failed to download gradebook');
+  }
+
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `gradebook-${layout}-${new Date().toISOString().split('T')[0]}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
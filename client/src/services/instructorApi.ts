@@ -1,18 +1,15 @@
+import type { Deadlines } from '../utils/deadlines';
+import { authFetch } from './session';
+
 const API_BASE = '/modeling/api/instructor';
 
 async function request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-  const token = localStorage.getItem('token');
-
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
     ...options.headers
   };
 
-  if (token) {
-    (headers as Record<string, string>)['Authorization'] = `Bearer ${token}`;
-  }
-
-  const response = await fetch(`${API_BASE}${endpoint}`, {
+  const response = await authFetch(`${API_BASE}${endpoint}`, {
     ...options,
     headers
   });
@@ -29,16 +26,37 @@ async function request<T>(endpoint: string, options: RequestInit = {}): Promise<
 // Types
 // ============================================
 
+// The course a group belongs to, with its term
+export interface CourseRef {
+  id: string;
+  name: string;
+  section: string | null;
+  term: { id: string; name: string };
+}
+
 export interface Group {
   id: string;
   name: string;
   proteinPdbId: string;
   proteinName: string;
+  courseId: string | null;
+  course: CourseRef | null;
+  archivedAt: string | null;
   createdAt: string;
+  assignedToMe: boolean;    // An admin assigned this instructor to the group
   submissionCount: number;
   pendingCount: number;
   memberCount: number;
   unreadMessageCount: number;
+  onTimeCount: number;
+  lateCount: number;
+  missingCount: number;     // Past the due date with nothing uploaded
+}
+
+// A past-term group found through the archive search
+export interface ArchivedGroup
+  extends Pick<Group, 'id' | 'name' | 'proteinPdbId' | 'proteinName' | 'courseId' | 'course' | 'createdAt' | 'submissionCount' | 'memberCount'> {
+  archivedAt: string;
 }
 
 export interface GroupMember {
@@ -46,10 +64,11 @@ export interface GroupMember {
   firstName: string;
   lastName: string;
   email: string;
-  role: 'ADMIN' | 'INSTRUCTOR' | 'STUDENT';
+  role: 'ADMIN' | 'INSTRUCTOR' | 'TA' | 'STUDENT';
 }
 
-export interface GroupDetails extends Omit<Group, 'submissionCount' | 'pendingCount' | 'memberCount'> {
+export interface GroupDetails
+  extends Omit<Group, 'submissionCount' | 'pendingCount' | 'memberCount' | 'onTimeCount' | 'lateCount' | 'missingCount'> {
   members: {
     user: GroupMember;
   }[];
@@ -73,6 +92,96 @@ export interface Submission {
     lastName: string;
   };
   unreadCount?: number;
+  versionCount?: number;
+  latestVersion?: SubmissionVersionSummary | null;
+  isLate: boolean;
+  gradeReleasedAt: string | null;
+  grade?: GradeTotals | null;
+}
+
+// Metadata extracted from the PNGJ on upload (null for older uploads)
+export interface PngjMetadata {
+  hasStructure: boolean | null;
+  structureSource: string | null;
+  atomCount: number | null;
+  embeddedPdbId: string | null;
+  proteinMatch: 'MATCH' | 'MISMATCH' | 'UNKNOWN' | null;
+  proteinMatchDetail: string | null;
+}
+
+export interface SignedFileUrl {
+  url: string;
+  expiresAt: string;
+}
+
+export interface SubmissionVersionSummary extends PngjMetadata {
+  id: string;
+  versionNumber: number;
+}
+
+export interface SubmissionVersion extends PngjMetadata {
+  id: string;
+  submissionId: string;
+  versionNumber: number;
+  uploadedById: string;
+  fileName: string;
+  filePath: string;
+  fileSize: number | null;
+  status: 'DRAFT' | 'SUBMITTED' | 'NEEDS_REVISION' | 'APPROVED';
+  createdAt: string;
+  uploadedBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  displayCommands: string[];
+  commentCount: number;
+}
+
+// Rubric totals computed server-side from the criterion scores
+export interface GradeTotals {
+  totalPoints: number;
+  maxPoints: number;
+  gradedCount: number;
+  criteriaCount: number;
+}
+
+export interface RubricLevel {
+  id: string;
+  label: string;
+  points: number;
+  description: string | null;
+  orderIndex: number;
+}
+
+export interface RubricScore {
+  id: string;
+  criterionId: string;
+  levelId: string | null;
+  points: number;
+  comment: string | null;
+  updatedAt: string;
+  gradedBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+export interface GradedCriterion {
+  id: string;
+  title: string;
+  description: string | null;
+  maxPoints: number;
+  orderIndex: number;
+  levels: RubricLevel[];
+  score: RubricScore | null;
+}
+
+export interface SubmissionGrade extends GradeTotals {
+  submissionId: string;
+  releasedAt: string | null;
+  criteria: GradedCriterion[];
 }
 
 export interface ModelTemplate {
@@ -81,6 +190,24 @@ export interface ModelTemplate {
   description: string | null;
   orderIndex: number;
   isActive: boolean;
+  rubricCriteriaCount: number;
+  deadlines: Deadlines;
+  extension: DeadlineExtension | null;
+}
+
+export interface DeadlineExtension {
+  id: string;
+  groupId: string;
+  modelTemplateId: string;
+  dueAt: string | null;
+  closesAt: string | null;
+  reason: string | null;
+  createdAt: string;
+  grantedBy?: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
 }
 
 export interface ModelWithSubmission extends ModelTemplate {
@@ -116,6 +243,11 @@ export function getGroup(groupId: string): Promise<GroupDetails> {
   return request(`/groups/${groupId}`);
 }
 
+// Archived groups matching a name, protein, course, term or member
+export function searchArchivedGroups(query: string): Promise<ArchivedGroup[]> {
+  return request(`/archived-groups?q=${encodeURIComponent(query)}`);
+}
+
 // ============================================
 // Submissions
 // ============================================
@@ -124,10 +256,20 @@ export function getGroupSubmissions(groupId: string): Promise<ModelWithSubmissio
   return request(`/groups/${groupId}/submissions`);
 }
 
-export function getSubmissionFileUrl(submissionId: string): string {
-  const token = localStorage.getItem('token');
-  // Add .png extension so JSmol can detect the file type from the URL
-  return `${API_BASE}/submissions/file/${submissionId}.png?token=${token}`;
+// File links are signed for one file and only work for a few minutes, so
+// fetch one right before it is loaded
+export async function getSubmissionFileUrl(submissionId: string): Promise<string> {
+  const { url } = await request<SignedFileUrl>(`/submissions/${submissionId}/file-url`);
+  return url;
+}
+
+export function getSubmissionVersions(submissionId: string): Promise<SubmissionVersion[]> {
+  return request(`/submissions/${submissionId}/versions`);
+}
+
+export async function getVersionFileUrl(versionId: string): Promise<string> {
+  const { url } = await request<SignedFileUrl>(`/submissions/versions/${versionId}/file-url`);
+  return url;
 }
 
 export function updateSubmission(
@@ -140,6 +282,51 @@ export function updateSubmission(
   });
 }
 
+// ============================================
+// Deadline Extensions
+// ============================================
+
+export function saveDeadlineExtension(
+  groupId: string,
+  templateId: string,
+  data: { dueAt: string | null; closesAt: string | null; reason?: string }
+): Promise<DeadlineExtension> {
+  return request(`/groups/${groupId}/extensions/${templateId}`, {
+    method: 'PUT',
+    body: JSON.stringify(data)
+  });
+}
+
+export function removeDeadlineExtension(groupId: string, templateId: string): Promise<{ success: boolean }> {
+  return request(`/groups/${groupId}/extensions/${templateId}`, { method: 'DELETE' });
+}
+
+// ============================================
+// Grading
+// ============================================
+
+export function getSubmissionGrade(submissionId: string): Promise<SubmissionGrade> {
+  return request(`/submissions/${submissionId}/grade`);
+}
+
+// A score picks a level and/or gives points; points: null clears the criterion
+export function saveSubmissionGrade(
+  submissionId: string,
+  scores: { criterionId: string; levelId?: string | null; points?: number | null; comment?: string | null }[]
+): Promise<SubmissionGrade> {
+  return request(`/submissions/${submissionId}/grade`, {
+    method: 'PUT',
+    body: JSON.stringify({ scores })
+  });
+}
+
+export function releaseSubmissionGrade(submissionId: string, released: boolean): Promise<SubmissionGrade> {
+  return request(`/submissions/${submissionId}/grade/release`, {
+    method: 'PUT',
+    body: JSON.stringify({ released })
+  });
+}
+
 // ============================================
 // Literature
 // ============================================
@@ -148,7 +335,7 @@ export function getGroupLiterature(groupId: string): Promise<Literature[]> {
   return request(`/groups/${groupId}/literature`);
 }
 
-export function getLiteratureFileUrl(id: string): string {
-  const token = localStorage.getItem('token');
-  return `${API_BASE}/literature/file/${id}?token=${token}`;
+export async function getLiteratureFileUrl(id: string): Promise<string> {
+  const { url } = await request<SignedFileUrl>(`/literature/${id}/file-url`);
+  return url;
 }
@@ -1,18 +1,15 @@
+import type { Notification } from './notificationApi';
+import { authFetch, getAccessToken } from './session';
+
 const API_BASE = '/modeling/api/messages';
 
 async function request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-  const token = localStorage.getItem('token');
-
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
     ...options.headers
   };
 
-  if (token) {
-    (headers as Record<string, string>)['Authorization'] = `Bearer ${token}`;
-  }
-
-  const response = await fetch(`${API_BASE}${endpoint}`, {
+  const response = await authFetch(`${API_BASE}${endpoint}`, {
     ...options,
     headers
   });
@@ -33,7 +30,23 @@ export interface MessageUser {
   id: string;
   firstName: string;
   lastName: string;
-  role: 'ADMIN' | 'INSTRUCTOR' | 'STUDENT';
+  role: 'ADMIN' | 'INSTRUCTOR' | 'TA' | 'STUDENT';
+}
+
+// A comment pinned to an atom or residue of the model, with the camera
+// orientation it was written from (arguments of Jmol's moveto after the time)
+export interface AnnotationTarget {
+  scope: 'atom' | 'residue';
+  residueName: string;
+  residueNumber: number;
+  insertionCode: string | null;
+  chain: string | null;
+  atomName: string | null;
+}
+
+export interface MessageAnnotation {
+  target: AnnotationTarget;
+  orientation: (number | number[])[] | null;
 }
 
 export interface Message {
@@ -41,9 +54,15 @@ export interface Message {
   groupId: string;
   userId: string;
   submissionId: string | null;
+  versionId?: string | null;
   content: string;
+  annotation?: MessageAnnotation | null;
   createdAt: string;
   user: MessageUser;
+  version?: {
+    id: string;
+    versionNumber: number;
+  } | null;
 }
 
 export interface ReadStatus {
@@ -58,6 +77,15 @@ export interface MessagesResponse {
   readStatuses: ReadStatus[];
 }
 
+// Pushed over the live event stream. submissionId is null for group chat
+// and set for submission comments. Notifications go only to their recipient.
+export type RealtimeEvent =
+  | { type: 'message'; groupId: string; submissionId: string | null; message: Message }
+  | { type: 'read'; groupId: string; submissionId: string | null; userId: string; lastReadAt: string; user: MessageUser }
+  | { type: 'typing'; groupId: string; submissionId: string | null; user: MessageUser }
+  | { type: 'submission'; groupId: string; submissionId: string; modelTemplateId: string; status: string }
+  | { type: 'notification'; notification: Notification };
+
 // ============================================
 // Group Chat
 // ============================================
@@ -80,6 +108,10 @@ export function markGroupRead(groupId: string, lastReadAt: string): Promise<void
   });
 }
 
+export function sendGroupTyping(groupId: string): Promise<void> {
+  return request(`/group/${groupId}/typing`, { method: 'POST' });
+}
+
 // ============================================
 // Submission Comments
 // ============================================
@@ -88,10 +120,15 @@ export function getSubmissionComments(submissionId: string): Promise<MessagesRes
   return request(`/submission/${submissionId}`);
 }
 
-export function postSubmissionComment(submissionId: string, content: string): Promise<Message> {
+export function postSubmissionComment(
+  submissionId: string,
+  content: string,
+  versionId?: string,
+  annotation?: MessageAnnotation
+): Promise<Message> {
   return request(`/submission/${submissionId}`, {
     method: 'POST',
-    body: JSON.stringify({ content })
+    body: JSON.stringify({ content, versionId, annotation })
   });
 }
 
@@ -101,3 +138,19 @@ export function markSubmissionRead(submissionId: string, lastReadAt: string): Pr
     body: JSON.stringify({ lastReadAt })
   });
 }
+
+export function sendSubmissionTyping(submissionId: string): Promise<void> {
+  return request(`/submission/${submissionId}/typing`, { method: 'POST' });
+}
+
+// ============================================
+// Live Updates
+// ============================================
+
+export const REALTIME_EVENT_TYPES: RealtimeEvent['type'][] = ['message', 'read', 'typing', 'submission', 'notification'];
+
+// EventSource can't send an Authorization header, so the token goes in the URL
+export function openEventStream(): EventSource {
+  const token = getAccessToken();
+  return new EventSource(`${API_BASE}/stream?token=${token}`);
+}
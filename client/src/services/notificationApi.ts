@@ -0,0 +1,89 @@
+import { authFetch } from './session';
+
+const API_BASE = '/modeling/api/notifications';
+
+async function request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+    ...options.headers
+  };
+
+  const response = await authFetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || 'Request failed');
+  }
+
+  return response.json();
+}
+
+// ============================================
+// Types
+// ============================================
+
+export type NotificationType =
+  | 'STATUS_CHANGED'
+  | 'NEW_COMMENT'
+  | 'NEW_GROUP_MESSAGE'
+  | 'REVIEW_REQUESTED'
+  | 'ACCOUNT_APPROVED';
+
+export interface Notification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  groupId: string | null;
+  submissionId: string | null;
+  count: number; // Merged chat/comment notifications for one thread
+  readAt: string | null;
+  createdAt: string;
+}
+
+export interface NotificationsResponse {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+export type EmailDelivery = 'IMMEDIATE' | 'DIGEST' | 'OFF';
+
+export interface EmailPreference {
+  type: NotificationType;
+  email: EmailDelivery;
+}
+
+// ============================================
+// Notifications
+// ============================================
+
+export function getNotifications(): Promise<NotificationsResponse> {
+  return request('/');
+}
+
+export function markNotificationRead(id: string): Promise<Notification> {
+  return request(`/${id}/read`, { method: 'PUT' });
+}
+
+export function markAllNotificationsRead(): Promise<{ success: boolean }> {
+  return request('/read-all', { method: 'PUT' });
+}
+
+// ============================================
+// Email Preferences
+// ============================================
+
+export function getEmailPreferences(): Promise<EmailPreference[]> {
+  return request('/preferences');
+}
+
+export function updateEmailPreferences(preferences: EmailPreference[]): Promise<EmailPreference[]> {
+  return request('/preferences', {
+    method: 'PUT',
+    body: JSON.stringify({ preferences })
+  });
+}
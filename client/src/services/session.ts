@@ -0,0 +1,196 @@
+// Tokens of the logged-in user. Access tokens only last a few minutes;
+// authFetch renews them with the refresh token when the server answers 401
+// and sends the request again.
+
+const API_BASE = '/modeling/api/auth';
+
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+// Renew access tokens this long before they expire, so the event stream,
+// which carries the token in its URL, can reconnect
+const REFRESH_AHEAD_MS = 2 * 60 * 1000;
+const REFRESH_CHECK_INTERVAL_MS = 30 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+// ============================================
+// Token storage
+// ============================================
+
+const sessionEndedListeners = new Set<() => void>();
+let refreshing: Promise<string | null> | null = null;
+
+export function getAccessToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function hasSession(): boolean {
+  return !!(getAccessToken() || localStorage.getItem(REFRESH_TOKEN_KEY));
+}
+
+export function setTokens(tokens: SessionTokens): void {
+  localStorage.setItem(TOKEN_KEY, tokens.token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+}
+
+export function clearTokens(): void {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+// Called when the server ends the session, e.g. it was logged out elsewhere
+export function onSessionEnded(listener: () => void): () => void {
+  sessionEndedListeners.add(listener);
+  return () => {
+    sessionEndedListeners.delete(listener);
+  };
+}
+
+// ============================================
+// Refresh
+// ============================================
+
+async function requestNewTokens(): Promise<string | null> {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return null;
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken })
+    });
+  } catch {
+    // Offline; keep the tokens and try again later
+    return null;
+  }
+
+  if (response.ok) {
+    const tokens: SessionTokens = await response.json();
+    setTokens(tokens);
+    return tokens.token;
+  }
+
+  // Another tab may have used the refresh token first and stored its successor
+  if (localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken) {
+    return getAccessToken();
+  }
+
+  if (response.status === 401) {
+    clearTokens();
+    sessionEndedListeners.forEach(listener => listener());
+  }
+  return null;
+}
+
+// Gets a new access token. Concurrent callers share one request, since a
+// refresh token can only be used once.
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshing) {
+    refreshing = requestNewTokens().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+function tokenExpiresAt(token: string): number | null {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+// Renews the access token shortly before it expires for as long as the
+// returned stop function isn't called
+export function keepAccessTokenFresh(): () => void {
+  const check = () => {
+    const token = getAccessToken();
+    const expiresAt = token ? tokenExpiresAt(token) : null;
+    if (!token || (expiresAt !== null && expiresAt - Date.now() < REFRESH_AHEAD_MS)) {
+      refreshAccessToken();
+    }
+  };
+
+  check();
+  const interval = setInterval(check, REFRESH_CHECK_INTERVAL_MS);
+  return () => clearInterval(interval);
+}
+
+// ============================================
+// Requests
+// ============================================
+
+// fetch with the access token. A 401 renews the token and retries once.
+export async function authFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  const send = (token: string | null) => {
+    const headers = new Headers(options.headers);
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return fetch(url, { ...options, headers });
+  };
+
+  const token = getAccessToken();
+  const response = await send(token);
+  if (response.status !== 401 || !hasSession()) {
+    return response;
+  }
+
+  const renewed = await refreshAccessToken();
+  return renewed && renewed !== token ? send(renewed) : response;
+}
+
+// Sends form data with upload progress, which fetch can't report. onProgress
+// gets the fraction sent, from 0 to 1. Renews the token like authFetch.
+export async function authUpload<T>(
+  url: string,
+  formData: FormData,
+  onProgress: (fraction: number) => void
+): Promise<T> {
+  const send = (token: string | null) => new Promise<XMLHttpRequest>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    if (token) {
+      xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    }
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(e.loaded / e.total);
+    };
+    xhr.onload = () => resolve(xhr);
+    xhr.onerror = () => reject(new Error('Upload failed'));
+    xhr.send(formData);
+  });
+
+  const token = getAccessToken();
+  let xhr = await send(token);
+  if (xhr.status === 401 && hasSession()) {
+    const renewed = await refreshAccessToken();
+    if (renewed && renewed !== token) {
+      onProgress(0);
+      xhr = await send(renewed);
+    }
+  }
+
+  let body: { error?: string } | null = null;
+  try {
+    body = JSON.parse(xhr.responseText);
+  } catch {
+    // Not JSON; handled below
+  }
+  if (xhr.status < 200 || xhr.status >= 300) {
+    throw new Error(body?.error || 'Request failed');
+  }
+  return body as T;
+}
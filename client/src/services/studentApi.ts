@@ -1,8 +1,9 @@
+import type { Deadlines } from '../utils/deadlines';
+import { authFetch, authUpload } from './session';
+
 const API_BASE = '/modeling/api/student';
 
 async function request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-  const token = localStorage.getItem('token');
-
   const headers: HeadersInit = {
     ...options.headers
   };
@@ -12,11 +13,7 @@ async function request<T>(endpoint: string, options: RequestInit = {}): Promise<
     (headers as Record<string, string>)['Content-Type'] = 'application/json';
   }
 
-  if (token) {
-    (headers as Record<string, string>)['Authorization'] = `Bearer ${token}`;
-  }
-
-  const response = await fetch(`${API_BASE}${endpoint}`, {
+  const response = await authFetch(`${API_BASE}${endpoint}`, {
     ...options,
     headers
   });
@@ -38,15 +35,64 @@ export interface Group {
   name: string;
   proteinPdbId: string;
   proteinName: string;
+  archivedAt: string | null;   // Archived groups are read-only
   createdAt: string;
 }
 
+// Rubric totals computed server-side from the criterion scores
+export interface GradeTotals {
+  totalPoints: number;
+  maxPoints: number;
+  gradedCount: number;
+  criteriaCount: number;
+}
+
+export interface RubricLevel {
+  id: string;
+  label: string;
+  points: number;
+  description: string | null;
+  orderIndex: number;
+}
+
+export interface RubricScore {
+  id: string;
+  criterionId: string;
+  levelId: string | null;
+  points: number;
+  comment: string | null;
+  updatedAt: string;
+  gradedBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+export interface GradedCriterion {
+  id: string;
+  title: string;
+  description: string | null;
+  maxPoints: number;
+  orderIndex: number;
+  levels: RubricLevel[];
+  score: RubricScore | null;
+}
+
+export interface SubmissionGrade extends GradeTotals {
+  submissionId: string;
+  releasedAt: string | null;
+  criteria: GradedCriterion[];
+}
+
 export interface ModelTemplate {
   id: string;
   name: string;
   description: string | null;
   orderIndex: number;
   isActive: boolean;
+  rubricCriteriaCount: number;
+  deadlines: Deadlines;
 }
 
 export interface Submission {
@@ -62,6 +108,50 @@ export interface Submission {
   createdAt: string;
   updatedAt: string;
   unreadCount?: number;
+  versionCount?: number;
+  latestVersion?: SubmissionVersionSummary | null;
+  isLate: boolean;
+  gradeReleasedAt: string | null;
+  grade?: GradeTotals | null;
+}
+
+// Metadata extracted from the PNGJ on upload (null for older uploads)
+export interface PngjMetadata {
+  hasStructure: boolean | null;
+  structureSource: string | null;
+  atomCount: number | null;
+  embeddedPdbId: string | null;
+  proteinMatch: 'MATCH' | 'MISMATCH' | 'UNKNOWN' | null;
+  proteinMatchDetail: string | null;
+}
+
+export interface SignedFileUrl {
+  url: string;
+  expiresAt: string;
+}
+
+export interface SubmissionVersionSummary extends PngjMetadata {
+  id: string;
+  versionNumber: number;
+}
+
+export interface SubmissionVersion extends PngjMetadata {
+  id: string;
+  submissionId: string;
+  versionNumber: number;
+  uploadedById: string;
+  fileName: string;
+  filePath: string;
+  fileSize: number | null;
+  status: 'DRAFT' | 'SUBMITTED' | 'NEEDS_REVISION' | 'APPROVED';
+  createdAt: string;
+  uploadedBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  displayCommands: string[];
+  commentCount: number;
 }
 
 export interface ModelWithSubmission extends ModelTemplate {
@@ -118,20 +208,42 @@ export function getModels(): Promise<ModelsResponse> {
   return request('/models');
 }
 
-export async function uploadModel(templateId: string, file: File): Promise<Submission> {
+// onProgress gets the fraction of the file sent so far
+export async function uploadModel(
+  templateId: string,
+  file: File,
+  onProgress?: (fraction: number) => void
+): Promise<Submission> {
   const formData = new FormData();
   formData.append('file', file);
 
+  if (onProgress) {
+    return authUpload(`${API_BASE}/models/${templateId}/upload`, formData, onProgress);
+  }
   return request(`/models/${templateId}/upload`, {
     method: 'POST',
     body: formData
   });
 }
 
-export function getModelFileUrl(submissionId: string): string {
-  const token = localStorage.getItem('token');
-  // Add .png extension so JSmol can detect the file type from the URL
-  return `${API_BASE}/models/file/${submissionId}.png?token=${token}`;
+// File links are signed for one file and only work for a few minutes, so
+// fetch one right before it is loaded
+export async function getModelFileUrl(submissionId: string): Promise<string> {
+  const { url } = await request<SignedFileUrl>(`/models/${submissionId}/file-url`);
+  return url;
+}
+
+export function getSubmissionVersions(submissionId: string): Promise<SubmissionVersion[]> {
+  return request(`/models/${submissionId}/versions`);
+}
+
+export async function getVersionFileUrl(versionId: string): Promise<string> {
+  const { url } = await request<SignedFileUrl>(`/models/versions/${versionId}/file-url`);
+  return url;
+}
+
+export function getGrade(submissionId: string): Promise<SubmissionGrade> {
+  return request(`/models/${submissionId}/grade`);
 }
 
 // ============================================
@@ -156,9 +268,9 @@ export async function uploadLiterature(file: File, title: string, description?:
   });
 }
 
-export function getLiteratureFileUrl(id: string): string {
-  const token = localStorage.getItem('token');
-  return `${API_BASE}/literature/file/${id}?token=${token}`;
+export async function getLiteratureFileUrl(id: string): Promise<string> {
+  const { url } = await request<SignedFileUrl>(`/literature/${id}/file-url`);
+  return url;
 }
 
 export function deleteLiterature(id: string): Promise<{ success: boolean }> {
@@ -0,0 +1,68 @@
+import type { ViewerPreset } from './adminApi';
+import { authFetch } from './session';
+
+const API_BASE = '/modeling/api/views';
+
+async function request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+    ...options.headers
+  };
+
+  const response = await authFetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.error || 'Request failed');
+  }
+
+  return response.json();
+}
+
+// ============================================
+// Types
+// ============================================
+
+// A named camera orientation: the arguments of Jmol's moveto after the time
+export interface SavedView {
+  id: string;
+  submissionId: string;
+  createdById: string;
+  name: string;
+  orientation: (number | number[])[];
+  createdAt: string;
+  createdBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+export interface SubmissionViews {
+  presets: ViewerPreset[];
+  views: SavedView[];
+}
+
+// ============================================
+// Presets and Saved Views
+// ============================================
+
+export function getSubmissionViews(submissionId: string): Promise<SubmissionViews> {
+  return request(`/submissions/${submissionId}`);
+}
+
+export function saveView(submissionId: string, name: string, orientation: SavedView['orientation']): Promise<SavedView> {
+  return request(`/submissions/${submissionId}`, {
+    method: 'POST',
+    body: JSON.stringify({ name, orientation })
+  });
+}
+
+export function deleteView(viewId: string): Promise<{ success: boolean }> {
+  return request(`/${viewId}`, {
+    method: 'DELETE'
+  });
+}
@@ -0,0 +1,8 @@
+// ============================================
+// Helpers
+// ============================================
+
+// "BIOC 301 (Section 02)"
+export function courseLabel(course: { name: string; section: string | null }): string {
+  return course.section ? `${course.name} (${course.section})` : course.name;
+}
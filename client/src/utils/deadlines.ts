@@ -0,0 +1,55 @@
+// ============================================
+// Types
+// ============================================
+
+export interface Deadlines {
+  opensAt: string | null;
+  dueAt: string | null;
+  closesAt: string | null;
+  extended: boolean;
+}
+
+export type DeadlinePhase = 'none' | 'not-open' | 'open' | 'overdue' | 'closed';
+
+// ============================================
+// Helpers
+// ============================================
+
+export function getDeadlinePhase(deadlines: Deadlines, now = Date.now()): DeadlinePhase {
+  if (deadlines.opensAt && now < new Date(deadlines.opensAt).getTime()) return 'not-open';
+  if (deadlines.closesAt && now > new Date(deadlines.closesAt).getTime()) return 'closed';
+  if (deadlines.dueAt && now > new Date(deadlines.dueAt).getTime()) return 'overdue';
+  return deadlines.dueAt || deadlines.closesAt ? 'open' : 'none';
+}
+
+// "3d 4h", "5h 12m", "8m"
+export function formatTimeRemaining(target: string, now = Date.now()): string {
+  const minutes = Math.max(0, Math.floor((new Date(target).getTime() - now) / 60000));
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+export function formatDeadline(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+// <input type="datetime-local"> works in local time without a timezone
+export function toDateTimeInput(dateStr: string | null): string {
+  if (!dateStr) return '';
+  const date = new Date(dateStr);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function fromDateTimeInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
@@ -0,0 +1,130 @@
+// Comments pinned to an atom or residue in JSmol. The server stores the target
+// as plain fields plus the camera orientation; the Jmol commands that show a
+// pin are built here, so a stored comment can never carry its own script.
+
+import type { AnnotationTarget, MessageAnnotation } from '../services/messageApi';
+
+// ============================================
+// Types
+// ============================================
+
+type JmolApplet = Parameters<Window['Jmol']['evaluateVar']>[0];
+
+type OrientationToken = number | number[];
+
+// ============================================
+// Helpers
+// ============================================
+
+// Same limits as the server: PDB-style names, which are also safe to put
+// into an atom expression unquoted
+const NAME_PATTERN = /^[A-Za-z0-9]{1,4}$/;
+const CODE_PATTERN = /^[A-Za-z0-9]$/;
+
+function evaluate(applet: JmolApplet, expression: string): string {
+  const value = window.Jmol.evaluateVar(applet, expression);
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+// Four decimals, never in exponent notation
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+// ============================================
+// Capture
+// ============================================
+
+// Describes the atom the user clicked, or returns null for atoms that can't
+// be pinned, e.g. ones without a residue. Atoms with unusual names can still
+// be pinned as part of their residue.
+export function atomTarget(applet: JmolApplet, atomIndex: number): AnnotationTarget | null {
+  const atom = `{atomIndex=${Math.trunc(atomIndex)}}`;
+  const residueName = evaluate(applet, `${atom}.group`);
+  const residueNumber = Number(evaluate(applet, `${atom}.resno`));
+  const insertionCode = evaluate(applet, `${atom}.insertion`);
+  const chain = evaluate(applet, `${atom}.chain`);
+  const atomName = evaluate(applet, `${atom}.atomName`);
+
+  if (!NAME_PATTERN.test(residueName) || !Number.isInteger(residueNumber)) {
+    return null;
+  }
+
+  return {
+    scope: NAME_PATTERN.test(atomName) ? 'atom' : 'residue',
+    residueName,
+    residueNumber,
+    insertionCode: CODE_PATTERN.test(insertionCode) ? insertionCode : null,
+    chain: NAME_PATTERN.test(chain) ? chain : null,
+    atomName: NAME_PATTERN.test(atomName) ? atomName : null
+  };
+}
+
+// The current camera as the arguments of a `moveto` command, leaving out its
+// leading time. Null when Jmol doesn't report it.
+export function captureOrientation(applet: JmolApplet): OrientationToken[] | null {
+  const moveTo = evaluate(applet, 'getProperty("orientationInfo.moveTo")');
+  if (!moveTo.startsWith('moveto')) return null;
+
+  const tokens: OrientationToken[] = [];
+  for (const match of moveTo.slice('moveto'.length).matchAll(/\{([^}]*)\}|[^\s{};]+/g)) {
+    const values = (match[1] ?? match[0]).trim().split(/\s+/).map(Number);
+    if (values.some(value => !Number.isFinite(value))) return null;
+    const rounded = values.map(value => Number(value.toFixed(4)));
+    tokens.push(match[1] !== undefined ? rounded : rounded[0]);
+  }
+
+  // Drop the time
+  return tokens.length > 1 ? tokens.slice(1) : null;
+}
+
+// ============================================
+// Display
+// ============================================
+
+// Jmol atom expression for the target, e.g. [HIS]64.CA and chain="A"
+export function targetExpression(target: AnnotationTarget): string {
+  let expression = `[${target.residueName}]${target.residueNumber}`;
+  if (target.insertionCode) expression += `^${target.insertionCode}`;
+  if (target.scope === 'atom' && target.atomName) expression += `.${target.atomName}`;
+  if (target.chain) expression += ` and chain="${target.chain}"`;
+  return expression;
+}
+
+// Short label for the comment thread, e.g. HIS64:A or HIS64:A CA
+export function describeTarget(target: AnnotationTarget): string {
+  const residue = `${target.residueName}${target.residueNumber}${target.insertionCode ?? ''}`;
+  const chain = target.chain ? `:${target.chain}` : '';
+  const atom = target.scope === 'atom' && target.atomName ? ` ${target.atomName}` : '';
+  return `${residue}${chain}${atom}`;
+}
+
+// Shows the target as sticks with selection halos
+export function highlightScript(target: AnnotationTarget): string {
+  const expression = targetExpression(target);
+  return `
+    select within(group, ${expression});
+    wireframe 0.15; spacefill 23%;
+    set selectionHalos on;
+    select ${expression};
+  `;
+}
+
+// Turns the camera to a captured orientation over one second. Also used for
+// saved views.
+export function orientationScript(orientation: OrientationToken[]): string {
+  const args = orientation.map(token =>
+    Array.isArray(token) ? `{${token.map(formatNumber).join(' ')}}` : formatNumber(token)
+  );
+  return `moveto 1.0 ${args.join(' ')};`;
+}
+
+// Turns the camera back to where the comment was written and highlights the
+// target. Without a stored orientation it zooms to the target instead.
+export function focusScript(annotation: MessageAnnotation): string {
+  const { target, orientation } = annotation;
+  const camera = orientation?.length
+    ? orientationScript(orientation)
+    : `zoomTo 1.0 {${targetExpression(target)}} 0;`;
+  return `${highlightScript(target)}\n${camera}`;
+}
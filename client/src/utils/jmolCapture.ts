@@ -0,0 +1,83 @@
+// Images straight from a JSmol applet. Jmol's "image" property renders the
+// current view and returns it base64-encoded, so nothing goes through the
+// browser's download path. As PNGJ the PNG also carries the structure and the
+// state script in an appended zip - the same file `write pngj` saves - so it
+// can be uploaded as a model. PNG and JPG are plain images, e.g. thumbnails.
+
+// ============================================
+// Types
+// ============================================
+
+type JmolApplet = Parameters<Window['Jmol']['getPropertyAsString']>[0];
+
+export type CaptureFormat = 'PNGJ' | 'PNG' | 'JPG';
+
+export interface CaptureOptions {
+  format?: CaptureFormat;
+  // Rendered size in pixels; the applet's own size when left out
+  width?: number;
+  height?: number;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+// How each format's base64 starts, to tell image data from Jmol's error text
+const BASE64_SIGNATURES: Record<CaptureFormat, string> = {
+  PNGJ: 'iVBORw0KGgo',
+  PNG: 'iVBORw0KGgo',
+  JPG: '/9j/'
+};
+
+const MIME_TYPES: Record<CaptureFormat, string> = {
+  PNGJ: 'image/png',
+  PNG: 'image/png',
+  JPG: 'image/jpeg'
+};
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// ============================================
+// Capture
+// ============================================
+
+// Renders the applet's current view. Rendering blocks the page for a moment,
+// so it waits a frame first to let progress indicators paint.
+export async function captureImage(applet: JmolApplet, options: CaptureOptions = {}): Promise<Blob> {
+  if (!window.Jmol) {
+    throw new Error('JSmol library not loaded');
+  }
+
+  const format = options.format ?? 'PNGJ';
+  const params = [`type=${format}`];
+  if (options.width) params.push(`width=${options.width}`);
+  if (options.height) params.push(`height=${options.height}`);
+
+  await new Promise(resolve => requestAnimationFrame(resolve));
+
+  const result = window.Jmol.getPropertyAsString(applet, 'image', params.join(';'));
+  if (typeof result !== 'string' || !result.startsWith(BASE64_SIGNATURES[format])) {
+    throw new Error(`JSmol could not capture the view${result ? `: ${result}` : ''}`);
+  }
+
+  return new Blob([base64ToBytes(result)], { type: MIME_TYPES[format] });
+}
+
+// The current view as a file named after the model, e.g. for uploading
+export async function captureFile(applet: JmolApplet, modelName: string, options: CaptureOptions = {}): Promise<File> {
+  const format = options.format ?? 'PNGJ';
+  const blob = await captureImage(applet, options);
+
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/[:-]/g, '');
+  const safeName = modelName.replace(/[^a-zA-Z0-9]/g, '_');
+  const extension = format === 'JPG' ? 'jpg' : 'png';
+  return new File([blob], `${safeName}_${timestamp}.${extension}`, { type: blob.type });
+}
@@ -0,0 +1,88 @@
+// Measurements made in JSmol. Jmol picks the atoms itself in its measure
+// picking modes and keeps the results in its state, so they are saved in the
+// PNGJ like any other display setting. This reads them back for the
+// measurement table and the CSV export.
+
+// ============================================
+// Types
+// ============================================
+
+type JmolApplet = Parameters<Window['Jmol']['getPropertyAsJSON']>[0];
+
+export type MeasureMode = 'distance' | 'angle' | 'dihedral';
+
+export interface Measurement {
+  // Jmol's own 1-based measurement number, used to delete it
+  number: number;
+  type: MeasureMode;
+  // Jmol's atom descriptions, e.g. [HIS]64:A.NE2 #512
+  atoms: string[];
+  value: number;
+  // As Jmol labels it, e.g. 2.85 Å
+  label: string;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+// Atoms to click for each kind of measurement, and Jmol's picking keyword
+export const MEASURE_MODES: Record<MeasureMode, { atoms: number; picking: string; unit: string }> = {
+  distance: { atoms: 2, picking: 'distance', unit: 'Å' },
+  angle: { atoms: 3, picking: 'angle', unit: '°' },
+  dihedral: { atoms: 4, picking: 'torsion', unit: '°' }
+};
+
+const MODE_BY_ATOM_COUNT: Record<number, MeasureMode> = { 2: 'distance', 3: 'angle', 4: 'dihedral' };
+
+function escapeCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// ============================================
+// Reading
+// ============================================
+
+// The applet's current measurements, in the order Jmol numbers them
+export function readMeasurements(applet: JmolApplet): Measurement[] {
+  let info: unknown;
+  try {
+    const json = JSON.parse(window.Jmol.getPropertyAsJSON(applet, 'measurementInfo'));
+    info = json?.measurementInfo ?? json;
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(info)) return [];
+
+  return info.flatMap((item, index): Measurement[] => {
+    const atoms = Array.isArray(item?.atoms)
+      ? item.atoms.map((atom: { info?: string }) => String(atom?.info ?? ''))
+      : [];
+    const type = MODE_BY_ATOM_COUNT[atoms.length];
+    const value = Number(item?.value);
+    if (!type || !Number.isFinite(value)) return [];
+
+    return [{
+      number: index + 1,
+      type,
+      atoms,
+      value,
+      label: typeof item.strMeasurement === 'string' ? item.strMeasurement : `${value.toFixed(2)} ${MEASURE_MODES[type].unit}`
+    }];
+  });
+}
+
+// ============================================
+// Export
+// ============================================
+
+// One row per measurement, for lab reports
+export function measurementsToCsv(measurements: Measurement[]): string {
+  const rows: (string | number)[][] = [['Type', 'Atom 1', 'Atom 2', 'Atom 3', 'Atom 4', 'Value', 'Unit']];
+  for (const m of measurements) {
+    const atoms = [0, 1, 2, 3].map(i => m.atoms[i] ?? '');
+    rows.push([m.type, ...atoms, Number(m.value.toFixed(3)), MEASURE_MODES[m.type].unit]);
+  }
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,110 @@
+// Sequence of the model loaded in JSmol, read residue by residue from the
+// CA (protein) or P (nucleic acid) atoms of the current model. Residues are
+// identified by the index of that atom, which is also how selections are
+// passed between the sequence panel and the applet.
+
+// ============================================
+// Types
+// ============================================
+
+type JmolApplet = Parameters<Window['Jmol']['evaluateVar']>[0];
+
+export type SecondaryStructure = 'helix' | 'sheet' | 'turn' | 'none';
+
+export interface SequenceResidue {
+  atomIndex: number;
+  residueName: string;
+  // One-letter code, ? when Jmol has none
+  code: string;
+  residueNumber: number;
+  insertionCode: string;
+  structure: SecondaryStructure;
+}
+
+export interface SequenceChain {
+  chain: string;
+  residues: SequenceResidue[];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const RESIDUE_ATOMS = '((protein and *.CA) or (nucleic and *.P)) and thisModel';
+
+// Jmol's numeric "structure" atom property
+const STRUCTURES: Record<number, SecondaryStructure> = { 1: 'turn', 2: 'sheet', 3: 'helix' };
+
+// Jmol returns a bare value instead of a list for a single atom
+function list(applet: JmolApplet, expression: string): unknown[] {
+  const value = window.Jmol.evaluateVar(applet, expression);
+  if (Array.isArray(value)) return value;
+  return value === null || value === undefined || value === '' ? [] : [value];
+}
+
+// ============================================
+// Reading
+// ============================================
+
+export function readSequence(applet: JmolApplet): SequenceChain[] {
+  const atoms = `{${RESIDUE_ATOMS}}`;
+  const atomIndexes = list(applet, `${atoms}.atomIndex.all`).map(Number);
+  const chains = list(applet, `${atoms}.chain.all`).map(String);
+  const names = list(applet, `${atoms}.group.all`).map(String);
+  const codes = list(applet, `${atoms}.group1.all`).map(String);
+  const numbers = list(applet, `${atoms}.resno.all`).map(Number);
+  const insertions = list(applet, `${atoms}.insertion.all`).map(String);
+  const structures = list(applet, `${atoms}.structure.all`).map(Number);
+
+  // A failed lookup would leave the lists out of step
+  const count = atomIndexes.length;
+  if ([chains, names, codes, numbers, insertions, structures].some(values => values.length !== count)) {
+    return [];
+  }
+
+  const result: SequenceChain[] = [];
+  for (let i = 0; i < count; i++) {
+    let chain = result[result.length - 1];
+    if (!chain || chain.chain !== chains[i]) {
+      chain = { chain: chains[i], residues: [] };
+      result.push(chain);
+    }
+    chain.residues.push({
+      atomIndex: atomIndexes[i],
+      residueName: names[i],
+      code: /^[A-Za-z]$/.test(codes[i]) ? codes[i].toUpperCase() : '?',
+      residueNumber: numbers[i],
+      insertionCode: insertions[i].trim(),
+      structure: STRUCTURES[structures[i]] ?? 'none'
+    });
+  }
+  return result;
+}
+
+// Residues with at least one selected atom. Jmol selects everything after
+// loading, so a full selection counts as none.
+export function readSelectedResidues(applet: JmolApplet, residueCount: number): Set<number> {
+  const selected = list(applet, `{within(group, selected) and ${RESIDUE_ATOMS}}.atomIndex.all`).map(Number);
+  return selected.length >= residueCount ? new Set() : new Set(selected);
+}
+
+// The residue a clicked atom belongs to, or null for e.g. water and ligands
+export function residueOfAtom(applet: JmolApplet, atomIndex: number): number | null {
+  const indexes = list(applet, `{within(group, {atomIndex=${Math.trunc(atomIndex)}}) and ${RESIDUE_ATOMS}}.atomIndex.all`);
+  const index = Number(indexes[0]);
+  return indexes.length === 1 && Number.isInteger(index) ? index : null;
+}
+
+// ============================================
+// Selecting
+// ============================================
+
+// Selects whole residues with selection halos, or everything without them
+// when no residues are given, so display and color commands that follow
+// apply to the selection
+export function selectResiduesScript(atomIndexes: Iterable<number>): string {
+  const indexes = [...atomIndexes].map(i => Math.trunc(i));
+  return indexes.length
+    ? `select within(group, ({${indexes.join(' ')}})); set selectionHalos on;`
+    : 'select all; set selectionHalos off;';
+}
@@ -0,0 +1,145 @@
+import JSZip from 'jszip';
+
+// ============================================
+// Types
+// ============================================
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// First words of state script commands that change what is shown or how it
+// looks. Everything else (window size, file loading, perspective) is noise
+// when comparing two versions of a model.
+// The client and server are separate packages, so this list and
+// extractDisplayCommands are mirrored in server/src/services/pngjService.ts,
+// which stores the commands of each upload. Keep the two in sync.
+const DISPLAY_COMMANDS = new Set([
+  'select', 'color', 'colour', 'define', 'display', 'hide', 'restrict',
+  'cartoon', 'cartoons', 'ribbon', 'ribbons', 'trace', 'backbone', 'rockets',
+  'strands', 'meshribbon', 'meshribbons', 'wireframe', 'spacefill', 'cpk',
+  'dots', 'geosurface', 'isosurface', 'halos', 'stars', 'ellipsoid',
+  'polyhedra', 'label', 'labels', 'ssbonds', 'hbonds', 'measure', 'measures',
+  'background'
+]);
+
+// ============================================
+// PNGJ Parsing
+// ============================================
+
+// PNGJ files are a regular PNG with a zip archive appended after the IEND
+// chunk. Walk the PNG chunks and return the offset just past IEND, or -1 if
+// the file isn't a well-formed PNG.
+function findZipStart(bytes: Uint8Array): number {
+  if (bytes.length < PNG_SIGNATURE.length || PNG_SIGNATURE.some((b, i) => bytes[i] !== b)) {
+    return -1;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = PNG_SIGNATURE.length;
+  while (pos + 12 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    pos += 12 + length;
+    if (type === 'IEND') {
+      return pos <= bytes.length ? pos : -1;
+    }
+  }
+  return -1;
+}
+
+export async function fetchStateScript(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('Failed to download model file');
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const zipStart = findZipStart(bytes);
+  if (zipStart < 0 || zipStart >= bytes.length) {
+    throw new Error('File does not contain an embedded Jmol state');
+  }
+
+  const zip = await JSZip.loadAsync(bytes.subarray(zipStart));
+  const entry = zip.file('state.spt') ?? zip.file(/\.spt$/i)[0];
+  if (!entry) {
+    throw new Error('File does not contain an embedded Jmol state');
+  }
+
+  return entry.async('string');
+}
+
+// ============================================
+// State Script Comparison
+// ============================================
+
+export function extractDisplayCommands(script: string): string[] {
+  const commands: string[] = [];
+  let inInlineData = false;
+
+  for (const rawLine of script.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    // Skip structure data embedded with `data "model" ... end "model"`
+    if (inInlineData) {
+      if (/^end\s+"/i.test(line)) inInlineData = false;
+      continue;
+    }
+    if (/data\s+"[^"]*"\s*$/i.test(line) && !/^end\s+"/i.test(line)) {
+      inInlineData = true;
+      continue;
+    }
+
+    if (!line || line.startsWith('#')) continue;
+
+    for (const statement of line.split(';')) {
+      // Drop version markers like /*16.2*/ so they don't show up as changes
+      const trimmed = statement.replace(/\/\*.*?\*\//g, '').replace(/\s+/g, ' ').trim();
+      const keyword = trimmed.split(/\s+/)[0]?.toLowerCase();
+      if (keyword && DISPLAY_COMMANDS.has(keyword)) {
+        commands.push(trimmed);
+      }
+    }
+  }
+
+  return commands;
+}
+
+// Line diff based on the longest common subsequence of the two command lists
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  const rows = before.length;
+  const cols = after.length;
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      result.push({ type: 'same', text: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: before[i] });
+      i++;
+    } else {
+      result.push({ type: 'added', text: after[j] });
+      j++;
+    }
+  }
+  while (i < rows) result.push({ type: 'removed', text: before[i++] });
+  while (j < cols) result.push({ type: 'added', text: after[j++] });
+
+  return result;
+}
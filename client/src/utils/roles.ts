@@ -0,0 +1,20 @@
+import type { Role } from '../context/AuthContext'
+
+// ============================================
+// Helpers
+// ============================================
+
+export type Permission = 'approveSubmissions' | 'releaseGrades';
+
+// Mirrors the server: TAs review like instructors but leave approving
+// submissions and releasing grades to them
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  ADMIN: ['approveSubmissions', 'releaseGrades'],
+  INSTRUCTOR: ['approveSubmissions', 'releaseGrades'],
+  TA: [],
+  STUDENT: []
+};
+
+export function hasPermission(role: Role | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "passwordResetExpires" TIMESTAMP(3),
+ADD COLUMN     "passwordResetToken" TEXT;
+
+-- AlterTable
+ALTER TABLE "groups" ADD COLUMN     "lastReviewRequestedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "submissionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "message_read_status" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "submissionId" TEXT,
+    "lastReadAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "message_read_status_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_read_status_userId_idx" ON "message_read_status"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_read_status_userId_groupId_submissionId_key" ON "message_read_status"("userId", "groupId", "submissionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_passwordResetToken_key" ON "users"("passwordResetToken");
+
+-- CreateIndex
+CREATE INDEX "messages_submissionId_createdAt_idx" ON "messages"("submissionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_read_status" ADD CONSTRAINT "message_read_status_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_read_status" ADD CONSTRAINT "message_read_status_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
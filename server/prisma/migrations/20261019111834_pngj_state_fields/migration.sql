@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "submission_versions" ADD COLUMN     "atomCount" INTEGER,
+ADD COLUMN     "displayCommands" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "embeddedPdbId" TEXT,
+ADD COLUMN     "hasStructure" BOOLEAN,
+ADD COLUMN     "structureSource" TEXT;
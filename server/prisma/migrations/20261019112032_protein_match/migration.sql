@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "ProteinMatchStatus" AS ENUM ('MATCH', 'MISMATCH', 'UNKNOWN');
+
+-- AlterTable
+ALTER TABLE "submission_versions" ADD COLUMN     "proteinMatch" "ProteinMatchStatus",
+ADD COLUMN     "proteinMatchDetail" TEXT;
@@ -0,0 +1,67 @@
+-- AlterTable
+ALTER TABLE "submissions" ADD COLUMN     "gradeReleasedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "rubric_criteria" (
+    "id" TEXT NOT NULL,
+    "modelTemplateId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "maxPoints" INTEGER NOT NULL,
+    "orderIndex" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rubric_criteria_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rubric_levels" (
+    "id" TEXT NOT NULL,
+    "criterionId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "points" INTEGER NOT NULL,
+    "description" TEXT,
+    "orderIndex" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "rubric_levels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rubric_scores" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "criterionId" TEXT NOT NULL,
+    "levelId" TEXT,
+    "points" INTEGER NOT NULL,
+    "comment" TEXT,
+    "gradedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rubric_scores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rubric_criteria_modelTemplateId_idx" ON "rubric_criteria"("modelTemplateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rubric_scores_submissionId_criterionId_key" ON "rubric_scores"("submissionId", "criterionId");
+
+-- AddForeignKey
+ALTER TABLE "rubric_criteria" ADD CONSTRAINT "rubric_criteria_modelTemplateId_fkey" FOREIGN KEY ("modelTemplateId") REFERENCES "model_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_levels" ADD CONSTRAINT "rubric_levels_criterionId_fkey" FOREIGN KEY ("criterionId") REFERENCES "rubric_criteria"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_scores" ADD CONSTRAINT "rubric_scores_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_scores" ADD CONSTRAINT "rubric_scores_criterionId_fkey" FOREIGN KEY ("criterionId") REFERENCES "rubric_criteria"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_scores" ADD CONSTRAINT "rubric_scores_levelId_fkey" FOREIGN KEY ("levelId") REFERENCES "rubric_levels"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_scores" ADD CONSTRAINT "rubric_scores_gradedById_fkey" FOREIGN KEY ("gradedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
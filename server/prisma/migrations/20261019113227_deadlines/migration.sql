@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "model_templates" ADD COLUMN     "closesAt" TIMESTAMP(3),
+ADD COLUMN     "dueAt" TIMESTAMP(3),
+ADD COLUMN     "opensAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "submissions" ADD COLUMN     "isLate" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "submission_versions" ADD COLUMN     "isLate" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "deadline_extensions" (
+    "id" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "modelTemplateId" TEXT NOT NULL,
+    "dueAt" TIMESTAMP(3),
+    "closesAt" TIMESTAMP(3),
+    "reason" TEXT,
+    "grantedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "deadline_extensions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "deadline_extensions_groupId_modelTemplateId_key" ON "deadline_extensions"("groupId", "modelTemplateId");
+
+-- AddForeignKey
+ALTER TABLE "deadline_extensions" ADD CONSTRAINT "deadline_extensions_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deadline_extensions" ADD CONSTRAINT "deadline_extensions_modelTemplateId_fkey" FOREIGN KEY ("modelTemplateId") REFERENCES "model_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "deadline_extensions" ADD CONSTRAINT "deadline_extensions_grantedById_fkey" FOREIGN KEY ("grantedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "EmailDelivery" AS ENUM ('IMMEDIATE', 'DIGEST', 'OFF');
+
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "emailedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "email" "EmailDelivery" NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_preferences_userId_type_key" ON "notification_preferences"("userId", "type");
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
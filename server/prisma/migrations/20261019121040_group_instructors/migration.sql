@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "group_instructors" (
+    "id" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "group_instructors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_instructors_groupId_userId_key" ON "group_instructors"("groupId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "group_instructors" ADD CONSTRAINT "group_instructors_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_instructors" ADD CONSTRAINT "group_instructors_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "groups" ADD COLUMN     "joinCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "invites" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "role" "Role" NOT NULL,
+    "email" TEXT,
+    "maxUses" INTEGER,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invites_token_key" ON "invites"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "groups_joinCode_key" ON "groups"("joinCode");
+
+-- AddForeignKey
+ALTER TABLE "invites" ADD CONSTRAINT "invites_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
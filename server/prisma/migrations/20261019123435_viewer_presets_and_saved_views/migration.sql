@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "viewer_presets" (
+    "id" TEXT NOT NULL,
+    "modelTemplateId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "script" TEXT NOT NULL,
+    "orderIndex" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "viewer_presets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "saved_views" (
+    "id" TEXT NOT NULL,
+    "submissionId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "orientation" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "saved_views_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "viewer_presets_modelTemplateId_idx" ON "viewer_presets"("modelTemplateId");
+
+-- CreateIndex
+CREATE INDEX "saved_views_submissionId_idx" ON "saved_views"("submissionId");
+
+-- AddForeignKey
+ALTER TABLE "viewer_presets" ADD CONSTRAINT "viewer_presets_modelTemplateId_fkey" FOREIGN KEY ("modelTemplateId") REFERENCES "model_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "saved_views" ADD CONSTRAINT "saved_views_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "saved_views" ADD CONSTRAINT "saved_views_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -4,6 +4,9 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import dotenv from 'dotenv';
 import routes from './routes/index.js';
+import { startDigestScheduler } from './services/digestService.js';
+import { startArchivePurgeScheduler } from './services/termArchiveService.js';
+import { startSessionCleanupScheduler } from './services/sessionService.js';
 
 dotenv.config();
 
@@ -52,4 +55,7 @@ app.listen(PORT, () => {
   if (isProduction) {
     console.log('Serving frontend from public folder');
   }
+  startDigestScheduler();
+  startArchivePurgeScheduler();
+  startSessionCleanupScheduler();
 });
@@ -0,0 +1,15 @@
+// Content-Disposition headers (RFC 6266) for user-supplied file names
+
+// encodeURIComponent leaves these alone, but RFC 5987 doesn't allow them
+function encodeRfc5987(value: string): string {
+  return encodeURIComponent(value).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// filename= gets a plain ASCII fallback (quotes, backslashes and anything
+// outside printable ASCII become _) for old clients, and filename*= the exact
+// name as UTF-8. Node rejects headers with characters outside latin1, so the
+// raw name can't be used.
+export function contentDisposition(type: 'inline' | 'attachment', fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeRfc5987(fileName)}`;
+}
@@ -0,0 +1,82 @@
+// CSV helpers (RFC 4180)
+
+export type CsvValue = string | number | null | undefined;
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  // Names and other free text are prefixed with ' so a value like
+  // =HYPERLINK(...) opens as text; numbers are written as they are
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Rows are joined with CRLF as the RFC specifies; spreadsheet and LMS
+// importers accept it on every platform
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+}
+
+export interface CsvRow {
+  line: number; // 1-based line the record starts on, for error messages
+  fields: string[];
+}
+
+// Parses quoted fields (with doubled quotes and embedded commas or line
+// breaks) and either line ending. Blank lines are skipped; fields are not
+// trimmed.
+export function parseCsv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '') {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  // Excel adds a byte order mark to UTF-8 exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) endRow();
+  return rows;
+}
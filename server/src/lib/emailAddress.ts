@@ -0,0 +1,13 @@
+// Account email addresses. New accounts store them trimmed and lowercased, and
+// lookups ignore case so accounts registered before that (e.g. as
+// Jane@School.edu) are still found and never get a duplicate.
+
+import { Prisma } from '@prisma/client';
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function emailWhere(email: string): Prisma.UserWhereInput {
+  return { email: { equals: normalizeEmail(email), mode: 'insensitive' } };
+}
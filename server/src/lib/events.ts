@@ -0,0 +1,105 @@
+// Server-Sent Events hub for live updates (new messages, read receipts,
+// submission status changes, typing indicators, notifications).
+//
+// Each open browser tab holds one long-lived GET /messages/stream response.
+// Group events are only written to clients that may see that group - the same
+// rule hasGroupAccess applies to the REST endpoints. User events go to that
+// user's own connections.
+// Clients live in process memory, so this assumes a single server process.
+
+import { Response } from 'express';
+
+interface EventUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+}
+
+// submissionId is null for group chat and set for submission comments
+export type RealtimeEvent =
+  | { type: 'message'; groupId: string; submissionId: string | null; message: unknown }
+  | { type: 'read'; groupId: string; submissionId: string | null; userId: string; lastReadAt: string; user: EventUser }
+  | { type: 'typing'; groupId: string; submissionId: string | null; user: EventUser }
+  | { type: 'submission'; groupId: string; submissionId: string; modelTemplateId: string; status: string };
+
+// Delivered only to one user's own connections
+export type UserEvent = { type: 'notification'; notification: unknown };
+
+interface StreamClient {
+  userId: string;
+  sessionId: string;
+  groupIds: Set<string> | null; // null = every group (admins)
+  res: Response;
+}
+
+// Comment lines keep proxies from closing idle connections
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+const clients = new Set<StreamClient>();
+
+// Turns the response into an event stream and keeps it registered until the
+// browser disconnects
+export function openEventStream(res: Response, userId: string, sessionId: string, groupIds: string[] | null) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable nginx response buffering
+  });
+  // Ask EventSource to wait 5s before reconnecting after a drop
+  res.write('retry: 5000\n\n');
+
+  const client: StreamClient = {
+    userId,
+    sessionId,
+    groupIds: groupIds ? new Set(groupIds) : null,
+    res,
+  };
+  clients.add(client);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(client);
+  });
+}
+
+function formatEvent(event: RealtimeEvent | UserEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// Sends an event to every client with access to its group
+export function publishEvent(event: RealtimeEvent, options: { excludeUserId?: string } = {}) {
+  const payload = formatEvent(event);
+
+  for (const client of clients) {
+    if (client.userId === options.excludeUserId) continue;
+    if (client.groupIds && !client.groupIds.has(event.groupId)) continue;
+    client.res.write(payload);
+  }
+}
+
+// Sends an event to every open tab of one user
+export function publishUserEvent(userId: string, event: UserEvent) {
+  const payload = formatEvent(event);
+
+  for (const client of clients) {
+    if (client.userId === userId) {
+      client.res.write(payload);
+    }
+  }
+}
+
+// Ends a user's streams, e.g. after a logout or a role change. Browsers
+// reconnect on their own, which re-checks the session and the groups the user
+// may see.
+export function closeUserStreams(userId: string, options: { sessionId?: string; exceptSessionId?: string } = {}) {
+  for (const client of clients) {
+    if (client.userId !== userId) continue;
+    if (options.sessionId && client.sessionId !== options.sessionId) continue;
+    if (options.exceptSessionId && client.sessionId === options.exceptSessionId) continue;
+    client.res.end();
+  }
+}
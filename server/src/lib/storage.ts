@@ -0,0 +1,51 @@
+// Uploaded file storage. New uploads live in uploads/models and
+// uploads/literature; files of archived groups are moved to cold storage,
+// which keeps the same layout under COLD_STORAGE_DIR (e.g. a cheaper volume).
+
+import fs from 'fs';
+import path from 'path';
+
+export type UploadKind = 'models' | 'literature';
+
+const UPLOAD_BASE = path.join(process.cwd(), 'uploads');
+const COLD_STORAGE_BASE = process.env.COLD_STORAGE_DIR || path.join(UPLOAD_BASE, 'cold');
+
+export function coldStorageDir(kind: UploadKind): string {
+  return path.join(COLD_STORAGE_BASE, kind);
+}
+
+// Full path of a stored file, wherever it is now
+export function resolveUploadPath(kind: UploadKind, filePath: string): string {
+  const hotPath = path.join(UPLOAD_BASE, kind, filePath);
+  if (fs.existsSync(hotPath)) return hotPath;
+  const coldPath = path.join(COLD_STORAGE_BASE, kind, filePath);
+  return fs.existsSync(coldPath) ? coldPath : hotPath;
+}
+
+// rename() can't cross filesystems, so fall back to copy and delete
+function moveFile(from: string, to: string) {
+  fs.mkdirSync(path.dirname(to), { recursive: true });
+  try {
+    fs.renameSync(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    fs.copyFileSync(from, to);
+    fs.unlinkSync(from);
+  }
+}
+
+// Returns false if the file isn't in hot storage (missing, or already moved)
+export function moveToColdStorage(kind: UploadKind, filePath: string): boolean {
+  const hotPath = path.join(UPLOAD_BASE, kind, filePath);
+  if (!fs.existsSync(hotPath)) return false;
+  moveFile(hotPath, path.join(COLD_STORAGE_BASE, kind, filePath));
+  return true;
+}
+
+// Delete a stored file from either tier. Returns false if it wasn't found.
+export function removeUpload(kind: UploadKind, filePath: string): boolean {
+  const fullPath = resolveUploadPath(kind, filePath);
+  if (!fs.existsSync(fullPath)) return false;
+  fs.unlinkSync(fullPath);
+  return true;
+}
@@ -0,0 +1,94 @@
+// Minimal zip reader for archives held in memory
+// Supports stored and deflated entries, which covers the archives Jmol writes
+
+import zlib from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+// Largest entry read() will unpack unless the caller sets a lower limit. Covers
+// the biggest file the app stores (50MB literature PDFs) with room to spare.
+export const MAX_ENTRY_SIZE = 100 * 1024 * 1024;
+
+export interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  size: number;
+  read: () => Buffer;
+}
+
+// Locate the end-of-central-directory record (scans back past any archive comment)
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const minOffset = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let i = buffer.length - 22; i >= minOffset; i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Read the entries of a zip archive. The archive may be preceded by other data
+// (e.g. a PNG image) - offsets are adjusted the same way unzip does.
+// Returns null if the buffer contains no readable archive.
+// read() refuses entries that declare more than maxEntrySize bytes, and
+// inflation stops at the declared size, so a small crafted entry can't expand
+// into gigabytes.
+export function readZipEntries(buffer: Buffer, maxEntrySize = MAX_ENTRY_SIZE): ZipEntry[] | null {
+  const eocd = findEndOfCentralDirectory(buffer);
+  if (eocd < 0) return null;
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  const centralSize = buffer.readUInt32LE(eocd + 12);
+  const centralOffset = buffer.readUInt32LE(eocd + 16);
+
+  // Bytes in front of the archive that its recorded offsets don't account for
+  const prefix = eocd - (centralOffset + centralSize);
+  if (prefix < 0) return null;
+
+  const entries: ZipEntry[] = [];
+  let pos = centralOffset + prefix;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (pos + 46 > buffer.length || buffer.readUInt32LE(pos) !== CENTRAL_HEADER_SIGNATURE) {
+      return null;
+    }
+
+    const method = buffer.readUInt16LE(pos + 10);
+    const compressedSize = buffer.readUInt32LE(pos + 20);
+    const size = buffer.readUInt32LE(pos + 24);
+    const nameLength = buffer.readUInt16LE(pos + 28);
+    const extraLength = buffer.readUInt16LE(pos + 30);
+    const commentLength = buffer.readUInt16LE(pos + 32);
+    const localOffset = buffer.readUInt32LE(pos + 42) + prefix;
+    const name = buffer.toString('utf8', pos + 46, pos + 46 + nameLength);
+
+    entries.push({
+      name,
+      compressedSize,
+      size,
+      read: () => {
+        if (size > maxEntrySize) {
+          throw new Error(`Zip entry "${name}" is larger than ${maxEntrySize} bytes`);
+        }
+        if (buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+          throw new Error(`Invalid local header for zip entry "${name}"`);
+        }
+        const localNameLength = buffer.readUInt16LE(localOffset + 26);
+        const localExtraLength = buffer.readUInt16LE(localOffset + 28);
+        const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+        const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) return Buffer.from(data);
+        // Throws if the data inflates past its declared size
+        if (method === 8) return zlib.inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+        throw new Error(`Unsupported compression method ${method} for zip entry "${name}"`);
+      },
+    });
+
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
@@ -1,44 +1,88 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import { Role } from '@prisma/client';
+import { findActiveSession, verifyAccessToken } from '../services/sessionService.js';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-change-me';
+// Roles that review groups' work. TAs see the same groups as instructors but
+// can't take the permissions below.
+export const STAFF_ROLES: Role[] = ['INSTRUCTOR', 'TA'];
+
+export type Permission = 'approveSubmissions' | 'releaseGrades';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  ADMIN: ['approveSubmissions', 'releaseGrades'],
+  INSTRUCTOR: ['approveSubmissions', 'releaseGrades'],
+  TA: [],
+  STUDENT: [],
+};
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Roles as they read in messages: "an instructor", "a TA"
+export const ROLE_NAMES: Record<Role, string> = {
+  ADMIN: 'an admin',
+  INSTRUCTOR: 'an instructor',
+  TA: 'a TA',
+  STUDENT: 'a student',
+};
 
 export interface AuthRequest extends Request {
   user?: {
     userId: string;
     role: Role;
+    sessionId: string;
   };
 }
 
+// Checks the access token from the Authorization header and that its session
+// is still active. The role is read from the database, so changes apply to
+// the very next request.
 export const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
-  try {
-    let token: string | undefined;
-
-    // Check Authorization header first
-    const authHeader = req.headers.authorization;
-    if (authHeader?.startsWith('Bearer ')) {
-      token = authHeader.split(' ')[1];
-    }
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.split(' ')[1] : undefined;
+  return authenticateToken(token, req, res, next);
+};
 
-    // Fall back to query parameter (for file downloads/embeds)
-    if (!token && req.query.token) {
-      token = req.query.token as string;
-    }
+// authenticate for the event stream only. EventSource can't send headers, so
+// it may pass the token as ?token= instead. Tokens in URLs end up in logs and
+// browser history, so no other route accepts them (files use signed links).
+export const authenticateStream = (req: AuthRequest, res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.startsWith('Bearer ')
+    ? authHeader.split(' ')[1]
+    : typeof req.query.token === 'string' ? req.query.token : undefined;
+  return authenticateToken(token, req, res, next);
+};
 
+async function authenticateToken(token: string | undefined, req: AuthRequest, res: Response, next: NextFunction) {
+  try {
     if (!token) {
       res.status(401).json({ error: 'No token provided' });
       return;
     }
 
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string; role: Role };
+    let decoded: { userId: string; sessionId: string };
+    try {
+      decoded = verifyAccessToken(token);
+    } catch {
+      res.status(401).json({ error: 'Invalid token' });
+      return;
+    }
 
-    req.user = decoded;
+    const session = await findActiveSession(decoded.sessionId);
+    if (!session || session.userId !== decoded.userId) {
+      res.status(401).json({ error: 'Session has ended' });
+      return;
+    }
+
+    req.user = { userId: session.userId, role: session.user.role, sessionId: session.id };
     next();
   } catch (error) {
-    res.status(401).json({ error: 'Invalid token' });
+    console.error('Error authenticating request:', error);
+    res.status(500).json({ error: 'Failed to authenticate' });
   }
-};
+}
 
 export const requireRole = (...roles: Role[]) => {
   return (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -55,3 +99,19 @@ export const requireRole = (...roles: Role[]) => {
     next();
   };
 };
+
+export const requirePermission = (permission: Permission) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    if (!hasPermission(req.user.role, permission)) {
+      res.status(403).json({ error: 'Insufficient permissions' });
+      return;
+    }
+
+    next();
+  };
+};
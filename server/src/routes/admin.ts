@@ -1,10 +1,30 @@
 import { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import archiver from 'archiver';
+import multer from 'multer';
+import { Prisma } from '@prisma/client';
 import fs from 'fs';
 import path from 'path';
-import { authenticate, requireRole, AuthRequest } from '../middleware/auth.js';
+import { authenticate, requireRole, AuthRequest, STAFF_ROLES } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
+import { emailWhere, normalizeEmail } from '../lib/emailAddress.js';
+import { getRubric, replaceRubric, validateRubric, RubricCriterionInput } from '../services/gradingService.js';
+import { parseDeadline, validateDeadlines, Deadlines } from '../services/deadlineService.js';
+import { notifyInBackground } from '../services/notificationService.js';
+import { readArchive, restoreArchive, writeArchive } from '../services/archiveService.js';
+import {
+  archiveGroups,
+  getArchivalStatus,
+  previewArchival,
+  purgeArchivedGroups,
+  ARCHIVED_GROUP_ERROR,
+} from '../services/termArchiveService.js';
+import { coldStorageDir } from '../lib/storage.js';
+import { closeUserStreams } from '../lib/events.js';
+import { importRoster, validateGroupSize } from '../services/rosterService.js';
+import { applyGroupImport, planGroupImport } from '../services/groupImportService.js';
+import { createInvite, generateJoinCode, inviteUrl, isInviteUsable, parseInviteInput } from '../services/inviteService.js';
+import { revokeUserSessions } from '../services/sessionService.js';
+import { getViewerPresets, replaceViewerPresets, validateViewerPresets, ViewerPresetInput } from '../services/viewerService.js';
 
 // File storage paths
 const UPLOAD_BASE = path.join(process.cwd(), 'uploads');
@@ -14,23 +34,462 @@ const LITERATURE_DIR = path.join(UPLOAD_BASE, 'literature');
 // Store confirmation codes temporarily (in production, use Redis or similar)
 const confirmationCodes = new Map<string, { code: string; expiresAt: Date }>();
 
+// Archives are read in memory, as the zip reader needs the whole file
+const archiveUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (path.extname(file.originalname).toLowerCase() === '.zip') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only .zip archives can be restored'));
+    }
+  },
+  limits: { fileSize: 500 * 1024 * 1024 }, // 500MB limit
+});
+
 const router = Router();
 
 // All admin routes require authentication and ADMIN role
 router.use(authenticate);
 router.use(requireRole('ADMIN'));
 
+// ============================================
+// TERMS & COURSES
+// ============================================
+
+const COURSE_INCLUDE = {
+  instructors: {
+    include: {
+      user: {
+        select: { id: true, email: true, firstName: true, lastName: true },
+      },
+    },
+  },
+  _count: {
+    select: { groups: true, modelTemplates: true },
+  },
+} as const;
+
+// Parse the optional startsAt/endsAt of a term. Fields that weren't sent are
+// left undefined so updates don't clear them.
+function parseTermDates(body: Record<string, unknown>): { startsAt?: Date | null; endsAt?: Date | null } | string {
+  const dates: { startsAt?: Date | null; endsAt?: Date | null } = {};
+  for (const field of ['startsAt', 'endsAt'] as const) {
+    const value = parseDeadline(body[field]);
+    if (value === 'invalid') return `Invalid date for ${field}`;
+    if (value !== undefined) dates[field] = value;
+  }
+  return dates;
+}
+
+// Checks a courseId sent with a group or template; empty means no course.
+// Returns an error message or null.
+async function validateCourseId(courseId: unknown): Promise<string | null> {
+  if (courseId === undefined || courseId === null || courseId === '') return null;
+  if (typeof courseId !== 'string') return 'Invalid course';
+  const course = await prisma.course.findUnique({ where: { id: courseId } });
+  return course ? null : 'Course not found';
+}
+
+// Get all terms with their courses, newest first
+router.get('/terms', async (req: Request, res: Response) => {
+  try {
+    const terms = await prisma.term.findMany({
+      orderBy: [{ startsAt: 'desc' }, { createdAt: 'desc' }],
+      include: {
+        courses: {
+          orderBy: [{ name: 'asc' }, { section: 'asc' }],
+          include: COURSE_INCLUDE,
+        },
+      },
+    });
+
+    // Groups and templates from before courses existed
+    const [unassignedGroups, unassignedTemplates] = await Promise.all([
+      prisma.group.count({ where: { courseId: null } }),
+      prisma.modelTemplate.count({ where: { courseId: null } }),
+    ]);
+
+    res.json({ terms, unassigned: { groups: unassignedGroups, modelTemplates: unassignedTemplates } });
+  } catch (error) {
+    console.error('Error fetching terms:', error);
+    res.status(500).json({ error: 'Failed to fetch terms' });
+  }
+});
+
+// Create term
+router.post('/terms', async (req: Request, res: Response) => {
+  try {
+    const { name } = req.body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ error: 'Term name is required' });
+      return;
+    }
+    const dates = parseTermDates(req.body);
+    if (typeof dates === 'string') {
+      res.status(400).json({ error: dates });
+      return;
+    }
+
+    const term = await prisma.term.create({
+      data: { name: name.trim(), ...dates },
+    });
+    res.status(201).json(term);
+  } catch (error) {
+    console.error('Error creating term:', error);
+    res.status(500).json({ error: 'Failed to create term' });
+  }
+});
+
+// Update term
+router.put('/terms/:id', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { name } = req.body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      res.status(400).json({ error: 'Term name is required' });
+      return;
+    }
+    const dates = parseTermDates(req.body);
+    if (typeof dates === 'string') {
+      res.status(400).json({ error: dates });
+      return;
+    }
+
+    const existing = await prisma.term.findUnique({ where: { id } });
+    if (!existing) {
+      res.status(404).json({ error: 'Term not found' });
+      return;
+    }
+
+    const term = await prisma.term.update({
+      where: { id },
+      data: { name: name?.trim(), ...dates },
+    });
+    res.json(term);
+  } catch (error) {
+    console.error('Error updating term:', error);
+    res.status(500).json({ error: 'Failed to update term' });
+  }
+});
+
+// Delete term (only once its courses are gone)
+router.delete('/terms/:id', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const existing = await prisma.term.findUnique({ where: { id } });
+    if (!existing) {
+      res.status(404).json({ error: 'Term not found' });
+      return;
+    }
+
+    const courseCount = await prisma.course.count({ where: { termId: id } });
+    if (courseCount > 0) {
+      res.status(400).json({ error: 'Delete the courses in this term first' });
+      return;
+    }
+
+    await prisma.term.delete({ where: { id } });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting term:', error);
+    res.status(500).json({ error: 'Failed to delete term' });
+  }
+});
+
+// Create course
+router.post('/courses', async (req: Request, res: Response) => {
+  try {
+    const { termId, name, section } = req.body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      res.status(400).json({ error: 'Course name is required' });
+      return;
+    }
+
+    const term = typeof termId === 'string' ? await prisma.term.findUnique({ where: { id: termId } }) : null;
+    if (!term) {
+      res.status(404).json({ error: 'Term not found' });
+      return;
+    }
+
+    const course = await prisma.course.create({
+      data: {
+        termId,
+        name: name.trim(),
+        section: typeof section === 'string' && section.trim() ? section.trim() : null,
+      },
+      include: COURSE_INCLUDE,
+    });
+    res.status(201).json(course);
+  } catch (error) {
+    console.error('Error creating course:', error);
+    res.status(500).json({ error: 'Failed to create course' });
+  }
+});
+
+// Update course
+router.put('/courses/:id', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { name, section } = req.body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      res.status(400).json({ error: 'Course name is required' });
+      return;
+    }
+
+    const existing = await prisma.course.findUnique({ where: { id } });
+    if (!existing) {
+      res.status(404).json({ error: 'Course not found' });
+      return;
+    }
+
+    const course = await prisma.course.update({
+      where: { id },
+      data: {
+        name: name?.trim(),
+        ...(section !== undefined && {
+          section: typeof section === 'string' && section.trim() ? section.trim() : null,
+        }),
+      },
+      include: COURSE_INCLUDE,
+    });
+    res.json(course);
+  } catch (error) {
+    console.error('Error updating course:', error);
+    res.status(500).json({ error: 'Failed to update course' });
+  }
+});
+
+// Delete course and its model templates. Refused while it still has groups -
+// they would otherwise fall back to being visible to every instructor - and
+// while any submission uses its templates, since groups moved to another
+// course keep their submissions and deleting the templates would delete them.
+router.delete('/courses/:id', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const existing = await prisma.course.findUnique({ where: { id } });
+    if (!existing) {
+      res.status(404).json({ error: 'Course not found' });
+      return;
+    }
+
+    const groupCount = await prisma.group.count({ where: { courseId: id } });
+    if (groupCount > 0) {
+      res.status(400).json({ error: 'Move or delete the groups in this course first' });
+      return;
+    }
+
+    const submissionCount = await prisma.submission.count({
+      where: { modelTemplate: { courseId: id } },
+    });
+    if (submissionCount > 0) {
+      res.status(400).json({ error: 'Groups that moved to another course still have submissions for this course\'s model templates' });
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.modelTemplate.deleteMany({ where: { courseId: id } }),
+      prisma.course.delete({ where: { id } }),
+    ]);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting course:', error);
+    res.status(500).json({ error: 'Failed to delete course' });
+  }
+});
+
+// Set the instructors teaching a course (replaces the current list)
+router.put('/courses/:id/instructors', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { userIds } = req.body as { userIds: string[] };
+
+    if (!Array.isArray(userIds)) {
+      res.status(400).json({ error: 'userIds must be an array' });
+      return;
+    }
+
+    const course = await prisma.course.findUnique({ where: { id } });
+    if (!course) {
+      res.status(404).json({ error: 'Course not found' });
+      return;
+    }
+
+    const instructorCount = await prisma.user.count({
+      where: { id: { in: userIds }, role: { in: STAFF_ROLES } },
+    });
+    if (instructorCount !== new Set(userIds).size) {
+      res.status(400).json({ error: 'Only instructors and TAs can be assigned to a course' });
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.courseInstructor.deleteMany({ where: { courseId: id } }),
+      prisma.courseInstructor.createMany({
+        data: userIds.map((userId) => ({ courseId: id, userId })),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    res.json(await prisma.course.findUnique({ where: { id }, include: COURSE_INCLUDE }));
+  } catch (error) {
+    console.error('Error updating course instructors:', error);
+    res.status(500).json({ error: 'Failed to update course instructors' });
+  }
+});
+
+// Copy another course's model templates (with their rubrics and viewer
+// presets) into this one, e.g. to reuse last term's assignments. fromCourseId
+// null copies the templates that aren't in a course. Deadlines are not
+// copied - last term's dates would close the new templates straight away.
+router.post('/courses/:id/copy-templates', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const fromCourseId = (req.body.fromCourseId as string | null | undefined) || null;
+
+    if (fromCourseId === id) {
+      res.status(400).json({ error: 'Choose a different course to copy from' });
+      return;
+    }
+
+    const course = await prisma.course.findUnique({ where: { id } });
+    if (!course) {
+      res.status(404).json({ error: 'Course not found' });
+      return;
+    }
+
+    const sources = await prisma.modelTemplate.findMany({
+      where: { courseId: fromCourseId },
+      orderBy: { orderIndex: 'asc' },
+      include: {
+        rubric: {
+          orderBy: { orderIndex: 'asc' },
+          include: {
+            levels: { orderBy: { orderIndex: 'asc' } },
+          },
+        },
+        viewerPresets: { orderBy: { orderIndex: 'asc' } },
+      },
+    });
+    if (sources.length === 0) {
+      res.status(400).json({ error: 'That course has no model templates to copy' });
+      return;
+    }
+
+    // Copies go after the course's existing templates
+    const lastTemplate = await prisma.modelTemplate.findFirst({
+      where: { courseId: id },
+      orderBy: { orderIndex: 'desc' },
+    });
+    const firstIndex = (lastTemplate?.orderIndex ?? -1) + 1;
+
+    await prisma.$transaction(
+      sources.map((source, index) =>
+        prisma.modelTemplate.create({
+          data: {
+            courseId: id,
+            name: source.name,
+            description: source.description,
+            isActive: source.isActive,
+            orderIndex: firstIndex + index,
+            rubric: {
+              create: source.rubric.map((criterion) => ({
+                title: criterion.title,
+                description: criterion.description,
+                maxPoints: criterion.maxPoints,
+                orderIndex: criterion.orderIndex,
+                levels: {
+                  create: criterion.levels.map((level) => ({
+                    label: level.label,
+                    points: level.points,
+                    description: level.description,
+                    orderIndex: level.orderIndex,
+                  })),
+                },
+              })),
+            },
+            viewerPresets: {
+              create: source.viewerPresets.map((preset) => ({
+                name: preset.name,
+                description: preset.description,
+                script: preset.script,
+                orderIndex: preset.orderIndex,
+              })),
+            },
+          },
+        })
+      )
+    );
+
+    res.status(201).json({ success: true, copied: sources.length });
+  } catch (error) {
+    console.error('Error copying model templates:', error);
+    res.status(500).json({ error: 'Failed to copy model templates' });
+  }
+});
+
+// Move every group and template that isn't in a course into this one. Used
+// once to bring data from before courses existed into its course.
+router.post('/courses/:id/adopt-unassigned', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const course = await prisma.course.findUnique({ where: { id } });
+    if (!course) {
+      res.status(404).json({ error: 'Course not found' });
+      return;
+    }
+
+    const [groups, modelTemplates] = await prisma.$transaction([
+      prisma.group.updateMany({ where: { courseId: null }, data: { courseId: id } }),
+      prisma.modelTemplate.updateMany({ where: { courseId: null }, data: { courseId: id } }),
+    ]);
+
+    res.json({ success: true, groups: groups.count, modelTemplates: modelTemplates.count });
+  } catch (error) {
+    console.error('Error moving unassigned data into course:', error);
+    res.status(500).json({ error: 'Failed to move groups and templates into course' });
+  }
+});
+
 // ============================================
 // MODEL TEMPLATES
 // ============================================
 
+// Parse opensAt/dueAt/closesAt from a request body. Fields that weren't sent
+// are left undefined so updates don't clear them.
+function parseTemplateDeadlines(body: Record<string, unknown>): Partial<Deadlines> | string {
+  const deadlines: Partial<Deadlines> = {};
+  for (const field of ['opensAt', 'dueAt', 'closesAt'] as const) {
+    const value = parseDeadline(body[field]);
+    if (value === 'invalid') return `Invalid date for ${field}`;
+    if (value !== undefined) deadlines[field] = value;
+  }
+  return deadlines;
+}
+
 // Get all model templates
 router.get('/model-templates', async (req: Request, res: Response) => {
   try {
     const templates = await prisma.modelTemplate.findMany({
       orderBy: { orderIndex: 'asc' },
+      include: {
+        _count: {
+          select: { rubric: true, viewerPresets: true },
+        },
+      },
     });
-    res.json(templates);
+    res.json(templates.map(({ _count, ...template }) => ({
+      ...template,
+      rubricCriteriaCount: _count.rubric,
+      viewerPresetCount: _count.viewerPresets,
+    })));
   } catch (error) {
     console.error('Error fetching model templates:', error);
     res.status(500).json({ error: 'Failed to fetch model templates' });
@@ -40,16 +499,34 @@ router.get('/model-templates', async (req: Request, res: Response) => {
 // Create model template
 router.post('/model-templates', async (req: Request, res: Response) => {
   try {
-    const { name, description } = req.body;
+    const { name, description, courseId } = req.body;
 
-    // Get the highest orderIndex
+    const courseError = await validateCourseId(courseId);
+    if (courseError) {
+      res.status(400).json({ error: courseError });
+      return;
+    }
+
+    const deadlines = parseTemplateDeadlines(req.body);
+    if (typeof deadlines === 'string') {
+      res.status(400).json({ error: deadlines });
+      return;
+    }
+    const deadlineError = validateDeadlines(deadlines);
+    if (deadlineError) {
+      res.status(400).json({ error: deadlineError });
+      return;
+    }
+
+    // Get the highest orderIndex in the course
     const lastTemplate = await prisma.modelTemplate.findFirst({
+      where: { courseId: courseId || null },
       orderBy: { orderIndex: 'desc' },
     });
     const orderIndex = (lastTemplate?.orderIndex ?? -1) + 1;
 
     const template = await prisma.modelTemplate.create({
-      data: { name, description, orderIndex },
+      data: { name, description, courseId: courseId || null, orderIndex, ...deadlines },
     });
     res.status(201).json(template);
   } catch (error) {
@@ -64,9 +541,32 @@ router.put('/model-templates/:id', async (req: Request, res: Response) => {
     const id = req.params.id as string;
     const { name, description, orderIndex, isActive } = req.body;
 
+    const deadlines = parseTemplateDeadlines(req.body);
+    if (typeof deadlines === 'string') {
+      res.status(400).json({ error: deadlines });
+      return;
+    }
+
+    const existing = await prisma.modelTemplate.findUnique({ where: { id } });
+    if (!existing) {
+      res.status(404).json({ error: 'Model template not found' });
+      return;
+    }
+
+    // Check ordering against the dates that will be stored after the update
+    const deadlineError = validateDeadlines({
+      opensAt: deadlines.opensAt !== undefined ? deadlines.opensAt : existing.opensAt,
+      dueAt: deadlines.dueAt !== undefined ? deadlines.dueAt : existing.dueAt,
+      closesAt: deadlines.closesAt !== undefined ? deadlines.closesAt : existing.closesAt,
+    });
+    if (deadlineError) {
+      res.status(400).json({ error: deadlineError });
+      return;
+    }
+
     const template = await prisma.modelTemplate.update({
       where: { id },
-      data: { name, description, orderIndex, isActive },
+      data: { name, description, orderIndex, isActive, ...deadlines },
     });
     res.json(template);
   } catch (error) {
@@ -107,15 +607,113 @@ router.post('/model-templates/reorder', async (req: Request, res: Response) => {
   }
 });
 
+// Get a template's rubric
+router.get('/model-templates/:id/rubric', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const template = await prisma.modelTemplate.findUnique({ where: { id } });
+    if (!template) {
+      res.status(404).json({ error: 'Model template not found' });
+      return;
+    }
+
+    res.json(await getRubric(id));
+  } catch (error) {
+    console.error('Error fetching rubric:', error);
+    res.status(500).json({ error: 'Failed to fetch rubric' });
+  }
+});
+
+// Replace a template's rubric (criteria are saved in the order given)
+router.put('/model-templates/:id/rubric', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { criteria } = req.body;
+
+    const template = await prisma.modelTemplate.findUnique({ where: { id } });
+    if (!template) {
+      res.status(404).json({ error: 'Model template not found' });
+      return;
+    }
+
+    const validationError = validateRubric(criteria);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    res.json(await replaceRubric(id, criteria as RubricCriterionInput[]));
+  } catch (error) {
+    console.error('Error updating rubric:', error);
+    res.status(500).json({ error: 'Failed to update rubric' });
+  }
+});
+
+// Get a template's 3D viewer presets
+router.get('/model-templates/:id/viewer-presets', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const template = await prisma.modelTemplate.findUnique({ where: { id } });
+    if (!template) {
+      res.status(404).json({ error: 'Model template not found' });
+      return;
+    }
+
+    res.json(await getViewerPresets(id));
+  } catch (error) {
+    console.error('Error fetching viewer presets:', error);
+    res.status(500).json({ error: 'Failed to fetch viewer presets' });
+  }
+});
+
+// Replace a template's viewer presets (saved in the order given)
+router.put('/model-templates/:id/viewer-presets', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { presets } = req.body;
+
+    const template = await prisma.modelTemplate.findUnique({ where: { id } });
+    if (!template) {
+      res.status(404).json({ error: 'Model template not found' });
+      return;
+    }
+
+    const validationError = validateViewerPresets(presets);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    res.json(await replaceViewerPresets(id, presets as ViewerPresetInput[]));
+  } catch (error) {
+    console.error('Error updating viewer presets:', error);
+    res.status(500).json({ error: 'Failed to update viewer presets' });
+  }
+});
+
 // ============================================
 // GROUPS
 // ============================================
 
-// Get all groups with members
+// Get all active groups with members, or the archived ones with ?archived=true
 router.get('/groups', async (req: Request, res: Response) => {
   try {
+    const archived = req.query.archived === 'true';
     const groups = await prisma.group.findMany({
+      where: { archivedAt: archived ? { not: null } : null },
       include: {
+        course: {
+          select: {
+            id: true,
+            name: true,
+            section: true,
+            term: {
+              select: { id: true, name: true },
+            },
+          },
+        },
         members: {
           include: {
             user: {
@@ -123,6 +721,13 @@ router.get('/groups', async (req: Request, res: Response) => {
             },
           },
         },
+        instructors: {
+          include: {
+            user: {
+              select: { id: true, email: true, firstName: true, lastName: true },
+            },
+          },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -136,10 +741,16 @@ router.get('/groups', async (req: Request, res: Response) => {
 // Create group
 router.post('/groups', async (req: Request, res: Response) => {
   try {
-    const { name, proteinPdbId, proteinName } = req.body;
+    const { name, proteinPdbId, proteinName, courseId } = req.body;
+
+    const courseError = await validateCourseId(courseId);
+    if (courseError) {
+      res.status(400).json({ error: courseError });
+      return;
+    }
 
     const group = await prisma.group.create({
-      data: { name, proteinPdbId, proteinName },
+      data: { name, proteinPdbId, proteinName, courseId: courseId || null },
     });
     res.status(201).json(group);
   } catch (error) {
@@ -152,11 +763,23 @@ router.post('/groups', async (req: Request, res: Response) => {
 router.put('/groups/:id', async (req: Request, res: Response) => {
   try {
     const id = req.params.id as string;
-    const { name, proteinPdbId, proteinName } = req.body;
+    const { name, proteinPdbId, proteinName, courseId } = req.body;
+
+    const courseError = await validateCourseId(courseId);
+    if (courseError) {
+      res.status(400).json({ error: courseError });
+      return;
+    }
 
+    // Submissions stay with the group, but only the new course's templates are shown
     const group = await prisma.group.update({
       where: { id },
-      data: { name, proteinPdbId, proteinName },
+      data: {
+        name,
+        proteinPdbId,
+        proteinName,
+        ...(courseId !== undefined && { courseId: courseId || null }),
+      },
     });
     res.json(group);
   } catch (error) {
@@ -168,122 +791,249 @@ router.put('/groups/:id', async (req: Request, res: Response) => {
 // Delete group
 router.delete('/groups/:id', async (req: Request, res: Response) => {
   try {
-    const id = req.params.id as string;
-    await prisma.group.delete({ where: { id } });
+    const id = req.params.id as string;
+    await prisma.group.delete({ where: { id } });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting group:', error);
+    res.status(500).json({ error: 'Failed to delete group' });
+  }
+});
+
+// Add member to group
+router.post('/groups/:id/members', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { userId } = req.body;
+
+    const group = await prisma.group.findUnique({ where: { id }, select: { archivedAt: true } });
+    if (!group) {
+      res.status(404).json({ error: 'Group not found' });
+      return;
+    }
+    if (group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
+
+    // Joining an active group brings an archived student back
+    const [member] = await prisma.$transaction([
+      prisma.groupMember.create({
+        data: { groupId: id, userId },
+        include: {
+          user: {
+            select: { id: true, email: true, firstName: true, lastName: true },
+          },
+        },
+      }),
+      prisma.user.update({ where: { id: userId }, data: { archivedAt: null } }),
+    ]);
+    res.status(201).json(member);
+  } catch (error) {
+    console.error('Error adding group member:', error);
+    res.status(500).json({ error: 'Failed to add member to group' });
+  }
+});
+
+// Remove member from group
+router.delete('/groups/:groupId/members/:userId', async (req: Request, res: Response) => {
+  try {
+    const groupId = req.params.groupId as string;
+    const userId = req.params.userId as string;
+
+    await prisma.groupMember.deleteMany({
+      where: { groupId, userId },
+    });
     res.json({ success: true });
   } catch (error) {
-    console.error('Error deleting group:', error);
-    res.status(500).json({ error: 'Failed to delete group' });
+    console.error('Error removing group member:', error);
+    res.status(500).json({ error: 'Failed to remove member from group' });
   }
 });
 
-// Add member to group
-router.post('/groups/:id/members', async (req: Request, res: Response) => {
+// Set the instructors assigned to a group (replaces the current list). An
+// empty list sends the group's notifications to its course's instructors.
+router.put('/groups/:id/instructors', async (req: Request, res: Response) => {
   try {
     const id = req.params.id as string;
-    const { userId } = req.body;
+    const { userIds } = req.body as { userIds: string[] };
+
+    if (!Array.isArray(userIds)) {
+      res.status(400).json({ error: 'userIds must be an array' });
+      return;
+    }
+
+    const group = await prisma.group.findUnique({ where: { id }, select: { archivedAt: true } });
+    if (!group) {
+      res.status(404).json({ error: 'Group not found' });
+      return;
+    }
+    if (group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
+
+    const instructorCount = await prisma.user.count({
+      where: { id: { in: userIds }, role: { in: STAFF_ROLES } },
+    });
+    if (instructorCount !== new Set(userIds).size) {
+      res.status(400).json({ error: 'Only instructors and TAs can be assigned to a group' });
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.groupInstructor.deleteMany({ where: { groupId: id } }),
+      prisma.groupInstructor.createMany({
+        data: userIds.map((userId) => ({ groupId: id, userId })),
+        skipDuplicates: true,
+      }),
+    ]);
 
-    const member = await prisma.groupMember.create({
-      data: { groupId: id, userId },
+    const instructors = await prisma.groupInstructor.findMany({
+      where: { groupId: id },
       include: {
         user: {
           select: { id: true, email: true, firstName: true, lastName: true },
         },
       },
     });
-    res.status(201).json(member);
+    res.json(instructors);
   } catch (error) {
-    console.error('Error adding group member:', error);
-    res.status(500).json({ error: 'Failed to add member to group' });
+    console.error('Error updating group instructors:', error);
+    res.status(500).json({ error: 'Failed to update group instructors' });
   }
 });
 
-// Remove member from group
-router.delete('/groups/:groupId/members/:userId', async (req: Request, res: Response) => {
+// Give a group a new join code, replacing any old one
+router.post('/groups/:id/join-code', async (req: Request, res: Response) => {
   try {
-    const groupId = req.params.groupId as string;
-    const userId = req.params.userId as string;
+    const id = req.params.id as string;
 
-    await prisma.groupMember.deleteMany({
-      where: { groupId, userId },
+    const group = await prisma.group.findUnique({ where: { id }, select: { archivedAt: true } });
+    if (!group) {
+      res.status(404).json({ error: 'Group not found' });
+      return;
+    }
+    if (group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
+
+    // Codes are random enough that a clash is rare, but check anyway
+    let joinCode = generateJoinCode();
+    while (await prisma.group.findUnique({ where: { joinCode }, select: { id: true } })) {
+      joinCode = generateJoinCode();
+    }
+
+    const updated = await prisma.group.update({
+      where: { id },
+      data: { joinCode },
+      select: { joinCode: true },
     });
+    res.json(updated);
+  } catch (error) {
+    console.error('Error generating join code:', error);
+    res.status(500).json({ error: 'Failed to generate join code' });
+  }
+});
+
+// Turn off a group's join code
+router.delete('/groups/:id/join-code', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    await prisma.group.update({ where: { id }, data: { joinCode: null } });
     res.json({ success: true });
   } catch (error) {
-    console.error('Error removing group member:', error);
-    res.status(500).json({ error: 'Failed to remove member from group' });
+    console.error('Error removing join code:', error);
+    res.status(500).json({ error: 'Failed to remove join code' });
   }
 });
 
-// Upload groups from CSV
-// Expected format: name,proteinPdbId,proteinName (one per line, with header row)
+// Import groups from CSV
+// Expected format: name,proteinPdbId,proteinName (with header row)
+// Groups are created in (or matched by name within) the optional courseId.
+// With dryRun nothing is written; both return the per-row plan.
 router.post('/groups/upload-csv', async (req: Request, res: Response) => {
   try {
-    const { csvData } = req.body as { csvData: string };
+    const { csvData, courseId, dryRun } = req.body as { csvData: string; courseId?: string | null; dryRun?: boolean };
 
     if (!csvData) {
       res.status(400).json({ error: 'No CSV data provided' });
       return;
     }
 
-    const lines = csvData.trim().split('\n');
-    if (lines.length < 2) {
-      res.status(400).json({ error: 'CSV must have a header row and at least one data row' });
+    const courseError = await validateCourseId(courseId);
+    if (courseError) {
+      res.status(400).json({ error: courseError });
       return;
     }
 
-    // Parse header to find column indices
-    const header = lines[0].split(',').map(h => h.trim().toLowerCase());
-    const nameIdx = header.findIndex(h => h === 'name' || h === 'group' || h === 'group name');
-    const pdbIdIdx = header.findIndex(h => h === 'pdbid' || h === 'proteinpdbid' || h === 'pdb id' || h === 'pdb');
-    const proteinNameIdx = header.findIndex(h => h === 'proteinname' || h === 'protein name' || h === 'protein');
+    const plan = await planGroupImport(csvData, courseId || null);
+    if (typeof plan === 'string') {
+      res.status(400).json({ error: plan });
+      return;
+    }
 
-    if (nameIdx === -1 || pdbIdIdx === -1 || proteinNameIdx === -1) {
-      res.status(400).json({
-        error: 'CSV must have columns: name (or "group"), proteinPdbId (or "pdb"), proteinName (or "protein")'
-      });
+    if (dryRun) {
+      res.json(plan);
       return;
     }
 
-    const groups: { name: string; proteinPdbId: string; proteinName: string }[] = [];
-    const errors: string[] = [];
+    if (plan.creates + plan.updates === 0) {
+      res.status(400).json({ error: 'Nothing to import: every row is unchanged or has an error' });
+      return;
+    }
 
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
+    res.status(201).json(await applyGroupImport(plan, courseId || null));
+  } catch (error) {
+    console.error('Error uploading groups CSV:', error);
+    res.status(500).json({ error: 'Failed to upload groups' });
+  }
+});
 
-      const cols = line.split(',').map(c => c.trim());
-      const name = cols[nameIdx];
-      const proteinPdbId = cols[pdbIdIdx]?.toUpperCase();
-      const proteinName = cols[proteinNameIdx];
+// Import a student roster: creates approved accounts, places students in the
+// course's groups (by the CSV's group column or auto-pairing) and emails
+// invitations. Returns a report row per CSV row.
+router.post('/groups/import-roster', async (req: Request, res: Response) => {
+  try {
+    const { csvData, courseId, groupSize, sendInvites } = req.body as {
+      csvData: string;
+      courseId?: string | null;
+      groupSize?: number | null;
+      sendInvites?: boolean;
+    };
 
-      if (!name || !proteinPdbId || !proteinName) {
-        errors.push(`Row ${i + 1}: Missing required field(s)`);
-        continue;
-      }
+    if (!csvData) {
+      res.status(400).json({ error: 'No CSV data provided' });
+      return;
+    }
 
-      groups.push({ name, proteinPdbId, proteinName });
+    const courseError = await validateCourseId(courseId);
+    if (courseError) {
+      res.status(400).json({ error: courseError });
+      return;
     }
 
-    if (groups.length === 0) {
-      res.status(400).json({ error: 'No valid groups found in CSV', details: errors });
+    const groupSizeError = validateGroupSize(groupSize);
+    if (groupSizeError) {
+      res.status(400).json({ error: groupSizeError });
       return;
     }
 
-    // Create all groups
-    const created = await prisma.group.createMany({
-      data: groups,
-      skipDuplicates: true,
+    const report = await importRoster(csvData, {
+      courseId: courseId || null,
+      groupSize: groupSize ?? null,
+      sendInvites: sendInvites !== false,
     });
+    if (typeof report === 'string') {
+      res.status(400).json({ error: report });
+      return;
+    }
 
-    res.status(201).json({
-      success: true,
-      created: created.count,
-      total: groups.length,
-      errors: errors.length > 0 ? errors : undefined
-    });
+    res.json(report);
   } catch (error) {
-    console.error('Error uploading groups CSV:', error);
-    res.status(500).json({ error: 'Failed to upload groups' });
+    console.error('Error importing roster:', error);
+    res.status(500).json({ error: 'Failed to import roster' });
   }
 });
 
@@ -291,10 +1041,12 @@ router.post('/groups/upload-csv', async (req: Request, res: Response) => {
 // USERS
 // ============================================
 
-// Get all users
+// Get all active users, or the archived ones with ?archived=true
 router.get('/users', async (req: Request, res: Response) => {
   try {
+    const archived = req.query.archived === 'true';
     const users = await prisma.user.findMany({
+      where: { archivedAt: archived ? { not: null } : null },
       select: {
         id: true,
         email: true,
@@ -303,6 +1055,7 @@ router.get('/users', async (req: Request, res: Response) => {
         role: true,
         isApproved: true,
         createdAt: true,
+        archivedAt: true,
         groupMemberships: {
           include: {
             group: { select: { id: true, name: true } },
@@ -357,6 +1110,12 @@ router.post('/users/:id/approve', async (req: Request, res: Response) => {
         isApproved: true,
       },
     });
+
+    notifyInBackground([user.id], {
+      type: 'ACCOUNT_APPROVED',
+      title: 'Your account has been approved',
+    });
+
     res.json(user);
   } catch (error) {
     console.error('Error approving user:', error);
@@ -364,6 +1123,22 @@ router.post('/users/:id/approve', async (req: Request, res: Response) => {
   }
 });
 
+// Only admins can make admins, so the last approved one can't be removed,
+// demoted or unapproved. The check runs in a serializable transaction with
+// the change, so two admins removing each other at once can't both succeed.
+const LAST_ADMIN_ERROR = 'This is the only admin account. Make another user an admin first.';
+const WRITE_CONFLICT_ERROR = 'Admin accounts were changed at the same time. Please try again.';
+
+async function otherAdminExists(tx: Prisma.TransactionClient, userId: string): Promise<boolean> {
+  const count = await tx.user.count({ where: { role: 'ADMIN', isApproved: true, id: { not: userId } } });
+  return count > 0;
+}
+
+// Serializable transactions fail rather than wait when they overlap
+function isWriteConflict(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+}
+
 // Update user
 router.put('/users/:id', async (req: Request, res: Response) => {
   try {
@@ -371,7 +1146,21 @@ router.put('/users/:id', async (req: Request, res: Response) => {
     const { email, firstName, lastName, role, isApproved, password } = req.body;
 
     const updateData: Record<string, unknown> = {};
-    if (email !== undefined) updateData.email = email;
+    if (email !== undefined) {
+      if (typeof email !== 'string' || !email.trim()) {
+        res.status(400).json({ error: 'Email cannot be empty' });
+        return;
+      }
+      const taken = await prisma.user.findFirst({
+        where: { ...emailWhere(email), id: { not: id } },
+        select: { id: true },
+      });
+      if (taken) {
+        res.status(400).json({ error: 'Another account already uses this email' });
+        return;
+      }
+      updateData.email = normalizeEmail(email);
+    }
     if (firstName !== undefined) updateData.firstName = firstName;
     if (lastName !== undefined) updateData.lastName = lastName;
     if (role !== undefined) updateData.role = role;
@@ -380,20 +1169,60 @@ router.put('/users/:id', async (req: Request, res: Response) => {
       updateData.password = await bcrypt.hash(password, 12);
     }
 
-    const user = await prisma.user.update({
-      where: { id },
-      data: updateData,
-      select: {
-        id: true,
-        email: true,
-        firstName: true,
-        lastName: true,
-        role: true,
-        isApproved: true,
-      },
-    });
+    const result = await prisma.$transaction(async (tx) => {
+      const existing = await tx.user.findUnique({
+        where: { id },
+        select: { isApproved: true, role: true },
+      });
+      const removesAdmin = existing?.role === 'ADMIN' && existing.isApproved &&
+        ((role !== undefined && role !== 'ADMIN') || isApproved === false);
+      if (removesAdmin && !(await otherAdminExists(tx, id))) {
+        return null;
+      }
+
+      const user = await tx.user.update({
+        where: { id },
+        data: updateData,
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          role: true,
+          isApproved: true,
+        },
+      });
+      return { existing, user };
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (!result) {
+      res.status(400).json({ error: LAST_ADMIN_ERROR });
+      return;
+    }
+    const { existing, user } = result;
+
+    if (existing && !existing.isApproved && user.isApproved) {
+      notifyInBackground([user.id], {
+        type: 'ACCOUNT_APPROVED',
+        title: 'Your account has been approved',
+      });
+    }
+
+    // A new password logs the user out everywhere. Role changes apply to
+    // their next request; open event streams reconnect to pick up the groups
+    // the new role may see.
+    if (password) {
+      await revokeUserSessions(user.id);
+    } else if (existing && (existing.role !== user.role || !user.isApproved)) {
+      closeUserStreams(user.id);
+    }
+
     res.json(user);
   } catch (error) {
+    if (isWriteConflict(error)) {
+      res.status(409).json({ error: WRITE_CONFLICT_ERROR });
+      return;
+    }
     console.error('Error updating user:', error);
     res.status(500).json({ error: 'Failed to update user' });
   }
@@ -410,18 +1239,167 @@ router.delete('/users/:id', async (req: AuthRequest, res: Response) => {
       return;
     }
 
-    await prisma.user.delete({ where: { id } });
+    // Their sessions go with them
+    const outcome = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({ where: { id }, select: { role: true, isApproved: true } });
+      if (!user) return 'not-found';
+      if (user.role === 'ADMIN' && user.isApproved && !(await otherAdminExists(tx, id))) return 'last-admin';
+      await tx.user.delete({ where: { id } });
+      return 'deleted';
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (outcome === 'not-found') {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    if (outcome === 'last-admin') {
+      res.status(400).json({ error: LAST_ADMIN_ERROR });
+      return;
+    }
+    closeUserStreams(id);
     res.json({ success: true });
   } catch (error) {
+    if (isWriteConflict(error)) {
+      res.status(409).json({ error: WRITE_CONFLICT_ERROR });
+      return;
+    }
     console.error('Error deleting user:', error);
     res.status(500).json({ error: 'Failed to delete user' });
   }
 });
 
+// ============================================
+// INVITES
+// ============================================
+
+// Get all invites, newest first, with their links
+router.get('/invites', async (req: Request, res: Response) => {
+  try {
+    const invites = await prisma.invite.findMany({
+      include: {
+        createdBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    res.json(invites.map((invite) => ({
+      ...invite,
+      url: inviteUrl(invite.token),
+      usable: isInviteUsable(invite),
+    })));
+  } catch (error) {
+    console.error('Error fetching invites:', error);
+    res.status(500).json({ error: 'Failed to fetch invites' });
+  }
+});
+
+// Create an invite link for a role
+router.post('/invites', async (req: AuthRequest, res: Response) => {
+  try {
+    const input = parseInviteInput(req.body);
+    if (typeof input === 'string') {
+      res.status(400).json({ error: input });
+      return;
+    }
+
+    const invite = await createInvite(input, req.user!.userId);
+    res.status(201).json({ ...invite, url: inviteUrl(invite.token), usable: true });
+  } catch (error) {
+    console.error('Error creating invite:', error);
+    res.status(500).json({ error: 'Failed to create invite' });
+  }
+});
+
+// Revoke an invite; accounts already created with it are kept
+router.delete('/invites/:id', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    await prisma.invite.update({ where: { id }, data: { revokedAt: new Date() } });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking invite:', error);
+    res.status(500).json({ error: 'Failed to revoke invite' });
+  }
+});
+
+// ============================================
+// TERM ARCHIVAL
+// ============================================
+
+// Archived group and student counts and the retention period
+router.get('/archival', async (req: Request, res: Response) => {
+  try {
+    res.json(await getArchivalStatus());
+  } catch (error) {
+    console.error('Error fetching archival status:', error);
+    res.status(500).json({ error: 'Failed to fetch archival status' });
+  }
+});
+
+// What archiving a term (or every active group, without termId) would cover
+router.get('/archival/preview', async (req: Request, res: Response) => {
+  try {
+    const termId = (req.query.termId as string) || null;
+    res.json(await previewArchival(termId));
+  } catch (error) {
+    console.error('Error generating archival preview:', error);
+    res.status(500).json({ error: 'Failed to generate archival preview' });
+  }
+});
+
+// Archive a term's groups, or every active group when termId is null
+router.post('/archival/archive', async (req: AuthRequest, res: Response) => {
+  try {
+    const { termId } = req.body as { termId?: string | null };
+
+    if (termId) {
+      const term = await prisma.term.findUnique({ where: { id: termId } });
+      if (!term) {
+        res.status(404).json({ error: 'Term not found' });
+        return;
+      }
+    }
+
+    const archived = await archiveGroups(termId || null);
+    console.log(`Archival by user ${req.user?.userId || 'unknown'}: ${archived.groups} groups, ${archived.students} students, ${archived.files} files moved to cold storage.`);
+    res.json(archived);
+  } catch (error) {
+    console.error('Error archiving groups:', error);
+    res.status(500).json({ error: 'Failed to archive groups' });
+  }
+});
+
+// Permanently delete groups archived before the given date
+router.post('/archival/purge', async (req: AuthRequest, res: Response) => {
+  try {
+    const before = parseDeadline(req.body.before);
+    if (!before || before === 'invalid') {
+      res.status(400).json({ error: 'A valid cutoff date is required' });
+      return;
+    }
+
+    const purged = await purgeArchivedGroups(before);
+    console.log(`Archive purge by user ${req.user?.userId || 'unknown'}: ${purged.groups} groups, ${purged.students} students, ${purged.files} files.`);
+    res.json(purged);
+  } catch (error) {
+    console.error('Error purging archived groups:', error);
+    res.status(500).json({ error: 'Failed to purge archived groups' });
+  }
+});
+
 // ============================================
 // NUCLEAR RESET
 // ============================================
 
+// Upload directories emptied by the reset, hot and cold
+const RESET_DIRS = [
+  { kind: 'model', dir: MODELS_DIR },
+  { kind: 'literature', dir: LITERATURE_DIR },
+  { kind: 'model', dir: coldStorageDir('models') },
+  { kind: 'literature', dir: coldStorageDir('literature') },
+];
+
 // Helper to count files in a directory
 function countFilesInDir(dirPath: string): number {
   try {
@@ -432,11 +1410,6 @@ function countFilesInDir(dirPath: string): number {
   }
 }
 
-// Helper to sanitize folder/file names
-function sanitizeName(name: string): string {
-  return name.replace(/[<>:"/\\|?*]/g, '_').substring(0, 100);
-}
-
 // Preview what will be deleted/preserved
 router.get('/nuclear-reset/preview', async (req: AuthRequest, res: Response) => {
   try {
@@ -450,14 +1423,12 @@ router.get('/nuclear-reset/preview', async (req: AuthRequest, res: Response) =>
     ]);
 
     // Count files on disk
-    const modelFiles = countFilesInDir(MODELS_DIR);
-    const literatureFiles = countFilesInDir(LITERATURE_DIR);
-    const filesOnDisk = modelFiles + literatureFiles;
+    const filesOnDisk = RESET_DIRS.reduce((sum, { dir }) => sum + countFilesInDir(dir), 0);
 
     // Count what will be preserved
     const [admins, instructors, modelTemplates] = await Promise.all([
       prisma.user.count({ where: { role: 'ADMIN' } }),
-      prisma.user.count({ where: { role: 'INSTRUCTOR' } }),
+      prisma.user.count({ where: { role: { in: STAFF_ROLES } } }),
       prisma.modelTemplate.count(),
     ]);
 
@@ -494,148 +1465,12 @@ router.get('/nuclear-reset/preview', async (req: AuthRequest, res: Response) =>
 // Create and download archive of all data
 router.get('/nuclear-reset/archive', async (req: AuthRequest, res: Response) => {
   try {
-    // Fetch all groups with all related data
-    const groups = await prisma.group.findMany({
-      include: {
-        members: {
-          include: {
-            user: {
-              select: { id: true, email: true, firstName: true, lastName: true },
-            },
-          },
-        },
-        submissions: {
-          include: {
-            submittedBy: {
-              select: { id: true, email: true, firstName: true, lastName: true },
-            },
-            modelTemplate: {
-              select: { id: true, name: true },
-            },
-          },
-        },
-        literature: {
-          include: {
-            uploadedBy: {
-              select: { id: true, email: true, firstName: true, lastName: true },
-            },
-          },
-        },
-        messages: {
-          include: {
-            user: {
-              select: { id: true, email: true, firstName: true, lastName: true },
-            },
-            submission: {
-              select: { id: true, fileName: true },
-            },
-          },
-          orderBy: { createdAt: 'asc' },
-        },
-      },
-    });
-
     // Set up response headers for ZIP download
     const timestamp = new Date().toISOString().split('T')[0];
     res.setHeader('Content-Type', 'application/zip');
     res.setHeader('Content-Disposition', `attachment; filename="archive-${timestamp}.zip"`);
 
-    // Create archive
-    const archive = archiver('zip', { zlib: { level: 9 } });
-    archive.pipe(res);
-
-    // Handle archive errors
-    archive.on('error', (err) => {
-      console.error('Archive error:', err);
-      throw err;
-    });
-
-    // Create manifest
-    const manifest = {
-      exportedAt: new Date().toISOString(),
-      exportedBy: req.user?.userId || 'unknown',
-      totalGroups: groups.length,
-      totalSubmissions: groups.reduce((sum, g) => sum + g.submissions.length, 0),
-      totalLiterature: groups.reduce((sum, g) => sum + g.literature.length, 0),
-      totalMessages: groups.reduce((sum, g) => sum + g.messages.length, 0),
-      groups: groups.map((g) => ({
-        id: g.id,
-        name: g.name,
-        proteinPdbId: g.proteinPdbId,
-        proteinName: g.proteinName,
-        memberCount: g.members.length,
-        submissionCount: g.submissions.length,
-        literatureCount: g.literature.length,
-        messageCount: g.messages.length,
-      })),
-    };
-
-    archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
-
-    // Process each group
-    for (const group of groups) {
-      const folderName = sanitizeName(`${group.name}-${group.proteinPdbId}`);
-
-      // Group info
-      const groupInfo = {
-        id: group.id,
-        name: group.name,
-        proteinPdbId: group.proteinPdbId,
-        proteinName: group.proteinName,
-        createdAt: group.createdAt,
-        members: group.members.map((m) => ({
-          userId: m.user.id,
-          email: m.user.email,
-          name: `${m.user.firstName} ${m.user.lastName}`,
-          joinedAt: m.joinedAt,
-        })),
-      };
-      archive.append(JSON.stringify(groupInfo, null, 2), {
-        name: `${folderName}/group-info.json`,
-      });
-
-      // Add model files
-      for (const submission of group.submissions) {
-        const filePath = path.join(MODELS_DIR, submission.filePath);
-        if (fs.existsSync(filePath)) {
-          const ext = path.extname(submission.filePath);
-          const templateName = sanitizeName(submission.modelTemplate?.name || 'Unknown');
-          const safeName = sanitizeName(submission.fileName.replace(ext, ''));
-          archive.file(filePath, {
-            name: `${folderName}/models/${templateName}-${safeName}${ext}`,
-          });
-        }
-      }
-
-      // Add literature files
-      for (const lit of group.literature) {
-        const filePath = path.join(LITERATURE_DIR, lit.filePath);
-        if (fs.existsSync(filePath)) {
-          const safeName = sanitizeName(lit.title || lit.fileName);
-          archive.file(filePath, {
-            name: `${folderName}/literature/${safeName}.pdf`,
-          });
-        }
-      }
-
-      // Add messages
-      const messagesData = group.messages.map((m) => ({
-        id: m.id,
-        userId: m.user.id,
-        userEmail: m.user.email,
-        userName: `${m.user.firstName} ${m.user.lastName}`,
-        content: m.content,
-        createdAt: m.createdAt,
-        submissionId: m.submissionId,
-        submissionFileName: m.submission?.fileName || null,
-        isSubmissionComment: !!m.submissionId,
-      }));
-      archive.append(JSON.stringify(messagesData, null, 2), {
-        name: `${folderName}/messages.json`,
-      });
-    }
-
-    await archive.finalize();
+    await writeArchive(res, req.user?.userId || 'unknown');
   } catch (error) {
     console.error('Error creating archive:', error);
     if (!res.headersSent) {
@@ -644,6 +1479,30 @@ router.get('/nuclear-reset/archive', async (req: AuthRequest, res: Response) =>
   }
 });
 
+// Check an uploaded archive against the database, and restore it unless
+// dryRun is set. Both return the same report.
+router.post('/nuclear-reset/restore', archiveUpload.single('archive'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'No archive uploaded' });
+      return;
+    }
+
+    const contents = await readArchive(req.file.buffer);
+    if (typeof contents === 'string') {
+      res.status(400).json({ error: contents });
+      return;
+    }
+
+    const dryRun = req.body.dryRun === 'true';
+    const report = await restoreArchive(contents, dryRun);
+    res.json(report);
+  } catch (error) {
+    console.error('Error restoring archive:', error);
+    res.status(500).json({ error: 'Failed to restore archive' });
+  }
+});
+
 // Execute the nuclear reset
 router.post('/nuclear-reset/execute', async (req: AuthRequest, res: Response) => {
   try {
@@ -685,29 +1544,15 @@ router.post('/nuclear-reset/execute', async (req: AuthRequest, res: Response) =>
     // Clean up files from disk
     let filesRemoved = 0;
 
-    if (fs.existsSync(MODELS_DIR)) {
-      const modelFiles = fs.readdirSync(MODELS_DIR);
-      for (const file of modelFiles) {
-        if (!file.startsWith('.')) {
-          try {
-            fs.unlinkSync(path.join(MODELS_DIR, file));
-            filesRemoved++;
-          } catch (err) {
-            console.error(`Failed to delete model file ${file}:`, err);
-          }
-        }
-      }
-    }
-
-    if (fs.existsSync(LITERATURE_DIR)) {
-      const litFiles = fs.readdirSync(LITERATURE_DIR);
-      for (const file of litFiles) {
+    for (const { kind, dir } of RESET_DIRS) {
+      if (!fs.existsSync(dir)) continue;
+      for (const file of fs.readdirSync(dir)) {
         if (!file.startsWith('.')) {
           try {
-            fs.unlinkSync(path.join(LITERATURE_DIR, file));
+            fs.unlinkSync(path.join(dir, file));
             filesRemoved++;
           } catch (err) {
-            console.error(`Failed to delete literature file ${file}:`, err);
+            console.error(`Failed to delete ${kind} file ${file}:`, err);
           }
         }
       }
@@ -1,24 +1,34 @@
 import { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt, { SignOptions } from 'jsonwebtoken';
 import crypto from 'crypto';
 import { Role } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
+import { emailWhere, normalizeEmail } from '../lib/emailAddress.js';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
 import { sendPasswordResetEmail } from '../services/emailService.js';
+import { findGroupByJoinCode, findUsableInvite, SELF_REGISTRATION } from '../services/inviteService.js';
+import { createSession, listSessions, refreshSession, revokeSession, revokeUserSessions } from '../services/sessionService.js';
 
 const router = Router();
 
-const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-change-me';
-const JWT_EXPIRES_IN = (process.env.JWT_EXPIRES_IN || '6h') as SignOptions['expiresIn'];
 const PASSWORD_RESET_EXPIRES_HOURS = 1; // Reset token expires in 1 hour
 
+const INVALID_INVITE_ERROR = 'This invitation link is invalid or has expired';
+const INVALID_JOIN_CODE_ERROR = 'No active group has this join code';
+
+// Request bodies are only typed, not checked, so required strings are
+// checked before use
+function isFilled(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
 interface RegisterBody {
   email: string;
   password: string;
   firstName: string;
   lastName: string;
-  role?: Role;
-  groupId?: string;
+  inviteToken?: string;
+  joinCode?: string;
 }
 
 interface LoginBody {
@@ -26,88 +36,158 @@ interface LoginBody {
   password: string;
 }
 
-// Get available groups (public - for registration dropdown)
-router.get('/groups', async (req: Request, res: Response) => {
+// How the registration page should behave
+router.get('/registration', async (req: Request, res: Response) => {
   try {
-    const groups = await prisma.group.findMany({
-      select: {
-        id: true,
-        name: true,
-        proteinPdbId: true,
-        proteinName: true,
-      },
-      orderBy: { name: 'asc' },
-    });
-    res.json(groups);
+    res.json({ selfRegistration: SELF_REGISTRATION });
   } catch (error) {
-    console.error('Error fetching groups:', error);
-    res.status(500).json({ error: 'Failed to fetch groups' });
+    console.error('Error fetching registration settings:', error);
+    res.status(500).json({ error: 'Failed to fetch registration settings' });
   }
 });
 
-// Register
+// Look up an invite link before registering
+router.get('/invites/:token', async (req: Request, res: Response) => {
+  try {
+    const invite = await findUsableInvite(req.params.token as string);
+    if (!invite) {
+      res.status(404).json({ error: INVALID_INVITE_ERROR });
+      return;
+    }
+    res.json({ role: invite.role, email: invite.email, expiresAt: invite.expiresAt });
+  } catch (error) {
+    console.error('Error fetching invite:', error);
+    res.status(500).json({ error: 'Failed to fetch invite' });
+  }
+});
+
+// Look up the group a join code belongs to
+router.get('/join-codes/:code', async (req: Request, res: Response) => {
+  try {
+    const group = await findGroupByJoinCode(req.params.code as string);
+    if (!group) {
+      res.status(404).json({ error: INVALID_JOIN_CODE_ERROR });
+      return;
+    }
+    res.json({ name: group.name, proteinPdbId: group.proteinPdbId, proteinName: group.proteinName });
+  } catch (error) {
+    console.error('Error fetching join code:', error);
+    res.status(500).json({ error: 'Failed to fetch join code' });
+  }
+});
+
+// Register. The role comes from the invite; without one the account is a
+// student, approved if they gave a group join code and pending otherwise.
+// The first admin is made by deployment/setup.sh or the seed script, never here.
 router.post('/register', async (req: Request<{}, {}, RegisterBody>, res: Response) => {
   try {
-    const { email, password, firstName, lastName, role = 'STUDENT', groupId } = req.body;
+    const { password, firstName, lastName, inviteToken, joinCode } = req.body;
+
+    if (!isFilled(req.body.email) || !isFilled(password) || !isFilled(firstName) || !isFilled(lastName)) {
+      res.status(400).json({ error: 'Email, password, first name and last name are required' });
+      return;
+    }
+    const email = normalizeEmail(req.body.email);
 
     // Check if user exists
-    const existingUser = await prisma.user.findUnique({ where: { email } });
+    const existingUser = await prisma.user.findFirst({ where: emailWhere(email) });
     if (existingUser) {
       res.status(400).json({ error: 'Email already registered' });
       return;
     }
 
-    // Validate groupId if provided and role is STUDENT
-    if (role === 'STUDENT' && groupId) {
-      const group = await prisma.group.findUnique({ where: { id: groupId } });
+    let role: Role = 'STUDENT';
+    let isApproved = false;
+
+    const invite = inviteToken ? await findUsableInvite(inviteToken) : null;
+    if (inviteToken) {
+      if (!invite) {
+        res.status(400).json({ error: INVALID_INVITE_ERROR });
+        return;
+      }
+      if (invite.email && invite.email !== email) {
+        res.status(400).json({ error: 'This invitation is for a different email address' });
+        return;
+      }
+      role = invite.role;
+      isApproved = true;
+    }
+
+    const group = joinCode ? await findGroupByJoinCode(joinCode) : null;
+    if (joinCode) {
+      if (role !== 'STUDENT') {
+        res.status(400).json({ error: 'Join codes are only for student accounts' });
+        return;
+      }
       if (!group) {
-        res.status(400).json({ error: 'Invalid group selected' });
+        res.status(400).json({ error: INVALID_JOIN_CODE_ERROR });
         return;
       }
+      isApproved = true;
+    }
+
+    if (!isApproved && SELF_REGISTRATION === 'closed') {
+      res.status(403).json({ error: 'Registration requires an invitation link or a group join code' });
+      return;
     }
 
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 12);
 
-    // Create user (not approved by default, except ADMIN role for initial setup)
-    const user = await prisma.user.create({
-      data: {
-        email,
-        password: hashedPassword,
-        firstName,
-        lastName,
-        role,
-        isApproved: role === 'ADMIN', // Auto-approve admins for initial setup
-      },
-      select: {
-        id: true,
-        email: true,
-        firstName: true,
-        lastName: true,
-        role: true,
-        isApproved: true,
-        createdAt: true
+    const user = await prisma.$transaction(async (tx) => {
+      if (invite) {
+        // Claim a use; fails if the last one was taken meanwhile
+        const claimed = await tx.invite.updateMany({
+          where: {
+            id: invite.id,
+            revokedAt: null,
+            ...(invite.maxUses !== null && { useCount: { lt: invite.maxUses } }),
+          },
+          data: { useCount: { increment: 1 } },
+        });
+        if (claimed.count === 0) return null;
       }
-    });
 
-    // If student selected a group, add them as a member
-    if (role === 'STUDENT' && groupId) {
-      await prisma.groupMember.create({
+      const created = await tx.user.create({
         data: {
-          userId: user.id,
-          groupId: groupId,
+          email,
+          password: hashedPassword,
+          firstName,
+          lastName,
+          role,
+          isApproved,
         },
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          role: true,
+          isApproved: true,
+          createdAt: true
+        }
       });
+
+      if (group) {
+        await tx.groupMember.create({
+          data: {
+            userId: created.id,
+            groupId: group.id,
+          },
+        });
+      }
+      return created;
+    });
+
+    if (!user) {
+      res.status(400).json({ error: INVALID_INVITE_ERROR });
+      return;
     }
 
-    // Only provide token if user is approved
+    // Only log in if user is approved
     if (user.isApproved) {
-      const token = jwt.sign(
-        { userId: user.id, role: user.role },
-        JWT_SECRET,
-        { expiresIn: JWT_EXPIRES_IN }
-      );
-      res.status(201).json({ user, token });
+      const { token, refreshToken } = await createSession(user.id, req);
+      res.status(201).json({ user, token, refreshToken });
     } else {
       res.status(201).json({
         user,
@@ -125,8 +205,13 @@ router.post('/login', async (req: Request<{}, {}, LoginBody>, res: Response) =>
   try {
     const { email, password } = req.body;
 
+    if (!isFilled(email) || !isFilled(password)) {
+      res.status(400).json({ error: 'Email and password are required' });
+      return;
+    }
+
     // Find user
-    const user = await prisma.user.findUnique({ where: { email } });
+    const user = await prisma.user.findFirst({ where: emailWhere(email) });
     if (!user) {
       res.status(401).json({ error: 'Invalid credentials' });
       return;
@@ -145,12 +230,7 @@ router.post('/login', async (req: Request<{}, {}, LoginBody>, res: Response) =>
       return;
     }
 
-    // Generate token
-    const token = jwt.sign(
-      { userId: user.id, role: user.role },
-      JWT_SECRET,
-      { expiresIn: JWT_EXPIRES_IN }
-    );
+    const { token, refreshToken } = await createSession(user.id, req);
 
     res.json({
       user: {
@@ -161,7 +241,8 @@ router.post('/login', async (req: Request<{}, {}, LoginBody>, res: Response) =>
         role: user.role,
         isApproved: user.isApproved
       },
-      token
+      token,
+      refreshToken
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -169,20 +250,33 @@ router.post('/login', async (req: Request<{}, {}, LoginBody>, res: Response) =>
   }
 });
 
-// Get current user
-router.get('/me', async (req: Request, res: Response) => {
+// Trade a refresh token for a new access token and refresh token
+router.post('/refresh', async (req: Request<{}, {}, { refreshToken?: string }>, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    if (!authHeader?.startsWith('Bearer ')) {
-      res.status(401).json({ error: 'No token provided' });
+    const { refreshToken } = req.body;
+    if (!refreshToken) {
+      res.status(400).json({ error: 'Refresh token is required' });
       return;
     }
 
-    const token = authHeader.split(' ')[1];
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+    const tokens = await refreshSession(refreshToken, req);
+    if (!tokens) {
+      res.status(401).json({ error: 'Session has ended' });
+      return;
+    }
 
+    res.json(tokens);
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+// Get current user
+router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
     const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
+      where: { id: req.user!.userId },
       select: {
         id: true,
         email: true,
@@ -201,7 +295,59 @@ router.get('/me', async (req: Request, res: Response) => {
 
     res.json({ user });
   } catch (error) {
-    res.status(401).json({ error: 'Invalid token' });
+    console.error('Error fetching current user:', error);
+    res.status(500).json({ error: 'Failed to fetch user' });
+  }
+});
+
+// Log out the current session
+router.post('/logout', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    await revokeSession(req.user!.userId, req.user!.sessionId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Failed to log out' });
+  }
+});
+
+// List the current user's active sessions
+router.get('/sessions', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const sessions = await listSessions(req.user!.userId);
+    res.json(sessions.map(session => ({
+      ...session,
+      current: session.id === req.user!.sessionId
+    })));
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+// Log out every session except the current one
+router.delete('/sessions', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const count = await revokeUserSessions(req.user!.userId, req.user!.sessionId);
+    res.json({ count });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    res.status(500).json({ error: 'Failed to log out sessions' });
+  }
+});
+
+// Log out one of the current user's sessions
+router.delete('/sessions/:id', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const revoked = await revokeSession(req.user!.userId, req.params.id as string);
+    if (!revoked) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({ error: 'Failed to log out session' });
   }
 });
 
@@ -210,13 +356,13 @@ router.post('/forgot-password', async (req: Request<{}, {}, { email: string }>,
   try {
     const { email } = req.body;
 
-    if (!email) {
+    if (!isFilled(email)) {
       res.status(400).json({ error: 'Email is required' });
       return;
     }
 
     // Find user by email
-    const user = await prisma.user.findUnique({ where: { email } });
+    const user = await prisma.user.findFirst({ where: emailWhere(email) });
 
     // Always return success to prevent email enumeration
     if (!user) {
@@ -298,6 +444,8 @@ router.post('/reset-password', async (req: Request<{}, {}, { token: string; pass
         passwordResetExpires: null,
       },
     });
+    // Whoever had the old password is logged out too
+    await revokeUserSessions(user.id);
 
     res.json({ message: 'Password has been reset successfully' });
   } catch (error) {
@@ -0,0 +1,68 @@
+import { Router, Request, Response } from 'express';
+import fs from 'fs';
+import { prisma } from '../lib/prisma.js';
+import { resolveUploadPath } from '../lib/storage.js';
+import { contentDisposition } from '../lib/contentDisposition.js';
+import { SignedFileKind, SIGNED_FILE_KINDS, verifyFileSignature } from '../services/fileUrlService.js';
+
+const router = Router();
+
+// No authenticate here: the signature in the link stands in for it. Links are
+// handed out by the student and instructor routes after their access checks.
+
+// Looks up where a file is stored
+async function findFile(kind: SignedFileKind, id: string) {
+  switch (kind) {
+    case 'submissions': {
+      const submission = await prisma.submission.findUnique({ where: { id }, select: { filePath: true } });
+      return submission && { path: resolveUploadPath('models', submission.filePath), pdfName: null };
+    }
+    case 'versions': {
+      const version = await prisma.submissionVersion.findUnique({ where: { id }, select: { filePath: true } });
+      return version && { path: resolveUploadPath('models', version.filePath), pdfName: null };
+    }
+    case 'literature': {
+      const literature = await prisma.literature.findUnique({ where: { id }, select: { filePath: true, fileName: true } });
+      return literature && { path: resolveUploadPath('literature', literature.filePath), pdfName: literature.fileName };
+    }
+  }
+}
+
+// Get a file through a signed link (model links end in .png for JSmol)
+router.get('/:kind/:fileName', async (req: Request, res: Response) => {
+  try {
+    const kind = req.params.kind as SignedFileKind;
+    const id = (req.params.fileName as string).replace(/\.png$/, '');
+    const expires = Number(req.query.expires);
+    const signature = typeof req.query.signature === 'string' ? req.query.signature : '';
+
+    if (!SIGNED_FILE_KINDS.includes(kind)) {
+      res.status(404).json({ error: 'File not found' });
+      return;
+    }
+    if (!verifyFileSignature(kind, id, expires, signature)) {
+      res.status(403).json({ error: 'This file link is invalid or has expired' });
+      return;
+    }
+
+    const file = await findFile(kind, id);
+    if (!file || !fs.existsSync(file.path)) {
+      res.status(404).json({ error: 'File not found' });
+      return;
+    }
+
+    // Let the browser keep it past the link's expiry, so reloading the same
+    // link (e.g. resetting the JSmol view) still works. Shared caches must not.
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    if (file.pdfName) {
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', contentDisposition('inline', file.pdfName));
+    }
+    res.sendFile(file.path, { cacheControl: false });
+  } catch (error) {
+    console.error('Error fetching file:', error);
+    res.status(500).json({ error: 'Failed to fetch file' });
+  }
+});
+
+export default router;
@@ -0,0 +1,118 @@
+import { Router, Response } from 'express';
+import { authenticate, requirePermission, AuthRequest } from '../middleware/auth.js';
+import { prisma } from '../lib/prisma.js';
+import { courseScope, groupScope } from '../services/accessService.js';
+import { buildGradebook, gradebookTable, GradebookLayout } from '../services/gradebookService.js';
+import { toCsv } from '../lib/csv.js';
+import { buildXlsx } from '../lib/xlsx.js';
+
+const router = Router();
+
+// Gradebook is shared by instructors and admins. It exports grades for the
+// LMS, which is part of releasing them, so TAs (who can grade but not
+// release) don't get it. Rows follow groupScope like every other staff view.
+router.use(authenticate);
+router.use(requirePermission('releaseGrades'));
+
+const LAYOUTS: GradebookLayout[] = ['lms', 'full'];
+
+// Whether the user may see a course's gradebook
+async function canViewCourse(req: AuthRequest, courseId: string): Promise<boolean> {
+  const count = await prisma.course.count({
+    where: { AND: [{ id: courseId }, courseScope(req.user!.userId, req.user!.role)] }
+  });
+  return count > 0;
+}
+
+// ============================================
+// GRADEBOOK
+// ============================================
+
+// Courses the user can pick a gradebook for
+router.get('/courses', async (req: AuthRequest, res: Response) => {
+  try {
+    const courses = await prisma.course.findMany({
+      where: courseScope(req.user!.userId, req.user!.role),
+      orderBy: [{ term: { createdAt: 'desc' } }, { name: 'asc' }, { section: 'asc' }],
+      select: {
+        id: true,
+        name: true,
+        section: true,
+        term: {
+          select: { id: true, name: true }
+        }
+      }
+    });
+    const unassignedGroups = await prisma.group.count({
+      where: { AND: [{ courseId: null }, groupScope(req.user!.userId, req.user!.role)] }
+    });
+
+    res.json({ courses, hasUnassigned: unassignedGroups > 0 });
+  } catch (error) {
+    console.error('Error fetching gradebook courses:', error);
+    res.status(500).json({ error: 'Failed to fetch courses' });
+  }
+});
+
+// Get the gradebook matrix (students x active model templates)
+// Query: courseId (omit for groups that aren't in a course)
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const courseId = (req.query.courseId as string) || null;
+    if (courseId && !(await canViewCourse(req, courseId))) {
+      res.status(404).json({ error: 'Course not found' });
+      return;
+    }
+
+    res.json(await buildGradebook(courseId, groupScope(req.user!.userId, req.user!.role)));
+  } catch (error) {
+    console.error('Error building gradebook:', error);
+    res.status(500).json({ error: 'Failed to build gradebook' });
+  }
+});
+
+// Download the gradebook
+// Query: format=csv|xlsx (default csv), layout=lms|full (default lms), courseId
+router.get('/export', async (req: AuthRequest, res: Response) => {
+  try {
+    const format = (req.query.format as string) || 'csv';
+    const layout = ((req.query.layout as string) || 'lms') as GradebookLayout;
+    const courseId = (req.query.courseId as string) || null;
+
+    if (format !== 'csv' && format !== 'xlsx') {
+      res.status(400).json({ error: 'format must be csv or xlsx' });
+      return;
+    }
+    if (!LAYOUTS.includes(layout)) {
+      res.status(400).json({ error: 'layout must be lms or full' });
+      return;
+    }
+
+    if (courseId && !(await canViewCourse(req, courseId))) {
+      res.status(404).json({ error: 'Course not found' });
+      return;
+    }
+
+    const table = gradebookTable(
+      await buildGradebook(courseId, groupScope(req.user!.userId, req.user!.role)),
+      layout
+    );
+    const timestamp = new Date().toISOString().split('T')[0];
+    const fileName = `gradebook-${layout}-${timestamp}.${format}`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      // BOM so Excel opens accented names as UTF-8
+      res.send('\uFEFF' + toCsv(table));
+    } else {
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.send(await buildXlsx('Gradebook', table));
+    }
+  } catch (error) {
+    console.error('Error exporting gradebook:', error);
+    res.status(500).json({ error: 'Failed to export gradebook' });
+  }
+});
+
+export default router;
@@ -4,6 +4,10 @@ import adminRoutes from './admin.js';
 import studentRoutes from './student.js';
 import instructorRoutes from './instructor.js';
 import messageRoutes from './messages.js';
+import gradebookRoutes from './gradebook.js';
+import notificationRoutes from './notifications.js';
+import fileRoutes from './files.js';
+import viewRoutes from './views.js';
 
 const router = Router();
 
@@ -12,5 +16,9 @@ router.use('/admin', adminRoutes);
 router.use('/student', studentRoutes);
 router.use('/instructor', instructorRoutes);
 router.use('/messages', messageRoutes);
+router.use('/gradebook', gradebookRoutes);
+router.use('/notifications', notificationRoutes);
+router.use('/files', fileRoutes);
+router.use('/views', viewRoutes);
 
 export default router;
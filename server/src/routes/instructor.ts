@@ -1,32 +1,83 @@
 import { Router, Response } from 'express';
-import path from 'path';
-import fs from 'fs';
 import { SubmissionStatus } from '@prisma/client';
-import { authenticate, requireRole, AuthRequest } from '../middleware/auth.js';
+import { authenticate, hasPermission, requirePermission, requireRole, AuthRequest, STAFF_ROLES } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
+import { publishEvent } from '../lib/events.js';
+import { groupScope, hasGroupAccess, hasSubmissionAccess } from '../services/accessService.js';
+import { groupMemberIds, notifyInBackground } from '../services/notificationService.js';
+import { computeGradeTotals, getSubmissionGrade, resolveScores, saveScores } from '../services/gradingService.js';
+import { countDeadlineStatus, effectiveDeadlines, parseDeadline, validateDeadlines } from '../services/deadlineService.js';
+import { ARCHIVED_GROUP_ERROR } from '../services/termArchiveService.js';
+import { signedFileUrl } from '../services/fileUrlService.js';
 
 const router = Router();
 
-// All instructor routes require authentication and INSTRUCTOR role
+// All instructor routes require authentication and a staff role (instructor or TA)
 router.use(authenticate);
-router.use(requireRole('INSTRUCTOR'));
+router.use(requireRole(...STAFF_ROLES));
+
+// Version fields returned alongside each submission in list views
+const LATEST_VERSION_SELECT = {
+  id: true,
+  versionNumber: true,
+  hasStructure: true,
+  structureSource: true,
+  atomCount: true,
+  embeddedPdbId: true,
+  proteinMatch: true,
+  proteinMatchDetail: true
+} as const;
+
+// Course shown next to each group so instructors teaching several can tell them apart
+const COURSE_SELECT = {
+  id: true,
+  name: true,
+  section: true,
+  term: {
+    select: { id: true, name: true }
+  }
+} as const;
+
+// Most archived groups returned by one search
+const ARCHIVE_SEARCH_LIMIT = 50;
 
-// Upload directories
-const UPLOAD_BASE = path.join(process.cwd(), 'uploads');
-const MODELS_DIR = path.join(UPLOAD_BASE, 'models');
-const LITERATURE_DIR = path.join(UPLOAD_BASE, 'literature');
+// Instructors only see groups in the courses they teach, plus groups without a course
+async function findVisibleGroup(req: AuthRequest, groupId: string) {
+  return prisma.group.findFirst({
+    where: { AND: [{ id: groupId }, groupScope(req.user!.userId, req.user!.role)] }
+  });
+}
 
 // ============================================
 // GROUPS
 // ============================================
 
-// Get all groups (instructors can see all groups)
+// Get the active groups in the instructor's courses. assignedToMe marks the
+// groups an admin assigned to this instructor, which the dashboard shows first.
 router.get('/groups', async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user!.userId;
 
     const groups = await prisma.group.findMany({
-      orderBy: { name: 'asc' }
+      where: { AND: [{ archivedAt: null }, groupScope(userId, req.user!.role)] },
+      orderBy: { name: 'asc' },
+      include: {
+        course: {
+          select: COURSE_SELECT
+        },
+        submissions: {
+          select: { modelTemplateId: true, isLate: true }
+        },
+        deadlineExtensions: true,
+        instructors: {
+          select: { userId: true }
+        }
+      }
+    });
+
+    // Deadline counts only consider active templates of each group's course
+    const templates = await prisma.modelTemplate.findMany({
+      where: { isActive: true }
     });
 
     // Get user's read statuses for group discussions (submissionId is null for group chat)
@@ -39,7 +90,7 @@ router.get('/groups', async (req: AuthRequest, res: Response) => {
 
     // Get submission counts for each group
     const groupsWithStats = await Promise.all(
-      groups.map(async (group) => {
+      groups.map(async ({ submissions, deadlineExtensions, instructors, ...group }) => {
         const submissionCount = await prisma.submission.count({
           where: { groupId: group.id }
         });
@@ -62,10 +113,16 @@ router.get('/groups', async (req: AuthRequest, res: Response) => {
 
         return {
           ...group,
+          assignedToMe: instructors.some(i => i.userId === userId),
           submissionCount,
           pendingCount,
           memberCount,
-          unreadMessageCount
+          unreadMessageCount,
+          ...countDeadlineStatus(
+            templates.filter(t => t.courseId === group.courseId),
+            deadlineExtensions,
+            submissions
+          )
         };
       })
     );
@@ -82,9 +139,12 @@ router.get('/groups/:groupId', async (req: AuthRequest, res: Response) => {
   try {
     const groupId = req.params.groupId as string;
 
-    const group = await prisma.group.findUnique({
-      where: { id: groupId },
+    const group = await prisma.group.findFirst({
+      where: { AND: [{ id: groupId }, groupScope(req.user!.userId, req.user!.role)] },
       include: {
+        course: {
+          select: COURSE_SELECT
+        },
         members: {
           include: {
             user: {
@@ -107,6 +167,53 @@ router.get('/groups/:groupId', async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Search archived groups from past terms by group, protein, course, term or
+// member. Without a query, returns the most recently archived groups.
+router.get('/archived-groups', async (req: AuthRequest, res: Response) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const contains = { contains: query, mode: 'insensitive' as const };
+
+    const groups = await prisma.group.findMany({
+      where: {
+        AND: [
+          { archivedAt: { not: null } },
+          groupScope(req.user!.userId, req.user!.role),
+          ...(query ? [{
+            OR: [
+              { name: contains },
+              { proteinName: contains },
+              { proteinPdbId: contains },
+              { course: { name: contains } },
+              { course: { term: { name: contains } } },
+              { members: { some: { user: { OR: [{ firstName: contains }, { lastName: contains }, { email: contains }] } } } }
+            ]
+          }] : [])
+        ]
+      },
+      orderBy: [{ archivedAt: 'desc' }, { name: 'asc' }],
+      take: ARCHIVE_SEARCH_LIMIT,
+      include: {
+        course: {
+          select: COURSE_SELECT
+        },
+        _count: {
+          select: { members: true, submissions: true }
+        }
+      }
+    });
+
+    res.json(groups.map(({ _count, ...group }) => ({
+      ...group,
+      memberCount: _count.members,
+      submissionCount: _count.submissions
+    })));
+  } catch (error) {
+    console.error('Error searching archived groups:', error);
+    res.status(500).json({ error: 'Failed to search archived groups' });
+  }
+});
+
 // ============================================
 // SUBMISSIONS
 // ============================================
@@ -118,16 +225,21 @@ router.get('/groups/:groupId/submissions', async (req: AuthRequest, res: Respons
     const userId = req.user!.userId;
 
     // Verify group exists
-    const group = await prisma.group.findUnique({ where: { id: groupId } });
+    const group = await findVisibleGroup(req, groupId);
     if (!group) {
       res.status(404).json({ error: 'Group not found' });
       return;
     }
 
-    // Get all model templates
+    // Get the model templates of the group's course
     const templates = await prisma.modelTemplate.findMany({
-      where: { isActive: true },
-      orderBy: { orderIndex: 'asc' }
+      where: { isActive: true, courseId: group.courseId },
+      orderBy: { orderIndex: 'asc' },
+      include: {
+        rubric: {
+          select: { id: true, maxPoints: true }
+        }
+      }
     });
 
     // Get all submissions for this group
@@ -137,6 +249,17 @@ router.get('/groups/:groupId/submissions', async (req: AuthRequest, res: Respons
       include: {
         submittedBy: {
           select: { id: true, firstName: true, lastName: true }
+        },
+        _count: {
+          select: { versions: true }
+        },
+        versions: {
+          orderBy: { versionNumber: 'desc' },
+          take: 1,
+          select: LATEST_VERSION_SELECT
+        },
+        rubricScores: {
+          select: { criterionId: true, points: true }
         }
       }
     });
@@ -150,8 +273,17 @@ router.get('/groups/:groupId/submissions', async (req: AuthRequest, res: Respons
       }
     });
 
+    const extensions = await prisma.deadlineExtension.findMany({
+      where: { groupId },
+      include: {
+        grantedBy: {
+          select: { id: true, firstName: true, lastName: true }
+        }
+      }
+    });
+
     // Map templates with their submissions and unread counts
-    const modelsWithSubmissions = await Promise.all(templates.map(async template => {
+    const modelsWithSubmissions = await Promise.all(templates.map(async ({ rubric, ...template }) => {
       const submission = submissions.find(s => s.modelTemplateId === template.id);
 
       let unreadCount = 0;
@@ -167,9 +299,27 @@ router.get('/groups/:groupId/submissions', async (req: AuthRequest, res: Respons
         });
       }
 
+      let submissionData = null;
+      if (submission) {
+        const { _count, versions, rubricScores, ...rest } = submission;
+        const grade = rubric.length > 0 ? computeGradeTotals(rubric, rubricScores) : null;
+        submissionData = {
+          ...rest,
+          unreadCount,
+          versionCount: _count.versions,
+          latestVersion: versions[0] ?? null,
+          grade
+        };
+      }
+
+      const extension = extensions.find(e => e.modelTemplateId === template.id) ?? null;
+
       return {
         ...template,
-        submission: submission ? { ...submission, unreadCount } : null
+        rubricCriteriaCount: rubric.length,
+        deadlines: effectiveDeadlines(template, extension),
+        extension,
+        submission: submissionData
       };
     }));
 
@@ -180,31 +330,95 @@ router.get('/groups/:groupId/submissions', async (req: AuthRequest, res: Respons
   }
 });
 
-// Get submission file (accepts optional .png extension for JSmol compatibility)
-router.get('/submissions/file/:submissionId', async (req: AuthRequest, res: Response) => {
+// Get a short-lived link to a submission file
+router.get('/submissions/:submissionId/file-url', async (req: AuthRequest, res: Response) => {
   try {
-    // Strip .png extension if present (added for JSmol file type detection)
-    const submissionId = (req.params.submissionId as string).replace(/\.png$/, '');
+    const submissionId = req.params.submissionId as string;
 
-    const submission = await prisma.submission.findUnique({
-      where: { id: submissionId }
-    });
+    const { hasAccess, submission } = await hasSubmissionAccess(req.user!.userId, req.user!.role, submissionId);
+
+    if (!submission) {
+      res.status(404).json({ error: 'Submission not found' });
+      return;
+    }
+    if (!hasAccess) {
+      res.status(403).json({ error: 'You do not have access to this submission' });
+      return;
+    }
+
+    res.json(signedFileUrl('submissions', submission.id));
+  } catch (error) {
+    console.error('Error creating submission file link:', error);
+    res.status(500).json({ error: 'Failed to create submission file link' });
+  }
+});
+
+// Get version history for a submission
+router.get('/submissions/:submissionId/versions', async (req: AuthRequest, res: Response) => {
+  try {
+    const submissionId = req.params.submissionId as string;
+
+    const { hasAccess, submission } = await hasSubmissionAccess(req.user!.userId, req.user!.role, submissionId);
 
     if (!submission) {
       res.status(404).json({ error: 'Submission not found' });
       return;
     }
+    if (!hasAccess) {
+      res.status(403).json({ error: 'You do not have access to this submission' });
+      return;
+    }
 
-    const filePath = path.join(MODELS_DIR, submission.filePath);
-    if (!fs.existsSync(filePath)) {
-      res.status(404).json({ error: 'File not found' });
+    const versions = await prisma.submissionVersion.findMany({
+      where: { submissionId },
+      orderBy: { versionNumber: 'desc' },
+      include: {
+        uploadedBy: {
+          select: { id: true, firstName: true, lastName: true }
+        },
+        _count: {
+          select: { comments: true }
+        }
+      }
+    });
+
+    res.json(versions.map(({ _count, ...version }) => ({
+      ...version,
+      commentCount: _count.comments
+    })));
+  } catch (error) {
+    console.error('Error fetching submission versions:', error);
+    res.status(500).json({ error: 'Failed to fetch submission versions' });
+  }
+});
+
+// Get a short-lived link to the file of a specific submission version
+router.get('/submissions/versions/:versionId/file-url', async (req: AuthRequest, res: Response) => {
+  try {
+    const versionId = req.params.versionId as string;
+
+    const version = await prisma.submissionVersion.findUnique({
+      where: { id: versionId },
+      include: {
+        submission: {
+          select: { groupId: true }
+        }
+      }
+    });
+
+    if (!version) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+    if (!(await hasGroupAccess(req.user!.userId, req.user!.role, version.submission.groupId))) {
+      res.status(403).json({ error: 'You do not have access to this submission' });
       return;
     }
 
-    res.sendFile(filePath);
+    res.json(signedFileUrl('versions', version.id));
   } catch (error) {
-    console.error('Error fetching submission file:', error);
-    res.status(500).json({ error: 'Failed to fetch submission file' });
+    console.error('Error creating version file link:', error);
+    res.status(500).json({ error: 'Failed to create version file link' });
   }
 });
 
@@ -214,19 +428,37 @@ router.patch('/submissions/:submissionId', async (req: AuthRequest, res: Respons
     const submissionId = req.params.submissionId as string;
     const { status, feedback } = req.body;
 
-    const submission = await prisma.submission.findUnique({
-      where: { id: submissionId }
-    });
+    const { hasAccess, submission } = await hasSubmissionAccess(req.user!.userId, req.user!.role, submissionId);
 
     if (!submission) {
       res.status(404).json({ error: 'Submission not found' });
       return;
     }
+    if (!hasAccess) {
+      res.status(403).json({ error: 'You do not have access to this submission' });
+      return;
+    }
+    if (submission.group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
 
     const updateData: { status?: SubmissionStatus; feedback?: string } = {};
     if (status && Object.values(SubmissionStatus).includes(status)) {
       updateData.status = status as SubmissionStatus;
     }
+
+    // TAs can send work back for revision, but approving (or undoing an
+    // approval) is left to instructors
+    if (
+      updateData.status &&
+      updateData.status !== submission.status &&
+      (updateData.status === 'APPROVED' || submission.status === 'APPROVED') &&
+      !hasPermission(req.user!.role, 'approveSubmissions')
+    ) {
+      res.status(403).json({ error: 'Only instructors can approve submissions' });
+      return;
+    }
     if (feedback !== undefined) updateData.feedback = feedback;
 
     const updated = await prisma.submission.update({
@@ -235,10 +467,48 @@ router.patch('/submissions/:submissionId', async (req: AuthRequest, res: Respons
       include: {
         submittedBy: {
           select: { id: true, firstName: true, lastName: true }
+        },
+        modelTemplate: {
+          select: { name: true }
         }
       }
     });
 
+    // Keep the current version's status in sync so the history shows
+    // what each version was marked as while it was the latest
+    if (updateData.status) {
+      const latestVersion = await prisma.submissionVersion.findFirst({
+        where: { submissionId },
+        orderBy: { versionNumber: 'desc' }
+      });
+      if (latestVersion) {
+        await prisma.submissionVersion.update({
+          where: { id: latestVersion.id },
+          data: { status: updateData.status }
+        });
+      }
+
+      publishEvent({
+        type: 'submission',
+        groupId: updated.groupId,
+        submissionId,
+        modelTemplateId: updated.modelTemplateId,
+        status: updated.status
+      });
+
+      // Tell the students when their model was sent back or approved
+      if (updated.status !== submission.status && (updated.status === 'NEEDS_REVISION' || updated.status === 'APPROVED')) {
+        notifyInBackground(groupMemberIds(updated.groupId), {
+          type: 'STATUS_CHANGED',
+          title: updated.status === 'APPROVED'
+            ? `${updated.modelTemplate.name} was approved`
+            : `${updated.modelTemplate.name} needs revision`,
+          groupId: updated.groupId,
+          submissionId
+        });
+      }
+    }
+
     res.json(updated);
   } catch (error) {
     console.error('Error updating submission:', error);
@@ -246,6 +516,207 @@ router.patch('/submissions/:submissionId', async (req: AuthRequest, res: Respons
   }
 });
 
+// ============================================
+// DEADLINE EXTENSIONS
+// ============================================
+
+// Grant or update a group's extension for a model template
+router.put('/groups/:groupId/extensions/:templateId', async (req: AuthRequest, res: Response) => {
+  try {
+    const groupId = req.params.groupId as string;
+    const templateId = req.params.templateId as string;
+    const { reason } = req.body;
+
+    const dueAt = parseDeadline(req.body.dueAt);
+    const closesAt = parseDeadline(req.body.closesAt);
+    if (dueAt === 'invalid' || closesAt === 'invalid') {
+      res.status(400).json({ error: 'Invalid date' });
+      return;
+    }
+    if (!dueAt && !closesAt) {
+      res.status(400).json({ error: 'An extension needs a new due date or close date' });
+      return;
+    }
+
+    const [group, template] = await Promise.all([
+      findVisibleGroup(req, groupId),
+      prisma.modelTemplate.findUnique({ where: { id: templateId } })
+    ]);
+    if (!group || !template || template.courseId !== group.courseId) {
+      res.status(404).json({ error: 'Group or model template not found' });
+      return;
+    }
+    if (group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
+
+    const data = {
+      dueAt: dueAt ?? null,
+      closesAt: closesAt ?? null,
+      reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null,
+      grantedById: req.user!.userId
+    };
+
+    const validationError = validateDeadlines(effectiveDeadlines(template, data));
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const extension = await prisma.deadlineExtension.upsert({
+      where: { groupId_modelTemplateId: { groupId, modelTemplateId: templateId } },
+      create: { groupId, modelTemplateId: templateId, ...data },
+      update: data
+    });
+
+    res.json(extension);
+  } catch (error) {
+    console.error('Error saving extension:', error);
+    res.status(500).json({ error: 'Failed to save extension' });
+  }
+});
+
+// Remove a group's extension, restoring the template's deadlines
+router.delete('/groups/:groupId/extensions/:templateId', async (req: AuthRequest, res: Response) => {
+  try {
+    const groupId = req.params.groupId as string;
+    const templateId = req.params.templateId as string;
+
+    const group = await findVisibleGroup(req, groupId);
+    if (!group) {
+      res.status(404).json({ error: 'Group not found' });
+      return;
+    }
+    if (group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
+
+    await prisma.deadlineExtension.deleteMany({
+      where: { groupId, modelTemplateId: templateId }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error removing extension:', error);
+    res.status(500).json({ error: 'Failed to remove extension' });
+  }
+});
+
+// ============================================
+// GRADING
+// ============================================
+
+// Get the rubric and current scores for a submission
+router.get('/submissions/:submissionId/grade', async (req: AuthRequest, res: Response) => {
+  try {
+    const submissionId = req.params.submissionId as string;
+
+    const { hasAccess, submission } = await hasSubmissionAccess(req.user!.userId, req.user!.role, submissionId);
+    if (!submission) {
+      res.status(404).json({ error: 'Submission not found' });
+      return;
+    }
+    if (!hasAccess) {
+      res.status(403).json({ error: 'You do not have access to this submission' });
+      return;
+    }
+
+    const grade = await getSubmissionGrade(submissionId);
+
+    if (!grade) {
+      res.status(404).json({ error: 'Submission not found' });
+      return;
+    }
+
+    res.json(grade);
+  } catch (error) {
+    console.error('Error fetching grade:', error);
+    res.status(500).json({ error: 'Failed to fetch grade' });
+  }
+});
+
+// Save rubric scores. Each score picks a level and/or gives points directly;
+// points: null removes the score for that criterion. Once the grade is released
+// only staff who can release grades may change it, since students already see it.
+router.put('/submissions/:submissionId/grade', async (req: AuthRequest, res: Response) => {
+  try {
+    const submissionId = req.params.submissionId as string;
+    const { scores } = req.body;
+
+    const { hasAccess, submission } = await hasSubmissionAccess(req.user!.userId, req.user!.role, submissionId);
+
+    if (!submission) {
+      res.status(404).json({ error: 'Submission not found' });
+      return;
+    }
+    if (!hasAccess) {
+      res.status(403).json({ error: 'You do not have access to this submission' });
+      return;
+    }
+    if (submission.group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
+    if (submission.gradeReleasedAt && !hasPermission(req.user!.role, 'releaseGrades')) {
+      res.status(403).json({ error: 'This grade has been released; only an instructor can change it' });
+      return;
+    }
+
+    const result = await resolveScores(submission.modelTemplateId, scores);
+    if ('error' in result) {
+      res.status(400).json({ error: result.error });
+      return;
+    }
+
+    await saveScores(submissionId, result.scores, req.user!.userId);
+    res.json(await getSubmissionGrade(submissionId));
+  } catch (error) {
+    console.error('Error saving grade:', error);
+    res.status(500).json({ error: 'Failed to save grade' });
+  }
+});
+
+// Release the grade to students, or hide it again. TAs can score but not release.
+router.put('/submissions/:submissionId/grade/release', requirePermission('releaseGrades'), async (req: AuthRequest, res: Response) => {
+  try {
+    const submissionId = req.params.submissionId as string;
+    const { released } = req.body;
+
+    const { hasAccess, submission } = await hasSubmissionAccess(req.user!.userId, req.user!.role, submissionId);
+    if (submission && !hasAccess) {
+      res.status(403).json({ error: 'You do not have access to this submission' });
+      return;
+    }
+    if (submission?.group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
+
+    const grade = await getSubmissionGrade(submissionId);
+    if (!grade) {
+      res.status(404).json({ error: 'Submission not found' });
+      return;
+    }
+
+    if (released && grade.criteriaCount === 0) {
+      res.status(400).json({ error: 'This model has no rubric to grade against' });
+      return;
+    }
+
+    await prisma.submission.update({
+      where: { id: submissionId },
+      data: { gradeReleasedAt: released ? new Date() : null }
+    });
+
+    res.json(await getSubmissionGrade(submissionId));
+  } catch (error) {
+    console.error('Error releasing grade:', error);
+    res.status(500).json({ error: 'Failed to release grade' });
+  }
+});
+
 // ============================================
 // LITERATURE
 // ============================================
@@ -256,7 +727,7 @@ router.get('/groups/:groupId/literature', async (req: AuthRequest, res: Response
     const groupId = req.params.groupId as string;
 
     // Verify group exists
-    const group = await prisma.group.findUnique({ where: { id: groupId } });
+    const group = await findVisibleGroup(req, groupId);
     if (!group) {
       res.status(404).json({ error: 'Group not found' });
       return;
@@ -279,8 +750,8 @@ router.get('/groups/:groupId/literature', async (req: AuthRequest, res: Response
   }
 });
 
-// Get literature file
-router.get('/literature/file/:id', async (req: AuthRequest, res: Response) => {
+// Get a short-lived link to a literature PDF
+router.get('/literature/:id/file-url', async (req: AuthRequest, res: Response) => {
   try {
     const id = req.params.id as string;
 
@@ -292,19 +763,15 @@ router.get('/literature/file/:id', async (req: AuthRequest, res: Response) => {
       res.status(404).json({ error: 'Literature not found' });
       return;
     }
-
-    const filePath = path.join(LITERATURE_DIR, literature.filePath);
-    if (!fs.existsSync(filePath)) {
-      res.status(404).json({ error: 'File not found' });
+    if (!(await hasGroupAccess(req.user!.userId, req.user!.role, literature.groupId))) {
+      res.status(403).json({ error: 'You do not have access to this literature' });
       return;
     }
 
-    res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', `inline; filename="${literature.fileName}"`);
-    res.sendFile(filePath);
+    res.json(signedFileUrl('literature', literature.id));
   } catch (error) {
-    console.error('Error fetching literature file:', error);
-    res.status(500).json({ error: 'Failed to fetch literature file' });
+    console.error('Error creating literature file link:', error);
+    res.status(500).json({ error: 'Failed to create literature file link' });
   }
 });
 
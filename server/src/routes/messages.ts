@@ -1,40 +1,93 @@
 import { Router, Response } from 'express';
-import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { authenticate, authenticateStream, AuthRequest } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
+import { openEventStream, publishEvent } from '../lib/events.js';
+import { accessibleGroupIds, hasGroupAccess, hasSubmissionAccess } from '../services/accessService.js';
+import { discussionRecipients, excerpt, notifyInBackground } from '../services/notificationService.js';
+import { ARCHIVED_GROUP_ERROR } from '../services/termArchiveService.js';
+import { MessageAnnotation, annotationData, parseAnnotation } from '../services/annotationService.js';
 
 const router = Router();
 
-// All message routes require authentication
-router.use(authenticate);
+// ============================================
+// LIVE UPDATES
+// ============================================
 
-// Helper to check if user has access to a group
-// Students can only access their own group, instructors can access all
-async function hasGroupAccess(userId: string, userRole: string, groupId: string): Promise<boolean> {
-  if (userRole === 'INSTRUCTOR' || userRole === 'ADMIN') {
-    return true;
+// Event stream for new messages, read receipts, typing indicators and
+// submission status changes. EventSource can't send headers, so the client
+// authenticates with the ?token= query parameter. Registered before the
+// router-wide authenticate, which only takes the header.
+router.get('/stream', authenticateStream, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+    const groupIds = await accessibleGroupIds(userId, req.user!.role);
+    openEventStream(res, userId, req.user!.sessionId, groupIds);
+  } catch (error) {
+    console.error('Error opening event stream:', error);
+    res.status(500).json({ error: 'Failed to open event stream' });
   }
+});
+
+// All other message routes require authentication
+router.use(authenticate);
+
+// Announce that the user is typing in group chat
+router.post('/group/:groupId/typing', async (req: AuthRequest, res: Response) => {
+  try {
+    const groupId = req.params.groupId as string;
+    const userId = req.user!.userId;
+
+    const canAccess = await hasGroupAccess(userId, req.user!.role, groupId);
+    if (!canAccess) {
+      res.status(403).json({ error: 'You do not have access to this group' });
+      return;
+    }
 
-  // For students, check if they're a member of the group
-  const membership = await prisma.groupMember.findFirst({
-    where: { userId, groupId }
-  });
-  return !!membership;
-}
-
-// Helper to check if user has access to a submission
-async function hasSubmissionAccess(userId: string, userRole: string, submissionId: string): Promise<{ hasAccess: boolean; submission: any }> {
-  const submission = await prisma.submission.findUnique({
-    where: { id: submissionId },
-    include: { group: true }
-  });
-
-  if (!submission) {
-    return { hasAccess: false, submission: null };
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, firstName: true, lastName: true, role: true }
+    });
+    if (user) {
+      publishEvent({ type: 'typing', groupId, submissionId: null, user }, { excludeUserId: userId });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error sending typing indicator:', error);
+    res.status(500).json({ error: 'Failed to send typing indicator' });
   }
+});
+
+// Announce that the user is typing a submission comment
+router.post('/submission/:submissionId/typing', async (req: AuthRequest, res: Response) => {
+  try {
+    const submissionId = req.params.submissionId as string;
+    const userId = req.user!.userId;
+
+    const { hasAccess, submission } = await hasSubmissionAccess(userId, req.user!.role, submissionId);
+    if (!submission) {
+      res.status(404).json({ error: 'Submission not found' });
+      return;
+    }
+    if (!hasAccess) {
+      res.status(403).json({ error: 'You do not have access to this submission' });
+      return;
+    }
 
-  const hasAccess = await hasGroupAccess(userId, userRole, submission.groupId);
-  return { hasAccess, submission };
-}
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, firstName: true, lastName: true, role: true }
+    });
+    if (user) {
+      publishEvent({ type: 'typing', groupId: submission.groupId, submissionId, user }, { excludeUserId: userId });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error sending typing indicator:', error);
+    res.status(500).json({ error: 'Failed to send typing indicator' });
+  }
+});
 
 // ============================================
 // GROUP CHAT MESSAGES
@@ -130,18 +183,35 @@ router.put('/group/:groupId/read', async (req: AuthRequest, res: Response) => {
       where: { userId, groupId, submissionId: null }
     });
 
+    const include = {
+      user: {
+        select: { id: true, firstName: true, lastName: true, role: true }
+      }
+    };
+
     let readStatus;
     if (existingStatus) {
       readStatus = await prisma.messageReadStatus.update({
         where: { id: existingStatus.id },
-        data: { lastReadAt: new Date(lastReadAt) }
+        data: { lastReadAt: new Date(lastReadAt) },
+        include
       });
     } else {
       readStatus = await prisma.messageReadStatus.create({
-        data: { userId, groupId, submissionId: null, lastReadAt: new Date(lastReadAt) }
+        data: { userId, groupId, submissionId: null, lastReadAt: new Date(lastReadAt) },
+        include
       });
     }
 
+    publishEvent({
+      type: 'read',
+      groupId,
+      submissionId: null,
+      userId,
+      lastReadAt: readStatus.lastReadAt.toISOString(),
+      user: readStatus.user
+    }, { excludeUserId: userId });
+
     res.json(readStatus);
   } catch (error) {
     console.error('Error marking group messages as read:', error);
@@ -175,6 +245,10 @@ router.post('/group/:groupId', async (req: AuthRequest, res: Response) => {
       res.status(404).json({ error: 'Group not found' });
       return;
     }
+    if (group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
 
     // Create message
     const message = await prisma.message.create({
@@ -206,6 +280,14 @@ router.post('/group/:groupId', async (req: AuthRequest, res: Response) => {
       });
     }
 
+    publishEvent({ type: 'message', groupId, submissionId: null, message });
+    notifyInBackground(discussionRecipients(groupId, userId, userRole), {
+      type: 'NEW_GROUP_MESSAGE',
+      title: `${message.user.firstName} ${message.user.lastName} in ${group.name} chat`,
+      body: excerpt(message.content),
+      groupId
+    });
+
     res.status(201).json(message);
   } catch (error) {
     console.error('Error posting group message:', error);
@@ -244,6 +326,9 @@ router.get('/submission/:submissionId', async (req: AuthRequest, res: Response)
       include: {
         user: {
           select: { id: true, firstName: true, lastName: true, role: true }
+        },
+        version: {
+          select: { id: true, versionNumber: true }
         }
       }
     });
@@ -332,9 +417,23 @@ router.put('/submission/:submissionId/read', async (req: AuthRequest, res: Respo
         groupId: submission.groupId,
         submissionId,
         lastReadAt: new Date(lastReadAt)
+      },
+      include: {
+        user: {
+          select: { id: true, firstName: true, lastName: true, role: true }
+        }
       }
     });
 
+    publishEvent({
+      type: 'read',
+      groupId: submission.groupId,
+      submissionId,
+      userId,
+      lastReadAt: readStatus.lastReadAt.toISOString(),
+      user: readStatus.user
+    }, { excludeUserId: userId });
+
     res.json(readStatus);
   } catch (error) {
     console.error('Error marking submission comments as read:', error);
@@ -348,13 +447,24 @@ router.post('/submission/:submissionId', async (req: AuthRequest, res: Response)
     const submissionId = req.params.submissionId as string;
     const userId = req.user!.userId;
     const userRole = req.user!.role;
-    const { content } = req.body;
+    const { content, versionId } = req.body;
 
     if (!content || typeof content !== 'string' || content.trim().length === 0) {
       res.status(400).json({ error: 'Comment content is required' });
       return;
     }
 
+    // Optional pin to an atom or residue of the model
+    let annotation: MessageAnnotation | null = null;
+    if (req.body.annotation) {
+      const parsed = parseAnnotation(req.body.annotation);
+      if (typeof parsed === 'string') {
+        res.status(400).json({ error: parsed });
+        return;
+      }
+      annotation = parsed;
+    }
+
     // Check access
     const { hasAccess, submission } = await hasSubmissionAccess(userId, userRole, submissionId);
     if (!submission) {
@@ -365,6 +475,23 @@ router.post('/submission/:submissionId', async (req: AuthRequest, res: Response)
       res.status(403).json({ error: 'You do not have access to this submission' });
       return;
     }
+    if (submission.group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
+
+    // Anchor the comment to a version - the one given, or the latest upload
+    const version = versionId
+      ? await prisma.submissionVersion.findFirst({ where: { id: versionId, submissionId } })
+      : await prisma.submissionVersion.findFirst({
+          where: { submissionId },
+          orderBy: { versionNumber: 'desc' }
+        });
+
+    if (versionId && !version) {
+      res.status(400).json({ error: 'Version does not belong to this submission' });
+      return;
+    }
 
     // Create comment
     const comment = await prisma.message.create({
@@ -372,11 +499,16 @@ router.post('/submission/:submissionId', async (req: AuthRequest, res: Response)
         groupId: submission.groupId,
         userId,
         submissionId,
-        content: content.trim()
+        versionId: version?.id ?? null,
+        content: content.trim(),
+        annotation: annotationData(annotation)
       },
       include: {
         user: {
           select: { id: true, firstName: true, lastName: true, role: true }
+        },
+        version: {
+          select: { id: true, versionNumber: true }
         }
       }
     });
@@ -396,6 +528,15 @@ router.post('/submission/:submissionId', async (req: AuthRequest, res: Response)
       });
     }
 
+    publishEvent({ type: 'message', groupId: submission.groupId, submissionId, message: comment });
+    notifyInBackground(discussionRecipients(submission.groupId, userId, userRole), {
+      type: 'NEW_COMMENT',
+      title: `${comment.user.firstName} ${comment.user.lastName} commented on ${submission.group.name}'s ${submission.modelTemplate.name}`,
+      body: excerpt(comment.content),
+      groupId: submission.groupId,
+      submissionId
+    });
+
     res.status(201).json(comment);
   } catch (error) {
     console.error('Error posting submission comment:', error);
@@ -0,0 +1,115 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { prisma } from '../lib/prisma.js';
+import { getEmailPreferences, saveEmailPreferences, validateEmailPreferences } from '../services/notificationService.js';
+
+const router = Router();
+
+// Every user has their own notifications
+router.use(authenticate);
+
+// Older notifications stay in the database but aren't listed
+const NOTIFICATION_LIST_LIMIT = 50;
+
+// ============================================
+// NOTIFICATIONS
+// ============================================
+
+// Get the current user's latest notifications
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.user!.userId;
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: NOTIFICATION_LIST_LIMIT
+      }),
+      prisma.notification.count({
+        where: { userId, readAt: null }
+      })
+    ]);
+
+    res.json({ notifications, unreadCount });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+});
+
+// Mark every notification as read
+router.put('/read-all', async (req: AuthRequest, res: Response) => {
+  try {
+    await prisma.notification.updateMany({
+      where: { userId: req.user!.userId, readAt: null },
+      data: { readAt: new Date() }
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read' });
+  }
+});
+
+// Mark one notification as read
+router.put('/:id/read', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const notification = await prisma.notification.findFirst({
+      where: { id, userId: req.user!.userId }
+    });
+    if (!notification) {
+      res.status(404).json({ error: 'Notification not found' });
+      return;
+    }
+
+    const updated = await prisma.notification.update({
+      where: { id },
+      data: { readAt: notification.readAt ?? new Date() }
+    });
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Error marking notification as read:', error);
+    res.status(500).json({ error: 'Failed to mark notification as read' });
+  }
+});
+
+// ============================================
+// EMAIL PREFERENCES
+// ============================================
+
+// Get how each notification type is delivered by email
+router.get('/preferences', async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await getEmailPreferences(req.user!.userId, req.user!.role));
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    res.status(500).json({ error: 'Failed to fetch notification preferences' });
+  }
+});
+
+// Update email delivery
+// Body: { preferences: [{ type, email: 'IMMEDIATE' | 'DIGEST' | 'OFF' }] }
+router.put('/preferences', async (req: AuthRequest, res: Response) => {
+  try {
+    const { preferences } = req.body;
+
+    const validationError = validateEmailPreferences(req.user!.role, preferences);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    await saveEmailPreferences(req.user!.userId, preferences);
+    res.json(await getEmailPreferences(req.user!.userId, req.user!.role));
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    res.status(500).json({ error: 'Failed to update notification preferences' });
+  }
+});
+
+export default router;
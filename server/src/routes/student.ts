@@ -2,9 +2,19 @@ import { Router, Request, Response } from 'express';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
+import { SubmissionStatus } from '@prisma/client';
 import { authenticate, requireRole, AuthRequest } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
+import { publishEvent } from '../lib/events.js';
+import { resolveUploadPath } from '../lib/storage.js';
+import { emailDeliveryFor, groupInstructorIds, notifyInBackground } from '../services/notificationService.js';
 import { sendReviewRequestEmail } from '../services/emailService.js';
+import { analyzePngj, PngjMetadata } from '../services/pngjService.js';
+import { checkProteinMatch, ProteinMatchResult } from '../services/proteinMatchService.js';
+import { computeGradeTotals, getSubmissionGrade } from '../services/gradingService.js';
+import { effectiveDeadlines, getGroupDeadlines, isPastDue, uploadWindowError, EffectiveDeadlines } from '../services/deadlineService.js';
+import { ARCHIVED_GROUP_ERROR } from '../services/termArchiveService.js';
+import { signedFileUrl } from '../services/fileUrlService.js';
 
 const router = Router();
 
@@ -24,7 +34,7 @@ const LITERATURE_DIR = path.join(UPLOAD_BASE, 'literature');
   }
 });
 
-// Configure multer for model uploads (JPG files)
+// Configure multer for model uploads (PNGJ files)
 const modelStorage = multer.diskStorage({
   destination: (req, file, cb) => {
     cb(null, MODELS_DIR);
@@ -39,15 +49,31 @@ const modelUpload = multer({
   storage: modelStorage,
   fileFilter: (req, file, cb) => {
     const ext = path.extname(file.originalname).toLowerCase();
-    if (ext === '.jpg' || ext === '.jpeg' || ext === '.png') {
+    if (ext === '.png') {
       cb(null, true);
     } else {
-      cb(new Error('Only JPG and PNG files are allowed for models'));
+      cb(new Error('Only PNGJ (.png) files exported from Jmol are allowed for models'));
     }
   },
   limits: { fileSize: 10 * 1024 * 1024 } // 10MB limit
 });
 
+const NO_JMOL_STATE_ERROR =
+  'This image does not contain a Jmol model. Export it from Jmol as PNG+Jmol (PNGJ), ' +
+  'or use Download PNGJ in the 3D viewer.';
+
+// Version fields returned alongside each submission in list views
+const LATEST_VERSION_SELECT = {
+  id: true,
+  versionNumber: true,
+  hasStructure: true,
+  structureSource: true,
+  atomCount: true,
+  embeddedPdbId: true,
+  proteinMatch: true,
+  proteinMatchDetail: true
+} as const;
+
 // Configure multer for literature uploads (PDF files)
 const literatureStorage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -73,9 +99,12 @@ const literatureUpload = multer({
 });
 
 // Helper to get student's group
+// A student keeps their old groups from past courses, so use the newest
+// active one, or the newest archived one once every group is archived
 async function getStudentGroup(userId: string) {
   const membership = await prisma.groupMember.findFirst({
     where: { userId },
+    orderBy: [{ group: { archivedAt: { sort: 'desc', nulls: 'first' } } }, { joinedAt: 'desc' }],
     include: { group: true }
   });
   return membership?.group;
@@ -108,6 +137,10 @@ router.put('/group', async (req: AuthRequest, res: Response) => {
       res.status(404).json({ error: 'You are not assigned to a group' });
       return;
     }
+    if (group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
 
     const { proteinPdbId, proteinName } = req.body;
 
@@ -160,16 +193,34 @@ router.get('/models', async (req: AuthRequest, res: Response) => {
       return;
     }
 
-    // Get all active model templates
+    // Get the active model templates of the group's course
     const templates = await prisma.modelTemplate.findMany({
-      where: { isActive: true },
-      orderBy: { orderIndex: 'asc' }
+      where: { isActive: true, courseId: group.courseId },
+      orderBy: { orderIndex: 'asc' },
+      include: {
+        rubric: {
+          select: { id: true, maxPoints: true }
+        }
+      }
     });
 
     // Get latest submission for each template for this group
     const submissions = await prisma.submission.findMany({
       where: { groupId: group.id },
-      orderBy: { createdAt: 'desc' }
+      orderBy: { createdAt: 'desc' },
+      include: {
+        _count: {
+          select: { versions: true }
+        },
+        versions: {
+          orderBy: { versionNumber: 'desc' },
+          take: 1,
+          select: LATEST_VERSION_SELECT
+        },
+        rubricScores: {
+          select: { criterionId: true, points: true }
+        }
+      }
     });
 
     // Get user's read status for all submissions in this group
@@ -181,8 +232,12 @@ router.get('/models', async (req: AuthRequest, res: Response) => {
       }
     });
 
+    const extensions = await prisma.deadlineExtension.findMany({
+      where: { groupId: group.id }
+    });
+
     // Map templates with their latest submission and unread counts
-    const modelsWithSubmissions = await Promise.all(templates.map(async template => {
+    const modelsWithSubmissions = await Promise.all(templates.map(async ({ rubric, ...template }) => {
       const submission = submissions.find(s => s.modelTemplateId === template.id);
 
       let unreadCount = 0;
@@ -198,9 +253,27 @@ router.get('/models', async (req: AuthRequest, res: Response) => {
         });
       }
 
+      let submissionData = null;
+      if (submission) {
+        const { _count, versions, rubricScores, ...rest } = submission;
+        // Rubric totals are only shown to students once released
+        const grade = rest.gradeReleasedAt && rubric.length > 0
+          ? computeGradeTotals(rubric, rubricScores)
+          : null;
+        submissionData = {
+          ...rest,
+          unreadCount,
+          versionCount: _count.versions,
+          latestVersion: versions[0] ?? null,
+          grade
+        };
+      }
+
       return {
         ...template,
-        submission: submission ? { ...submission, unreadCount } : null
+        rubricCriteriaCount: rubric.length,
+        deadlines: effectiveDeadlines(template, extensions.find(e => e.modelTemplateId === template.id)),
+        submission: submissionData
       };
     }));
 
@@ -214,7 +287,117 @@ router.get('/models', async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Upload/replace a model submission
+// Record an upload as the next version of a group's submission for a template.
+// Earlier files are never deleted - each upload gets its own SubmissionVersion,
+// and the Submission row mirrors the latest version's file.
+async function recordSubmissionVersion(params: {
+  groupId: string;
+  templateId: string;
+  userId: string;
+  file: Express.Multer.File;
+  pngj: PngjMetadata;
+  proteinMatch: ProteinMatchResult;
+  deadlines: EffectiveDeadlines;
+  status?: SubmissionStatus;
+}) {
+  const { groupId, templateId, userId, file, pngj, proteinMatch, deadlines } = params;
+
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.submission.findFirst({
+      where: { groupId, modelTemplateId: templateId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        versions: { orderBy: { versionNumber: 'desc' }, take: 1 }
+      }
+    });
+
+    const fileData = {
+      fileName: file.originalname,
+      filePath: file.filename,
+      fileSize: file.size
+    };
+    // Revisions an instructor asked for are never counted as late
+    const isLate = isPastDue(deadlines) && existing?.status !== 'NEEDS_REVISION';
+
+    const versionData = {
+      ...fileData,
+      ...pngj,
+      proteinMatch: proteinMatch.status,
+      proteinMatchDetail: proteinMatch.detail,
+      isLate
+    };
+
+    if (!existing) {
+      const status = params.status ?? 'SUBMITTED';
+      const submission = await tx.submission.create({
+        data: {
+          groupId,
+          modelTemplateId: templateId,
+          submittedById: userId,
+          ...fileData,
+          status,
+          isLate
+        }
+      });
+      const version = await tx.submissionVersion.create({
+        data: {
+          submissionId: submission.id,
+          versionNumber: 1,
+          uploadedById: userId,
+          ...versionData,
+          status
+        }
+      });
+      return { submission, version };
+    }
+
+    let latestVersionNumber = existing.versions[0]?.versionNumber ?? 0;
+
+    // Submissions uploaded before version tracking have no version rows yet,
+    // so preserve their current file as version 1
+    if (latestVersionNumber === 0) {
+      await tx.submissionVersion.create({
+        data: {
+          submissionId: existing.id,
+          versionNumber: 1,
+          uploadedById: existing.submittedById,
+          fileName: existing.fileName,
+          filePath: existing.filePath,
+          fileSize: existing.fileSize,
+          status: existing.status,
+          createdAt: existing.createdAt
+        }
+      });
+      latestVersionNumber = 1;
+    }
+
+    const status = params.status ?? existing.status;
+    const version = await tx.submissionVersion.create({
+      data: {
+        submissionId: existing.id,
+        versionNumber: latestVersionNumber + 1,
+        uploadedById: userId,
+        ...versionData,
+        status
+      }
+    });
+
+    const submission = await tx.submission.update({
+      where: { id: existing.id },
+      data: {
+        submittedById: userId,
+        ...fileData,
+        status,
+        isLate,
+        createdAt: version.createdAt
+      }
+    });
+
+    return { submission, version };
+  });
+}
+
+// Upload a new version of a model submission
 router.post('/models/:templateId/upload', modelUpload.single('file'), async (req: AuthRequest, res: Response) => {
   try {
     const templateId = req.params.templateId as string;
@@ -227,81 +410,76 @@ router.post('/models/:templateId/upload', modelUpload.single('file'), async (req
 
     const group = await getStudentGroup(req.user!.userId);
     if (!group) {
+      fs.unlinkSync(file.path);
       res.status(404).json({ error: 'You are not assigned to a group' });
       return;
     }
+    if (group.archivedAt) {
+      fs.unlinkSync(file.path);
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
 
-    // Verify template exists and is active
+    // Verify template exists, is active and belongs to the group's course
     const template = await prisma.modelTemplate.findUnique({
       where: { id: templateId }
     });
-    if (!template || !template.isActive) {
+    if (!template || !template.isActive || template.courseId !== group.courseId) {
       // Clean up uploaded file
       fs.unlinkSync(file.path);
       res.status(404).json({ error: 'Model template not found' });
       return;
     }
 
-    // Find existing submission for this template
-    const existingSubmission = await prisma.submission.findFirst({
-      where: {
-        groupId: group.id,
-        modelTemplateId: templateId
-      },
-      orderBy: { createdAt: 'desc' }
-    });
+    const deadlines = await getGroupDeadlines(group.id, template);
+    const windowError = uploadWindowError(deadlines);
+    if (windowError) {
+      fs.unlinkSync(file.path);
+      res.status(403).json({ error: windowError });
+      return;
+    }
 
-    let submission;
+    // Reject images without an embedded Jmol state (e.g. plain screenshots)
+    const pngj = analyzePngj(fs.readFileSync(file.path));
+    if (!pngj) {
+      fs.unlinkSync(file.path);
+      res.status(400).json({ error: NO_JMOL_STATE_ERROR });
+      return;
+    }
 
-    if (existingSubmission) {
-      // Delete old file if exists
-      if (existingSubmission.filePath) {
-        const oldPath = path.join(MODELS_DIR, existingSubmission.filePath);
-        if (fs.existsSync(oldPath)) {
-          fs.unlinkSync(oldPath);
-        }
-      }
+    // Flag models that don't contain the group's assigned protein
+    const proteinMatch = await checkProteinMatch(pngj, group.proteinPdbId);
 
-      // Update existing submission (preserves messages/comments)
-      submission = await prisma.submission.update({
-        where: { id: existingSubmission.id },
-        data: {
-          submittedById: req.user!.userId,
-          fileName: file.originalname,
-          filePath: file.filename,
-          fileSize: file.size,
-          status: 'SUBMITTED',
-          createdAt: new Date(),
-          updatedAt: new Date()
-        }
-      });
-    } else {
-      // Create new submission
-      submission = await prisma.submission.create({
-        data: {
-          groupId: group.id,
-          modelTemplateId: templateId,
-          submittedById: req.user!.userId,
-          fileName: file.originalname,
-          filePath: file.filename,
-          fileSize: file.size,
-          status: 'SUBMITTED'
-        }
-      });
-    }
+    const { submission, version } = await recordSubmissionVersion({
+      groupId: group.id,
+      templateId,
+      userId: req.user!.userId,
+      file,
+      pngj: pngj.metadata,
+      proteinMatch,
+      deadlines,
+      status: 'SUBMITTED'
+    });
+
+    publishEvent({
+      type: 'submission',
+      groupId: group.id,
+      submissionId: submission.id,
+      modelTemplateId: templateId,
+      status: submission.status
+    });
 
-    res.status(201).json(submission);
+    res.status(201).json({ ...submission, versionNumber: version.versionNumber, latestVersion: version });
   } catch (error) {
     console.error('Error uploading model:', error);
     res.status(500).json({ error: 'Failed to upload model' });
   }
 });
 
-// Get model file (accepts optional .png extension for JSmol compatibility)
-router.get('/models/file/:submissionId', async (req: AuthRequest, res: Response) => {
+// Get a short-lived link to a model file
+router.get('/models/:submissionId/file-url', async (req: AuthRequest, res: Response) => {
   try {
-    // Strip .png extension if present (added for JSmol file type detection)
-    const submissionId = (req.params.submissionId as string).replace(/\.png$/, '');
+    const submissionId = req.params.submissionId as string;
 
     const group = await getStudentGroup(req.user!.userId);
     if (!group) {
@@ -318,20 +496,14 @@ router.get('/models/file/:submissionId', async (req: AuthRequest, res: Response)
       return;
     }
 
-    const filePath = path.join(MODELS_DIR, submission.filePath);
-    if (!fs.existsSync(filePath)) {
-      res.status(404).json({ error: 'File not found' });
-      return;
-    }
-
-    res.sendFile(filePath);
+    res.json(signedFileUrl('submissions', submission.id));
   } catch (error) {
-    console.error('Error fetching model file:', error);
-    res.status(500).json({ error: 'Failed to fetch model file' });
+    console.error('Error creating model file link:', error);
+    res.status(500).json({ error: 'Failed to create model file link' });
   }
 });
 
-// Replace submission file with new PNGJ
+// Upload a new file for an existing submission, keeping its current status
 router.put('/models/:submissionId/replace', modelUpload.single('file'), async (req: AuthRequest, res: Response) => {
   try {
     const submissionId = req.params.submissionId as string;
@@ -348,10 +520,16 @@ router.put('/models/:submissionId/replace', modelUpload.single('file'), async (r
       res.status(404).json({ error: 'You are not assigned to a group' });
       return;
     }
+    if (group.archivedAt) {
+      fs.unlinkSync(file.path);
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
 
     // Find existing submission
     const submission = await prisma.submission.findUnique({
-      where: { id: submissionId }
+      where: { id: submissionId },
+      include: { modelTemplate: true }
     });
 
     if (!submission || submission.groupId !== group.id) {
@@ -360,31 +538,152 @@ router.put('/models/:submissionId/replace', modelUpload.single('file'), async (r
       return;
     }
 
-    // Delete old file
-    const oldPath = path.join(MODELS_DIR, submission.filePath);
-    if (fs.existsSync(oldPath)) {
-      fs.unlinkSync(oldPath);
+    const deadlines = await getGroupDeadlines(group.id, submission.modelTemplate);
+    const windowError = uploadWindowError(deadlines);
+    if (windowError) {
+      fs.unlinkSync(file.path);
+      res.status(403).json({ error: windowError });
+      return;
     }
 
-    // Update submission with new file
-    const updatedSubmission = await prisma.submission.update({
-      where: { id: submissionId },
-      data: {
-        fileName: file.originalname,
-        filePath: file.filename,
-        fileSize: file.size,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }
+    const pngj = analyzePngj(fs.readFileSync(file.path));
+    if (!pngj) {
+      fs.unlinkSync(file.path);
+      res.status(400).json({ error: NO_JMOL_STATE_ERROR });
+      return;
+    }
+
+    // Flag models that don't contain the group's assigned protein
+    const proteinMatch = await checkProteinMatch(pngj, group.proteinPdbId);
+
+    const { submission: updatedSubmission, version } = await recordSubmissionVersion({
+      groupId: group.id,
+      templateId: submission.modelTemplateId,
+      userId: req.user!.userId,
+      file,
+      pngj: pngj.metadata,
+      proteinMatch,
+      deadlines
+    });
+
+    publishEvent({
+      type: 'submission',
+      groupId: group.id,
+      submissionId: updatedSubmission.id,
+      modelTemplateId: updatedSubmission.modelTemplateId,
+      status: updatedSubmission.status
     });
 
-    res.json(updatedSubmission);
+    res.json({ ...updatedSubmission, versionNumber: version.versionNumber, latestVersion: version });
   } catch (error) {
     console.error('Error replacing submission:', error);
     res.status(500).json({ error: 'Failed to replace submission' });
   }
 });
 
+// Get version history for a submission
+router.get('/models/:submissionId/versions', async (req: AuthRequest, res: Response) => {
+  try {
+    const submissionId = req.params.submissionId as string;
+
+    const group = await getStudentGroup(req.user!.userId);
+    if (!group) {
+      res.status(404).json({ error: 'You are not assigned to a group' });
+      return;
+    }
+
+    const submission = await prisma.submission.findUnique({
+      where: { id: submissionId }
+    });
+
+    if (!submission || submission.groupId !== group.id) {
+      res.status(404).json({ error: 'Submission not found' });
+      return;
+    }
+
+    const versions = await prisma.submissionVersion.findMany({
+      where: { submissionId },
+      orderBy: { versionNumber: 'desc' },
+      include: {
+        uploadedBy: {
+          select: { id: true, firstName: true, lastName: true }
+        },
+        _count: {
+          select: { comments: true }
+        }
+      }
+    });
+
+    res.json(versions.map(({ _count, ...version }) => ({
+      ...version,
+      commentCount: _count.comments
+    })));
+  } catch (error) {
+    console.error('Error fetching submission versions:', error);
+    res.status(500).json({ error: 'Failed to fetch submission versions' });
+  }
+});
+
+// Get a short-lived link to the file of a specific submission version
+router.get('/models/versions/:versionId/file-url', async (req: AuthRequest, res: Response) => {
+  try {
+    const versionId = req.params.versionId as string;
+
+    const group = await getStudentGroup(req.user!.userId);
+    if (!group) {
+      res.status(404).json({ error: 'You are not assigned to a group' });
+      return;
+    }
+
+    const version = await prisma.submissionVersion.findUnique({
+      where: { id: versionId },
+      include: { submission: true }
+    });
+
+    if (!version || version.submission.groupId !== group.id) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+
+    res.json(signedFileUrl('versions', version.id));
+  } catch (error) {
+    console.error('Error creating version file link:', error);
+    res.status(500).json({ error: 'Failed to create version file link' });
+  }
+});
+
+// Get the rubric grade for a submission once it has been released
+router.get('/models/:submissionId/grade', async (req: AuthRequest, res: Response) => {
+  try {
+    const submissionId = req.params.submissionId as string;
+
+    const group = await getStudentGroup(req.user!.userId);
+    if (!group) {
+      res.status(404).json({ error: 'You are not assigned to a group' });
+      return;
+    }
+
+    const submission = await prisma.submission.findUnique({
+      where: { id: submissionId }
+    });
+
+    if (!submission || submission.groupId !== group.id) {
+      res.status(404).json({ error: 'Submission not found' });
+      return;
+    }
+
+    if (!submission.gradeReleasedAt) {
+      res.status(404).json({ error: 'This model has not been graded yet' });
+      return;
+    }
+
+    res.json(await getSubmissionGrade(submissionId));
+  } catch (error) {
+    console.error('Error fetching grade:', error);
+    res.status(500).json({ error: 'Failed to fetch grade' });
+  }
+});
+
 // ============================================
 // LITERATURE
 // ============================================
@@ -438,6 +737,11 @@ router.post('/literature', literatureUpload.single('file'), async (req: AuthRequ
       res.status(404).json({ error: 'You are not assigned to a group' });
       return;
     }
+    if (group.archivedAt) {
+      fs.unlinkSync(file.path);
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
 
     const literature = await prisma.literature.create({
       data: {
@@ -463,8 +767,8 @@ router.post('/literature', literatureUpload.single('file'), async (req: AuthRequ
   }
 });
 
-// Get literature file (PDF)
-router.get('/literature/file/:id', async (req: AuthRequest, res: Response) => {
+// Get a short-lived link to a literature PDF
+router.get('/literature/:id/file-url', async (req: AuthRequest, res: Response) => {
   try {
     const id = req.params.id as string;
 
@@ -483,18 +787,10 @@ router.get('/literature/file/:id', async (req: AuthRequest, res: Response) => {
       return;
     }
 
-    const filePath = path.join(LITERATURE_DIR, literature.filePath);
-    if (!fs.existsSync(filePath)) {
-      res.status(404).json({ error: 'File not found' });
-      return;
-    }
-
-    res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', `inline; filename="${literature.fileName}"`);
-    res.sendFile(filePath);
+    res.json(signedFileUrl('literature', literature.id));
   } catch (error) {
-    console.error('Error fetching literature file:', error);
-    res.status(500).json({ error: 'Failed to fetch literature file' });
+    console.error('Error creating literature file link:', error);
+    res.status(500).json({ error: 'Failed to create literature file link' });
   }
 });
 
@@ -508,6 +804,10 @@ router.delete('/literature/:id', async (req: AuthRequest, res: Response) => {
       res.status(404).json({ error: 'You are not assigned to a group' });
       return;
     }
+    if (group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
 
     const literature = await prisma.literature.findUnique({
       where: { id }
@@ -519,7 +819,7 @@ router.delete('/literature/:id', async (req: AuthRequest, res: Response) => {
     }
 
     // Delete file
-    const filePath = path.join(LITERATURE_DIR, literature.filePath);
+    const filePath = resolveUploadPath('literature', literature.filePath);
     if (fs.existsSync(filePath)) {
       fs.unlinkSync(filePath);
     }
@@ -548,6 +848,10 @@ router.post('/request-review', async (req: AuthRequest, res: Response) => {
       res.status(404).json({ error: 'You are not assigned to a group' });
       return;
     }
+    if (group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
 
     // Check cooldown
     if (group.lastReviewRequestedAt) {
@@ -582,6 +886,11 @@ router.post('/request-review', async (req: AuthRequest, res: Response) => {
       include: {
         modelTemplate: {
           select: { name: true }
+        },
+        versions: {
+          orderBy: { versionNumber: 'desc' },
+          take: 1,
+          select: { proteinMatch: true, proteinMatchDetail: true }
         }
       },
       orderBy: { createdAt: 'desc' }
@@ -601,17 +910,17 @@ router.post('/request-review', async (req: AuthRequest, res: Response) => {
       return;
     }
 
-    // Get all instructors
+    // Get the instructors assigned to this group, or those teaching its course,
+    // or every instructor when nobody is assigned
     const instructors = await prisma.user.findMany({
       where: {
-        role: 'INSTRUCTOR',
-        isApproved: true
+        id: { in: await groupInstructorIds(group.id) }
       },
-      select: { email: true, firstName: true, lastName: true }
+      select: { id: true, email: true, firstName: true, lastName: true }
     });
 
     if (instructors.length === 0) {
-      res.status(500).json({ error: 'No instructors available to notify.' });
+      res.status(400).json({ error: 'No instructors available to notify.' });
       return;
     }
 
@@ -624,12 +933,16 @@ router.post('/request-review', async (req: AuthRequest, res: Response) => {
       modelName: s.modelTemplate.name,
       status: s.status as 'DRAFT' | 'SUBMITTED' | 'NEEDS_REVISION' | 'APPROVED',
       fileName: s.fileName,
-      submittedAt: s.createdAt.toISOString()
+      submittedAt: s.createdAt.toISOString(),
+      proteinMatch: s.versions[0]?.proteinMatch ?? null,
+      proteinMatchDetail: s.versions[0]?.proteinMatchDetail ?? null
     }));
 
-    // Send email to each instructor
-    const emailPromises = instructors.map(instructor =>
-      sendReviewRequestEmail({
+    // Instructors who want review requests right away get the detailed email;
+    // the rest see the notification (and their daily digest, if they chose it)
+    const delivery = await emailDeliveryFor(instructors.map(i => i.id), 'REVIEW_REQUESTED');
+    const emailPromises = instructors.filter(i => delivery.get(i.id) === 'IMMEDIATE').map(async instructor => {
+      const sent = await sendReviewRequestEmail({
         instructorEmail: instructor.email,
         instructorName: `${instructor.firstName} ${instructor.lastName}`,
         groupName: group.name,
@@ -638,11 +951,19 @@ router.post('/request-review', async (req: AuthRequest, res: Response) => {
         studentNames,
         submissions: submissionInfo,
         dashboardUrl
-      })
-    );
+      });
+      return sent ? [instructor.id] : [];
+    });
 
-    const results = await Promise.all(emailPromises);
-    const successCount = results.filter(r => r).length;
+    const emailedUserIds = (await Promise.all(emailPromises)).flat();
+
+    notifyInBackground(instructors.map(i => i.id), {
+      type: 'REVIEW_REQUESTED',
+      title: `${group.name} requested a review`,
+      body: studentNames.join(', '),
+      groupId: group.id,
+      emailedUserIds
+    });
 
     // Update the last review requested timestamp
     await prisma.group.update({
@@ -652,7 +973,7 @@ router.post('/request-review', async (req: AuthRequest, res: Response) => {
 
     res.json({
       success: true,
-      message: `Review request sent to ${successCount} instructor${successCount !== 1 ? 's' : ''}.`,
+      message: `Review request sent to ${instructors.length} instructor${instructors.length !== 1 ? 's' : ''}.`,
       lastReviewRequestedAt: new Date().toISOString()
     });
   } catch (error) {
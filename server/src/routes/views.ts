@@ -0,0 +1,109 @@
+import { Router, Response } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { prisma } from '../lib/prisma.js';
+import { hasSubmissionAccess } from '../services/accessService.js';
+import { ARCHIVED_GROUP_ERROR } from '../services/termArchiveService.js';
+import { createSavedView, getSavedViews, getViewerPresets, parseSavedView } from '../services/viewerService.js';
+
+const router = Router();
+
+// Students, staff and admins all use the 3D viewer
+router.use(authenticate);
+
+// ============================================
+// PRESETS AND SAVED VIEWS
+// ============================================
+
+// Get the template's presets and the saved views for a submission
+router.get('/submissions/:submissionId', async (req: AuthRequest, res: Response) => {
+  try {
+    const submissionId = req.params.submissionId as string;
+
+    const { hasAccess, submission } = await hasSubmissionAccess(req.user!.userId, req.user!.role, submissionId);
+    if (!submission) {
+      res.status(404).json({ error: 'Submission not found' });
+      return;
+    }
+    if (!hasAccess) {
+      res.status(403).json({ error: 'You do not have access to this submission' });
+      return;
+    }
+
+    const [presets, views] = await Promise.all([
+      getViewerPresets(submission.modelTemplateId),
+      getSavedViews(submissionId)
+    ]);
+
+    res.json({ presets, views });
+  } catch (error) {
+    console.error('Error fetching viewer presets and views:', error);
+    res.status(500).json({ error: 'Failed to fetch saved views' });
+  }
+});
+
+// Save the current camera orientation under a name
+router.post('/submissions/:submissionId', async (req: AuthRequest, res: Response) => {
+  try {
+    const submissionId = req.params.submissionId as string;
+    const userId = req.user!.userId;
+
+    const view = parseSavedView(req.body);
+    if (typeof view === 'string') {
+      res.status(400).json({ error: view });
+      return;
+    }
+
+    const { hasAccess, submission } = await hasSubmissionAccess(userId, req.user!.role, submissionId);
+    if (!submission) {
+      res.status(404).json({ error: 'Submission not found' });
+      return;
+    }
+    if (!hasAccess) {
+      res.status(403).json({ error: 'You do not have access to this submission' });
+      return;
+    }
+    if (submission.group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
+
+    res.status(201).json(await createSavedView(submissionId, userId, view));
+  } catch (error) {
+    console.error('Error saving view:', error);
+    res.status(500).json({ error: 'Failed to save view' });
+  }
+});
+
+// Delete a saved view. Students can only delete their own; staff can tidy up
+// any view on a submission they can see.
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const userId = req.user!.userId;
+    const userRole = req.user!.role;
+
+    const view = await prisma.savedView.findUnique({ where: { id } });
+    if (!view) {
+      res.status(404).json({ error: 'View not found' });
+      return;
+    }
+
+    const { hasAccess, submission } = await hasSubmissionAccess(userId, userRole, view.submissionId);
+    if (!hasAccess || (view.createdById !== userId && userRole === 'STUDENT')) {
+      res.status(403).json({ error: 'You can only delete your own views' });
+      return;
+    }
+    if (submission.group.archivedAt) {
+      res.status(403).json({ error: ARCHIVED_GROUP_ERROR });
+      return;
+    }
+
+    await prisma.savedView.delete({ where: { id } });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting view:', error);
+    res.status(500).json({ error: 'Failed to delete view' });
+  }
+});
+
+export default router;
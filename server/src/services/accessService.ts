@@ -0,0 +1,93 @@
+// Which groups a user may see. Students see the groups they belong to.
+// Instructors (and TAs) see the groups of the courses they teach and the groups they
+// are assigned to, plus groups that aren't in a course yet (data from before
+// courses existed). Admins see all.
+
+import { Prisma, Role } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { STAFF_ROLES } from '../middleware/auth.js';
+
+// Prisma filter for the groups visible to a user
+export function groupScope(userId: string, userRole: string): Prisma.GroupWhereInput {
+  if (userRole === 'ADMIN') {
+    return {};
+  }
+  if (STAFF_ROLES.includes(userRole as Role)) {
+    return {
+      OR: [
+        { courseId: null },
+        { course: { instructors: { some: { userId } } } },
+        { instructors: { some: { userId } } },
+      ],
+    };
+  }
+  return { members: { some: { userId } } };
+}
+
+// Prisma filter for the courses visible to a user: for staff, the courses
+// they teach and those with a group they're assigned to
+export function courseScope(userId: string, userRole: string): Prisma.CourseWhereInput {
+  if (userRole === 'ADMIN') {
+    return {};
+  }
+  if (STAFF_ROLES.includes(userRole as Role)) {
+    return {
+      OR: [
+        { instructors: { some: { userId } } },
+        { groups: { some: { instructors: { some: { userId } } } } },
+      ],
+    };
+  }
+  return { groups: { some: { members: { some: { userId } } } } };
+}
+
+export async function hasGroupAccess(userId: string, userRole: string, groupId: string): Promise<boolean> {
+  const group = await prisma.group.findFirst({
+    where: { AND: [{ id: groupId }, groupScope(userId, userRole)] },
+    select: { id: true },
+  });
+  return !!group;
+}
+
+const SUBMISSION_ACCESS_INCLUDE = {
+  group: true,
+  modelTemplate: { select: { name: true } },
+} satisfies Prisma.SubmissionInclude;
+
+export type AccessibleSubmission = Prisma.SubmissionGetPayload<{ include: typeof SUBMISSION_ACCESS_INCLUDE }>;
+
+// Without access the submission is still returned (null if it doesn't
+// exist), so callers can tell a 403 from a 404
+export type SubmissionAccess =
+  | { hasAccess: true; submission: AccessibleSubmission }
+  | { hasAccess: false; submission: AccessibleSubmission | null };
+
+// Looks up a submission and checks its group is visible to the user
+export async function hasSubmissionAccess(userId: string, userRole: string, submissionId: string): Promise<SubmissionAccess> {
+  const submission = await prisma.submission.findUnique({
+    where: { id: submissionId },
+    include: SUBMISSION_ACCESS_INCLUDE,
+  });
+
+  if (!submission) {
+    return { hasAccess: false, submission: null };
+  }
+
+  if (!(await hasGroupAccess(userId, userRole, submission.groupId))) {
+    return { hasAccess: false, submission };
+  }
+  return { hasAccess: true, submission };
+}
+
+// Groups whose live events a user may receive, or null for all groups
+export async function accessibleGroupIds(userId: string, userRole: string): Promise<string[] | null> {
+  if (userRole === 'ADMIN') {
+    return null;
+  }
+
+  const groups = await prisma.group.findMany({
+    where: groupScope(userId, userRole),
+    select: { id: true },
+  });
+  return groups.map((g) => g.id);
+}
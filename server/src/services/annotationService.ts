@@ -0,0 +1,123 @@
+// 3D annotations: a comment pinned to an atom or residue of a model, together
+// with the camera orientation it was written from. Every viewer that opens the
+// comment turns these into Jmol commands, so they're kept as plain, checked
+// values rather than script text that could run anything.
+
+import { Prisma } from '@prisma/client';
+
+export type AnnotationScope = 'atom' | 'residue';
+
+export interface AnnotationTarget {
+  scope: AnnotationScope;
+  residueName: string;
+  residueNumber: number;
+  insertionCode: string | null;
+  chain: string | null;
+  // Only for scope 'atom'
+  atomName: string | null;
+}
+
+// Arguments of Jmol's `moveto` after the time: numbers and {...} groups
+export type AnnotationOrientation = (number | number[])[];
+
+export interface MessageAnnotation {
+  target: AnnotationTarget;
+  orientation: AnnotationOrientation | null;
+}
+
+// Names as PDB files write them, which also keeps them safe inside a Jmol
+// atom expression
+const NAME_PATTERN = /^[A-Za-z0-9]{1,4}$/;
+const CODE_PATTERN = /^[A-Za-z0-9]$/;
+const CHAIN_PATTERN = /^[A-Za-z0-9]{1,4}$/;
+
+const MAX_ORIENTATION_TOKENS = 20;
+const MAX_GROUP_SIZE = 4;
+
+function optionalString(value: unknown, pattern: RegExp): string | null | undefined {
+  if (value === undefined || value === null || value === '') return null;
+  return typeof value === 'string' && pattern.test(value) ? value : undefined;
+}
+
+function parseTarget(input: unknown): AnnotationTarget | string {
+  if (!input || typeof input !== 'object') {
+    return 'Annotation target is required';
+  }
+  const target = input as Record<string, unknown>;
+
+  if (target.scope !== 'atom' && target.scope !== 'residue') {
+    return 'Annotation scope must be "atom" or "residue"';
+  }
+  if (typeof target.residueName !== 'string' || !NAME_PATTERN.test(target.residueName)) {
+    return 'Invalid residue name';
+  }
+  if (!Number.isInteger(target.residueNumber) || Math.abs(target.residueNumber as number) > 99999) {
+    return 'Invalid residue number';
+  }
+
+  const insertionCode = optionalString(target.insertionCode, CODE_PATTERN);
+  if (insertionCode === undefined) {
+    return 'Invalid insertion code';
+  }
+  const chain = optionalString(target.chain, CHAIN_PATTERN);
+  if (chain === undefined) {
+    return 'Invalid chain';
+  }
+
+  let atomName: string | null = null;
+  if (target.scope === 'atom') {
+    if (typeof target.atomName !== 'string' || !NAME_PATTERN.test(target.atomName)) {
+      return 'Invalid atom name';
+    }
+    atomName = target.atomName;
+  }
+
+  return {
+    scope: target.scope,
+    residueName: target.residueName,
+    residueNumber: target.residueNumber as number,
+    insertionCode,
+    chain,
+    atomName,
+  };
+}
+
+// Also used for saved views (see viewerService)
+export function parseOrientation(input: unknown): AnnotationOrientation | null | string {
+  if (input === undefined || input === null) return null;
+  if (!Array.isArray(input) || input.length === 0 || input.length > MAX_ORIENTATION_TOKENS) {
+    return 'Invalid camera orientation';
+  }
+
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+  for (const token of input) {
+    const valid = Array.isArray(token)
+      ? token.length > 0 && token.length <= MAX_GROUP_SIZE && token.every(isNumber)
+      : isNumber(token);
+    if (!valid) {
+      return 'Invalid camera orientation';
+    }
+  }
+  return input as AnnotationOrientation;
+}
+
+// Checks an annotation sent with a comment, keeping only the known fields
+export function parseAnnotation(input: unknown): MessageAnnotation | string {
+  if (!input || typeof input !== 'object') {
+    return 'Invalid annotation';
+  }
+  const annotation = input as Record<string, unknown>;
+
+  const target = parseTarget(annotation.target);
+  if (typeof target === 'string') return target;
+
+  const orientation = parseOrientation(annotation.orientation);
+  if (typeof orientation === 'string') return orientation;
+
+  return { target, orientation };
+}
+
+// For storing with prisma.message.create
+export function annotationData(annotation: MessageAnnotation | null): Prisma.InputJsonValue | undefined {
+  return annotation ? (annotation as unknown as Prisma.InputJsonValue) : undefined;
+}
@@ -0,0 +1,1380 @@
+// Nuclear-reset archives: writing the zip and restoring one into the database.
+//
+// Every archive has manifest.json and, per group folder, group-info.json,
+// messages.json and the model/literature files. Format 2 archives add
+// users.json at the top and records.json per group with the full submission,
+// version, rubric score and literature rows. Format 1 archives (no
+// formatVersion in the manifest) only have the files, so submissions are
+// rebuilt from the model file names and matched to templates by name.
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import archiver from 'archiver';
+import { ProteinMatchStatus, Role, SubmissionStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { normalizeEmail } from '../lib/emailAddress.js';
+import { readZipEntries, ZipEntry } from '../lib/zip.js';
+import { resolveUploadPath, UploadKind } from '../lib/storage.js';
+import { ROLE_NAMES } from '../middleware/auth.js';
+import { analyzePngj } from './pngjService.js';
+import { sendInvitationEmail } from './emailService.js';
+import { INVITE_EXPIRES_DAYS } from './rosterService.js';
+
+export const ARCHIVE_FORMAT_VERSION = 2;
+
+const UPLOAD_BASE = path.join(process.cwd(), 'uploads');
+const MODELS_DIR = path.join(UPLOAD_BASE, 'models');
+const LITERATURE_DIR = path.join(UPLOAD_BASE, 'literature');
+
+const USER_SELECT = { id: true, email: true, firstName: true, lastName: true } as const;
+
+// ============================================
+// Types
+// ============================================
+
+// users.json (format 2). Passwords are never archived: restored students are
+// invited to set a new one, and staff accounts normally survive a reset.
+// Archives made before this may still carry a passwordHash, which is ignored.
+interface ArchivedUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: Role;
+  isApproved: boolean;
+  createdAt: string;
+}
+
+interface ArchivedGroupInfo {
+  id: string;
+  name: string;
+  proteinPdbId: string;
+  proteinName: string;
+  courseId?: string | null;
+  lastReviewRequestedAt?: string | null;
+  createdAt: string;
+  members: { userId: string; email: string; name: string; joinedAt: string }[];
+}
+
+interface ArchivedMessage {
+  id: string;
+  userId: string;
+  userEmail: string;
+  userName: string;
+  content: string;
+  createdAt: string;
+  submissionId: string | null;
+  submissionFileName: string | null;
+  versionId?: string | null;
+  isSubmissionComment: boolean;
+}
+
+interface ArchivedVersion {
+  id: string;
+  versionNumber: number;
+  uploadedById: string;
+  fileName: string;
+  fileSize: number | null;
+  status: SubmissionStatus;
+  isLate: boolean;
+  createdAt: string;
+  hasStructure: boolean | null;
+  structureSource: string | null;
+  atomCount: number | null;
+  embeddedPdbId: string | null;
+  displayCommands: string[];
+  proteinMatch: ProteinMatchStatus | null;
+  proteinMatchDetail: string | null;
+  file: string | null; // Path inside the archive, null if the file was missing
+}
+
+// records.json (format 2)
+interface ArchivedRecords {
+  submissions: {
+    id: string;
+    modelTemplate: { id: string; name: string };
+    submittedById: string;
+    fileName: string;
+    fileSize: number | null;
+    status: SubmissionStatus;
+    feedback: string | null;
+    isLate: boolean;
+    gradeReleasedAt: string | null;
+    createdAt: string;
+    file: string | null; // Only set for legacy submissions without versions
+    versions: ArchivedVersion[];
+    rubricScores: {
+      criterionId: string;
+      levelId: string | null;
+      points: number;
+      comment: string | null;
+      gradedById: string;
+      createdAt: string;
+    }[];
+  }[];
+  literature: {
+    id: string;
+    uploadedById: string;
+    title: string;
+    fileName: string;
+    fileSize: number | null;
+    description: string | null;
+    createdAt: string;
+    file: string | null;
+  }[];
+}
+
+// Archive contents with users referenced by email, as restored
+interface RestoreUser {
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: Role;
+  isApproved: boolean;
+}
+
+interface RestoreVersion {
+  key: string;
+  versionNumber: number;
+  uploadedBy: string;
+  fileName: string;
+  fileSize: number | null;
+  status: SubmissionStatus;
+  isLate: boolean;
+  createdAt: Date;
+  metadata: {
+    hasStructure: boolean | null;
+    structureSource: string | null;
+    atomCount: number | null;
+    embeddedPdbId: string | null;
+    displayCommands: string[];
+    proteinMatch: ProteinMatchStatus | null;
+    proteinMatchDetail: string | null;
+  } | null; // null = extract from the file
+  file: string | null;
+}
+
+interface RestoreSubmission {
+  key: string;
+  templateId: string | null;
+  templateName: string;
+  submittedBy: string;
+  status: SubmissionStatus;
+  feedback: string | null;
+  isLate: boolean;
+  gradeReleasedAt: Date | null;
+  createdAt: Date;
+  versions: RestoreVersion[];
+  scores: {
+    criterionId: string;
+    levelId: string | null;
+    points: number;
+    comment: string | null;
+    gradedBy: string;
+    createdAt: Date;
+  }[];
+}
+
+interface RestoreGroup {
+  name: string;
+  proteinPdbId: string;
+  proteinName: string;
+  courseId: string | null;
+  lastReviewRequestedAt: Date | null;
+  createdAt: Date;
+  members: { email: string; joinedAt: Date }[];
+  submissions: RestoreSubmission[];
+  literature: {
+    uploadedBy: string;
+    title: string;
+    fileName: string;
+    fileSize: number | null;
+    description: string | null;
+    createdAt: Date;
+    file: string | null;
+  }[];
+  messages: {
+    author: string;
+    submissionKey: string | null;
+    versionKey: string | null;
+    content: string;
+    createdAt: Date;
+  }[];
+}
+
+export interface ArchiveContents {
+  formatVersion: number;
+  exportedAt: string | null;
+  users: Map<string, RestoreUser>;
+  groups: RestoreGroup[];
+  files: Map<string, ZipEntry>;
+  warnings: string[];
+}
+
+export interface RestoreGroupSummary {
+  name: string;
+  proteinPdbId: string;
+  action: 'restore' | 'skip';
+  reason: string | null;
+  members: number;
+  submissions: number;
+  versions: number;
+  literature: number;
+  messages: number;
+}
+
+export interface RestoreReport {
+  formatVersion: number;
+  exportedAt: string | null;
+  groups: RestoreGroupSummary[];
+  users: { existing: number; toCreate: number };
+  templatesToCreate: string[];
+  conflicts: string[];
+  warnings: string[];
+  // Set once the archive has been restored (not on a dry run)
+  restored: {
+    groups: number;
+    users: number;
+    submissions: number;
+    versions: number;
+    literature: number;
+    messages: number;
+    files: number;
+    invited: number; // Restored students emailed an invitation to set a password
+  } | null;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+// Folder and file names inside the archive
+function sanitizeName(name: string): string {
+  return name.replace(/[<>:"/\\|?*]/g, '_').substring(0, 100);
+}
+
+// Suffix a name until it's unused, keeping the extension last
+function uniqueName(used: Set<string>, name: string): string {
+  const ext = path.extname(name);
+  const base = name.slice(0, name.length - ext.length);
+  let candidate = name;
+  for (let n = 2; used.has(candidate); n++) {
+    candidate = `${base}-${n}${ext}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+function toDate(value: string | null | undefined): Date {
+  const date = value ? new Date(value) : new Date();
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+function toOptionalDate(value: string | null | undefined): Date | null {
+  return value ? toDate(value) : null;
+}
+
+function splitName(name: string): { firstName: string; lastName: string } {
+  const [firstName, ...rest] = name.trim().split(/\s+/);
+  return { firstName: firstName || 'Unknown', lastName: rest.join(' ') };
+}
+
+// Field checks for the JSON files. Archives can be hand-edited, so every
+// field the restore reads is checked before anything is written.
+type Check = (value: unknown) => boolean;
+
+const isString: Check = (v) => typeof v === 'string';
+const isInt: Check = (v) => Number.isInteger(v);
+const isBoolean: Check = (v) => typeof v === 'boolean';
+const optional = (check: Check): Check => (v) => v === null || v === undefined || check(v);
+const oneOf = (values: object): Check => (v) => Object.values(values).includes(v);
+const listOf = (check: Check): Check => (v) => Array.isArray(v) && v.every(check);
+const shape = (fields: Record<string, Check>): Check => (v) =>
+  typeof v === 'object' && v !== null && !Array.isArray(v) &&
+  Object.entries(fields).every(([key, check]) => check((v as Record<string, unknown>)[key]));
+
+const MANIFEST = shape({ formatVersion: optional(isInt), exportedAt: optional(isString) });
+
+const USERS = listOf(shape({
+  id: isString,
+  email: isString,
+  firstName: isString,
+  lastName: isString,
+  role: oneOf(Role),
+  isApproved: isBoolean,
+}));
+
+const GROUP_INFO = shape({
+  name: isString,
+  proteinPdbId: isString,
+  proteinName: isString,
+  courseId: optional(isString),
+  lastReviewRequestedAt: optional(isString),
+  createdAt: optional(isString),
+  members: listOf(shape({ email: isString, name: isString, joinedAt: optional(isString) })),
+});
+
+const MESSAGES = listOf(shape({
+  userEmail: isString,
+  userName: isString,
+  content: isString,
+  createdAt: optional(isString),
+  submissionId: optional(isString),
+  submissionFileName: optional(isString),
+  versionId: optional(isString),
+}));
+
+const VERSION = shape({
+  id: isString,
+  versionNumber: isInt,
+  uploadedById: isString,
+  fileName: isString,
+  fileSize: optional(isInt),
+  status: oneOf(SubmissionStatus),
+  isLate: isBoolean,
+  createdAt: optional(isString),
+  hasStructure: optional(isBoolean),
+  structureSource: optional(isString),
+  atomCount: optional(isInt),
+  embeddedPdbId: optional(isString),
+  displayCommands: optional(listOf(isString)),
+  proteinMatch: optional(oneOf(ProteinMatchStatus)),
+  proteinMatchDetail: optional(isString),
+  file: optional(isString),
+});
+
+const RECORDS = shape({
+  submissions: listOf(shape({
+    id: isString,
+    modelTemplate: shape({ id: isString, name: isString }),
+    submittedById: isString,
+    fileName: isString,
+    fileSize: optional(isInt),
+    status: oneOf(SubmissionStatus),
+    feedback: optional(isString),
+    isLate: isBoolean,
+    gradeReleasedAt: optional(isString),
+    createdAt: optional(isString),
+    file: optional(isString),
+    versions: listOf(VERSION),
+    rubricScores: listOf(shape({
+      criterionId: isString,
+      levelId: optional(isString),
+      points: isInt,
+      comment: optional(isString),
+      gradedById: isString,
+      createdAt: optional(isString),
+    })),
+  })),
+  literature: listOf(shape({
+    uploadedById: isString,
+    title: isString,
+    fileName: isString,
+    fileSize: optional(isInt),
+    description: optional(isString),
+    createdAt: optional(isString),
+    file: optional(isString),
+  })),
+});
+
+// Returns null if the file isn't in the archive, or an error message if it
+// can't be read or isn't shaped like check expects
+function readJson<T>(files: Map<string, ZipEntry>, name: string, check: Check): T | null | string {
+  const entry = files.get(name);
+  if (!entry) return null;
+  let value: unknown;
+  try {
+    value = JSON.parse(entry.read().toString('utf8'));
+  } catch {
+    return `${name} in the archive can't be read`;
+  }
+  return check(value) ? value as T : `${name} in the archive isn't in the expected format`;
+}
+
+// Every account a restored group points at
+function groupEmails(group: RestoreGroup): string[] {
+  return [
+    ...group.members.map((m) => m.email),
+    ...group.submissions.flatMap((s) => [
+      s.submittedBy,
+      ...s.versions.map((v) => v.uploadedBy),
+      ...s.scores.map((score) => score.gradedBy),
+    ]),
+    ...group.literature.map((l) => l.uploadedBy),
+    ...group.messages.map((m) => m.author),
+  ];
+}
+
+// Stored file name in the same shape multer gives uploads
+function storedFileName(originalName: string): string {
+  return `${Date.now()}-${Math.round(Math.random() * 1e9)}${path.extname(originalName)}`;
+}
+
+// ============================================
+// Writing
+// ============================================
+
+// Stream an archive of every group to output
+export async function writeArchive(output: NodeJS.WritableStream, exportedBy: string): Promise<void> {
+  const groups = await prisma.group.findMany({
+    include: {
+      members: { include: { user: { select: USER_SELECT } } },
+      submissions: {
+        include: {
+          modelTemplate: { select: { id: true, name: true } },
+          versions: { orderBy: { versionNumber: 'asc' } },
+          rubricScores: true,
+        },
+      },
+      literature: true,
+      messages: {
+        include: {
+          user: { select: USER_SELECT },
+          submission: { select: { id: true, fileName: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+
+  // Every account the group data points at
+  const userIds = new Set<string>();
+  for (const group of groups) {
+    group.members.forEach((m) => userIds.add(m.userId));
+    group.messages.forEach((m) => userIds.add(m.userId));
+    group.literature.forEach((l) => userIds.add(l.uploadedById));
+    for (const submission of group.submissions) {
+      userIds.add(submission.submittedById);
+      submission.versions.forEach((v) => userIds.add(v.uploadedById));
+      submission.rubricScores.forEach((s) => userIds.add(s.gradedById));
+    }
+  }
+  const users = await prisma.user.findMany({ where: { id: { in: [...userIds] } } });
+  const archivedUsers: ArchivedUser[] = users.map((u) => ({
+    id: u.id,
+    email: u.email,
+    firstName: u.firstName,
+    lastName: u.lastName,
+    role: u.role,
+    isApproved: u.isApproved,
+    createdAt: u.createdAt.toISOString(),
+  }));
+
+  const usedFolders = new Set<string>();
+  const folders = groups.map((g) => uniqueName(usedFolders, sanitizeName(`${g.name}-${g.proteinPdbId}`)));
+
+  const manifest = {
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy,
+    totalGroups: groups.length,
+    totalSubmissions: groups.reduce((sum, g) => sum + g.submissions.length, 0),
+    totalVersions: groups.reduce(
+      (sum, g) => sum + g.submissions.reduce((s, sub) => s + sub.versions.length, 0),
+      0,
+    ),
+    totalLiterature: groups.reduce((sum, g) => sum + g.literature.length, 0),
+    totalMessages: groups.reduce((sum, g) => sum + g.messages.length, 0),
+    groups: groups.map((g, i) => ({
+      id: g.id,
+      name: g.name,
+      proteinPdbId: g.proteinPdbId,
+      proteinName: g.proteinName,
+      folder: folders[i],
+      memberCount: g.members.length,
+      submissionCount: g.submissions.length,
+      literatureCount: g.literature.length,
+      messageCount: g.messages.length,
+    })),
+  };
+
+  const archive = archiver('zip', { zlib: { level: 9 } });
+  archive.pipe(output);
+
+  // Handle archive errors
+  archive.on('error', (err) => {
+    console.error('Archive error:', err);
+    throw err;
+  });
+
+  archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+  archive.append(JSON.stringify(archivedUsers, null, 2), { name: 'users.json' });
+
+  groups.forEach((group, i) => {
+    const folderName = folders[i];
+    const usedFiles = new Set<string>();
+
+    // Adds a stored upload to the archive and returns its path there
+    const addFile = (kind: UploadKind, filePath: string, name: string): string | null => {
+      const fullPath = resolveUploadPath(kind, filePath);
+      if (!fs.existsSync(fullPath)) return null;
+      const archivePath = `${folderName}/${uniqueName(usedFiles, name)}`;
+      archive.file(fullPath, { name: archivePath });
+      return archivePath;
+    };
+
+    const groupInfo: ArchivedGroupInfo = {
+      id: group.id,
+      name: group.name,
+      proteinPdbId: group.proteinPdbId,
+      proteinName: group.proteinName,
+      courseId: group.courseId,
+      lastReviewRequestedAt: group.lastReviewRequestedAt?.toISOString() ?? null,
+      createdAt: group.createdAt.toISOString(),
+      members: group.members.map((m) => ({
+        userId: m.user.id,
+        email: m.user.email,
+        name: `${m.user.firstName} ${m.user.lastName}`,
+        joinedAt: m.joinedAt.toISOString(),
+      })),
+    };
+    archive.append(JSON.stringify(groupInfo, null, 2), { name: `${folderName}/group-info.json` });
+
+    // Model files keep the format 1 names: <template>-v<n>-<file name>
+    const records: ArchivedRecords = {
+      submissions: group.submissions.map((submission) => {
+        const templateName = sanitizeName(submission.modelTemplate.name);
+        const modelName = (prefix: string, file: { fileName: string; filePath: string }) => {
+          const ext = path.extname(file.filePath);
+          return `models/${prefix}-${sanitizeName(file.fileName.replace(ext, ''))}${ext}`;
+        };
+
+        return {
+          id: submission.id,
+          modelTemplate: submission.modelTemplate,
+          submittedById: submission.submittedById,
+          fileName: submission.fileName,
+          fileSize: submission.fileSize,
+          status: submission.status,
+          feedback: submission.feedback,
+          isLate: submission.isLate,
+          gradeReleasedAt: submission.gradeReleasedAt?.toISOString() ?? null,
+          createdAt: submission.createdAt.toISOString(),
+          file: submission.versions.length === 0
+            ? addFile('models', submission.filePath, modelName(templateName, submission))
+            : null,
+          versions: submission.versions.map((v) => ({
+            id: v.id,
+            versionNumber: v.versionNumber,
+            uploadedById: v.uploadedById,
+            fileName: v.fileName,
+            fileSize: v.fileSize,
+            status: v.status,
+            isLate: v.isLate,
+            createdAt: v.createdAt.toISOString(),
+            hasStructure: v.hasStructure,
+            structureSource: v.structureSource,
+            atomCount: v.atomCount,
+            embeddedPdbId: v.embeddedPdbId,
+            displayCommands: v.displayCommands,
+            proteinMatch: v.proteinMatch,
+            proteinMatchDetail: v.proteinMatchDetail,
+            file: addFile('models', v.filePath, modelName(`${templateName}-v${v.versionNumber}`, v)),
+          })),
+          rubricScores: submission.rubricScores.map((s) => ({
+            criterionId: s.criterionId,
+            levelId: s.levelId,
+            points: s.points,
+            comment: s.comment,
+            gradedById: s.gradedById,
+            createdAt: s.createdAt.toISOString(),
+          })),
+        };
+      }),
+      literature: group.literature.map((lit) => ({
+        id: lit.id,
+        uploadedById: lit.uploadedById,
+        title: lit.title,
+        fileName: lit.fileName,
+        fileSize: lit.fileSize,
+        description: lit.description,
+        createdAt: lit.createdAt.toISOString(),
+        file: addFile('literature', lit.filePath, `literature/${sanitizeName(lit.title || lit.fileName)}.pdf`),
+      })),
+    };
+    archive.append(JSON.stringify(records, null, 2), { name: `${folderName}/records.json` });
+
+    const messages: ArchivedMessage[] = group.messages.map((m) => ({
+      id: m.id,
+      userId: m.user.id,
+      userEmail: m.user.email,
+      userName: `${m.user.firstName} ${m.user.lastName}`,
+      content: m.content,
+      createdAt: m.createdAt.toISOString(),
+      submissionId: m.submissionId,
+      submissionFileName: m.submission?.fileName || null,
+      versionId: m.versionId,
+      isSubmissionComment: !!m.submissionId,
+    }));
+    archive.append(JSON.stringify(messages, null, 2), { name: `${folderName}/messages.json` });
+  });
+
+  await archive.finalize();
+}
+
+// ============================================
+// Reading
+// ============================================
+
+// Parse an uploaded archive. Returns an error message if it isn't one.
+export async function readArchive(buffer: Buffer): Promise<ArchiveContents | string> {
+  const entries = readZipEntries(buffer);
+  if (!entries) {
+    return 'The file is not a zip archive';
+  }
+
+  const files = new Map(entries.map((e) => [e.name, e]));
+  const manifest = readJson<{ formatVersion?: number | null; exportedAt?: string | null }>(files, 'manifest.json', MANIFEST);
+  if (typeof manifest === 'string') {
+    return manifest;
+  }
+  if (!manifest) {
+    return 'The archive has no manifest.json - is it a nuclear-reset archive?';
+  }
+
+  const formatVersion = manifest.formatVersion ?? 1;
+  if (formatVersion > ARCHIVE_FORMAT_VERSION) {
+    return `The archive uses format ${formatVersion}, which this version of the app can't read`;
+  }
+
+  const contents: ArchiveContents = {
+    formatVersion,
+    exportedAt: manifest.exportedAt ?? null,
+    users: new Map(),
+    groups: [],
+    files,
+    warnings: [],
+  };
+
+  // Group folders are the ones with a group-info.json
+  const folders = entries
+    .filter((e) => e.name.endsWith('/group-info.json'))
+    .map((e) => e.name.slice(0, -'/group-info.json'.length));
+
+  const error = formatVersion >= 2
+    ? readGroupsV2(contents, folders)
+    : await readGroupsV1(contents, folders);
+  if (error) {
+    return error;
+  }
+
+  return contents;
+}
+
+// Both readers return an error message if a JSON file is malformed
+function readGroupsV2(contents: ArchiveContents, folders: string[]): string | null {
+  const archivedUsers = readJson<ArchivedUser[]>(contents.files, 'users.json', USERS) ?? [];
+  if (typeof archivedUsers === 'string') {
+    return archivedUsers;
+  }
+  const emails = new Map<string, string>();
+  for (const user of archivedUsers) {
+    const address = normalizeEmail(user.email);
+    emails.set(user.id, address);
+    contents.users.set(address, {
+      email: address,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+      isApproved: user.isApproved,
+    });
+  }
+
+  let unknownUsers = 0;
+  const email = (userId: string): string | null => {
+    const found = emails.get(userId) ?? null;
+    if (!found) unknownUsers++;
+    return found;
+  };
+
+  for (const folder of folders) {
+    const info = readJson<ArchivedGroupInfo>(contents.files, `${folder}/group-info.json`, GROUP_INFO);
+    const records = readJson<ArchivedRecords>(contents.files, `${folder}/records.json`, RECORDS);
+    const messages = readJson<ArchivedMessage[]>(contents.files, `${folder}/messages.json`, MESSAGES) ?? [];
+    if (typeof info === 'string') return info;
+    if (typeof records === 'string') return records;
+    if (typeof messages === 'string') return messages;
+    if (!info || !records) {
+      contents.warnings.push(`Folder "${folder}" could not be read and was ignored`);
+      continue;
+    }
+
+    const group: RestoreGroup = {
+      name: info.name,
+      proteinPdbId: info.proteinPdbId,
+      proteinName: info.proteinName,
+      courseId: info.courseId ?? null,
+      lastReviewRequestedAt: toOptionalDate(info.lastReviewRequestedAt),
+      createdAt: toDate(info.createdAt),
+      members: info.members.map((m) => ({ email: normalizeEmail(m.email), joinedAt: toDate(m.joinedAt) })),
+      submissions: [],
+      literature: [],
+      messages: [],
+    };
+
+    for (const submission of records.submissions) {
+      const submittedBy = email(submission.submittedById);
+      if (!submittedBy) continue;
+
+      // Legacy submissions without versions become a single version
+      const versions: RestoreVersion[] = submission.versions.length > 0
+        ? submission.versions.flatMap((v) => {
+          const uploadedBy = email(v.uploadedById);
+          if (!uploadedBy) return [];
+          return [{
+            key: v.id,
+            versionNumber: v.versionNumber,
+            uploadedBy,
+            fileName: v.fileName,
+            fileSize: v.fileSize,
+            status: v.status,
+            isLate: v.isLate,
+            createdAt: toDate(v.createdAt),
+            metadata: {
+              hasStructure: v.hasStructure,
+              structureSource: v.structureSource,
+              atomCount: v.atomCount,
+              embeddedPdbId: v.embeddedPdbId,
+              displayCommands: v.displayCommands ?? [],
+              proteinMatch: v.proteinMatch,
+              proteinMatchDetail: v.proteinMatchDetail,
+            },
+            file: v.file,
+          }];
+        })
+        : [{
+          key: `${submission.id}:legacy`,
+          versionNumber: 1,
+          uploadedBy: submittedBy,
+          fileName: submission.fileName,
+          fileSize: submission.fileSize,
+          status: submission.status,
+          isLate: submission.isLate,
+          createdAt: toDate(submission.createdAt),
+          metadata: null,
+          file: submission.file,
+        }];
+
+      group.submissions.push({
+        key: submission.id,
+        templateId: submission.modelTemplate.id,
+        templateName: submission.modelTemplate.name,
+        submittedBy,
+        status: submission.status,
+        feedback: submission.feedback,
+        isLate: submission.isLate,
+        gradeReleasedAt: toOptionalDate(submission.gradeReleasedAt),
+        createdAt: toDate(submission.createdAt),
+        versions,
+        scores: submission.rubricScores.flatMap((s) => {
+          const gradedBy = email(s.gradedById);
+          if (!gradedBy) return [];
+          return [{
+            criterionId: s.criterionId,
+            levelId: s.levelId,
+            points: s.points,
+            comment: s.comment,
+            gradedBy,
+            createdAt: toDate(s.createdAt),
+          }];
+        }),
+      });
+    }
+
+    for (const lit of records.literature) {
+      const uploadedBy = email(lit.uploadedById);
+      if (!uploadedBy) continue;
+      group.literature.push({
+        uploadedBy,
+        title: lit.title,
+        fileName: lit.fileName,
+        fileSize: lit.fileSize,
+        description: lit.description,
+        createdAt: toDate(lit.createdAt),
+        file: lit.file,
+      });
+    }
+
+    for (const message of messages) {
+      group.messages.push({
+        author: normalizeEmail(message.userEmail),
+        submissionKey: message.submissionId,
+        versionKey: message.versionId ?? null,
+        content: message.content,
+        createdAt: toDate(message.createdAt),
+      });
+    }
+
+    contents.groups.push(group);
+  }
+
+  if (unknownUsers > 0) {
+    contents.warnings.push(`${unknownUsers} record(s) point at users missing from users.json and were skipped`);
+  }
+  return null;
+}
+
+// Format 1 has no user or submission records. Members are students, other
+// message authors are staff, and submissions are rebuilt from the model file
+// names (<template>-v<n>-<file name>, or <template>-<file name> for legacy
+// submissions) and uploaded by the group's first member.
+async function readGroupsV1(contents: ArchiveContents, folders: string[]): Promise<string | null> {
+  const templates = await prisma.modelTemplate.findMany({ select: { name: true } });
+  const templatePrefixes = templates
+    .map((t) => ({ name: t.name, prefix: `${sanitizeName(t.name)}-` }))
+    .sort((a, b) => b.prefix.length - a.prefix.length);
+
+  const folderData: { folder: string; info: ArchivedGroupInfo; messages: ArchivedMessage[] }[] = [];
+  for (const folder of folders) {
+    const info = readJson<ArchivedGroupInfo>(contents.files, `${folder}/group-info.json`, GROUP_INFO);
+    const messages = readJson<ArchivedMessage[]>(contents.files, `${folder}/messages.json`, MESSAGES) ?? [];
+    if (typeof info === 'string') return info;
+    if (typeof messages === 'string') return messages;
+    if (!info) {
+      contents.warnings.push(`Folder "${folder}" could not be read and was ignored`);
+      continue;
+    }
+    folderData.push({ folder, info, messages });
+  }
+
+  // Members first, so a student who also posted elsewhere stays a student
+  for (const { info } of folderData) {
+    for (const member of info.members) {
+      const address = normalizeEmail(member.email);
+      if (!contents.users.has(address)) {
+        contents.users.set(address, {
+          email: address,
+          ...splitName(member.name),
+          role: 'STUDENT',
+          isApproved: true,
+        });
+      }
+    }
+  }
+
+  let unmatchedComments = 0;
+
+  for (const { folder, info, messages } of folderData) {
+    for (const message of messages) {
+      const address = normalizeEmail(message.userEmail);
+      if (!contents.users.has(address)) {
+        contents.users.set(address, {
+          email: address,
+          ...splitName(message.userName),
+          role: 'INSTRUCTOR',
+          isApproved: true,
+        });
+      }
+    }
+
+    const group: RestoreGroup = {
+      name: info.name,
+      proteinPdbId: info.proteinPdbId,
+      proteinName: info.proteinName,
+      courseId: null,
+      lastReviewRequestedAt: null,
+      createdAt: toDate(info.createdAt),
+      members: info.members.map((m) => ({ email: normalizeEmail(m.email), joinedAt: toDate(m.joinedAt) })),
+      submissions: [],
+      literature: [],
+      messages: [],
+    };
+
+    const owner = info.members[0]?.email;
+    const folderFiles = [...contents.files.keys()].filter((name) => name.startsWith(`${folder}/`));
+
+    if (!owner) {
+      if (folderFiles.some((name) => !name.endsWith('.json'))) {
+        contents.warnings.push(`Group "${info.name}" has no members, so its files can't be attributed and were skipped`);
+      }
+    } else {
+      const submissions = new Map<string, RestoreSubmission>();
+
+      for (const name of folderFiles.filter((f) => f.startsWith(`${folder}/models/`))) {
+        const base = path.basename(name);
+        let templateName: string;
+        let rest: string;
+
+        const known = templatePrefixes.find((t) => base.startsWith(t.prefix));
+        if (known) {
+          templateName = known.name;
+          rest = base.slice(known.prefix.length);
+        } else {
+          const match = base.match(/^(.+?)-(v\d+-.*)$/);
+          if (!match) {
+            contents.warnings.push(`Model file "${name}" doesn't name a template and was skipped`);
+            continue;
+          }
+          templateName = match[1];
+          rest = match[2];
+        }
+
+        const versionMatch = rest.match(/^v(\d+)-(.*)$/);
+        const fileName = versionMatch ? versionMatch[2] : rest;
+
+        let submission = submissions.get(templateName);
+        if (!submission) {
+          submission = {
+            key: `${folder}:${templateName}`,
+            templateId: null,
+            templateName,
+            submittedBy: owner,
+            status: 'SUBMITTED',
+            feedback: null,
+            isLate: false,
+            gradeReleasedAt: null,
+            createdAt: group.createdAt,
+            versions: [],
+            scores: [],
+          };
+          submissions.set(templateName, submission);
+        }
+        submission.versions.push({
+          key: name,
+          versionNumber: versionMatch ? parseInt(versionMatch[1], 10) : 1,
+          uploadedBy: owner,
+          fileName,
+          fileSize: null,
+          status: 'SUBMITTED',
+          isLate: false,
+          createdAt: group.createdAt,
+          metadata: null,
+          file: name,
+        });
+      }
+
+      // Version numbers are renumbered from 1 in file order
+      for (const submission of submissions.values()) {
+        submission.versions.sort((a, b) => a.versionNumber - b.versionNumber);
+        submission.versions.forEach((v, i) => { v.versionNumber = i + 1; });
+        group.submissions.push(submission);
+      }
+
+      for (const name of folderFiles.filter((f) => f.startsWith(`${folder}/literature/`))) {
+        const base = path.basename(name);
+        group.literature.push({
+          uploadedBy: owner,
+          title: base.replace(/\.pdf$/i, ''),
+          fileName: base,
+          fileSize: null,
+          description: null,
+          createdAt: group.createdAt,
+          file: name,
+        });
+      }
+    }
+
+    // Comments are linked back through the submission's file name
+    for (const message of messages) {
+      let submissionKey: string | null = null;
+      if (message.submissionId) {
+        const ext = path.extname(message.submissionFileName || '');
+        const archivedName = `${sanitizeName((message.submissionFileName || '').replace(ext, ''))}${ext}`;
+        const submission = group.submissions.find((s) => s.versions.some((v) => v.fileName === archivedName));
+        if (!submission) {
+          unmatchedComments++;
+          continue;
+        }
+        submissionKey = submission.key;
+      }
+      group.messages.push({
+        author: normalizeEmail(message.userEmail),
+        submissionKey,
+        versionKey: null,
+        content: message.content,
+        createdAt: toDate(message.createdAt),
+      });
+    }
+
+    contents.groups.push(group);
+  }
+
+  contents.warnings.push(
+    'This archive predates format 2: submission statuses, grades and file metadata were not archived. ' +
+    'Models are restored as submitted.',
+  );
+  if (unmatchedComments > 0) {
+    contents.warnings.push(`${unmatchedComments} model comment(s) couldn't be matched to a model file and will be skipped`);
+  }
+  return null;
+}
+
+// ============================================
+// Restoring
+// ============================================
+
+// Check the archive against the database and, unless dryRun is set, restore
+// it. Restored rows get new ids. Groups that already exist (same name and
+// PDB id) are skipped, existing accounts are reused by email, and templates
+// are matched by id, then by name; missing ones are created inactive.
+export async function restoreArchive(contents: ArchiveContents, dryRun: boolean): Promise<RestoreReport> {
+  const conflicts: string[] = [];
+  const warnings = [...contents.warnings];
+
+  // Users
+  const emails = new Set<string>(contents.users.keys());
+  for (const group of contents.groups) {
+    group.members.forEach((m) => emails.add(m.email));
+    group.messages.forEach((m) => emails.add(m.author));
+  }
+  const existingUsers = await prisma.user.findMany({
+    where: { email: { in: [...emails], mode: 'insensitive' } },
+    select: { id: true, email: true, role: true },
+  });
+  const userIds = new Map(existingUsers.map((u) => [normalizeEmail(u.email), u.id]));
+
+  for (const user of existingUsers) {
+    const archived = contents.users.get(normalizeEmail(user.email));
+    if (archived && archived.role !== user.role) {
+      conflicts.push(
+        `${user.email} was ${ROLE_NAMES[archived.role]} in the archive but is now ${ROLE_NAMES[user.role]}. ` +
+        (archived.role === 'STUDENT' ? 'They won\'t be added back to their group.' : 'Their content is restored under that account.'),
+      );
+    }
+  }
+  // Groups
+  const existingGroups = await prisma.group.findMany({ select: { name: true, proteinPdbId: true } });
+  const groupKeys = new Set(existingGroups.map((g) => `${g.name}\u0000${g.proteinPdbId}`));
+  const courseIds = new Set(
+    (await prisma.course.findMany({ select: { id: true } })).map((c) => c.id),
+  );
+
+  const summaries: RestoreGroupSummary[] = contents.groups.map((group) => {
+    const key = `${group.name}\u0000${group.proteinPdbId}`;
+    const exists = groupKeys.has(key);
+    groupKeys.add(key);
+    const summary: RestoreGroupSummary = {
+      name: group.name,
+      proteinPdbId: group.proteinPdbId,
+      action: exists ? 'skip' : 'restore',
+      reason: exists ? 'A group with this name and protein already exists' : null,
+      members: group.members.length,
+      submissions: group.submissions.length,
+      versions: group.submissions.reduce((sum, s) => sum + s.versions.length, 0),
+      literature: group.literature.length,
+      messages: group.messages.length,
+    };
+    if (exists) {
+      conflicts.push(`Group "${group.name}" (${group.proteinPdbId}) already exists and will be skipped`);
+    }
+    if (group.courseId && !courseIds.has(group.courseId)) {
+      warnings.push(`Group "${group.name}" belonged to a course that no longer exists and is restored without a course`);
+      group.courseId = null;
+    }
+    return summary;
+  });
+  const groupsToRestore = contents.groups.filter((_, i) => summaries[i].action === 'restore');
+
+  // Only accounts a restored group points at are created
+  const referenced = new Set(groupsToRestore.flatMap(groupEmails));
+  const usersToCreate = [...contents.users.values()].filter((u) => referenced.has(u.email) && !userIds.has(u.email));
+  const studentsToCreate = usersToCreate.filter((u) => u.role === 'STUDENT').length;
+  if (studentsToCreate > 0) {
+    warnings.push(`${studentsToCreate} student account(s) will be created and emailed an invitation to set a password`);
+  }
+  const staffToCreate = usersToCreate.length - studentsToCreate;
+  if (staffToCreate > 0) {
+    warnings.push(`${staffToCreate} staff account(s) will be created unapproved, with a random password`);
+  }
+
+  // Templates, keyed by course and name
+  const templates = await prisma.modelTemplate.findMany({
+    select: { id: true, name: true, courseId: true, rubric: { select: { id: true, levels: { select: { id: true } } } } },
+  });
+  const templateKey = (courseId: string | null, name: string) => `${courseId ?? ''}\u0000${name}`;
+  const templateIds = new Map<string, string>();
+  const templatesToCreate = new Map<string, { courseId: string | null; name: string }>();
+
+  for (const group of groupsToRestore) {
+    for (const submission of group.submissions) {
+      const key = templateKey(group.courseId, submission.templateName);
+      if (templateIds.has(key) || templatesToCreate.has(key)) continue;
+      const match = templates.find((t) => t.id === submission.templateId)
+        ?? templates.find((t) => t.courseId === group.courseId && t.name === submission.templateName);
+      if (match) {
+        templateIds.set(key, match.id);
+      } else {
+        templatesToCreate.set(key, { courseId: group.courseId, name: submission.templateName });
+      }
+    }
+  }
+
+  // Files the archive should have but doesn't
+  let missingFiles = 0;
+  for (const group of groupsToRestore) {
+    for (const submission of group.submissions) {
+      missingFiles += submission.versions.filter((v) => !v.file || !contents.files.has(v.file)).length;
+    }
+    missingFiles += group.literature.filter((l) => !l.file || !contents.files.has(l.file)).length;
+  }
+  if (missingFiles > 0) {
+    warnings.push(`${missingFiles} file(s) were missing when the archive was made; those versions and papers are skipped`);
+  }
+
+  const report: RestoreReport = {
+    formatVersion: contents.formatVersion,
+    exportedAt: contents.exportedAt,
+    groups: summaries,
+    users: { existing: existingUsers.length, toCreate: usersToCreate.length },
+    templatesToCreate: [...templatesToCreate.values()].map((t) => t.name),
+    conflicts,
+    warnings,
+    restored: null,
+  };
+
+  if (dryRun) {
+    return report;
+  }
+
+  // Accounts and templates are created with the first group that points at
+  // them, inside its transaction, so a group that fails leaves none behind
+  const usersPending = new Map(usersToCreate.map((u) => [u.email, u]));
+  const studentIds = new Set(
+    existingUsers.filter((u) => u.role === 'STUDENT').map((u) => u.id),
+  );
+  const invites: { email: string; firstName: string; token: string }[] = [];
+
+  const criteria = new Map(
+    templates.flatMap((t) => t.rubric.map((c) => [c.id, { templateId: t.id, levelIds: new Set(c.levels.map((l) => l.id)) }])),
+  );
+
+  const restored = { groups: 0, users: 0, submissions: 0, versions: 0, literature: 0, messages: 0, files: 0, invited: 0 };
+
+  for (const group of groupsToRestore) {
+    const written: string[] = [];
+    const writeFile = (dir: string, archivePath: string | null, originalName: string): { filePath: string; size: number } | null => {
+      const entry = archivePath ? contents.files.get(archivePath) : undefined;
+      if (!entry) return null;
+      const data = entry.read();
+      const filePath = storedFileName(originalName);
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, filePath), data);
+      written.push(path.join(dir, filePath));
+      return { filePath, size: data.length };
+    };
+
+    // Created in this group's transaction, kept only if it commits
+    const newUsers = new Map<string, { id: string; invite: string | null }>();
+    const newTemplates = new Map<string, string>();
+    const userId = (email: string) => userIds.get(email) ?? newUsers.get(email)?.id;
+
+    try {
+      const counts = await prisma.$transaction(async (tx) => {
+        const counts = { submissions: 0, versions: 0, literature: 0, messages: 0 };
+
+        for (const email of new Set(groupEmails(group))) {
+          const user = usersPending.get(email);
+          if (!user) continue;
+          // Nobody knows this password; students set their own from the invitation
+          const invite = user.role === 'STUDENT' ? crypto.randomBytes(32).toString('hex') : null;
+          const createdUser = await tx.user.create({
+            data: {
+              email: user.email,
+              password: await bcrypt.hash(crypto.randomBytes(24).toString('hex'), 12),
+              firstName: user.firstName,
+              lastName: user.lastName,
+              role: user.role,
+              isApproved: user.role === 'STUDENT' ? user.isApproved : false,
+              ...(invite && {
+                passwordResetToken: invite,
+                passwordResetExpires: new Date(Date.now() + INVITE_EXPIRES_DAYS * 24 * 60 * 60 * 1000),
+              }),
+            },
+          });
+          newUsers.set(email, { id: createdUser.id, invite });
+        }
+
+        const templateFor = async (name: string): Promise<string | null> => {
+          const key = templateKey(group.courseId, name);
+          const existing = templateIds.get(key) ?? newTemplates.get(key);
+          const template = templatesToCreate.get(key);
+          if (existing || !template) return existing ?? null;
+          const last = await tx.modelTemplate.findFirst({
+            where: { courseId: template.courseId },
+            orderBy: { orderIndex: 'desc' },
+          });
+          const createdTemplate = await tx.modelTemplate.create({
+            data: {
+              name: template.name,
+              description: 'Restored from an archive',
+              courseId: template.courseId,
+              orderIndex: (last?.orderIndex ?? -1) + 1,
+              isActive: false,
+            },
+          });
+          newTemplates.set(key, createdTemplate.id);
+          return createdTemplate.id;
+        };
+
+        const created = await tx.group.create({
+          data: {
+            name: group.name,
+            proteinPdbId: group.proteinPdbId,
+            proteinName: group.proteinName,
+            courseId: group.courseId,
+            lastReviewRequestedAt: group.lastReviewRequestedAt,
+            createdAt: group.createdAt,
+          },
+        });
+
+        const memberIds = new Set<string>();
+        for (const member of group.members) {
+          const id = userId(member.email);
+          const isStudent = id && (studentIds.has(id) || !!newUsers.get(member.email)?.invite);
+          if (!id || !isStudent || memberIds.has(id)) continue;
+          memberIds.add(id);
+          await tx.groupMember.create({ data: { groupId: created.id, userId: id, joinedAt: member.joinedAt } });
+        }
+
+        const submissionIds = new Map<string, string>();
+        const versionIds = new Map<string, string>();
+
+        for (const submission of group.submissions) {
+          const files = submission.versions.flatMap((v) => {
+            const stored = writeFile(MODELS_DIR, v.file, v.fileName);
+            return stored ? [{ version: v, ...stored }] : [];
+          });
+          if (files.length === 0) continue;
+          const templateId = await templateFor(submission.templateName);
+          if (!templateId) continue;
+
+          const latest = files[files.length - 1];
+          const createdSubmission = await tx.submission.create({
+            data: {
+              groupId: created.id,
+              modelTemplateId: templateId,
+              submittedById: userId(submission.submittedBy)!,
+              fileName: latest.version.fileName,
+              filePath: latest.filePath,
+              fileSize: latest.version.fileSize ?? latest.size,
+              status: submission.status,
+              feedback: submission.feedback,
+              isLate: submission.isLate,
+              gradeReleasedAt: submission.gradeReleasedAt,
+              createdAt: submission.createdAt,
+            },
+          });
+          submissionIds.set(submission.key, createdSubmission.id);
+          counts.submissions++;
+
+          for (const { version, filePath, size } of files) {
+            // Format 1 files carry no metadata, so read it from the PNGJ again
+            const metadata = version.metadata
+              ?? analyzePngj(fs.readFileSync(path.join(MODELS_DIR, filePath)))?.metadata
+              ?? {};
+            const createdVersion = await tx.submissionVersion.create({
+              data: {
+                submissionId: createdSubmission.id,
+                versionNumber: version.versionNumber,
+                uploadedById: userId(version.uploadedBy)!,
+                fileName: version.fileName,
+                filePath,
+                fileSize: version.fileSize ?? size,
+                status: version.status,
+                isLate: version.isLate,
+                createdAt: version.createdAt,
+                ...metadata,
+              },
+            });
+            versionIds.set(version.key, createdVersion.id);
+            counts.versions++;
+          }
+
+          // Scores only come back if the rubric criterion (and level) still exist
+          for (const score of submission.scores) {
+            const criterion = criteria.get(score.criterionId);
+            if (!criterion || criterion.templateId !== templateId) continue;
+            await tx.rubricScore.create({
+              data: {
+                submissionId: createdSubmission.id,
+                criterionId: score.criterionId,
+                levelId: score.levelId && criterion.levelIds.has(score.levelId) ? score.levelId : null,
+                points: score.points,
+                comment: score.comment,
+                gradedById: userId(score.gradedBy)!,
+                createdAt: score.createdAt,
+              },
+            });
+          }
+        }
+
+        for (const lit of group.literature) {
+          const stored = writeFile(LITERATURE_DIR, lit.file, lit.fileName);
+          if (!stored) continue;
+          await tx.literature.create({
+            data: {
+              groupId: created.id,
+              uploadedById: userId(lit.uploadedBy)!,
+              title: lit.title,
+              fileName: lit.fileName,
+              filePath: stored.filePath,
+              fileSize: lit.fileSize ?? stored.size,
+              description: lit.description,
+              createdAt: lit.createdAt,
+            },
+          });
+          counts.literature++;
+        }
+
+        // Comments on models that weren't restored are dropped with them
+        const messages = group.messages.flatMap((m) => {
+          const authorId = userId(m.author);
+          const submissionId = m.submissionKey ? submissionIds.get(m.submissionKey) : null;
+          if (!authorId || submissionId === undefined) return [];
+          return [{
+            groupId: created.id,
+            userId: authorId,
+            submissionId,
+            versionId: m.versionKey ? versionIds.get(m.versionKey) ?? null : null,
+            content: m.content,
+            createdAt: m.createdAt,
+          }];
+        });
+        await tx.message.createMany({ data: messages });
+        counts.messages = messages.length;
+
+        return counts;
+      }, { timeout: 120000 });
+
+      for (const [email, { id, invite }] of newUsers) {
+        const user = usersPending.get(email)!;
+        usersPending.delete(email);
+        userIds.set(email, id);
+        if (invite) {
+          studentIds.add(id);
+          invites.push({ email, firstName: user.firstName, token: invite });
+        }
+      }
+      newTemplates.forEach((id, key) => templateIds.set(key, id));
+
+      restored.groups++;
+      restored.users += newUsers.size;
+      restored.submissions += counts.submissions;
+      restored.versions += counts.versions;
+      restored.literature += counts.literature;
+      restored.messages += counts.messages;
+      restored.files += written.length;
+    } catch (error) {
+      console.error(`Error restoring group ${group.name}:`, error);
+      for (const file of written) {
+        try {
+          fs.unlinkSync(file);
+        } catch {
+          // Already gone
+        }
+      }
+      conflicts.push(`Group "${group.name}" (${group.proteinPdbId}) failed to restore and was rolled back`);
+    }
+  }
+
+  for (const { email, firstName, token } of invites) {
+    if (await sendInvitationEmail(email, firstName, token, INVITE_EXPIRES_DAYS)) {
+      restored.invited++;
+    }
+  }
+
+  report.restored = restored;
+  return report;
+}
@@ -0,0 +1,109 @@
+// Model template deadlines. A template can have an open date, a due date and a
+// hard close date, each optional. A group's DeadlineExtension replaces the due
+// and/or close date for that group only.
+//
+// Uploads are rejected before the open date and after the close date. Uploads
+// after the due date are accepted but marked late, except revisions an
+// instructor asked for (status NEEDS_REVISION).
+
+import { prisma } from '../lib/prisma.js';
+
+export interface Deadlines {
+  opensAt: Date | null;
+  dueAt: Date | null;
+  closesAt: Date | null;
+}
+
+export interface EffectiveDeadlines extends Deadlines {
+  extended: boolean;
+}
+
+export interface DeadlineCounts {
+  onTimeCount: number;
+  lateCount: number;
+  missingCount: number;     // Past due with nothing uploaded
+}
+
+type ExtensionDates = { dueAt: Date | null; closesAt: Date | null };
+
+export function effectiveDeadlines(template: Deadlines, extension?: ExtensionDates | null): EffectiveDeadlines {
+  if (!extension) {
+    return { opensAt: template.opensAt, dueAt: template.dueAt, closesAt: template.closesAt, extended: false };
+  }
+
+  const dueAt = extension.dueAt ?? template.dueAt;
+  let closesAt = extension.closesAt ?? template.closesAt;
+  // An extended due date past the template's close date pushes the close date out too
+  if (closesAt && dueAt && dueAt > closesAt) {
+    closesAt = dueAt;
+  }
+
+  return { opensAt: template.opensAt, dueAt, closesAt, extended: true };
+}
+
+export async function getGroupDeadlines(groupId: string, template: Deadlines & { id: string }): Promise<EffectiveDeadlines> {
+  const extension = await prisma.deadlineExtension.findUnique({
+    where: { groupId_modelTemplateId: { groupId, modelTemplateId: template.id } },
+  });
+  return effectiveDeadlines(template, extension);
+}
+
+// Returns the reason an upload isn't allowed right now, or null
+export function uploadWindowError(deadlines: Deadlines, now = new Date()): string | null {
+  if (deadlines.opensAt && now < deadlines.opensAt) {
+    return `Submissions for this model open on ${deadlines.opensAt.toISOString()}`;
+  }
+  if (deadlines.closesAt && now > deadlines.closesAt) {
+    return 'Submissions for this model are closed';
+  }
+  return null;
+}
+
+export function isPastDue(deadlines: Deadlines, at = new Date()): boolean {
+  return deadlines.dueAt !== null && at > deadlines.dueAt;
+}
+
+// Accepts ISO strings from request bodies. Returns undefined when the field
+// was not sent, null to clear it, or 'invalid' for an unparseable value.
+export function parseDeadline(value: unknown): Date | null | undefined | 'invalid' {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  if (typeof value !== 'string') return 'invalid';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? 'invalid' : date;
+}
+
+// Dates must run open -> due -> close; returns an error message or null
+export function validateDeadlines(deadlines: Partial<Deadlines>): string | null {
+  const { opensAt, dueAt, closesAt } = deadlines;
+  if (opensAt && dueAt && opensAt > dueAt) return 'The open date must be before the due date';
+  if (opensAt && closesAt && opensAt > closesAt) return 'The open date must be before the close date';
+  if (dueAt && closesAt && dueAt > closesAt) return 'The due date must be before the close date';
+  return null;
+}
+
+// On-time/late/missing counts for one group across the given templates
+export function countDeadlineStatus(
+  templates: (Deadlines & { id: string })[],
+  extensions: (ExtensionDates & { modelTemplateId: string })[],
+  submissions: { modelTemplateId: string; isLate: boolean }[],
+  now = new Date()
+): DeadlineCounts {
+  const counts: DeadlineCounts = { onTimeCount: 0, lateCount: 0, missingCount: 0 };
+
+  for (const template of templates) {
+    const submission = submissions.find((s) => s.modelTemplateId === template.id);
+    if (submission) {
+      if (submission.isLate) counts.lateCount++;
+      else counts.onTimeCount++;
+      continue;
+    }
+
+    const extension = extensions.find((e) => e.modelTemplateId === template.id);
+    if (isPastDue(effectiveDeadlines(template, extension), now)) {
+      counts.missingCount++;
+    }
+  }
+
+  return counts;
+}
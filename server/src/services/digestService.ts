@@ -0,0 +1,93 @@
+// Daily digest emails. Once a day, every user with unread notifications whose
+// type they set to DIGEST gets one email listing them all. Notifications are
+// stamped emailedAt so each one is only sent once.
+
+import { prisma } from '../lib/prisma.js';
+import { sendDigestEmail } from './emailService.js';
+import { dashboardUrl, DEFAULT_EMAIL_DELIVERY } from './notificationService.js';
+
+// Hour of day (server time) the digest goes out
+const DIGEST_HOUR = Number(process.env.DIGEST_HOUR ?? 7);
+
+// Unread notifications older than this are left out instead of resurfacing
+const DIGEST_LOOKBACK_DAYS = 7;
+
+// Returns the number of digest emails sent
+export async function sendDigests(now = new Date()): Promise<number> {
+  const since = new Date(now.getTime() - DIGEST_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const pending = await prisma.notification.findMany({
+    where: {
+      readAt: null,
+      emailedAt: null,
+      createdAt: { gte: since },
+    },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      user: {
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          notificationPreferences: true,
+        },
+      },
+    },
+  });
+
+  // Keep the ones each user wants in a digest, grouped by user
+  const byUser = new Map<string, typeof pending>();
+  for (const notification of pending) {
+    const preference = notification.user.notificationPreferences.find((p) => p.type === notification.type);
+    const delivery = preference?.email ?? DEFAULT_EMAIL_DELIVERY[notification.type];
+    if (delivery !== 'DIGEST') continue;
+
+    const list = byUser.get(notification.userId) ?? [];
+    list.push(notification);
+    byUser.set(notification.userId, list);
+  }
+
+  let sentCount = 0;
+  for (const notifications of byUser.values()) {
+    const { user } = notifications[0];
+    const sent = await sendDigestEmail({
+      email: user.email,
+      name: `${user.firstName} ${user.lastName}`,
+      items: notifications,
+      dashboardUrl: dashboardUrl(),
+    });
+    if (!sent) continue;
+
+    await prisma.notification.updateMany({
+      where: { id: { in: notifications.map((n) => n.id) } },
+      data: { emailedAt: new Date() },
+    });
+    sentCount++;
+  }
+
+  return sentCount;
+}
+
+// Runs sendDigests every day at DIGEST_HOUR
+export function startDigestScheduler() {
+  const scheduleNext = () => {
+    const next = new Date();
+    next.setHours(DIGEST_HOUR, 0, 0, 0);
+    if (next.getTime() <= Date.now()) {
+      next.setDate(next.getDate() + 1);
+    }
+
+    setTimeout(async () => {
+      try {
+        const sentCount = await sendDigests();
+        console.log(`Sent ${sentCount} digest email${sentCount !== 1 ? 's' : ''}`);
+      } catch (error) {
+        console.error('Error sending digest emails:', error);
+      }
+      scheduleNext();
+    }, next.getTime() - Date.now());
+  };
+
+  scheduleNext();
+}
@@ -131,11 +131,90 @@ Protein Model Organizer - Waksman Student Scholars Program
   });
 }
 
+// Sent to students added from a roster; the link sets their first password
+export async function sendInvitationEmail(
+  email: string,
+  name: string,
+  inviteToken: string,
+  expiresInDays: number
+): Promise<boolean> {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  const inviteUrl = `${frontendUrl}/reset-password?token=${inviteToken}&invite=1`;
+
+  const htmlContent = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background: linear-gradient(135deg, #1e40af 0%, #3b82f6 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+        <h1 style="color: white; margin: 0; font-size: 24px;">Protein Model Organizer</h1>
+      </div>
+
+      <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 12px 12px;">
+        <h2 style="color: #1e40af; margin-top: 0;">You're Invited</h2>
+
+        <p>Hi ${name},</p>
+
+        <p>An account has been created for you on the Protein Model Organizer, where your group will upload and discuss its protein models. Click the button below to choose your password:</p>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${inviteUrl}" style="display: inline-block; background-color: #1e40af; color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">
+            Set Your Password
+          </a>
+        </div>
+
+        <p style="color: #6b7280; font-size: 14px;">
+          This link will expire in ${expiresInDays} days. After that, use "Forgot password" on the login page with this email address.
+        </p>
+
+        <p style="color: #6b7280; font-size: 14px;">
+          If the button doesn't work, copy and paste this link into your browser:<br>
+          <a href="${inviteUrl}" style="color: #3b82f6; word-break: break-all;">${inviteUrl}</a>
+        </p>
+
+        <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+
+        <p style="color: #9ca3af; font-size: 12px; text-align: center; margin-bottom: 0;">
+          Protein Model Organizer &bull; Waksman Student Scholars Program
+        </p>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const textContent = `
+Hi ${name},
+
+An account has been created for you on the Protein Model Organizer, where your group will upload and discuss its protein models.
+
+Click the following link to choose your password:
+${inviteUrl}
+
+This link will expire in ${expiresInDays} days. After that, use "Forgot password" on the login page with this email address.
+
+---
+Protein Model Organizer - Waksman Student Scholars Program
+  `.trim();
+
+  return sendEmail({
+    to: email,
+    toName: name,
+    subject: 'Your Account is Ready - Protein Model Organizer',
+    htmlContent,
+    textContent,
+  });
+}
+
 interface SubmissionInfo {
   modelName: string;
   status: 'DRAFT' | 'SUBMITTED' | 'NEEDS_REVISION' | 'APPROVED';
   fileName: string;
   submittedAt: string;
+  proteinMatch?: 'MATCH' | 'MISMATCH' | 'UNKNOWN' | null;
+  proteinMatchDetail?: string | null;
 }
 
 interface ReviewRequestParams {
@@ -183,9 +262,17 @@ export async function sendReviewRequestEmail({
         hour: '2-digit',
         minute: '2-digit',
       });
+      const mismatchWarning = s.proteinMatch === 'MISMATCH'
+        ? `<div style="margin-top: 4px;">
+            <span style="background-color: #fee2e2; color: #b91c1c; padding: 2px 8px; border-radius: 12px; font-size: 11px; font-weight: 500;">
+              &#9888; Protein mismatch
+            </span>
+            ${s.proteinMatchDetail ? `<div style="color: #b91c1c; font-size: 12px; font-weight: 400; margin-top: 2px;">${s.proteinMatchDetail}</div>` : ''}
+          </div>`
+        : '';
       return `
         <tr>
-          <td style="padding: 12px 16px; border-bottom: 1px solid #e5e7eb; font-weight: 500;">${s.modelName}</td>
+          <td style="padding: 12px 16px; border-bottom: 1px solid #e5e7eb; font-weight: 500;">${s.modelName}${mismatchWarning}</td>
           <td style="padding: 12px 16px; border-bottom: 1px solid #e5e7eb;">
             <span style="background-color: ${colors.bg}; color: ${colors.text}; padding: 4px 10px; border-radius: 12px; font-size: 12px; font-weight: 500;">
               ${label}
@@ -266,7 +353,10 @@ export async function sendReviewRequestEmail({
         hour: '2-digit',
         minute: '2-digit',
       });
-      return `  - ${s.modelName}: ${label} (${date})`;
+      const warning = s.proteinMatch === 'MISMATCH'
+        ? `\n    WARNING: protein mismatch${s.proteinMatchDetail ? ` - ${s.proteinMatchDetail}` : ''}`
+        : '';
+      return `  - ${s.modelName}: ${label} (${date})${warning}`;
     })
     .join('\n');
 
@@ -296,3 +386,130 @@ Protein Model Organizer - Waksman Student Scholars Program
     textContent,
   });
 }
+
+// Notification text can include message content written by users
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+interface NotificationEmailItem {
+  title: string;
+  body: string | null;
+  count: number;
+  createdAt: Date;
+}
+
+interface NotificationEmailParams {
+  email: string;
+  name: string;
+  items: NotificationEmailItem[];
+  dashboardUrl: string;
+}
+
+function renderNotificationItem(item: NotificationEmailItem): string {
+  const count = item.count > 1
+    ? ` <span style="background-color: #e5e7eb; color: #4b5563; padding: 1px 8px; border-radius: 12px; font-size: 12px;">${item.count}</span>`
+    : '';
+  const body = item.body
+    ? `<div style="color: #4b5563; font-size: 14px; margin-top: 4px;">${escapeHtml(item.body)}</div>`
+    : '';
+  return `
+    <div style="padding: 12px 16px; border-bottom: 1px solid #e5e7eb;">
+      <div style="font-weight: 500; color: #1e293b;">${escapeHtml(item.title)}${count}</div>
+      ${body}
+    </div>
+  `;
+}
+
+// One email for one notification (immediate delivery) or several (daily
+// digest) - the layout is the same apart from the heading
+async function sendNotificationsEmail(
+  { email, name, items, dashboardUrl }: NotificationEmailParams,
+  heading: string,
+  subject: string
+): Promise<boolean> {
+  const htmlContent = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #f9fafb;">
+      <div style="background: linear-gradient(135deg, #1e40af 0%, #3b82f6 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+        <h1 style="color: white; margin: 0; font-size: 24px;">${heading}</h1>
+        <p style="color: rgba(255,255,255,0.9); margin: 8px 0 0 0; font-size: 14px;">Protein Model Organizer</p>
+      </div>
+
+      <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 12px 12px;">
+        <p style="margin-top: 0;">Hi ${escapeHtml(name)},</p>
+
+        <div style="border: 1px solid #e5e7eb; border-radius: 8px; overflow: hidden; margin: 20px 0;">
+          ${items.map(renderNotificationItem).join('')}
+        </div>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${dashboardUrl}" style="display: inline-block; background-color: #1e40af; color: white; padding: 14px 32px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">
+            Open Dashboard
+          </a>
+        </div>
+
+        <p style="color: #6b7280; font-size: 14px;">
+          You can change which emails you receive on the Settings page.
+        </p>
+
+        <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+
+        <p style="color: #9ca3af; font-size: 12px; text-align: center; margin-bottom: 0;">
+          Protein Model Organizer &bull; Waksman Student Scholars Program
+        </p>
+      </div>
+    </body>
+    </html>
+  `;
+
+  const itemText = items
+    .map((item) => {
+      const count = item.count > 1 ? ` (${item.count})` : '';
+      return `  - ${item.title}${count}${item.body ? `\n    ${item.body}` : ''}`;
+    })
+    .join('\n');
+
+  const textContent = `
+Hi ${name},
+
+${itemText}
+
+Open your dashboard: ${dashboardUrl}
+
+You can change which emails you receive on the Settings page.
+
+---
+Protein Model Organizer - Waksman Student Scholars Program
+  `.trim();
+
+  return sendEmail({
+    to: email,
+    toName: name,
+    subject,
+    htmlContent,
+    textContent,
+  });
+}
+
+export async function sendNotificationEmail(params: NotificationEmailParams): Promise<boolean> {
+  return sendNotificationsEmail(params, 'Notification', `${params.items[0].title} - Protein Model Organizer`);
+}
+
+export async function sendDigestEmail(params: NotificationEmailParams): Promise<boolean> {
+  const count = params.items.length;
+  return sendNotificationsEmail(
+    params,
+    'Your Daily Summary',
+    `${count} update${count !== 1 ? 's' : ''} - Protein Model Organizer`
+  );
+}
@@ -0,0 +1,44 @@
+// Signed links to uploaded files. JSmol, <img> tags and the PDF viewer can't
+// send an Authorization header, so instead of putting the user's token in the
+// URL the routes that check access hand out a link to one file that works for
+// a few minutes. routes/files.ts serves them.
+
+import crypto from 'crypto';
+
+export type SignedFileKind = 'submissions' | 'versions' | 'literature';
+
+export const SIGNED_FILE_KINDS: SignedFileKind[] = ['submissions', 'versions', 'literature'];
+
+const FILE_URL_SECRET = process.env.JWT_SECRET || 'fallback-secret-change-me';
+const FILE_URL_EXPIRES_MINUTES = 5;
+
+// Where routes/files.ts is mounted
+const FILES_PATH = '/modeling/api/files';
+
+export interface SignedFileUrl {
+  url: string;
+  expiresAt: Date;
+}
+
+function sign(kind: SignedFileKind, id: string, expires: number): string {
+  return crypto.createHmac('sha256', FILE_URL_SECRET).update(`${kind}:${id}:${expires}`).digest('hex');
+}
+
+export function signedFileUrl(kind: SignedFileKind, id: string): SignedFileUrl {
+  const expires = Date.now() + FILE_URL_EXPIRES_MINUTES * 60 * 1000;
+  // Models end in .png so JSmol can detect the file type from the URL
+  const fileName = kind === 'literature' ? id : `${id}.png`;
+  return {
+    url: `${FILES_PATH}/${kind}/${fileName}?expires=${expires}&signature=${sign(kind, id, expires)}`,
+    expiresAt: new Date(expires),
+  };
+}
+
+// Whether a link was signed for this file and hasn't expired
+export function verifyFileSignature(kind: SignedFileKind, id: string, expires: number, signature: string): boolean {
+  if (!Number.isFinite(expires) || expires < Date.now()) return false;
+
+  const expected = Buffer.from(sign(kind, id, expires));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
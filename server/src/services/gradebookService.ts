@@ -0,0 +1,190 @@
+// Gradebook - one row per student and one column per active model template,
+// for one course at a time (or the groups that aren't in a course).
+// Students are listed through their group membership, so every member of a
+// group shares that group's submission for each template.
+
+import { Prisma, SubmissionStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { computeGradeTotals } from './gradingService.js';
+
+export type GradebookLayout = 'lms' | 'full';
+
+export interface GradebookColumn {
+  templateId: string;
+  name: string;
+  maxPoints: number | null;   // null when the template has no rubric
+}
+
+export interface GradebookCell {
+  templateId: string;
+  submissionId: string | null;
+  status: SubmissionStatus | null;
+  isLate: boolean;
+  totalPoints: number | null; // null until at least one criterion is scored
+  released: boolean;
+  submittedAt: Date | null;   // When the latest version was uploaded
+}
+
+export interface GradebookRow {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  groupId: string;
+  groupName: string;
+  cells: GradebookCell[];
+}
+
+export interface Gradebook {
+  generatedAt: Date;
+  columns: GradebookColumn[];
+  rows: GradebookRow[];
+}
+
+const STATUS_LABELS: Record<SubmissionStatus, string> = {
+  DRAFT: 'Draft',
+  SUBMITTED: 'Submitted',
+  NEEDS_REVISION: 'Needs Revision',
+  APPROVED: 'Approved',
+};
+
+// Rows are limited to the groups in scope (see groupScope)
+export async function buildGradebook(courseId: string | null, scope: Prisma.GroupWhereInput): Promise<Gradebook> {
+  const [templates, groups] = await Promise.all([
+    prisma.modelTemplate.findMany({
+      where: { isActive: true, courseId },
+      orderBy: { orderIndex: 'asc' },
+      include: {
+        rubric: {
+          select: { id: true, maxPoints: true },
+        },
+      },
+    }),
+    prisma.group.findMany({
+      where: { AND: [{ courseId, archivedAt: null }, scope] },
+      orderBy: { name: 'asc' },
+      include: {
+        members: {
+          include: {
+            user: {
+              select: { id: true, email: true, firstName: true, lastName: true },
+            },
+          },
+        },
+        submissions: {
+          include: {
+            rubricScores: {
+              select: { criterionId: true, points: true },
+            },
+          },
+        },
+      },
+    }),
+  ]);
+
+  const columns: GradebookColumn[] = templates.map((template) => ({
+    templateId: template.id,
+    name: template.name,
+    maxPoints: template.rubric.length > 0
+      ? template.rubric.reduce((sum, c) => sum + c.maxPoints, 0)
+      : null,
+  }));
+
+  const rows: GradebookRow[] = [];
+  for (const group of groups) {
+    const cells = templates.map((template): GradebookCell => {
+      const submission = group.submissions.find((s) => s.modelTemplateId === template.id);
+      if (!submission) {
+        return { templateId: template.id, submissionId: null, status: null, isLate: false, totalPoints: null, released: false, submittedAt: null };
+      }
+
+      const totals = computeGradeTotals(template.rubric, submission.rubricScores);
+      return {
+        templateId: template.id,
+        submissionId: submission.id,
+        status: submission.status,
+        isLate: submission.isLate,
+        totalPoints: totals.gradedCount > 0 ? totals.totalPoints : null,
+        released: submission.gradeReleasedAt !== null,
+        submittedAt: submission.createdAt,
+      };
+    });
+
+    for (const member of group.members) {
+      rows.push({
+        userId: member.user.id,
+        firstName: member.user.firstName,
+        lastName: member.user.lastName,
+        email: member.user.email,
+        groupId: group.id,
+        groupName: group.name,
+        cells,
+      });
+    }
+  }
+
+  rows.sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName));
+
+  return { generatedAt: new Date(), columns, rows };
+}
+
+// e.g. "Approved (late, score not released)"
+function cellStatus(cell: GradebookCell): string {
+  if (!cell.status) return 'Missing';
+  const notes = [
+    cell.isLate ? 'late' : null,
+    cell.totalPoints !== null && !cell.released ? 'score not released' : null,
+  ].filter(Boolean);
+  return notes.length ? `${STATUS_LABELS[cell.status]} (${notes.join(', ')})` : STATUS_LABELS[cell.status];
+}
+
+// Flattens the gradebook into spreadsheet rows.
+//
+// 'lms' follows the common LMS gradebook import format (Canvas, Moodle,
+// Blackboard): identifying columns first, one numeric column per graded
+// assignment, and a "Points Possible" row under the header. Templates without
+// a rubric have no score to import and are left out. Scores that haven't been
+// released to students are left blank so they never reach the LMS.
+//
+// 'full' keeps every template with its status, score and submission date, and
+// marks scores that haven't been released.
+export function gradebookTable(gradebook: Gradebook, layout: GradebookLayout): (string | number | null)[][] {
+  if (layout === 'lms') {
+    const graded = gradebook.columns
+      .map((column, index) => ({ column, index }))
+      .filter(({ column }) => column.maxPoints !== null);
+
+    return [
+      ['Student', 'SIS Login ID', 'Section', ...graded.map(({ column }) => column.name)],
+      ['Points Possible', '', '', ...graded.map(({ column }) => column.maxPoints)],
+      ...gradebook.rows.map((row) => [
+        `${row.lastName}, ${row.firstName}`,
+        row.email,
+        row.groupName,
+        ...graded.map(({ index }) => (row.cells[index].released ? row.cells[index].totalPoints : null)),
+      ]),
+    ];
+  }
+
+  return [
+    [
+      'Last Name', 'First Name', 'Email', 'Group',
+      ...gradebook.columns.flatMap((column) => [
+        `${column.name} - Status`,
+        column.maxPoints !== null ? `${column.name} - Score (${column.maxPoints})` : `${column.name} - Score`,
+        `${column.name} - Submitted`,
+      ]),
+    ],
+    ...gradebook.rows.map((row) => [
+      row.lastName,
+      row.firstName,
+      row.email,
+      row.groupName,
+      ...row.cells.flatMap((cell) => [
+        cellStatus(cell),
+        cell.totalPoints,
+        cell.submittedAt ? cell.submittedAt.toISOString() : null,
+      ]),
+    ]),
+  ];
+}
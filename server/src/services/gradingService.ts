@@ -0,0 +1,267 @@
+// Rubric grading - admins define criteria per model template, instructors
+// score each criterion per submission. Totals are always computed from the
+// stored scores rather than saved, so editing a rubric can't leave them stale.
+
+import { prisma } from '../lib/prisma.js';
+
+const MAX_CRITERIA = 50;
+const MAX_LEVELS = 10;
+
+export interface RubricLevelInput {
+  id?: string;
+  label: string;
+  points: number;
+  description?: string | null;
+}
+
+export interface RubricCriterionInput {
+  id?: string;
+  title: string;
+  description?: string | null;
+  maxPoints: number;
+  levels: RubricLevelInput[];
+}
+
+export interface ScoreInput {
+  criterionId: string;
+  levelId?: string | null;
+  points?: number | null;   // Defaults to the level's points when a level is given
+  comment?: string | null;
+}
+
+interface ResolvedScore {
+  criterionId: string;
+  levelId: string | null;
+  points: number | null;    // null clears the score
+  comment: string | null;
+}
+
+export interface GradeTotals {
+  totalPoints: number;
+  maxPoints: number;
+  gradedCount: number;
+  criteriaCount: number;
+}
+
+const RUBRIC_INCLUDE = {
+  levels: { orderBy: { orderIndex: 'asc' } },
+} as const;
+
+function isPoints(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+// ============================================
+// RUBRIC DEFINITION
+// ============================================
+
+export async function getRubric(modelTemplateId: string) {
+  return prisma.rubricCriterion.findMany({
+    where: { modelTemplateId },
+    orderBy: { orderIndex: 'asc' },
+    include: RUBRIC_INCLUDE,
+  });
+}
+
+// Returns an error message, or null if the rubric can be saved
+export function validateRubric(criteria: unknown): string | null {
+  if (!Array.isArray(criteria)) return 'criteria must be an array';
+  if (criteria.length > MAX_CRITERIA) return `A rubric can have at most ${MAX_CRITERIA} criteria`;
+
+  for (const [i, criterion] of criteria.entries()) {
+    const label = `Criterion ${i + 1}`;
+    if (typeof criterion?.title !== 'string' || !criterion.title.trim()) {
+      return `${label} needs a title`;
+    }
+    if (!isPoints(criterion.maxPoints) || criterion.maxPoints === 0) {
+      return `${label} needs a whole number of points greater than 0`;
+    }
+    if (!Array.isArray(criterion.levels)) return `${label} levels must be an array`;
+    if (criterion.levels.length > MAX_LEVELS) return `${label} can have at most ${MAX_LEVELS} levels`;
+
+    for (const level of criterion.levels) {
+      if (typeof level?.label !== 'string' || !level.label.trim()) {
+        return `Every level of ${label} needs a label`;
+      }
+      if (!isPoints(level.points) || level.points > criterion.maxPoints) {
+        return `Level "${level.label}" of ${label} must be worth 0 to ${criterion.maxPoints} points`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Replaces the template's rubric with the given criteria. Criteria and levels
+// that keep their id are updated in place so existing scores stay attached.
+export async function replaceRubric(modelTemplateId: string, criteria: RubricCriterionInput[]) {
+  await prisma.$transaction(async (tx) => {
+    const existing = await tx.rubricCriterion.findMany({
+      where: { modelTemplateId },
+      include: { levels: true },
+    });
+
+    const keptIds = criteria.map((c) => c.id).filter((id) => existing.some((e) => e.id === id));
+    await tx.rubricCriterion.deleteMany({
+      where: { modelTemplateId, id: { notIn: keptIds as string[] } },
+    });
+
+    for (const [orderIndex, input] of criteria.entries()) {
+      const current = existing.find((e) => e.id === input.id);
+      const data = {
+        title: input.title.trim(),
+        description: input.description?.trim() || null,
+        maxPoints: input.maxPoints,
+        orderIndex,
+      };
+
+      const criterion = current
+        ? await tx.rubricCriterion.update({ where: { id: current.id }, data })
+        : await tx.rubricCriterion.create({ data: { ...data, modelTemplateId } });
+
+      const keptLevelIds = input.levels
+        .map((l) => l.id)
+        .filter((id) => current?.levels.some((l) => l.id === id));
+      await tx.rubricLevel.deleteMany({
+        where: { criterionId: criterion.id, id: { notIn: keptLevelIds as string[] } },
+      });
+
+      for (const [levelIndex, level] of input.levels.entries()) {
+        const levelData = {
+          label: level.label.trim(),
+          points: level.points,
+          description: level.description?.trim() || null,
+          orderIndex: levelIndex,
+        };
+        if (level.id && keptLevelIds.includes(level.id)) {
+          await tx.rubricLevel.update({ where: { id: level.id }, data: levelData });
+        } else {
+          await tx.rubricLevel.create({ data: { ...levelData, criterionId: criterion.id } });
+        }
+      }
+
+      // Lowering a criterion's points caps scores already given for it
+      if (current && current.maxPoints > input.maxPoints) {
+        await tx.rubricScore.updateMany({
+          where: { criterionId: criterion.id, points: { gt: input.maxPoints } },
+          data: { points: input.maxPoints },
+        });
+      }
+    }
+  });
+
+  return getRubric(modelTemplateId);
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+export function computeGradeTotals(
+  criteria: { id: string; maxPoints: number }[],
+  scores: { criterionId: string; points: number }[]
+): GradeTotals {
+  let totalPoints = 0;
+  let gradedCount = 0;
+  for (const criterion of criteria) {
+    const score = scores.find((s) => s.criterionId === criterion.id);
+    if (score) {
+      totalPoints += score.points;
+      gradedCount++;
+    }
+  }
+
+  return {
+    totalPoints,
+    maxPoints: criteria.reduce((sum, c) => sum + c.maxPoints, 0),
+    gradedCount,
+    criteriaCount: criteria.length,
+  };
+}
+
+// Rubric for the submission's template with the score for each criterion
+export async function getSubmissionGrade(submissionId: string) {
+  const submission = await prisma.submission.findUnique({
+    where: { id: submissionId },
+    select: { id: true, modelTemplateId: true, gradeReleasedAt: true },
+  });
+  if (!submission) return null;
+
+  const [criteria, scores] = await Promise.all([
+    getRubric(submission.modelTemplateId),
+    prisma.rubricScore.findMany({
+      where: { submissionId },
+      include: {
+        gradedBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+      },
+    }),
+  ]);
+
+  return {
+    submissionId: submission.id,
+    releasedAt: submission.gradeReleasedAt,
+    ...computeGradeTotals(criteria, scores),
+    criteria: criteria.map((criterion) => ({
+      ...criterion,
+      score: scores.find((s) => s.criterionId === criterion.id) ?? null,
+    })),
+  };
+}
+
+// Checks scores against the template's rubric and fills in points from the
+// chosen level. Returns an error message when any score is invalid.
+export async function resolveScores(
+  modelTemplateId: string,
+  scores: unknown
+): Promise<{ scores: ResolvedScore[] } | { error: string }> {
+  if (!Array.isArray(scores)) return { error: 'scores must be an array' };
+
+  const criteria = await getRubric(modelTemplateId);
+  const resolved: ResolvedScore[] = [];
+
+  for (const input of scores as ScoreInput[]) {
+    const criterion = criteria.find((c) => c.id === input?.criterionId);
+    if (!criterion) return { error: 'Score does not belong to this model\'s rubric' };
+
+    let points = input.points ?? null;
+    let levelId: string | null = null;
+    if (input.levelId) {
+      const level = criterion.levels.find((l) => l.id === input.levelId);
+      if (!level) return { error: `Invalid level for "${criterion.title}"` };
+      levelId = level.id;
+      points = points ?? level.points;
+    }
+
+    if (points !== null && (!isPoints(points) || points > criterion.maxPoints)) {
+      return { error: `"${criterion.title}" must be scored 0 to ${criterion.maxPoints} points` };
+    }
+
+    resolved.push({
+      criterionId: criterion.id,
+      levelId,
+      points,
+      comment: input.comment?.trim() || null,
+    });
+  }
+
+  return { scores: resolved };
+}
+
+export async function saveScores(submissionId: string, scores: ResolvedScore[], gradedById: string) {
+  await prisma.$transaction(
+    scores.map((score) => {
+      if (score.points === null) {
+        return prisma.rubricScore.deleteMany({ where: { submissionId, criterionId: score.criterionId } });
+      }
+
+      const data = { levelId: score.levelId, points: score.points, comment: score.comment, gradedById };
+      return prisma.rubricScore.upsert({
+        where: { submissionId_criterionId: { submissionId, criterionId: score.criterionId } },
+        create: { ...data, submissionId, criterionId: score.criterionId },
+        update: data,
+      });
+    })
+  );
+}
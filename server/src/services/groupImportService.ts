@@ -0,0 +1,138 @@
+// Group CSV import. Every row is planned first: a new group is created, a
+// group of the course with the same name (ignoring case) has its protein
+// updated, and anything invalid is reported as an error. The admin reviews the
+// plan from a dry run before it is applied; applying skips error rows.
+
+import { prisma } from '../lib/prisma.js';
+import { parseCsv } from '../lib/csv.js';
+
+const PDB_ID_PATTERN = /^[A-Z0-9]{4}$/;
+const MAX_PROTEIN_NAME_LENGTH = 100;
+
+// Accepted header names for each column
+const COLUMNS = {
+  name: ['name', 'group', 'group name'],
+  proteinPdbId: ['pdbid', 'proteinpdbid', 'pdb id', 'pdb'],
+  proteinName: ['proteinname', 'protein name', 'protein'],
+};
+
+export interface GroupImportRow {
+  line: number;
+  name: string;
+  proteinPdbId: string;
+  proteinName: string;
+  action: 'create' | 'update' | 'unchanged' | 'error';
+  groupId: string | null;  // The existing group for updates
+  changes: string[];       // What an update changes, e.g. "PDB ID 1ABC → 2XYZ"
+  error: string | null;
+}
+
+export interface GroupImportPlan {
+  rows: GroupImportRow[];
+  creates: number;
+  updates: number;
+  unchanged: number;
+  errors: number;
+  applied: boolean;
+}
+
+export async function planGroupImport(csvData: string, courseId: string | null): Promise<GroupImportPlan | string> {
+  const [header, ...records] = parseCsv(csvData);
+  if (!header || records.length === 0) {
+    return 'CSV must have a header row and at least one data row';
+  }
+
+  const headings = header.fields.map((h) => h.trim().toLowerCase());
+  const column = (names: string[]) => headings.findIndex((h) => names.includes(h));
+  const nameIdx = column(COLUMNS.name);
+  const pdbIdIdx = column(COLUMNS.proteinPdbId);
+  const proteinNameIdx = column(COLUMNS.proteinName);
+
+  if (nameIdx === -1 || pdbIdIdx === -1 || proteinNameIdx === -1) {
+    return 'CSV must have columns: name (or "group"), proteinPdbId (or "pdb"), proteinName (or "protein")';
+  }
+
+  const existing = await prisma.group.findMany({
+    where: { courseId, archivedAt: null },
+    select: { id: true, name: true, proteinPdbId: true, proteinName: true },
+  });
+  const existingByName = new Map(existing.map((g) => [g.name.toLowerCase(), g]));
+  const seenNames = new Map<string, number>();
+
+  const rows = records.map((record): GroupImportRow => {
+    const cell = (idx: number) => (record.fields[idx] ?? '').trim();
+    const row: GroupImportRow = {
+      line: record.line,
+      name: cell(nameIdx),
+      proteinPdbId: cell(pdbIdIdx).toUpperCase(),
+      proteinName: cell(proteinNameIdx),
+      action: 'error',
+      groupId: null,
+      changes: [],
+      error: null,
+    };
+
+    if (!row.name || !row.proteinPdbId || !row.proteinName) {
+      row.error = 'Missing required field(s)';
+      return row;
+    }
+    if (!PDB_ID_PATTERN.test(row.proteinPdbId)) {
+      row.error = `"${row.proteinPdbId}" is not a 4-character PDB ID`;
+      return row;
+    }
+    if (row.proteinName.length > MAX_PROTEIN_NAME_LENGTH) {
+      row.error = `Protein name is longer than ${MAX_PROTEIN_NAME_LENGTH} characters`;
+      return row;
+    }
+
+    const key = row.name.toLowerCase();
+    const earlierLine = seenNames.get(key);
+    if (earlierLine !== undefined) {
+      row.error = `Same group name as line ${earlierLine}`;
+      return row;
+    }
+    seenNames.set(key, row.line);
+
+    const group = existingByName.get(key);
+    if (!group) {
+      row.action = 'create';
+      return row;
+    }
+
+    row.groupId = group.id;
+    if (group.proteinPdbId !== row.proteinPdbId) {
+      row.changes.push(`PDB ID ${group.proteinPdbId} → ${row.proteinPdbId}`);
+    }
+    if (group.proteinName !== row.proteinName) {
+      row.changes.push(`Protein ${group.proteinName} → ${row.proteinName}`);
+    }
+    row.action = row.changes.length > 0 ? 'update' : 'unchanged';
+    return row;
+  });
+
+  return {
+    rows,
+    creates: rows.filter((r) => r.action === 'create').length,
+    updates: rows.filter((r) => r.action === 'update').length,
+    unchanged: rows.filter((r) => r.action === 'unchanged').length,
+    errors: rows.filter((r) => r.action === 'error').length,
+    applied: false,
+  };
+}
+
+// Writes the create and update rows of a plan in one transaction
+export async function applyGroupImport(plan: GroupImportPlan, courseId: string | null): Promise<GroupImportPlan> {
+  await prisma.$transaction(async (tx) => {
+    for (const row of plan.rows) {
+      const data = { proteinPdbId: row.proteinPdbId, proteinName: row.proteinName };
+      if (row.action === 'create') {
+        const group = await tx.group.create({ data: { ...data, name: row.name, courseId } });
+        row.groupId = group.id;
+      } else if (row.action === 'update') {
+        await tx.group.update({ where: { id: row.groupId! }, data });
+      }
+    }
+  });
+
+  return { ...plan, applied: true };
+}
@@ -0,0 +1,102 @@
+// Invitation-based onboarding. Admins hand out invite links for a role, and
+// each group can have a join code students enter when they register. Either
+// one approves the new account straight away; anyone registering without
+// them waits for approval, or is turned away when SELF_REGISTRATION=closed.
+
+import crypto from 'crypto';
+import { Invite, Role } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { normalizeEmail } from '../lib/emailAddress.js';
+
+// 'pending' (default) keeps uninvited students in the approval queue,
+// 'closed' rejects them
+export const SELF_REGISTRATION = process.env.SELF_REGISTRATION === 'closed' ? 'closed' : 'pending';
+
+const DEFAULT_INVITE_EXPIRES_DAYS = 14;
+const MAX_INVITE_EXPIRES_DAYS = 365;
+
+// No 0/O or 1/I so codes read out in class aren't mistyped
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 8;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface InviteInput {
+  role: Role;
+  email: string | null;
+  maxUses: number | null;
+  expiresInDays: number | null; // null = never expires
+}
+
+// Returns the parsed invite settings, or an error message
+export function parseInviteInput(body: Record<string, unknown>): InviteInput | string {
+  const { role, email, maxUses, expiresInDays = DEFAULT_INVITE_EXPIRES_DAYS } = body;
+
+  if (!Object.values(Role).includes(role as Role)) {
+    return 'Invalid role';
+  }
+  if (email !== undefined && email !== null && email !== '' && (typeof email !== 'string' || !EMAIL_PATTERN.test(email))) {
+    return 'Invalid email address';
+  }
+  if (maxUses !== undefined && maxUses !== null && (!Number.isInteger(maxUses) || (maxUses as number) < 1)) {
+    return 'Max uses must be a whole number of at least 1';
+  }
+  if (
+    expiresInDays !== null &&
+    (!Number.isInteger(expiresInDays) || (expiresInDays as number) < 1 || (expiresInDays as number) > MAX_INVITE_EXPIRES_DAYS)
+  ) {
+    return `Expiry must be a whole number of days from 1 to ${MAX_INVITE_EXPIRES_DAYS}`;
+  }
+
+  return {
+    role: role as Role,
+    email: email ? normalizeEmail(email as string) : null,
+    // An invite for one address can only be used once
+    maxUses: email ? 1 : (maxUses as number | undefined) ?? null,
+    expiresInDays: expiresInDays as number | null,
+  };
+}
+
+export function createInvite(input: InviteInput, createdById: string): Promise<Invite> {
+  return prisma.invite.create({
+    data: {
+      token: crypto.randomBytes(24).toString('hex'),
+      role: input.role,
+      email: input.email,
+      maxUses: input.maxUses,
+      expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000) : null,
+      createdById,
+    },
+  });
+}
+
+export function inviteUrl(token: string): string {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  return `${frontendUrl}/register?invite=${token}`;
+}
+
+export function isInviteUsable(invite: Invite, now = new Date()): boolean {
+  return !invite.revokedAt
+    && (!invite.expiresAt || invite.expiresAt > now)
+    && (invite.maxUses === null || invite.useCount < invite.maxUses);
+}
+
+// The invite for a token, or null when it doesn't exist or can't be used any more
+export async function findUsableInvite(token: string): Promise<Invite | null> {
+  const invite = await prisma.invite.findUnique({ where: { token } });
+  return invite && isInviteUsable(invite) ? invite : null;
+}
+
+export function generateJoinCode(): string {
+  const bytes = crypto.randomBytes(JOIN_CODE_LENGTH);
+  return Array.from(bytes, (b) => JOIN_CODE_ALPHABET[b % JOIN_CODE_ALPHABET.length]).join('');
+}
+
+// The active group a join code belongs to. Codes are matched ignoring case
+// and spaces.
+export function findGroupByJoinCode(code: string) {
+  return prisma.group.findFirst({
+    where: { joinCode: code.replace(/\s/g, '').toUpperCase(), archivedAt: null },
+    select: { id: true, name: true, proteinPdbId: true, proteinName: true },
+  });
+}
@@ -0,0 +1,261 @@
+// In-app notifications. Each recipient gets their own Notification row, and
+// connected browsers are told over the event stream so the bell updates live.
+//
+// Chat messages and comments are merged per thread while unread: a busy group
+// chat shows one "5 new messages" entry instead of five.
+//
+// Each user also picks how each type reaches them by email: immediately, in
+// the daily digest (digestService) or not at all.
+
+import { EmailDelivery, NotificationType, Role } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { publishUserEvent } from '../lib/events.js';
+import { STAFF_ROLES } from '../middleware/auth.js';
+import { sendNotificationEmail } from './emailService.js';
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  groupId?: string | null;
+  submissionId?: string | null;
+  // Users the caller already emailed (e.g. the detailed review request email).
+  // They don't get the generic email; anyone else who wants immediate
+  // delivery, including those whose email failed to send, still does.
+  emailedUserIds?: string[];
+}
+
+export interface EmailPreference {
+  type: NotificationType;
+  email: EmailDelivery;
+}
+
+// Used until a user saves their own choice. Review requests and account
+// approvals were always emailed right away, so they stay immediate.
+export const DEFAULT_EMAIL_DELIVERY: Record<NotificationType, EmailDelivery> = {
+  STATUS_CHANGED: 'DIGEST',
+  NEW_COMMENT: 'DIGEST',
+  NEW_GROUP_MESSAGE: 'OFF',
+  REVIEW_REQUESTED: 'IMMEDIATE',
+  ACCOUNT_APPROVED: 'IMMEDIATE',
+};
+
+// Types each role can receive and configure on the settings page. Account
+// approval isn't listed - it arrives before the user can sign in.
+export const CONFIGURABLE_TYPES: Record<Role, NotificationType[]> = {
+  STUDENT: ['STATUS_CHANGED', 'NEW_COMMENT', 'NEW_GROUP_MESSAGE'],
+  INSTRUCTOR: ['REVIEW_REQUESTED', 'NEW_COMMENT', 'NEW_GROUP_MESSAGE'],
+  TA: ['REVIEW_REQUESTED', 'NEW_COMMENT', 'NEW_GROUP_MESSAGE'],
+  ADMIN: [],
+};
+
+const MERGED_TYPES: NotificationType[] = ['NEW_COMMENT', 'NEW_GROUP_MESSAGE'];
+
+// Longest message/comment excerpt kept in a notification body
+const EXCERPT_LENGTH = 140;
+
+export function excerpt(content: string): string {
+  return content.length > EXCERPT_LENGTH ? `${content.slice(0, EXCERPT_LENGTH - 1)}…` : content;
+}
+
+export async function notify(userIds: string[], input: NotificationInput): Promise<void> {
+  const recipients = [...new Set(userIds)];
+  if (recipients.length === 0) return;
+
+  const delivery = await emailDeliveryFor(recipients, input.type);
+  const emailNow = recipients.filter((id) => delivery.get(id) === 'IMMEDIATE');
+  const alreadyEmailed = new Set(input.emailedUserIds ?? []);
+  const emailPending = emailNow.filter((id) => !alreadyEmailed.has(id));
+  const emailUsers = emailPending.length > 0
+    ? await prisma.user.findMany({
+        where: { id: { in: emailPending } },
+        select: { id: true, email: true, firstName: true, lastName: true },
+      })
+    : [];
+
+  for (const userId of recipients) {
+    // Set when the caller already emailed them; otherwise after sending below.
+    // Cleared on merge so a thread that was in a digest can be in the next one.
+    const emailedAt = alreadyEmailed.has(userId) ? new Date() : null;
+
+    const existing = MERGED_TYPES.includes(input.type)
+      ? await prisma.notification.findFirst({
+          where: {
+            userId,
+            type: input.type,
+            groupId: input.groupId ?? null,
+            submissionId: input.submissionId ?? null,
+            readAt: null,
+          },
+        })
+      : null;
+
+    const notification = existing
+      ? await prisma.notification.update({
+          where: { id: existing.id },
+          data: {
+            title: input.title,
+            body: input.body ?? null,
+            count: { increment: 1 },
+            emailedAt,
+            createdAt: new Date(),
+          },
+        })
+      : await prisma.notification.create({
+          data: {
+            userId,
+            type: input.type,
+            title: input.title,
+            body: input.body ?? null,
+            groupId: input.groupId ?? null,
+            submissionId: input.submissionId ?? null,
+            emailedAt,
+          },
+        });
+
+    publishUserEvent(userId, { type: 'notification', notification });
+
+    const emailUser = emailUsers.find((u) => u.id === userId);
+    if (emailUser) {
+      const sent = await sendNotificationEmail({
+        email: emailUser.email,
+        name: `${emailUser.firstName} ${emailUser.lastName}`,
+        items: [notification],
+        dashboardUrl: dashboardUrl(),
+      });
+      if (sent) {
+        await prisma.notification.update({
+          where: { id: notification.id },
+          data: { emailedAt: new Date() },
+        });
+      }
+    }
+  }
+}
+
+export function dashboardUrl(): string {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  return `${frontendUrl}/dashboard`;
+}
+
+// Notifications are a side effect - a failure (or a slow recipient lookup)
+// shouldn't hold up or fail the request that triggered them
+export function notifyInBackground(userIds: string[] | Promise<string[]>, input: NotificationInput): void {
+  Promise.resolve(userIds)
+    .then((ids) => notify(ids, input))
+    .catch((error) => {
+      console.error('Error creating notifications:', error);
+    });
+}
+
+// Students in a group, optionally leaving out the user who caused the event
+export async function groupMemberIds(groupId: string, excludeUserId?: string): Promise<string[]> {
+  const members = await prisma.groupMember.findMany({
+    where: { groupId },
+    select: { userId: true },
+  });
+  return members.map((m) => m.userId).filter((id) => id !== excludeUserId);
+}
+
+export async function instructorIds(): Promise<string[]> {
+  const instructors = await prisma.user.findMany({
+    where: { role: { in: STAFF_ROLES }, isApproved: true },
+    select: { id: true },
+  });
+  return instructors.map((i) => i.id);
+}
+
+// Instructors and TAs responsible for a group: the ones assigned to it,
+// otherwise the ones teaching its course, or all of them when the group isn't
+// in a course or nobody is assigned to teach it
+export async function groupInstructorIds(groupId: string): Promise<string[]> {
+  const group = await prisma.group.findUnique({
+    where: { id: groupId },
+    select: {
+      courseId: true,
+      instructors: {
+        where: { user: { role: { in: STAFF_ROLES }, isApproved: true } },
+        select: { userId: true },
+      },
+    },
+  });
+  if (group && group.instructors.length > 0) {
+    return group.instructors.map((i) => i.userId);
+  }
+  if (!group?.courseId) {
+    return instructorIds();
+  }
+
+  const assignments = await prisma.courseInstructor.findMany({
+    where: {
+      courseId: group.courseId,
+      user: { role: { in: STAFF_ROLES }, isApproved: true },
+    },
+    select: { userId: true },
+  });
+  return assignments.length > 0 ? assignments.map((a) => a.userId) : instructorIds();
+}
+
+// Who hears about a new chat message or comment: the rest of the group, plus
+// the group's instructors when a student wrote it
+export async function discussionRecipients(groupId: string, authorId: string, authorRole: string): Promise<string[]> {
+  const members = await groupMemberIds(groupId, authorId);
+  if (authorRole !== 'STUDENT') {
+    return members;
+  }
+  return [...members, ...(await groupInstructorIds(groupId))];
+}
+
+// ============================================
+// EMAIL PREFERENCES
+// ============================================
+
+// Each user's email delivery for one notification type
+export async function emailDeliveryFor(userIds: string[], type: NotificationType): Promise<Map<string, EmailDelivery>> {
+  const preferences = await prisma.notificationPreference.findMany({
+    where: { userId: { in: userIds }, type },
+  });
+
+  const delivery = new Map<string, EmailDelivery>();
+  for (const userId of userIds) {
+    const preference = preferences.find((p) => p.userId === userId);
+    delivery.set(userId, preference?.email ?? DEFAULT_EMAIL_DELIVERY[type]);
+  }
+  return delivery;
+}
+
+export async function getEmailPreferences(userId: string, role: Role): Promise<EmailPreference[]> {
+  const saved = await prisma.notificationPreference.findMany({ where: { userId } });
+  return CONFIGURABLE_TYPES[role].map((type) => ({
+    type,
+    email: saved.find((p) => p.type === type)?.email ?? DEFAULT_EMAIL_DELIVERY[type],
+  }));
+}
+
+// Returns an error message or null
+export function validateEmailPreferences(role: Role, preferences: unknown): string | null {
+  if (!Array.isArray(preferences)) {
+    return 'preferences must be an array';
+  }
+  for (const preference of preferences) {
+    if (!CONFIGURABLE_TYPES[role].includes(preference?.type)) {
+      return `Unknown notification type: ${preference?.type}`;
+    }
+    if (!Object.values(EmailDelivery).includes(preference.email)) {
+      return `Invalid email delivery for ${preference.type}`;
+    }
+  }
+  return null;
+}
+
+export async function saveEmailPreferences(userId: string, preferences: EmailPreference[]): Promise<void> {
+  await prisma.$transaction(
+    preferences.map((preference) =>
+      prisma.notificationPreference.upsert({
+        where: { userId_type: { userId, type: preference.type } },
+        update: { email: preference.email },
+        create: { userId, type: preference.type, email: preference.email },
+      })
+    )
+  );
+}
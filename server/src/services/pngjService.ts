@@ -0,0 +1,274 @@
+// PNGJ parsing - a PNGJ is a regular PNG image with a Jmol zip archive appended
+// after the IEND chunk. The archive holds the state script (state.spt), a
+// manifest, and usually the structure file the state script loads.
+
+import { readZipEntries, ZipEntry } from '../lib/zip.js';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const MAX_DISPLAY_COMMANDS = 500;
+
+// Limits for unpacking student uploads: the size of any one archive member,
+// and how many other members are checked for coordinates when the state
+// script names no structure file
+const MAX_ENTRY_SIZE = 32 * 1024 * 1024;
+const MAX_STRUCTURE_CANDIDATES = 5;
+
+// First words of state script commands that change what is shown or how it looks.
+// Mirrored with extractDisplayCommands in client/src/utils/jmolState.ts, which
+// diffs the full state scripts of two versions; keep the two in sync.
+const DISPLAY_COMMANDS = new Set([
+  'select', 'color', 'colour', 'define', 'display', 'hide', 'restrict',
+  'cartoon', 'cartoons', 'ribbon', 'ribbons', 'trace', 'backbone', 'rockets',
+  'strands', 'meshribbon', 'meshribbons', 'wireframe', 'spacefill', 'cpk',
+  'dots', 'geosurface', 'isosurface', 'halos', 'stars', 'ellipsoid',
+  'polyhedra', 'label', 'labels', 'ssbonds', 'hbonds', 'measure', 'measures',
+  'background',
+]);
+
+const THREE_TO_ONE: Record<string, string> = {
+  ALA: 'A', ARG: 'R', ASN: 'N', ASP: 'D', CYS: 'C', GLN: 'Q', GLU: 'E', GLY: 'G',
+  HIS: 'H', ILE: 'I', LEU: 'L', LYS: 'K', MET: 'M', PHE: 'F', PRO: 'P', SER: 'S',
+  THR: 'T', TRP: 'W', TYR: 'Y', VAL: 'V', SEC: 'U', PYL: 'O', MSE: 'M',
+};
+
+// Stored on each SubmissionVersion
+export interface PngjMetadata {
+  hasStructure: boolean;
+  structureSource: string | null;
+  atomCount: number | null;
+  embeddedPdbId: string | null;
+  displayCommands: string[];
+}
+
+export interface PngjAnalysis {
+  metadata: PngjMetadata;
+  chainSequences: string[]; // One-letter protein sequence of each chain in the embedded structure
+}
+
+// Walk the PNG chunks and return the offset just past IEND, or -1 if the
+// buffer isn't a well-formed PNG
+function findPngEnd(buffer: Buffer): number {
+  if (buffer.length < PNG_SIGNATURE.length || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return -1;
+  }
+
+  let pos = 8;
+  while (pos + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(pos);
+    const type = buffer.toString('latin1', pos + 4, pos + 8);
+    pos += 12 + length;
+    if (type === 'IEND') {
+      return pos <= buffer.length ? pos : -1;
+    }
+  }
+  return -1;
+}
+
+function findEntry(entries: ZipEntry[], name: string): ZipEntry | undefined {
+  return entries.find((e) => e.name === name)
+    ?? entries.find((e) => e.name.toLowerCase() === name.toLowerCase());
+}
+
+// The manifest names the script Jmol runs when the PNGJ is opened
+function findStateScript(entries: ZipEntry[]): ZipEntry | undefined {
+  const manifest = findEntry(entries, 'JmolManifest.txt');
+  if (manifest) {
+    const scriptName = manifest.read().toString('utf8')
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .find((line) => line && !line.startsWith('#'));
+    const entry = scriptName ? findEntry(entries, scriptName) : undefined;
+    if (entry) return entry;
+  }
+
+  return findEntry(entries, 'state.spt') ?? entries.find((e) => e.name.toLowerCase().endsWith('.spt'));
+}
+
+// Returns the structure text and where it came from: either a file in the
+// archive referenced via $SCRIPT_PATH$, or a data block inlined in the script
+function findStructure(script: string, entries: ZipEntry[]): { source: string; text: string } | null {
+  const inline = script.match(/load\s+\/\*data\*\/\s*data\s+"([^"]+)"\r?\n([\s\S]*?)\r?\n\s*end\s+"\1"/);
+  if (inline) {
+    return { source: 'inline', text: inline[2] };
+  }
+
+  const fileLoad = script.match(/load\s+(?:\/\*file\*\/)?"[^"]*\$SCRIPT_PATH\$([^"]+)"/);
+  if (fileLoad) {
+    const entry = findEntry(entries, fileLoad[1]);
+    if (entry) {
+      return { source: entry.name, text: entry.read().toString('utf8') };
+    }
+  }
+
+  // Fall back to any other archive member that looks like coordinates
+  const candidates = entries
+    .filter((e) => !e.name.toLowerCase().endsWith('.spt') && e.name !== 'JmolManifest.txt' && !e.name.startsWith('Jmol_version'))
+    .filter((e) => e.size <= MAX_ENTRY_SIZE)
+    .slice(0, MAX_STRUCTURE_CANDIDATES);
+  for (const entry of candidates) {
+    const text = entry.read().toString('utf8');
+    if (/^(ATOM|HETATM)/m.test(text)) {
+      return { source: entry.name, text };
+    }
+  }
+
+  return null;
+}
+
+// Counts ATOM/HETATM records (PDB and mmCIF), stopping at the end of the
+// first model so NMR ensembles aren't counted several times
+function countAtoms(structure: string): number {
+  let count = 0;
+  for (const line of structure.split(/\r?\n/)) {
+    if (line.startsWith('ENDMDL')) break;
+    if (line.startsWith('ATOM') || line.startsWith('HETATM')) count++;
+  }
+  return count;
+}
+
+// Builds one-letter sequences from the alpha carbons of each chain, reading
+// fixed columns for PDB files and the _atom_site loop for mmCIF
+function extractChainSequences(structure: string): string[] {
+  const chains = new Map<string, string[]>();
+  const addResidue = (chain: string, residue: string) => {
+    const code = THREE_TO_ONE[residue.toUpperCase()];
+    if (!code) return;
+    if (!chains.has(chain)) chains.set(chain, []);
+    chains.get(chain)!.push(code);
+  };
+
+  const lines = structure.split(/\r?\n/);
+  const cifColumns: string[] = [];
+  let inAtomSiteLoop = false;
+
+  for (const line of lines) {
+    if (line.startsWith('ENDMDL')) break;
+
+    // mmCIF: column names are listed before the rows of the _atom_site loop
+    if (line.startsWith('_atom_site.')) {
+      cifColumns.push(line.trim().substring('_atom_site.'.length));
+      inAtomSiteLoop = true;
+      continue;
+    }
+
+    if (!line.startsWith('ATOM') && !line.startsWith('HETATM')) {
+      if (inAtomSiteLoop && line.startsWith('#')) break;
+      continue;
+    }
+
+    if (cifColumns.length > 0) {
+      const fields = line.trim().split(/\s+/);
+      const get = (name: string) => fields[cifColumns.indexOf(name)];
+      const modelNum = get('pdbx_PDB_model_num');
+      if (modelNum && modelNum !== '1') break;
+      if (get('label_atom_id') === 'CA') {
+        addResidue(get('auth_asym_id') ?? get('label_asym_id') ?? '', get('label_comp_id') ?? '');
+      }
+    } else if (line.substring(12, 16).trim() === 'CA') {
+      // Skip alternate locations other than the first
+      const altLoc = line[16];
+      if (altLoc !== ' ' && altLoc !== 'A' && altLoc !== undefined) continue;
+      addResidue(line[21] ?? '', line.substring(17, 20).trim());
+    }
+  }
+
+  return Array.from(chains.values()).map((residues) => residues.join(''));
+}
+
+function normalizePdbId(id: string | undefined): string | null {
+  if (!id) return null;
+  const trimmed = id.trim().toUpperCase();
+  return /^[0-9][A-Z0-9]{3}$/.test(trimmed) ? trimmed : null;
+}
+
+function findPdbId(script: string, structure: { source: string; text: string } | null): string | null {
+  if (structure) {
+    // PDB format: ID code in columns 63-66 of the HEADER record
+    const header = structure.text.match(/^HEADER.*$/m);
+    const fromHeader = header ? normalizePdbId(header[0].substring(62, 66)) : null;
+    if (fromHeader) return fromHeader;
+
+    // mmCIF format
+    const entryId = structure.text.match(/^_entry\.id\s+(\S+)/m) ?? structure.text.match(/^data_(\S+)/m);
+    const fromCif = normalizePdbId(entryId?.[1]);
+    if (fromCif) return fromCif;
+  }
+
+  // Structures fetched straight from the PDB: load =1ABC
+  const activeScript = script.split(/\r?\n/).filter((line) => !line.trim().startsWith('#')).join('\n');
+  const fromLoad = normalizePdbId(activeScript.match(/load\s+(?:\/\*\w+\*\/\s*)?"?=(\w{4})/)?.[1]);
+  if (fromLoad) return fromLoad;
+
+  // Last resort: a file named after its PDB ID, e.g. "8TEG.pdb" or "2iwt (2).cif"
+  if (structure && structure.source !== 'inline') {
+    return normalizePdbId(structure.source.match(/^([0-9][A-Za-z0-9]{3})(?![A-Za-z0-9])/)?.[1]);
+  }
+
+  return null;
+}
+
+function extractDisplayCommands(script: string): string[] {
+  const commands: string[] = [];
+  let inInlineData = false;
+
+  for (const rawLine of script.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    // Skip structure data embedded with `data "model" ... end "model"`
+    if (inInlineData) {
+      if (/^end\s+"/i.test(line)) inInlineData = false;
+      continue;
+    }
+    if (/data\s+"[^"]*"\s*$/i.test(line) && !/^end\s+"/i.test(line)) {
+      inInlineData = true;
+      continue;
+    }
+
+    if (!line || line.startsWith('#')) continue;
+
+    for (const statement of line.split(';')) {
+      // Drop version markers like /*16.2*/ so they don't show up as changes
+      const trimmed = statement.replace(/\/\*.*?\*\//g, '').replace(/\s+/g, ' ').trim();
+      const keyword = trimmed.split(/\s+/)[0]?.toLowerCase();
+      if (keyword && DISPLAY_COMMANDS.has(keyword)) {
+        commands.push(trimmed);
+        if (commands.length >= MAX_DISPLAY_COMMANDS) return commands;
+      }
+    }
+  }
+
+  return commands;
+}
+
+// Returns null when the image has no embedded Jmol state (e.g. a plain screenshot)
+export function analyzePngj(buffer: Buffer): PngjAnalysis | null {
+  const pngEnd = findPngEnd(buffer);
+  if (pngEnd < 0 || pngEnd >= buffer.length) return null;
+
+  try {
+    const entries = readZipEntries(buffer.subarray(pngEnd), MAX_ENTRY_SIZE);
+    if (!entries) return null;
+
+    const scriptEntry = findStateScript(entries);
+    if (!scriptEntry) return null;
+
+    const script = scriptEntry.read().toString('utf8');
+    const structure = findStructure(script, entries);
+    const atomCount = structure ? countAtoms(structure.text) : null;
+
+    return {
+      metadata: {
+        hasStructure: atomCount !== null && atomCount > 0,
+        structureSource: structure?.source ?? null,
+        atomCount,
+        embeddedPdbId: findPdbId(script, structure),
+        displayCommands: extractDisplayCommands(script),
+      },
+      chainSequences: structure ? extractChainSequences(structure.text) : [],
+    };
+  } catch (error) {
+    // Truncated or corrupt archive
+    console.error('Error reading PNGJ archive:', error);
+    return null;
+  }
+}
@@ -0,0 +1,121 @@
+// Checks that an uploaded model contains the protein assigned to the group.
+// The PDB ID found in the embedded structure is compared first; when it is
+// missing or different, chain sequences are compared against the reference
+// sequences published by the RCSB for the group's PDB entry.
+
+import { ProteinMatchStatus } from '@prisma/client';
+import { PngjAnalysis } from './pngjService.js';
+
+const RCSB_FASTA_URL = 'https://www.rcsb.org/fasta/entry';
+const FETCH_TIMEOUT_MS = 5000;
+const KMER_LENGTH = 5;
+const MIN_CHAIN_LENGTH = 20;     // Shorter chains (peptides, fragments) are ignored
+const MATCH_THRESHOLD = 0.8;     // Fraction of a chain's k-mers found in the reference
+
+export interface ProteinMatchResult {
+  status: ProteinMatchStatus;
+  detail: string;
+}
+
+// Reference sequences rarely change, so keep them for the life of the process
+const referenceCache = new Map<string, string[]>();
+
+async function fetchReferenceSequences(pdbId: string): Promise<string[] | null> {
+  const cached = referenceCache.get(pdbId);
+  if (cached) return cached;
+
+  try {
+    const response = await fetch(`${RCSB_FASTA_URL}/${pdbId}`, {
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.error(`RCSB FASTA lookup for ${pdbId} failed: ${response.status}`);
+      return null;
+    }
+
+    const sequences = (await response.text())
+      .split(/^>.*$/m)
+      .map((block) => block.replace(/\s+/g, '').toUpperCase())
+      .filter((seq) => seq.length > 0);
+
+    if (sequences.length > 0) {
+      referenceCache.set(pdbId, sequences);
+    }
+    return sequences;
+  } catch (error) {
+    console.error(`Error fetching reference sequence for ${pdbId}:`, error);
+    return null;
+  }
+}
+
+function kmers(sequence: string): Set<string> {
+  const result = new Set<string>();
+  for (let i = 0; i + KMER_LENGTH <= sequence.length; i++) {
+    result.add(sequence.substring(i, i + KMER_LENGTH));
+  }
+  return result;
+}
+
+// Best fraction of any uploaded chain's k-mers that appear in the reference.
+// Unresolved loops only break the k-mers spanning the gap, so partial models
+// of the right protein still score highly.
+function sequenceCoverage(chains: string[], reference: string[]): number {
+  const referenceKmers = new Set<string>();
+  for (const seq of reference) {
+    for (const kmer of kmers(seq)) referenceKmers.add(kmer);
+  }
+
+  let best = 0;
+  for (const chain of chains) {
+    if (chain.length < MIN_CHAIN_LENGTH) continue;
+    const chainKmers = kmers(chain);
+    let found = 0;
+    for (const kmer of chainKmers) {
+      if (referenceKmers.has(kmer)) found++;
+    }
+    best = Math.max(best, found / chainKmers.size);
+  }
+  return best;
+}
+
+export async function checkProteinMatch(pngj: PngjAnalysis, groupPdbId: string): Promise<ProteinMatchResult> {
+  const expected = groupPdbId.toUpperCase();
+  const embedded = pngj.metadata.embeddedPdbId;
+
+  if (embedded === expected) {
+    return { status: 'MATCH', detail: `Embedded structure is ${embedded}` };
+  }
+
+  const chains = pngj.chainSequences.filter((seq) => seq.length >= MIN_CHAIN_LENGTH);
+  if (chains.length === 0) {
+    return embedded
+      ? { status: 'MISMATCH', detail: `Embedded structure is ${embedded}, but the group's protein is ${expected}` }
+      : { status: 'UNKNOWN', detail: 'No embedded protein structure to compare' };
+  }
+
+  const reference = await fetchReferenceSequences(expected);
+  if (!reference || reference.length === 0) {
+    return embedded
+      ? { status: 'MISMATCH', detail: `Embedded structure is ${embedded}, but the group's protein is ${expected}` }
+      : { status: 'UNKNOWN', detail: `Could not fetch the reference sequence for ${expected}` };
+  }
+
+  const coverage = sequenceCoverage(chains, reference);
+  const percent = Math.round(coverage * 100);
+
+  if (coverage >= MATCH_THRESHOLD) {
+    return {
+      status: 'MATCH',
+      detail: embedded
+        ? `Embedded structure is ${embedded}, but its sequence matches ${expected} (${percent}%)`
+        : `Sequence matches ${expected} (${percent}%)`,
+    };
+  }
+
+  return {
+    status: 'MISMATCH',
+    detail: embedded
+      ? `Embedded structure is ${embedded} and its sequence does not match ${expected} (${percent}%)`
+      : `Sequence does not match ${expected} (${percent}%)`,
+  };
+}
@@ -0,0 +1,269 @@
+// Roster import: creates approved student accounts from a CSV, places them in
+// groups and emails each new student a link to set their password.
+//
+// The CSV needs an email column and either a name column or first/last name
+// columns. An optional group column names the group a student joins; students
+// without one can be auto-paired into the course's groups that have room.
+
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { prisma } from '../lib/prisma.js';
+import { parseCsv } from '../lib/csv.js';
+import { emailWhere, normalizeEmail } from '../lib/emailAddress.js';
+import { ROLE_NAMES } from '../middleware/auth.js';
+import { sendInvitationEmail } from './emailService.js';
+
+// Longer than a password reset, as students may not read the email until the
+// first session
+export const INVITE_EXPIRES_DAYS = 7;
+
+const MAX_GROUP_SIZE = 10;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Accepted header names for each column
+const COLUMNS = {
+  email: ['email', 'e-mail', 'email address'],
+  name: ['name', 'full name', 'student', 'student name'],
+  firstName: ['first name', 'firstname', 'first'],
+  lastName: ['last name', 'lastname', 'last', 'surname'],
+  group: ['group', 'group name', 'team'],
+};
+
+export interface RosterImportOptions {
+  courseId: string | null;
+  groupSize: number | null; // Auto-pair students without a group into groups of this size
+  sendInvites: boolean;
+}
+
+export interface RosterRowResult {
+  line: number;
+  email: string;
+  name: string;
+  status: 'created' | 'existing' | 'error';
+  group: string | null;
+  placement: 'csv' | 'auto' | 'already' | null;
+  invited: boolean;
+  messages: string[];
+}
+
+export interface RosterImportReport {
+  rows: RosterRowResult[];
+  created: number;
+  existing: number;
+  errors: number;
+  placed: number;
+  invited: number;
+}
+
+interface GroupSlot {
+  id: string;
+  name: string;
+  memberCount: number;
+}
+
+// Returns an error message for a bad group size, or null
+export function validateGroupSize(groupSize: unknown): string | null {
+  if (groupSize === null || groupSize === undefined) return null;
+  if (!Number.isInteger(groupSize) || (groupSize as number) < 1 || (groupSize as number) > MAX_GROUP_SIZE) {
+    return `Group size must be a whole number from 1 to ${MAX_GROUP_SIZE}`;
+  }
+  return null;
+}
+
+// "Last, First" or "First Middle Last"
+function splitName(name: string): { firstName: string; lastName: string } {
+  if (name.includes(',')) {
+    const [last, ...rest] = name.split(',');
+    return { firstName: rest.join(',').trim(), lastName: last.trim() };
+  }
+  const space = name.lastIndexOf(' ');
+  if (space === -1) return { firstName: name, lastName: '' };
+  return { firstName: name.slice(0, space).trim(), lastName: name.slice(space + 1).trim() };
+}
+
+// Of the groups with room, the fullest one, so students end up in complete
+// pairs rather than spread one per group
+function pickAutoGroup(slots: GroupSlot[], groupSize: number): GroupSlot | null {
+  let best: GroupSlot | null = null;
+  for (const slot of slots) {
+    if (slot.memberCount >= groupSize) continue;
+    if (!best || slot.memberCount > best.memberCount) best = slot;
+  }
+  return best;
+}
+
+export async function importRoster(csvData: string, options: RosterImportOptions): Promise<RosterImportReport | string> {
+  const [header, ...records] = parseCsv(csvData);
+  if (!header || records.length === 0) {
+    return 'CSV must have a header row and at least one data row';
+  }
+
+  const headings = header.fields.map((h) => h.trim().toLowerCase());
+  const column = (names: string[]) => headings.findIndex((h) => names.includes(h));
+  const emailIdx = column(COLUMNS.email);
+  const nameIdx = column(COLUMNS.name);
+  const firstNameIdx = column(COLUMNS.firstName);
+  const lastNameIdx = column(COLUMNS.lastName);
+  const groupIdx = column(COLUMNS.group);
+
+  if (emailIdx === -1 || (nameIdx === -1 && firstNameIdx === -1)) {
+    return 'CSV must have an email column and a name column (or "first name" and "last name")';
+  }
+
+  // Active groups of the course, matched by name ignoring case
+  const groups = await prisma.group.findMany({
+    where: { courseId: options.courseId, archivedAt: null },
+    select: { id: true, name: true, _count: { select: { members: true } } },
+    orderBy: { name: 'asc' },
+  });
+  const slots: GroupSlot[] = groups.map((g) => ({ id: g.id, name: g.name, memberCount: g._count.members }));
+  const slotsByName = new Map(slots.map((s) => [s.name.toLowerCase(), s]));
+  const slotIds = slots.map((s) => s.id);
+
+  const rows: RosterRowResult[] = [];
+  const seenEmails = new Set<string>();
+  const invites: { row: RosterRowResult; firstName: string; token: string }[] = [];
+  const autoQueue: { row: RosterRowResult; userId: string }[] = [];
+
+  const join = async (row: RosterRowResult, userId: string, slot: GroupSlot, placement: 'csv' | 'auto') => {
+    await prisma.$transaction([
+      prisma.groupMember.create({ data: { groupId: slot.id, userId } }),
+      // Joining an active group brings an archived student back
+      prisma.user.update({ where: { id: userId }, data: { archivedAt: null } }),
+    ]);
+    slot.memberCount++;
+    row.group = slot.name;
+    row.placement = placement;
+  };
+
+  for (const record of records) {
+    const cell = (idx: number) => (idx === -1 ? '' : (record.fields[idx] ?? '').trim());
+    const email = normalizeEmail(cell(emailIdx));
+    const { firstName, lastName } = nameIdx !== -1
+      ? splitName(cell(nameIdx))
+      : { firstName: cell(firstNameIdx), lastName: cell(lastNameIdx) };
+    const groupName = cell(groupIdx);
+
+    const row: RosterRowResult = {
+      line: record.line,
+      email,
+      name: `${firstName} ${lastName}`.trim(),
+      status: 'error',
+      group: null,
+      placement: null,
+      invited: false,
+      messages: [],
+    };
+    rows.push(row);
+
+    if (!EMAIL_PATTERN.test(email)) {
+      row.messages.push(email ? 'Invalid email address' : 'Missing email address');
+      continue;
+    }
+    if (!firstName) {
+      row.messages.push('Missing name');
+      continue;
+    }
+    if (seenEmails.has(email)) {
+      row.messages.push('Email appears earlier in the CSV');
+      continue;
+    }
+    seenEmails.add(email);
+
+    try {
+      let user = await prisma.user.findFirst({
+        where: emailWhere(email),
+        select: {
+          id: true,
+          role: true,
+          groupMemberships: {
+            where: { groupId: { in: slotIds } },
+            select: { group: { select: { name: true } } },
+          },
+        },
+      });
+
+      if (user && user.role !== 'STUDENT') {
+        const role = ROLE_NAMES[user.role];
+        row.messages.push(`${role[0].toUpperCase()}${role.slice(1)} account already uses this email`);
+        continue;
+      }
+
+      if (user) {
+        row.status = 'existing';
+      } else {
+        const token = crypto.randomBytes(32).toString('hex');
+        // Nobody knows this password; the student sets their own from the invitation
+        const password = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 12);
+        user = await prisma.user.create({
+          data: {
+            email,
+            password,
+            firstName,
+            lastName,
+            role: 'STUDENT',
+            isApproved: true,
+            passwordResetToken: token,
+            passwordResetExpires: new Date(Date.now() + INVITE_EXPIRES_DAYS * 24 * 60 * 60 * 1000),
+          },
+          select: { id: true, role: true, groupMemberships: { select: { group: { select: { name: true } } } } },
+        });
+        row.status = 'created';
+        if (options.sendInvites) invites.push({ row, firstName, token });
+      }
+
+      // A student keeps the group they already have in this course
+      const current = user.groupMemberships[0]?.group.name;
+      if (current) {
+        row.group = current;
+        row.placement = 'already';
+        if (groupName && groupName.toLowerCase() !== current.toLowerCase()) {
+          row.messages.push(`Already in ${current}; not moved to ${groupName}`);
+        }
+      } else if (groupName) {
+        const slot = slotsByName.get(groupName.toLowerCase());
+        if (slot) {
+          await join(row, user.id, slot, 'csv');
+        } else {
+          row.messages.push(`Group "${groupName}" not found`);
+        }
+      } else if (options.groupSize) {
+        autoQueue.push({ row, userId: user.id });
+      }
+    } catch (error) {
+      console.error(`Error importing roster row ${record.line}:`, error);
+      row.status = 'error';
+      row.messages.push('Failed to save this student');
+    }
+  }
+
+  // Auto-pair after the CSV placements so named groups fill first
+  for (const { row, userId } of autoQueue) {
+    const slot = pickAutoGroup(slots, options.groupSize!);
+    if (!slot) {
+      row.messages.push('No group with room left for auto-pairing');
+      continue;
+    }
+    try {
+      await join(row, userId, slot, 'auto');
+    } catch (error) {
+      console.error(`Error placing roster row ${row.line}:`, error);
+      row.messages.push('Failed to add to a group');
+    }
+  }
+
+  for (const { row, firstName, token } of invites) {
+    row.invited = await sendInvitationEmail(row.email, firstName, token, INVITE_EXPIRES_DAYS);
+    if (!row.invited) row.messages.push('Invitation email could not be sent');
+  }
+
+  return {
+    rows,
+    created: rows.filter((r) => r.status === 'created').length,
+    existing: rows.filter((r) => r.status === 'existing').length,
+    errors: rows.filter((r) => r.status === 'error').length,
+    placed: rows.filter((r) => r.placement === 'csv' || r.placement === 'auto').length,
+    invited: rows.filter((r) => r.invited).length,
+  };
+}
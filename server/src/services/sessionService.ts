@@ -0,0 +1,172 @@
+// Login sessions. A login hands out a short-lived access token (a JWT naming
+// the session) and a refresh token that is traded for a new pair before the
+// access token runs out. authenticate checks the session and the user on
+// every request, so logging a session out, deleting a user or changing their
+// role takes effect straight away rather than when the token expires.
+
+import crypto from 'crypto';
+import { Request } from 'express';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { prisma } from '../lib/prisma.js';
+import { closeUserStreams } from '../lib/events.js';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-change-me';
+const ACCESS_TOKEN_EXPIRES_IN = (process.env.ACCESS_TOKEN_EXPIRES_IN || '15m') as SignOptions['expiresIn'];
+const REFRESH_TOKEN_EXPIRES_DAYS = Number(process.env.REFRESH_TOKEN_EXPIRES_DAYS) || 30;
+
+const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+interface AccessTokenPayload {
+  userId: string;
+  sessionId: string;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function signAccessToken(userId: string, sessionId: string): string {
+  return jwt.sign({ userId, sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRES_IN });
+}
+
+// Device details shown in the session list
+function clientInfo(req: Request) {
+  return {
+    userAgent: req.headers['user-agent']?.slice(0, 500) ?? null,
+    ipAddress: req.ip ?? null,
+  };
+}
+
+// Throws when the token is malformed, forged or expired
+export function verifyAccessToken(token: string): AccessTokenPayload {
+  const decoded = jwt.verify(token, JWT_SECRET) as Partial<AccessTokenPayload>;
+  if (!decoded.userId || !decoded.sessionId) {
+    throw new Error('Token has no session');
+  }
+  return { userId: decoded.userId, sessionId: decoded.sessionId };
+}
+
+export async function createSession(userId: string, req: Request): Promise<SessionTokens> {
+  const refreshToken = crypto.randomBytes(32).toString('hex');
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      expiresAt: refreshExpiry(),
+      ...clientInfo(req),
+    },
+  });
+  return { token: signAccessToken(userId, session.id), refreshToken };
+}
+
+// Swaps a refresh token for a new pair. Returns null when the token is
+// unknown, already used, or its session has ended.
+export async function refreshSession(refreshToken: string, req: Request): Promise<SessionTokens | null> {
+  const tokenHash = hashToken(refreshToken);
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash: tokenHash },
+    include: { user: { select: { isApproved: true } } },
+  });
+  if (!session || session.revokedAt || session.expiresAt <= new Date() || !session.user.isApproved) {
+    return null;
+  }
+
+  const nextRefreshToken = crypto.randomBytes(32).toString('hex');
+  // Conditional so two tabs refreshing with the same token can't both win
+  const rotated = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(nextRefreshToken),
+      lastUsedAt: new Date(),
+      expiresAt: refreshExpiry(),
+      ...clientInfo(req),
+    },
+  });
+  if (rotated.count === 0) return null;
+
+  return { token: signAccessToken(session.userId, session.id), refreshToken: nextRefreshToken };
+}
+
+// The session behind an access token with the user's current role, or null
+// when it has been logged out, has expired, or the user may no longer log in
+export async function findActiveSession(sessionId: string) {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: {
+      id: true,
+      userId: true,
+      expiresAt: true,
+      revokedAt: true,
+      user: { select: { role: true, isApproved: true } },
+    },
+  });
+  if (!session || session.revokedAt || session.expiresAt <= new Date() || !session.user.isApproved) {
+    return null;
+  }
+  return session;
+}
+
+// The user's sessions that can still be used, most recently active first
+export function listSessions(userId: string) {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+}
+
+// Returns whether a session of this user was logged out
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const result = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  closeUserStreams(userId, { sessionId });
+  return result.count > 0;
+}
+
+// Logs the user out everywhere, optionally keeping one session
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const result = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date() },
+  });
+  closeUserStreams(userId, { exceptSessionId });
+  return result.count;
+}
+
+// Deletes expired and logged-out sessions once a day
+export function startSessionCleanupScheduler() {
+  const run = async () => {
+    try {
+      await prisma.session.deleteMany({
+        where: { OR: [{ expiresAt: { lte: new Date() } }, { revokedAt: { not: null } }] },
+      });
+    } catch (error) {
+      console.error('Error deleting stale sessions:', error);
+    }
+  };
+
+  run();
+  setInterval(run, CLEANUP_INTERVAL_MS);
+}
@@ -0,0 +1,226 @@
+// Term archival, the non-destructive alternative to the nuclear reset.
+// Archived groups and students stay in the database but are read-only and
+// left off active dashboards, and their files move to cold storage.
+// Instructors can still search and open them. Archived groups are purged
+// for good once they are ARCHIVE_RETENTION_DAYS old, or when an admin asks.
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { moveToColdStorage, removeUpload } from '../lib/storage.js';
+
+// Unset = archived groups are kept until an admin purges them. Anything but a
+// positive whole number is ignored the same way, so a typo can't purge
+// every archived group.
+function readRetentionDays(value: string | undefined): number | null {
+  if (!value) return null;
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1) {
+    console.error(`Ignoring ARCHIVE_RETENTION_DAYS="${value}": expected a positive whole number of days`);
+    return null;
+  }
+  return days;
+}
+
+const ARCHIVE_RETENTION_DAYS = readRetentionDays(process.env.ARCHIVE_RETENTION_DAYS);
+
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export const ARCHIVED_GROUP_ERROR = 'This group is archived and read-only';
+
+export interface ArchivalCounts {
+  groups: number;
+  students: number;
+  files: number;
+}
+
+export interface ArchivalStatus {
+  archivedGroups: number;
+  archivedStudents: number;
+  oldestArchivedAt: Date | null;
+  retentionDays: number | null;
+  purgeDue: number; // Archived groups past the retention period
+}
+
+// Active groups of a term, or every active group when termId is null
+function activeGroupScope(termId: string | null): Prisma.GroupWhereInput {
+  return termId ? { archivedAt: null, course: { termId } } : { archivedAt: null };
+}
+
+// Students left without an active group once groupIds are archived. Archiving
+// everything also takes students who were never put in a group.
+async function studentsToArchive(groupIds: string[], everyone: boolean): Promise<string[]> {
+  const students = await prisma.user.findMany({
+    where: {
+      role: 'STUDENT',
+      archivedAt: null,
+      groupMemberships: {
+        ...(!everyone && { some: { groupId: { in: groupIds } } }),
+        none: { groupId: { notIn: groupIds }, group: { archivedAt: null } },
+      },
+    },
+    select: { id: true },
+  });
+  return students.map((s) => s.id);
+}
+
+// Stored file names of the groups' models and literature
+async function groupFiles(groupIds: string[]): Promise<{ models: string[]; literature: string[] }> {
+  const [submissions, versions, literature] = await Promise.all([
+    prisma.submission.findMany({ where: { groupId: { in: groupIds } }, select: { filePath: true } }),
+    prisma.submissionVersion.findMany({
+      where: { submission: { groupId: { in: groupIds } } },
+      select: { filePath: true },
+    }),
+    prisma.literature.findMany({ where: { groupId: { in: groupIds } }, select: { filePath: true } }),
+  ]);
+
+  // A submission's file is also its latest version's
+  const models = new Set([...submissions, ...versions].map((f) => f.filePath));
+  return { models: [...models], literature: literature.map((l) => l.filePath) };
+}
+
+export async function previewArchival(termId: string | null): Promise<ArchivalCounts> {
+  const groups = await prisma.group.findMany({ where: activeGroupScope(termId), select: { id: true } });
+  const groupIds = groups.map((g) => g.id);
+  const [students, files] = await Promise.all([
+    studentsToArchive(groupIds, termId === null),
+    groupFiles(groupIds),
+  ]);
+  return {
+    groups: groupIds.length,
+    students: students.length,
+    files: files.models.length + files.literature.length,
+  };
+}
+
+// Archive a term's groups (or every active group) and the students left
+// without an active group. Returns what was archived; files counts the files
+// moved to cold storage.
+export async function archiveGroups(termId: string | null): Promise<ArchivalCounts> {
+  const groups = await prisma.group.findMany({ where: activeGroupScope(termId), select: { id: true } });
+  const groupIds = groups.map((g) => g.id);
+  const studentIds = await studentsToArchive(groupIds, termId === null);
+  const archivedAt = new Date();
+
+  await prisma.$transaction(async (tx) => {
+    await tx.group.updateMany({ where: { id: { in: groupIds } }, data: { archivedAt } });
+    await tx.user.updateMany({ where: { id: { in: studentIds } }, data: { archivedAt } });
+    await tx.term.updateMany({
+      where: termId ? { id: termId } : { archivedAt: null },
+      data: { archivedAt },
+    });
+  });
+
+  // Files move after the commit; anything that fails to move is still
+  // served from hot storage
+  const files = await groupFiles(groupIds);
+  let moved = 0;
+  for (const [kind, paths] of [['models', files.models], ['literature', files.literature]] as const) {
+    for (const filePath of paths) {
+      try {
+        if (moveToColdStorage(kind, filePath)) moved++;
+      } catch (error) {
+        console.error(`Failed to move ${kind} file ${filePath} to cold storage:`, error);
+      }
+    }
+  }
+
+  return { groups: groupIds.length, students: studentIds.length, files: moved };
+}
+
+// Delete groups archived before the cutoff, their files, and archived
+// students with no other group left
+export async function purgeArchivedGroups(before: Date): Promise<ArchivalCounts> {
+  const groups = await prisma.group.findMany({
+    where: { archivedAt: { lt: before } },
+    select: { id: true },
+  });
+  const groupIds = groups.map((g) => g.id);
+  const files = await groupFiles(groupIds);
+
+  // Students whose only groups are these. Anyone with rows left in another
+  // group (one they moved out of, say) is kept: those relations don't
+  // cascade, so deleting the student would fail the whole purge.
+  const inPurged = { groupId: { in: groupIds } };
+  const students = await prisma.user.findMany({
+    where: {
+      role: 'STUDENT',
+      archivedAt: { lt: before },
+      groupMemberships: { some: inPurged, every: inPurged },
+      submissions: { every: inPurged },
+      submissionVersions: { every: { submission: inPurged } },
+      messages: { every: inPurged },
+      literature: { every: inPurged },
+      rubricScores: { every: { submission: inPurged } },
+      deadlineExtensions: { every: inPurged },
+    },
+    select: { id: true },
+  });
+  const studentIds = students.map((s) => s.id);
+
+  await prisma.$transaction(async (tx) => {
+    // Cascade handles submissions, messages, literature and memberships
+    await tx.group.deleteMany({ where: { id: { in: groupIds } } });
+    await tx.user.deleteMany({ where: { id: { in: studentIds } } });
+  });
+
+  let removed = 0;
+  for (const [kind, paths] of [['models', files.models], ['literature', files.literature]] as const) {
+    for (const filePath of paths) {
+      try {
+        if (removeUpload(kind, filePath)) removed++;
+      } catch (error) {
+        console.error(`Failed to delete ${kind} file ${filePath}:`, error);
+      }
+    }
+  }
+
+  return { groups: groupIds.length, students: studentIds.length, files: removed };
+}
+
+// Groups archived before this are due for purging, or null without a retention period
+function retentionCutoff(now = new Date()): Date | null {
+  if (ARCHIVE_RETENTION_DAYS === null) return null;
+  return new Date(now.getTime() - ARCHIVE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export async function getArchivalStatus(): Promise<ArchivalStatus> {
+  const cutoff = retentionCutoff();
+  const [archivedGroups, archivedStudents, oldest, purgeDue] = await Promise.all([
+    prisma.group.count({ where: { archivedAt: { not: null } } }),
+    prisma.user.count({ where: { role: 'STUDENT', archivedAt: { not: null } } }),
+    prisma.group.findFirst({
+      where: { archivedAt: { not: null } },
+      orderBy: { archivedAt: 'asc' },
+      select: { archivedAt: true },
+    }),
+    cutoff ? prisma.group.count({ where: { archivedAt: { lt: cutoff } } }) : Promise.resolve(0),
+  ]);
+
+  return {
+    archivedGroups,
+    archivedStudents,
+    oldestArchivedAt: oldest?.archivedAt ?? null,
+    retentionDays: ARCHIVE_RETENTION_DAYS,
+    purgeDue,
+  };
+}
+
+// Purges archived groups past the retention period once a day
+export function startArchivePurgeScheduler() {
+  if (ARCHIVE_RETENTION_DAYS === null) return;
+
+  const run = async () => {
+    try {
+      const purged = await purgeArchivedGroups(retentionCutoff()!);
+      if (purged.groups > 0 || purged.students > 0) {
+        console.log(`Purged ${purged.groups} archived groups, ${purged.students} students and ${purged.files} files past the ${ARCHIVE_RETENTION_DAYS}-day retention period`);
+      }
+    } catch (error) {
+      console.error('Error purging archived groups:', error);
+    }
+  };
+
+  run();
+  setInterval(run, PURGE_INTERVAL_MS);
+}
@@ -0,0 +1,162 @@
+// 3D viewer setup - admins write preset scripts per model template (e.g. an
+// active-site highlight) and anyone who can see a submission can save named
+// camera views on it. Presets are trusted admin scripts that run as written;
+// the only check is that no statement starts with a command that would
+// replace the loaded model or write files, to catch mistakes. Jmol scripts
+// can reach those through blocks, functions and expressions, so this is not
+// a sandbox.
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma.js';
+import { AnnotationOrientation, parseOrientation } from './annotationService.js';
+
+const MAX_PRESETS = 20;
+const MAX_SCRIPT_LENGTH = 5000;
+const MAX_NAME_LENGTH = 80;
+
+const BLOCKED_COMMANDS = ['javascript', 'load', 'zap', 'script', 'source', 'write'];
+
+export interface ViewerPresetInput {
+  id?: string;
+  name: string;
+  description?: string | null;
+  script: string;
+}
+
+export interface SavedViewInput {
+  name: string;
+  orientation: AnnotationOrientation;
+}
+
+// ============================================
+// PRESETS
+// ============================================
+
+export async function getViewerPresets(modelTemplateId: string) {
+  return prisma.viewerPreset.findMany({
+    where: { modelTemplateId },
+    orderBy: { orderIndex: 'asc' },
+  });
+}
+
+// Returns the first blocked command a statement of the script starts with, if any
+function blockedCommand(script: string): string | null {
+  const statements = script.split(/[;\n]/).map((s) => s.trim()).filter(Boolean);
+  for (const statement of statements) {
+    const command = statement.split(/\s+/)[0].toLowerCase();
+    if (BLOCKED_COMMANDS.includes(command)) return command;
+  }
+  return null;
+}
+
+// Returns an error message, or null if the presets can be saved
+export function validateViewerPresets(presets: unknown): string | null {
+  if (!Array.isArray(presets)) return 'presets must be an array';
+  if (presets.length > MAX_PRESETS) return `A template can have at most ${MAX_PRESETS} presets`;
+
+  for (const [i, preset] of presets.entries()) {
+    const label = `Preset ${i + 1}`;
+    if (typeof preset?.name !== 'string' || !preset.name.trim()) {
+      return `${label} needs a name`;
+    }
+    if (preset.name.trim().length > MAX_NAME_LENGTH) {
+      return `${label} name must be at most ${MAX_NAME_LENGTH} characters`;
+    }
+    if (preset.id !== undefined && typeof preset.id !== 'string') {
+      return `${label} has an invalid id`;
+    }
+    if (preset.description !== undefined && preset.description !== null && typeof preset.description !== 'string') {
+      return `${label} description must be text`;
+    }
+    if (typeof preset.script !== 'string' || !preset.script.trim()) {
+      return `${label} needs a script`;
+    }
+    if (preset.script.length > MAX_SCRIPT_LENGTH) {
+      return `${label} script must be at most ${MAX_SCRIPT_LENGTH} characters`;
+    }
+    const command = blockedCommand(preset.script);
+    if (command) {
+      return `${label} can't use the "${command}" command; presets restyle the model that is already loaded`;
+    }
+  }
+
+  return null;
+}
+
+// Replaces the template's presets with the given ones, in that order
+export async function replaceViewerPresets(modelTemplateId: string, presets: ViewerPresetInput[]) {
+  await prisma.$transaction(async (tx) => {
+    const existing = await tx.viewerPreset.findMany({ where: { modelTemplateId } });
+
+    const keptIds = presets.map((p) => p.id).filter((id) => existing.some((e) => e.id === id));
+    await tx.viewerPreset.deleteMany({
+      where: { modelTemplateId, id: { notIn: keptIds as string[] } },
+    });
+
+    for (const [orderIndex, input] of presets.entries()) {
+      const data = {
+        name: input.name.trim(),
+        description: input.description?.trim() || null,
+        script: input.script.trim(),
+        orderIndex,
+      };
+      if (input.id && keptIds.includes(input.id)) {
+        await tx.viewerPreset.update({ where: { id: input.id }, data });
+      } else {
+        await tx.viewerPreset.create({ data: { ...data, modelTemplateId } });
+      }
+    }
+  });
+
+  return getViewerPresets(modelTemplateId);
+}
+
+// ============================================
+// SAVED VIEWS
+// ============================================
+
+export async function getSavedViews(submissionId: string) {
+  return prisma.savedView.findMany({
+    where: { submissionId },
+    orderBy: { createdAt: 'asc' },
+    include: {
+      createdBy: {
+        select: { id: true, firstName: true, lastName: true },
+      },
+    },
+  });
+}
+
+// Checks a view sent by the viewer
+export function parseSavedView(input: unknown): SavedViewInput | string {
+  const view = (input ?? {}) as Record<string, unknown>;
+
+  if (typeof view.name !== 'string' || !view.name.trim()) {
+    return 'View name is required';
+  }
+  if (view.name.trim().length > MAX_NAME_LENGTH) {
+    return `View name must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+
+  const orientation = parseOrientation(view.orientation);
+  if (typeof orientation === 'string') return orientation;
+  if (!orientation) return 'Camera orientation is required';
+
+  return { name: view.name.trim(), orientation };
+}
+
+export async function createSavedView(submissionId: string, createdById: string, view: SavedViewInput) {
+  return prisma.savedView.create({
+    data: {
+      submissionId,
+      createdById,
+      name: view.name,
+      orientation: view.orientation as Prisma.InputJsonValue,
+    },
+    include: {
+      createdBy: {
+        select: { id: true, firstName: true, lastName: true },
+      },
+    },
+  });
+}